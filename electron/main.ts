@@ -1,11 +1,36 @@
 import { app, BrowserWindow, ipcMain, dialog, shell, session, protocol, net } from 'electron'
-import { join } from 'path'
+import { join, extname } from 'path'
 import { pathToFileURL } from 'url'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import { ProjectStore } from './services/projectStore'
 import { PassEngine, PassRegistry, contentToPlainText } from './services/passEngine'
-import { FormattingPass, SpellingGrammarPass, CitationPass } from './services/passes'
+import { FormattingPass, SpellingGrammarPass, CitationPass, ScreenplayPass, ContinuityPass, FactCheckPass, registerRulePacks } from './services/passes'
+import { loadRulePacks, ensureRulePacksDir } from './services/rulePacks'
+import { getSpellChecker } from './services/spellChecker'
+import { loadSuppressions, saveSuppressions } from './services/suppressions'
+import { getProjectSearchIndex } from './services/projectSearchIndex'
+import { writeJournalEntry, discardJournalEntry, findRecoverableDocuments } from './services/documentJournal'
+import {
+  getGitStatus,
+  initRepository,
+  commitChanges,
+  commitVersionSave,
+  getDocumentHistory,
+  getDocumentAtCommit,
+  blameDocument,
+  setRemote,
+  syncWithRemote
+} from './services/gitHistory'
+import { watchProject, unwatchProject } from './services/projectWatcher'
+import { exportAnimatic } from './services/animaticExport'
+import { exportStoryboardSheets } from './services/storyboardSheets'
+import { exportShotListCsv } from './services/shotListExport'
+import { loadDrafts, createDraft, switchDraft, markDraftMerged, renameDraft, deleteDraft } from './services/documentDrafts'
+import { ExportEngine, ExporterRegistry } from './services/exportEngine'
+import { SCRIPT_FILE_EXTENSIONS } from './services/screenplayFormats'
+import { HtmlExporter, PdfExporter, DocxExporter, ScreenplayPdfExporter, FountainExporter, FdxExporter } from './services/exporters'
 import { getImageGenerationService, type ImageGenOptions, type ImageGenSettings } from './services/imageGenerationService'
+import { getAIProviderService, type AIProviderSettings } from './services/aiProvider'
 import { getAISuggestionsService, type DocumentContent as AIDocumentContent } from './services/aiSuggestionsService'
 import { getDocumentGenerationService, type ScriptContext, type SupplementaryDocument, type CharacterDocOutput, type PropDocOutput, type LocationDocOutput, type ActBreakDocOutput } from './services/documentGenerationService'
 import { getDramaticCritiqueService, type EntityDoc } from './services/dramaticCritiqueService'
@@ -18,29 +43,50 @@ import { WorkspaceStateService } from './services/workspaceStateService'
 import type { ThoughtPartnerRequest, ThoughtPartnerSuggestionsRequest, ThoughtPartnerConversationData, ConversationIndex, SuggestionsCache } from '../shared/thoughtPartnerTypes'
 import type { AIWritingRequest as SharedAIWritingRequest } from '../shared/aiWritingTypes'
 import type { StoryFacts } from './services/dramaticCritiqueService'
-import type { Project, BuildResult } from '../src/types/project'
+import type { Project, BuildResult, RulePackLoadResult, ProjectSuppressions, AnimaticOptions, StoryboardSheetOptions, ShotListSort } from '../src/types/project'
 import type { JSONContent } from '@tiptap/core'
 
 let mainWindow: BrowserWindow | null = null
 let projectStore: ProjectStore
 let passEngine: PassEngine
+let passRegistry: PassRegistry
+let exportEngine: ExportEngine
 let workspaceStateService: WorkspaceStateService
 
 // Initialize Pass Engine with all passes
 function initializePassEngine(): PassEngine {
   const registry = new PassRegistry()
   
-  // Register all local passes
+  // Register all local passes; rule packs are registered per build
   registry.register(new FormattingPass())
   registry.register(new SpellingGrammarPass())
   registry.register(new CitationPass())
+  registry.register(new ScreenplayPass())
+  registry.register(new ContinuityPass())
+  registry.register(new FactCheckPass())
   
+  passRegistry = registry
   return new PassEngine(registry)
 }
 
+// Initialize Export Engine with all exporters
+function initializeExportEngine(): ExportEngine {
+  const registry = new ExporterRegistry()
+
+  registry.register(new HtmlExporter())
+  registry.register(new PdfExporter())
+  registry.register(new DocxExporter())
+  registry.register(new ScreenplayPdfExporter())
+  registry.register(new FountainExporter())
+  registry.register(new FdxExporter())
+
+  return new ExportEngine(registry)
+}
+
 try {
   projectStore = new ProjectStore()
   passEngine = initializePassEngine()
+  exportEngine = initializeExportEngine()
   workspaceStateService = new WorkspaceStateService()
 } catch (error) {
   console.error('Failed to initialize services:', error)
@@ -159,7 +205,12 @@ function setupIpcHandlers(): void {
     return projectStore.openProject(projectPath)
   })
 
-  ipcMain.handle('project:import', async (_, sourcePath, destinationBasePath) => {
+  ipcMain.handle('project:import', async (_, sourcePath, destinationBasePath, template) => {
+    // Fountain / Final Draft files become a new screenplay project
+    const extension = extname(sourcePath).slice(1).toLowerCase()
+    if (template && SCRIPT_FILE_EXTENSIONS.includes(extension)) {
+      return projectStore.importScript(sourcePath, destinationBasePath, template)
+    }
     return projectStore.importProject(sourcePath, destinationBasePath)
   })
 
@@ -229,6 +280,30 @@ function setupIpcHandlers(): void {
     return projectStore.deleteDocument(projectPath, docId)
   })
 
+  // Document journal (unsaved editor states, recovered on open)
+  ipcMain.handle('journal:write', async (_, projectPath: string, docId: string, content: JSONContent) => {
+    return writeJournalEntry(projectPath, docId, content)
+  })
+
+  ipcMain.handle('journal:recover', async (_, projectPath: string) => {
+    return findRecoverableDocuments(await projectStore.openProject(projectPath))
+  })
+
+  ipcMain.handle('journal:discard', async (_, projectPath: string, docId: string) => {
+    return discardJournalEntry(projectPath, docId)
+  })
+
+  // Watch the open project for changes made outside the app
+  ipcMain.handle('watcher:start', async (_, projectPath: string) => {
+    return watchProject(projectPath, change => {
+      mainWindow?.webContents.send('watcher:change', change)
+    })
+  })
+
+  ipcMain.handle('watcher:stop', async () => {
+    unwatchProject()
+  })
+
   // Asset operations
   ipcMain.handle('asset:upload', async (_, projectPath, filePath, fileName) => {
     return projectStore.uploadAsset(projectPath, filePath, fileName)
@@ -246,6 +321,20 @@ function setupIpcHandlers(): void {
     return projectStore.getAssetPath(projectPath, assetId)
   })
 
+  // Open an asset in the system viewer (links in the browser)
+  ipcMain.handle('asset:open', async (_, projectPath: string, assetId: string) => {
+    const project = await projectStore.openProject(projectPath)
+    const asset = project.assets.find(a => a.id === assetId)
+    if (!asset) throw new Error(`Asset ${assetId} not found`)
+
+    if (asset.type === 'link') {
+      await shell.openExternal(asset.path)
+      return
+    }
+    const error = await shell.openPath(join(projectPath, asset.path))
+    if (error) throw new Error(error)
+  })
+
   ipcMain.handle('asset:updateReferences', async (_, projectPath, assetId, references) => {
     return projectStore.updateAssetReferences(projectPath, assetId, references)
   })
@@ -272,7 +361,12 @@ function setupIpcHandlers(): void {
 
   // Version history operations
   ipcMain.handle('version:save', async (_, projectPath, docId, content, label) => {
-    return projectStore.saveVersion(projectPath, docId, content, label)
+    const version = await projectStore.saveVersion(projectPath, docId, content, label)
+    // Projects with git history get a commit per saved version
+    await commitVersionSave(await projectStore.loadProject(projectPath), docId, label).catch(error => {
+      console.error('[Git] Failed to commit version:', error)
+    })
+    return version
   })
 
   ipcMain.handle('version:load', async (_, projectPath, docId) => {
@@ -283,6 +377,68 @@ function setupIpcHandlers(): void {
     return projectStore.deleteVersion(projectPath, docId, versionId)
   })
 
+  ipcMain.handle('version:label', async (_, projectPath, docId, versionId, label, milestone) => {
+    return projectStore.labelVersion(projectPath, docId, versionId, label, milestone)
+  })
+
+  // Git-backed project history
+  ipcMain.handle('git:status', async (_, projectPath: string) => {
+    return getGitStatus(projectPath)
+  })
+
+  ipcMain.handle('git:init', async (_, projectPath: string) => {
+    return initRepository(projectPath)
+  })
+
+  ipcMain.handle('git:commit', async (_, projectPath: string, message: string) => {
+    return commitChanges(projectPath, message)
+  })
+
+  ipcMain.handle('git:log', async (_, projectPath: string, docId: string) => {
+    return getDocumentHistory(await projectStore.loadProject(projectPath), docId)
+  })
+
+  ipcMain.handle('git:show', async (_, projectPath: string, docId: string, hash: string) => {
+    return getDocumentAtCommit(await projectStore.loadProject(projectPath), docId, hash)
+  })
+
+  ipcMain.handle('git:blame', async (_, projectPath: string, docId: string) => {
+    return blameDocument(await projectStore.loadProject(projectPath), docId)
+  })
+
+  ipcMain.handle('git:setRemote', async (_, projectPath: string, remotePath: string) => {
+    return setRemote(projectPath, remotePath)
+  })
+
+  ipcMain.handle('git:sync', async (_, projectPath: string) => {
+    return syncWithRemote(projectPath)
+  })
+
+  // Alternate drafts of a document
+  ipcMain.handle('drafts:load', async (_, projectPath: string, docId: string) => {
+    return loadDrafts(projectPath, docId)
+  })
+
+  ipcMain.handle('drafts:create', async (_, projectPath: string, docId: string, name: string, content: JSONContent) => {
+    return createDraft(projectPath, docId, name, content)
+  })
+
+  ipcMain.handle('drafts:switch', async (_, projectPath: string, docId: string, branchId: string, content: JSONContent) => {
+    return switchDraft(projectPath, docId, branchId, content)
+  })
+
+  ipcMain.handle('drafts:markMerged', async (_, projectPath: string, docId: string, branchId: string) => {
+    return markDraftMerged(projectPath, docId, branchId)
+  })
+
+  ipcMain.handle('drafts:rename', async (_, projectPath: string, docId: string, draftId: string, name: string) => {
+    return renameDraft(projectPath, docId, draftId, name)
+  })
+
+  ipcMain.handle('drafts:delete', async (_, projectPath: string, docId: string, branchId: string) => {
+    return deleteDraft(projectPath, docId, branchId)
+  })
+
   // Agenda operations
   ipcMain.handle('agenda:getAgendaItems', async () => {
     return projectStore.getAgendaItems()
@@ -338,6 +494,15 @@ function setupIpcHandlers(): void {
     }
   })
 
+  // Keymap operations
+  ipcMain.handle('keymap:get', async () => {
+    return projectStore.getKeymap()
+  })
+
+  ipcMain.handle('keymap:set', async (_, keymap: Record<string, string | null>) => {
+    projectStore.setKeymap(keymap)
+  })
+
   // Panel width operations
   ipcMain.handle('panelWidths:get', async () => {
     return projectStore.getPanelWidths()
@@ -413,6 +578,19 @@ function setupIpcHandlers(): void {
     return service.buildPrompt(selectedText, contextSection, promptTemplate)
   })
 
+  // AI provider settings
+  ipcMain.handle('aiProvider:getSettings', async () => {
+    return getAIProviderService().getSettings()
+  })
+
+  ipcMain.handle('aiProvider:setSettings', async (_, settings: Partial<AIProviderSettings>) => {
+    getAIProviderService().setSettings(settings)
+  })
+
+  ipcMain.handle('aiProvider:isConfigured', async () => {
+    return getAIProviderService().isConfigured()
+  })
+
   // AI Suggestions operations
   ipcMain.handle('aiSuggestions:generate', async (_, documents: AIDocumentContent[]) => {
     console.log('[Main] AI suggestions requested for', documents.length, 'documents')
@@ -736,7 +914,7 @@ function setupIpcHandlers(): void {
   })
 
   // Build operations
-  ipcMain.handle('build:run', async (_, project: Project, documentContents: Record<string, JSONContent>): Promise<BuildResult> => {
+  ipcMain.handle('build:run', async (event, project: Project, documentContents: Record<string, JSONContent>): Promise<BuildResult> => {
     console.log('[Main] Running build for project:', project.name)
     
     try {
@@ -754,16 +932,35 @@ function setupIpcHandlers(): void {
           }
         })
 
-      // Run the build
+      // Pick up rule pack edits since the last build
+      await registerRulePacks(passRegistry, project.path)
+
+      // Run the build, streaming diagnostics as each pass run finishes
       const result = await passEngine.runBuild({
         project,
         documents,
         settings: project.settings
+      }, progress => {
+        if (!event.sender.isDestroyed()) event.sender.send('build:progress', progress)
       })
 
+      // Render artifacts for the primary build profile when its inputs changed
+      const profile = project.buildProfiles?.[0]
+      if (profile && profile.exportFormats.length > 0) {
+        const exportStart = Date.now()
+        const exportResult = await exportEngine.exportProfileIfChanged(project, profile, documents)
+        result.artifacts = exportResult.artifacts
+        if (exportResult.diagnostics.length > 0) {
+          result.diagnostics.unshift(...exportResult.diagnostics)
+          result.success = false
+        }
+        result.totalTiming += Date.now() - exportStart
+      }
+
       console.log('[Main] Build complete:', {
         success: result.success,
         diagnosticCount: result.diagnostics.length,
+        artifactCount: result.artifacts?.length ?? 0,
         timing: result.totalTiming
       })
 
@@ -785,6 +982,63 @@ function setupIpcHandlers(): void {
       }
     }
   })
+
+  // Animatic export
+  ipcMain.handle('animatic:export', async (_, project: Project, documentContents: Record<string, JSONContent>, options: AnimaticOptions) => {
+    return exportAnimatic(project, documentContents, options)
+  })
+
+  ipcMain.handle('animatic:reveal', async (_, path: string) => {
+    shell.showItemInFolder(path)
+  })
+
+  // Storyboard sheets
+  ipcMain.handle('storyboard:exportSheets', async (_, project: Project, documentContents: Record<string, JSONContent>, options: StoryboardSheetOptions) => {
+    return exportStoryboardSheets(project, documentContents, options)
+  })
+
+  // Shot list
+  ipcMain.handle('shotList:exportCsv', async (_, project: Project, documentContents: Record<string, JSONContent>, sort: ShotListSort) => {
+    return exportShotListCsv(project, documentContents, sort)
+  })
+
+  // Rule packs
+  ipcMain.handle('rulePacks:list', async (_, projectPath: string): Promise<RulePackLoadResult> => {
+    return loadRulePacks(projectPath)
+  })
+
+  ipcMain.handle('rulePacks:openFolder', async (_, projectPath: string) => {
+    const dir = await ensureRulePacksDir(projectPath)
+    const error = await shell.openPath(dir)
+    if (error) throw new Error(error)
+  })
+
+  // Spelling dictionaries
+  ipcMain.handle('spelling:getUserDictionary', () => {
+    return getSpellChecker().getUserDictionary()
+  })
+
+  ipcMain.handle('spelling:addUserWord', (_, word: string) => {
+    return getSpellChecker().addUserWord(word)
+  })
+
+  ipcMain.handle('spelling:removeUserWord', (_, word: string) => {
+    return getSpellChecker().removeUserWord(word)
+  })
+
+  // Diagnostic suppressions
+  ipcMain.handle('suppressions:load', async (_, projectPath: string) => {
+    return loadSuppressions(projectPath)
+  })
+
+  ipcMain.handle('suppressions:save', async (_, projectPath: string, suppressions: ProjectSuppressions) => {
+    return saveSuppressions(projectPath, suppressions)
+  })
+
+  // Project search
+  ipcMain.handle('search:query', async (_, projectPath: string, query: string, limit?: number) => {
+    return getProjectSearchIndex().search(projectPath, query, limit)
+  })
 }
 
 // Register custom protocol scheme for serving local assets
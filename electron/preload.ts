@@ -78,9 +78,11 @@ interface Diagnostic {
   title: string
   message: string
   documentId: string
+  blockId?: string
   range?: { from: number; to: number }
   suggestions?: Array<{ label: string; replacement?: string; action?: string }>
   source?: string
+  sourcePassage?: { text: string; assetId?: string; documentId?: string; blockId?: string; page?: number }
 }
 
 interface PassResult {
@@ -98,6 +100,139 @@ interface BuildResult {
   artifacts?: unknown[]
 }
 
+interface BuildProgress {
+  passId: string
+  completed: number
+  total: number
+  cached: number
+  diagnostics: Diagnostic[]
+}
+
+// Rule pack types (rules are passed through untyped)
+interface RulePack {
+  id: string
+  name: string
+  description?: string
+  rules: unknown[]
+}
+
+interface RulePackLoadResult {
+  packs: RulePack[]
+  errors: { id: string; message: string }[]
+}
+
+// Suppression types (suppressions are passed through untyped)
+interface ProjectSuppressions {
+  suppressions: unknown[]
+  baseline?: { createdAt: string; fingerprints: string[] }
+}
+
+// Project search result (mirrors SearchResult in src/types/project)
+interface SearchResult {
+  kind: 'document' | 'version' | 'conversation'
+  documentId?: string
+  blockId?: string
+  versionId?: string
+  conversationId?: string
+  messageId?: string
+  title: string
+  subtitle?: string
+  text: string
+  score: number
+}
+
+// Journaled editor state offered back on open (mirrors RecoverableDocument in src/types/project)
+interface RecoverableDocument {
+  documentId: string
+  title: string
+  content: unknown // JSONContent
+  journaledAt: string
+}
+
+// A change to the open project's files made outside the app (mirrors ExternalChange in src/types/project)
+type ExternalChange =
+  | { kind: 'project'; project: Project }
+  | { kind: 'document'; documentId: string; content: unknown } // JSONContent
+
+// Animatic export types (mirror src/types/project)
+type AnimaticFormat = 'mp4' | 'webm' | 'frames'
+
+interface AnimaticOptions {
+  format: AnimaticFormat
+  captions: boolean
+  slates: boolean
+}
+
+interface AnimaticResult {
+  format: AnimaticFormat
+  path: string
+  size: number
+  frameCount: number
+  durationMs: number
+}
+
+// Storyboard sheet types (mirror src/types/project)
+interface StoryboardSheetOptions {
+  layout: '2x3' | '3x4'
+}
+
+interface StoryboardSheetResult {
+  path: string
+  size: number
+  pageCount: number
+}
+
+// Shot list types (mirror src/types/project)
+interface ShotListSort {
+  key: 'number' | 'scene' | 'setup' | 'size' | 'angle' | 'movement' | 'lens' | 'setupMinutes'
+  direction: 'asc' | 'desc'
+}
+
+interface ShotListCsvResult {
+  path: string
+  size: number
+  rowCount: number
+}
+
+// Git history types
+interface GitStatus {
+  available: boolean
+  initialized: boolean
+  branch: string | null
+  remote: string | null
+  uncommitted: number
+}
+
+interface GitCommit {
+  hash: string
+  author: string
+  date: string
+  message: string
+}
+
+interface BlockBlame {
+  blockId: string
+  commit: GitCommit | null
+}
+
+interface GitSyncResult {
+  pulled: number
+  pushed: number
+}
+
+// Drafts types
+interface DraftInfo {
+  id: string
+  name: string
+  baseVersionId: string | null
+}
+
+interface DocumentDrafts {
+  documentId: string
+  current: DraftInfo
+  branches: (DraftInfo & { content: unknown; updatedAt: string })[]
+}
+
 // Version history type
 interface DocumentVersion {
   id: string
@@ -106,6 +241,8 @@ interface DocumentVersion {
   label?: string
   content: unknown // JSONContent
   wordCount: number
+  auto?: boolean
+  milestone?: boolean
 }
 
 // Living document types
@@ -156,6 +293,17 @@ interface ImageGenSettings {
   useReferenceImages: boolean
 }
 
+// AI provider types
+type AIFeature = 'writing' | 'thoughtPartner' | 'patcher' | 'critique' | 'documentGeneration' | 'suggestions'
+
+interface AIProviderSettings {
+  provider: 'openai' | 'mock'
+  baseUrl: string
+  models: Record<AIFeature, string>
+  timeoutMs: number
+  maxRetries: number
+}
+
 interface ImageGenOptions {
   style: ImageStyle
   size: ImageSize
@@ -595,8 +743,8 @@ const api = {
     open: (projectPath: string): Promise<Project> =>
       ipcRenderer.invoke('project:open', projectPath),
 
-    import: (sourcePath: string, destinationBasePath: string): Promise<Project> =>
-      ipcRenderer.invoke('project:import', sourcePath, destinationBasePath),
+    import: (sourcePath: string, destinationBasePath: string, template?: Template): Promise<Project> =>
+      ipcRenderer.invoke('project:import', sourcePath, destinationBasePath, template),
 
     export: (projectPath: string, destinationBasePath: string): Promise<string> =>
       ipcRenderer.invoke('project:export', projectPath, destinationBasePath),
@@ -635,7 +783,7 @@ const api = {
     create: (projectPath: string, doc: Omit<ProjectDocument, 'createdAt' | 'updatedAt'>, templateId?: string, screenplayDocType?: 'title-page' | 'page' | 'break'): Promise<ProjectDocument> =>
       ipcRenderer.invoke('document:create', projectPath, doc, templateId, screenplayDocType),
     
-    save: (projectPath: string, docId: string, content: unknown): Promise<void> =>
+    save: (projectPath: string, docId: string, content: unknown): Promise<DocumentVersion | null> =>
       ipcRenderer.invoke('document:save', projectPath, docId, content),
     
     load: (projectPath: string, docId: string): Promise<unknown> =>
@@ -645,6 +793,33 @@ const api = {
       ipcRenderer.invoke('document:delete', projectPath, docId)
   },
 
+  // Write-ahead journal of unsaved editor states
+  journal: {
+    write: (projectPath: string, docId: string, content: unknown): Promise<void> =>
+      ipcRenderer.invoke('journal:write', projectPath, docId, content),
+
+    recover: (projectPath: string): Promise<RecoverableDocument[]> =>
+      ipcRenderer.invoke('journal:recover', projectPath),
+
+    discard: (projectPath: string, docId: string): Promise<void> =>
+      ipcRenderer.invoke('journal:discard', projectPath, docId)
+  },
+
+  // Watching the open project for changes made outside the app
+  watcher: {
+    start: (projectPath: string): Promise<void> =>
+      ipcRenderer.invoke('watcher:start', projectPath),
+
+    stop: (): Promise<void> =>
+      ipcRenderer.invoke('watcher:stop'),
+
+    onChange: (callback: (change: ExternalChange) => void): (() => void) => {
+      const handler = (_: unknown, change: ExternalChange) => callback(change)
+      ipcRenderer.on('watcher:change', handler)
+      return () => ipcRenderer.removeListener('watcher:change', handler)
+    }
+  },
+
   // Asset operations
   asset: {
     upload: (projectPath: string, filePath: string, fileName: string): Promise<Asset> =>
@@ -660,6 +835,10 @@ const api = {
     getPath: (projectPath: string, assetId: string): Promise<string> =>
       ipcRenderer.invoke('asset:getPath', projectPath, assetId),
     
+    // Open in the system viewer (links in the browser)
+    open: (projectPath: string, assetId: string): Promise<void> =>
+      ipcRenderer.invoke('asset:open', projectPath, assetId),
+    
     // Update references for a single asset
     updateReferences: (projectPath: string, assetId: string, references: AssetReference[]): Promise<void> =>
       ipcRenderer.invoke('asset:updateReferences', projectPath, assetId, references),
@@ -681,7 +860,70 @@ const api = {
   // Build operations
   build: {
     run: (project: Project, documentContents: Record<string, unknown>): Promise<BuildResult> =>
-      ipcRenderer.invoke('build:run', project, documentContents)
+      ipcRenderer.invoke('build:run', project, documentContents),
+
+    onProgress: (callback: (progress: BuildProgress) => void): (() => void) => {
+      const handler = (_: unknown, progress: BuildProgress) => callback(progress)
+      ipcRenderer.on('build:progress', handler)
+      return () => ipcRenderer.removeListener('build:progress', handler)
+    }
+  },
+
+  // Animatic export (storyboard rendered to video in the build folder)
+  animatic: {
+    export: (project: Project, documentContents: Record<string, unknown>, options: AnimaticOptions): Promise<AnimaticResult> =>
+      ipcRenderer.invoke('animatic:export', project, documentContents, options),
+
+    reveal: (path: string): Promise<void> =>
+      ipcRenderer.invoke('animatic:reveal', path)
+  },
+
+  // Storyboard sheets (printable shot panels in the build folder)
+  storyboard: {
+    exportSheets: (project: Project, documentContents: Record<string, unknown>, options: StoryboardSheetOptions): Promise<StoryboardSheetResult> =>
+      ipcRenderer.invoke('storyboard:exportSheets', project, documentContents, options)
+  },
+
+  // Shot list export (CSV in the build folder)
+  shotList: {
+    exportCsv: (project: Project, documentContents: Record<string, unknown>, sort: ShotListSort): Promise<ShotListCsvResult> =>
+      ipcRenderer.invoke('shotList:exportCsv', project, documentContents, sort)
+  },
+
+  // Rule pack operations
+  rulePacks: {
+    list: (projectPath: string): Promise<RulePackLoadResult> =>
+      ipcRenderer.invoke('rulePacks:list', projectPath),
+
+    openFolder: (projectPath: string): Promise<void> =>
+      ipcRenderer.invoke('rulePacks:openFolder', projectPath)
+  },
+
+  // Spelling dictionary operations
+  spelling: {
+    getUserDictionary: (): Promise<string[]> =>
+      ipcRenderer.invoke('spelling:getUserDictionary'),
+
+    addUserWord: (word: string): Promise<string[]> =>
+      ipcRenderer.invoke('spelling:addUserWord', word),
+
+    removeUserWord: (word: string): Promise<string[]> =>
+      ipcRenderer.invoke('spelling:removeUserWord', word)
+  },
+
+  // Diagnostic suppressions and baseline, stored in the project
+  suppressions: {
+    load: (projectPath: string): Promise<ProjectSuppressions> =>
+      ipcRenderer.invoke('suppressions:load', projectPath),
+
+    save: (projectPath: string, suppressions: ProjectSuppressions): Promise<void> =>
+      ipcRenderer.invoke('suppressions:save', projectPath, suppressions)
+  },
+
+  // Project-wide search over documents, versions and conversations
+  search: {
+    query: (projectPath: string, query: string, limit?: number): Promise<SearchResult[]> =>
+      ipcRenderer.invoke('search:query', projectPath, query, limit)
   },
 
   // Version history operations
@@ -693,7 +935,58 @@ const api = {
       ipcRenderer.invoke('version:load', projectPath, docId),
     
     delete: (projectPath: string, docId: string, versionId: string): Promise<void> =>
-      ipcRenderer.invoke('version:delete', projectPath, docId, versionId)
+      ipcRenderer.invoke('version:delete', projectPath, docId, versionId),
+    
+    label: (projectPath: string, docId: string, versionId: string, label: string | undefined, milestone: boolean): Promise<void> =>
+      ipcRenderer.invoke('version:label', projectPath, docId, versionId, label, milestone)
+  },
+
+  // Git-backed project history
+  git: {
+    status: (projectPath: string): Promise<GitStatus> =>
+      ipcRenderer.invoke('git:status', projectPath),
+
+    init: (projectPath: string): Promise<GitStatus> =>
+      ipcRenderer.invoke('git:init', projectPath),
+
+    commit: (projectPath: string, message: string): Promise<GitCommit | null> =>
+      ipcRenderer.invoke('git:commit', projectPath, message),
+
+    log: (projectPath: string, docId: string): Promise<GitCommit[]> =>
+      ipcRenderer.invoke('git:log', projectPath, docId),
+
+    show: (projectPath: string, docId: string, hash: string): Promise<unknown | null> =>
+      ipcRenderer.invoke('git:show', projectPath, docId, hash),
+
+    blame: (projectPath: string, docId: string): Promise<BlockBlame[]> =>
+      ipcRenderer.invoke('git:blame', projectPath, docId),
+
+    setRemote: (projectPath: string, remotePath: string): Promise<GitStatus> =>
+      ipcRenderer.invoke('git:setRemote', projectPath, remotePath),
+
+    sync: (projectPath: string): Promise<GitSyncResult> =>
+      ipcRenderer.invoke('git:sync', projectPath)
+  },
+
+  // Alternate drafts of a document
+  drafts: {
+    load: (projectPath: string, docId: string): Promise<DocumentDrafts> =>
+      ipcRenderer.invoke('drafts:load', projectPath, docId),
+
+    create: (projectPath: string, docId: string, name: string, content: unknown): Promise<DocumentDrafts> =>
+      ipcRenderer.invoke('drafts:create', projectPath, docId, name, content),
+
+    switch: (projectPath: string, docId: string, branchId: string, content: unknown): Promise<DocumentDrafts> =>
+      ipcRenderer.invoke('drafts:switch', projectPath, docId, branchId, content),
+
+    markMerged: (projectPath: string, docId: string, branchId: string): Promise<DocumentDrafts> =>
+      ipcRenderer.invoke('drafts:markMerged', projectPath, docId, branchId),
+
+    rename: (projectPath: string, docId: string, draftId: string, name: string): Promise<DocumentDrafts> =>
+      ipcRenderer.invoke('drafts:rename', projectPath, docId, draftId, name),
+
+    delete: (projectPath: string, docId: string, branchId: string): Promise<DocumentDrafts> =>
+      ipcRenderer.invoke('drafts:delete', projectPath, docId, branchId)
   },
 
   // Utility operations
@@ -788,6 +1081,15 @@ const api = {
       ipcRenderer.invoke('interfaceScale:set', scale)
   },
 
+  // Keymap operations (user key bindings by command id)
+  keymap: {
+    get: (): Promise<Record<string, string | null>> =>
+      ipcRenderer.invoke('keymap:get'),
+
+    set: (keymap: Record<string, string | null>): Promise<void> =>
+      ipcRenderer.invoke('keymap:set', keymap)
+  },
+
   // Image Generation operations
   imageGeneration: {
     generate: (prompt: string, options: ImageGenOptions): Promise<GeneratedImageResult> =>
@@ -806,6 +1108,18 @@ const api = {
       ipcRenderer.invoke('imageGeneration:buildPrompt', selectedText, contextSection, promptTemplate)
   },
 
+  // AI provider settings (endpoint, models, timeouts) shared by every AI feature
+  aiProvider: {
+    getSettings: (): Promise<AIProviderSettings> =>
+      ipcRenderer.invoke('aiProvider:getSettings'),
+
+    setSettings: (settings: Partial<AIProviderSettings>): Promise<void> =>
+      ipcRenderer.invoke('aiProvider:setSettings', settings),
+
+    isConfigured: (): Promise<boolean> =>
+      ipcRenderer.invoke('aiProvider:isConfigured')
+  },
+
   // AI Suggestions operations
   aiSuggestions: {
     generate: (documents: DocumentContentForAI[]): Promise<Diagnostic[]> =>
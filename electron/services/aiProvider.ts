@@ -0,0 +1,385 @@
+/**
+ * AI Provider
+ *
+ * The single way AI services reach a model. Requests go to an
+ * OpenAI-compatible endpoint (the OpenAI API or a self-hosted server with
+ * the same wire format) or to a deterministic offline mock, chosen in
+ * settings. Services send request bodies without a model; the provider
+ * fills in the model configured for the calling feature and applies the
+ * timeout and retry policy.
+ *
+ * Set CADMUS_AI_PROVIDER=mock to force the mock regardless of settings.
+ */
+
+import Store from 'electron-store'
+import * as crypto from 'crypto'
+
+export type AIFeature =
+  | 'writing'
+  | 'thoughtPartner'
+  | 'patcher'
+  | 'critique'
+  | 'documentGeneration'
+  | 'suggestions'
+
+export type AIProviderKind = 'openai' | 'mock'
+
+export type AIEndpoint = 'chat/completions' | 'responses'
+
+export interface AIProviderSettings {
+  provider: AIProviderKind
+  baseUrl: string
+  models: Record<AIFeature, string>
+  timeoutMs: number
+  maxRetries: number
+}
+
+export interface AIRequestOptions {
+  feature: AIFeature
+  signal?: AbortSignal
+}
+
+export interface AIProvider {
+  readonly id: AIProviderKind
+  isConfigured(): boolean
+  /**
+   * POST a request body to an endpoint relative to the base URL. Resolves
+   * with the raw response so callers keep their own JSON or stream handling.
+   */
+  request(endpoint: AIEndpoint, body: object, options: AIRequestOptions): Promise<Response>
+}
+
+export const DEFAULT_AI_BASE_URL = 'https://api.openai.com/v1'
+
+export const DEFAULT_AI_MODELS: Record<AIFeature, string> = {
+  writing: 'o3-mini',
+  thoughtPartner: 'o3-mini',
+  patcher: 'gpt-4o',
+  critique: 'gpt-4o',
+  documentGeneration: 'gpt-4.1',
+  suggestions: 'gpt-4.1'
+}
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AIProviderSettings = {
+  provider: 'openai',
+  baseUrl: DEFAULT_AI_BASE_URL,
+  models: DEFAULT_AI_MODELS,
+  // Reasoning models can think for minutes before the first byte arrives
+  timeoutMs: 180000,
+  maxRetries: 2
+}
+
+// Rate limits and transient server errors are worth another attempt
+const RETRYABLE_STATUS = new Set([408, 409, 429, 500, 502, 503, 504])
+const MAX_RETRY_DELAY_MS = 32000
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? parseFloat(retryAfter) : NaN
+  if (!isNaN(seconds)) return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS)
+  const baseDelay = Math.min(1000 * Math.pow(2, attempt), MAX_RETRY_DELAY_MS)
+  return Math.floor(baseDelay * (0.5 + Math.random()))
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new DOMException('The operation was aborted.', 'AbortError')
+}
+
+// =============================================================================
+// OPENAI-COMPATIBLE PROVIDER
+// =============================================================================
+
+class OpenAICompatibleProvider implements AIProvider {
+  readonly id = 'openai' as const
+
+  constructor(private settings: AIProviderSettings, private apiKey: string | null) {}
+
+  isConfigured(): boolean {
+    // Self-hosted endpoints commonly run without a key
+    return !!this.apiKey || this.settings.baseUrl !== DEFAULT_AI_BASE_URL
+  }
+
+  async request(endpoint: AIEndpoint, body: object, options: AIRequestOptions): Promise<Response> {
+    const { timeoutMs, maxRetries } = this.settings
+    const url = `${this.settings.baseUrl.replace(/\/+$/, '')}/${endpoint}`
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`
+    const payload = JSON.stringify({ ...body, model: this.settings.models[options.feature] })
+
+    for (let attempt = 0; ; attempt++) {
+      if (options.signal?.aborted) throw abortError(options.signal)
+
+      // The timeout covers the wait for response headers; once a response
+      // arrives only the caller's signal can cancel reading its body
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), timeoutMs)
+      const forwardAbort = () => controller.abort(options.signal?.reason)
+      options.signal?.addEventListener('abort', forwardAbort, { once: true })
+
+      try {
+        const response = await fetch(url, { method: 'POST', headers, body: payload, signal: controller.signal })
+        clearTimeout(timer)
+
+        if (RETRYABLE_STATUS.has(response.status) && attempt < maxRetries) {
+          options.signal?.removeEventListener('abort', forwardAbort)
+          await response.body?.cancel().catch(() => {})
+          const delay = retryDelay(attempt, response.headers.get('retry-after'))
+          console.log(`[AIProvider] ${options.feature}: status ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`)
+          await sleep(delay)
+          continue
+        }
+
+        return response
+      } catch (error) {
+        clearTimeout(timer)
+        options.signal?.removeEventListener('abort', forwardAbort)
+        if (options.signal?.aborted) throw error
+
+        const timedOut = controller.signal.aborted
+        if (attempt >= maxRetries) {
+          throw timedOut ? new Error(`AI request timed out after ${Math.round(timeoutMs / 1000)}s`) : error
+        }
+
+        const delay = retryDelay(attempt, null)
+        console.log(`[AIProvider] ${options.feature}: ${timedOut ? 'timed out' : (error as Error).message}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`)
+        await sleep(delay)
+      }
+    }
+  }
+}
+
+// =============================================================================
+// MOCK PROVIDER
+// =============================================================================
+
+// Build the smallest value that satisfies a JSON schema, varying strings by seed
+function mockFromSchema(schema: any, seed: string, path: string = ''): unknown {
+  if (!schema || typeof schema !== 'object') return null
+  if (schema.const !== undefined) return schema.const
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0]
+
+  const variant = schema.anyOf?.[0] || schema.oneOf?.[0]
+  if (variant) return mockFromSchema(variant, seed, path)
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t: string) => t !== 'null') || 'null'
+    : schema.type
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(schema.properties || {})) {
+        result[key] = mockFromSchema(value, seed, path ? `${path}.${key}` : key)
+      }
+      return result
+    }
+    case 'array': {
+      const count = Math.max(1, schema.minItems || 0)
+      return Array.from({ length: count }, (_, i) => mockFromSchema(schema.items, seed, `${path}[${i}]`))
+    }
+    case 'string':
+      return `Mock ${path || 'text'} ${seed.slice(0, 8)}`
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0
+    case 'boolean':
+      return false
+    default:
+      return null
+  }
+}
+
+function responseSchema(body: Record<string, any>): object | null {
+  return body.response_format?.json_schema?.schema || body.text?.format?.schema || null
+}
+
+function lastUserMessage(body: Record<string, any>): string {
+  if (typeof body.input === 'string') return body.input
+  const messages: any[] = Array.isArray(body.messages) ? body.messages : []
+  const last = [...messages].reverse().find(m => m.role === 'user')
+  return typeof last?.content === 'string' ? last.content : ''
+}
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+function sseResponse(events: unknown[], signal?: AbortSignal): Response {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        if (signal?.aborted) break
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+      controller.close()
+    }
+  })
+  return new Response(stream, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' }
+  })
+}
+
+/**
+ * Offline provider that answers instantly with output derived only from the
+ * request, so the same request always gets the same response. Structured
+ * output requests get the minimal value matching their schema; everything
+ * else gets a short text reply. Never calls tools.
+ */
+class MockProvider implements AIProvider {
+  readonly id = 'mock' as const
+
+  constructor(private settings: AIProviderSettings) {}
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async request(endpoint: AIEndpoint, body: Record<string, any>, options: AIRequestOptions): Promise<Response> {
+    if (options.signal?.aborted) throw abortError(options.signal)
+
+    const model = this.settings.models[options.feature]
+    const seed = crypto.createHash('sha256')
+      .update(`${options.feature}\n${endpoint}\n${JSON.stringify(body)}`)
+      .digest('hex')
+
+    const schema = responseSchema(body)
+    const wantsJson = !!schema || body.response_format?.type === 'json_object'
+    const prompt = lastUserMessage(body).replace(/\s+/g, ' ').trim()
+    const text = wantsJson
+      ? JSON.stringify(schema ? mockFromSchema(schema, seed) : {})
+      : `Mock ${options.feature} response ${seed.slice(0, 8)}: ${prompt.slice(0, 80)}`
+
+    const id = `mock-${seed.slice(0, 16)}`
+    const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+
+    if (endpoint === 'responses') {
+      return jsonResponse({
+        id,
+        object: 'response',
+        status: 'completed',
+        model,
+        output: [{
+          type: 'message',
+          id: `${id}-message`,
+          status: 'completed',
+          role: 'assistant',
+          content: [{ type: 'output_text', text }]
+        }],
+        output_text: text
+      })
+    }
+
+    if (body.stream) {
+      // Stream word by word so incremental rendering gets exercised
+      const chunk = (delta: object, finishReason: string | null) => ({
+        id,
+        object: 'chat.completion.chunk',
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }]
+      })
+      const words = text.match(/\S+\s*/g) || []
+      return sseResponse([...words.map(word => chunk({ content: word }, null)), chunk({}, 'stop')], options.signal)
+    }
+
+    return jsonResponse({
+      id,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+      usage
+    })
+  }
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class AIProviderService {
+  private store: Store
+
+  constructor() {
+    // Shares the store that already holds the OpenAI API key
+    this.store = new Store({
+      name: 'image-generation-settings',
+      encryptionKey: 'cadmus-image-gen-v1'
+    })
+  }
+
+  /**
+   * Get provider settings, with defaults for anything not stored
+   */
+  getSettings(): AIProviderSettings {
+    const stored = (this.store.get('aiProvider') as Partial<AIProviderSettings> | undefined) || {}
+    return {
+      ...DEFAULT_AI_PROVIDER_SETTINGS,
+      ...stored,
+      models: { ...DEFAULT_AI_MODELS, ...stored.models }
+    }
+  }
+
+  /**
+   * Update provider settings. Blank base URLs and models fall back to defaults.
+   */
+  setSettings(settings: Partial<AIProviderSettings>): void {
+    const current = this.getSettings()
+    const models = { ...current.models }
+    for (const [feature, model] of Object.entries(settings.models || {}) as [AIFeature, string][]) {
+      models[feature] = model?.trim() || DEFAULT_AI_MODELS[feature]
+    }
+
+    const next: AIProviderSettings = {
+      ...current,
+      ...settings,
+      baseUrl: settings.baseUrl !== undefined ? settings.baseUrl.trim() || DEFAULT_AI_BASE_URL : current.baseUrl,
+      models
+    }
+    this.store.set('aiProvider', next)
+  }
+
+  /**
+   * Get the provider for the current settings
+   */
+  getProvider(): AIProvider {
+    const settings = this.getSettings()
+    if (process.env.CADMUS_AI_PROVIDER === 'mock' || settings.provider === 'mock') {
+      return new MockProvider(settings)
+    }
+
+    const apiKey = this.store.get('apiKey') as string | undefined
+    return new OpenAICompatibleProvider(settings, apiKey && apiKey.length > 0 ? apiKey : null)
+  }
+
+  /**
+   * Check whether AI requests can be made (API key, self-hosted endpoint or mock)
+   */
+  isConfigured(): boolean {
+    return this.getProvider().isConfigured()
+  }
+}
+
+// Singleton instance
+let instance: AIProviderService | null = null
+
+export function getAIProviderService(): AIProviderService {
+  if (!instance) {
+    instance = new AIProviderService()
+  }
+  return instance
+}
+
+/**
+ * Get the provider for the current settings
+ */
+export function getAIProvider(): AIProvider {
+  return getAIProviderService().getProvider()
+}
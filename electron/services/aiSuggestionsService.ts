@@ -6,7 +6,7 @@
  * Diagnostic format to display alongside build issues in the Problems Panel.
  */
 
-import Store from 'electron-store'
+import { getAIProvider, getAIProviderService } from './aiProvider'
 import { v4 as uuidv4 } from 'uuid'
 
 // Types matching src/types/project.ts
@@ -49,7 +49,6 @@ export interface DocumentContent {
 
 // OpenAI Responses API types
 interface OpenAIResponsesRequest {
-  model: string
   input: string
   instructions: string
   text?: {
@@ -192,31 +191,13 @@ The documents are provided in format:
 ---`
 
 export class AISuggestionsService {
-  private store: Store
   private isGenerating: boolean = false
 
-  constructor() {
-    // Use the same store as image generation for API key
-    this.store = new Store({
-      name: 'image-generation-settings',
-      encryptionKey: 'cadmus-image-gen-v1'
-    })
-  }
-
   /**
    * Check if an API key is configured
    */
   hasApiKey(): boolean {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return !!apiKey && apiKey.length > 0
-  }
-
-  /**
-   * Get the API key
-   */
-  private getApiKey(): string | null {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return apiKey && apiKey.length > 0 ? apiKey : null
+    return getAIProviderService().isConfigured()
   }
 
   /**
@@ -228,8 +209,7 @@ export class AISuggestionsService {
       return []
     }
 
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    if (!this.hasApiKey()) {
       console.log('[AISuggestions] No API key configured')
       return []
     }
@@ -255,7 +235,7 @@ export class AISuggestionsService {
         : inputText
 
       // Make the API request
-      const response = await this.callResponsesAPI(truncatedInput, apiKey)
+      const response = await this.callResponsesAPI(truncatedInput)
 
       // Parse and convert to diagnostics, passing documents for range lookup
       const diagnostics = this.parseResponse(response, documents)
@@ -284,9 +264,8 @@ export class AISuggestionsService {
   /**
    * Call the OpenAI Responses API
    */
-  private async callResponsesAPI(input: string, apiKey: string): Promise<OpenAIResponsesResponse> {
+  private async callResponsesAPI(input: string): Promise<OpenAIResponsesResponse> {
     const requestBody: OpenAIResponsesRequest = {
-      model: 'gpt-4.1',
       input: input,
       instructions: SYSTEM_INSTRUCTIONS,
       text: {
@@ -301,16 +280,9 @@ export class AISuggestionsService {
       max_output_tokens: 4096
     }
 
-    console.log('[AISuggestions] Calling OpenAI Responses API...')
+    console.log('[AISuggestions] Calling Responses API...')
 
-    const response = await fetch('https://api.openai.com/v1/responses', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    })
+    const response = await getAIProvider().request('responses', requestBody, { feature: 'suggestions' })
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
@@ -18,7 +18,7 @@
  * References characters/props using @NAME syntax for proper mention rendering.
  */
 
-import Store from 'electron-store'
+import { getAIProvider, getAIProviderService } from './aiProvider'
 
 // Types for AI Writing commands
 // Generative: continue, dialogue, setting, expand, pov
@@ -2392,24 +2392,10 @@ function buildProseUserPrompt(request: AIWritingRequest): string {
 }
 
 export class AIWritingService {
-  private store: Store
   private isGenerating: boolean = false
 
-  constructor() {
-    this.store = new Store({
-      name: 'image-generation-settings',
-      encryptionKey: 'cadmus-image-gen-v1'
-    })
-  }
-
   hasApiKey(): boolean {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return !!apiKey && apiKey.length > 0
-  }
-
-  private getApiKey(): string | null {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return apiKey && apiKey.length > 0 ? apiKey : null
+    return getAIProviderService().isConfigured()
   }
 
   async generate(request: AIWritingRequest): Promise<AIWritingResponse> {
@@ -2417,8 +2403,8 @@ export class AIWritingService {
       return { text: '', error: 'Generation already in progress' }
     }
 
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    const provider = getAIProvider()
+    if (!provider.isConfigured()) {
       return { text: '', error: 'No API key configured. Please add your OpenAI API key in settings.' }
     }
 
@@ -2483,21 +2469,13 @@ export class AIWritingService {
         : shortCommands.includes(request.command) ? 2048
         : 4096
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'o3-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          max_completion_tokens: maxTokens
-        })
-      })
+      const response = await provider.request('chat/completions', {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        max_completion_tokens: maxTokens
+      }, { feature: 'writing' })
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
@@ -0,0 +1,180 @@
+/**
+ * Animatic Export
+ *
+ * Renders the storyboard to an animatic in the project's build folder. Each
+ * planned frame (see src/utils/animatic) is laid out as a page in an
+ * offscreen window and captured; ffmpeg then encodes the frames, held for
+ * their durations, into an MP4 or WebM. Without ffmpeg the frames are
+ * written as a PNG sequence with an ffconcat list, ready to encode later.
+ */
+
+import { BrowserWindow } from 'electron'
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { promisify } from 'util'
+import { v4 as uuidv4 } from 'uuid'
+import type { JSONContent } from '@tiptap/core'
+import type { AnimaticOptions, AnimaticResult, Project } from '../../src/types/project'
+import { planAnimatic, type AnimaticFrame } from '../../src/utils/animatic'
+import { BUILD_OUTPUT_DIR, sanitizeFileName } from './exportEngine'
+import { assetDataUri, escapeHtml } from './exporters/htmlExporter'
+
+const execFileAsync = promisify(execFile)
+
+const FRAME_WIDTH = 1280
+const FRAME_HEIGHT = 720
+const FRAMES_PER_SECOND = 24
+const CONCAT_LIST = 'animatic.ffconcat'
+
+const VIDEO_CODECS: Record<'mp4' | 'webm', string[]> = {
+  mp4: ['-c:v', 'libx264', '-preset', 'medium', '-crf', '20', '-pix_fmt', 'yuv420p', '-movflags', '+faststart'],
+  webm: ['-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '32', '-pix_fmt', 'yuv420p']
+}
+
+/**
+ * ffmpeg from FFMPEG_PATH, bundled with the app's resources, or on the
+ * PATH; null if none runs
+ */
+async function findFfmpeg(): Promise<string | null> {
+  const binary = process.platform === 'win32' ? 'ffmpeg.exe' : 'ffmpeg'
+  const candidates = [process.env.FFMPEG_PATH, join(process.resourcesPath || '', binary), binary]
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    const runs = await execFileAsync(candidate, ['-version']).then(() => true, () => false)
+    if (runs) return candidate
+  }
+  return null
+}
+
+async function renderFrameHtml(project: Project, frame: AnimaticFrame): Promise<string> {
+  let body: string
+  if (frame.kind === 'slate') {
+    body = `<div class="slate">${escapeHtml(frame.text)}</div>`
+  } else {
+    // Inlined, since the frame page is loaded from a temp folder
+    const image = await assetDataUri(project, frame.assetId)
+    body = (image ? `<img src="${image}">` : '<div class="missing">Missing image</div>')
+      + (frame.caption ? `<div class="caption"><span>${escapeHtml(frame.caption)}</span></div>` : '')
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+  html, body { margin: 0; width: ${FRAME_WIDTH}px; height: ${FRAME_HEIGHT}px; overflow: hidden; background: #000; }
+  img { width: 100%; height: 100%; object-fit: contain; display: block; }
+  .slate, .missing { display: flex; align-items: center; justify-content: center; height: 100%; padding: 0 80px; box-sizing: border-box; text-align: center; color: #fff; }
+  .slate { font: bold 48px 'Courier New', Courier, monospace; letter-spacing: 0.05em; }
+  .missing { font: 24px -apple-system, 'Segoe UI', sans-serif; color: #888; }
+  .caption { position: absolute; left: 0; right: 0; bottom: 40px; text-align: center; padding: 0 120px; }
+  .caption span { display: inline-block; max-height: 3.9em; overflow: hidden; padding: 8px 16px; border-radius: 6px; background: rgba(0, 0, 0, 0.7); color: #fff; font: 28px/1.3 -apple-system, 'Segoe UI', sans-serif; }
+</style>
+</head>
+<body>${body}</body>
+</html>`
+}
+
+async function captureFrames(project: Project, frames: AnimaticFrame[], framesDir: string): Promise<string[]> {
+  const window = new BrowserWindow({
+    show: false,
+    width: FRAME_WIDTH,
+    height: FRAME_HEIGHT,
+    useContentSize: true,
+    webPreferences: {
+      offscreen: true,
+      sandbox: true,
+      contextIsolation: true,
+      nodeIntegration: false,
+      javascript: false
+    }
+  })
+
+  const htmlPath = join(framesDir, 'frame.html')
+  const fileNames: string[] = []
+  try {
+    for (let i = 0; i < frames.length; i++) {
+      await fs.writeFile(htmlPath, await renderFrameHtml(project, frames[i]), 'utf-8')
+      await window.loadFile(htmlPath)
+
+      // Capture once the loaded page has painted
+      const painted = new Promise<void>(resolve => window.webContents.once('paint', () => resolve()))
+      window.webContents.invalidate()
+      await painted
+      const image = await window.webContents.capturePage()
+
+      const fileName = `frame-${String(i + 1).padStart(4, '0')}.png`
+      await fs.writeFile(join(framesDir, fileName), image.resize({ width: FRAME_WIDTH, height: FRAME_HEIGHT }).toPNG())
+      fileNames.push(fileName)
+    }
+  } finally {
+    window.destroy()
+    await fs.unlink(htmlPath).catch(() => {})
+  }
+  return fileNames
+}
+
+// The concat demuxer holds each file for its duration; the last file is
+// listed twice or its duration is dropped
+function concatList(fileNames: string[], frames: AnimaticFrame[]): string {
+  const entries = fileNames.map((fileName, i) => `file '${fileName}'\nduration ${(frames[i].durationMs / 1000).toFixed(3)}`)
+  return `ffconcat version 1.0\n${entries.join('\n')}\nfile '${fileNames[fileNames.length - 1]}'\n`
+}
+
+export async function exportAnimatic(
+  project: Project,
+  documentContents: Record<string, JSONContent>,
+  options: AnimaticOptions
+): Promise<AnimaticResult> {
+  const frames = planAnimatic(project, documentContents, options)
+  if (frames.length === 0) throw new Error('The storyboard has no shots to export')
+
+  const outputDir = join(project.path, BUILD_OUTPUT_DIR)
+  const baseName = `${sanitizeFileName(project.name)} - Animatic`
+  await fs.mkdir(outputDir, { recursive: true })
+
+  const ffmpeg = options.format === 'frames' ? null : await findFfmpeg()
+  const format = ffmpeg ? options.format : 'frames'
+  if (format !== options.format) {
+    console.warn('[Animatic] ffmpeg not found; writing a frame sequence instead')
+  }
+
+  // Frames for a video are rendered to a temp folder, a sequence straight
+  // into the build folder
+  const framesDir = format === 'frames'
+    ? join(outputDir, `${baseName} Frames`)
+    : join(tmpdir(), `cadmus-animatic-${uuidv4()}`)
+  await fs.rm(framesDir, { recursive: true, force: true })
+  await fs.mkdir(framesDir, { recursive: true })
+
+  const durationMs = frames.reduce((total, frame) => total + frame.durationMs, 0)
+  try {
+    console.log(`[Animatic] Rendering ${frames.length} frames for ${project.name}`)
+    const fileNames = await captureFrames(project, frames, framesDir)
+    const listPath = join(framesDir, CONCAT_LIST)
+    await fs.writeFile(listPath, concatList(fileNames, frames), 'utf-8')
+
+    if (format === 'frames') {
+      const sizes = await Promise.all(fileNames.map(name => fs.stat(join(framesDir, name)).then(s => s.size)))
+      return { format, path: framesDir, size: sizes.reduce((a, b) => a + b, 0), frameCount: frames.length, durationMs }
+    }
+
+    const outputPath = join(outputDir, `${baseName}.${format}`)
+    await execFileAsync(ffmpeg!, [
+      '-y', '-loglevel', 'error',
+      '-f', 'concat', '-safe', '0', '-i', listPath,
+      '-vf', `fps=${FRAMES_PER_SECOND}`,
+      ...VIDEO_CODECS[format],
+      outputPath
+    ], { maxBuffer: 16 * 1024 * 1024 })
+    const { size } = await fs.stat(outputPath)
+    console.log(`[Animatic] Wrote ${outputPath}`)
+    return { format, path: outputPath, size, frameCount: frames.length, durationMs }
+  } finally {
+    if (format !== 'frames') {
+      await fs.rm(framesDir, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+}
@@ -45,7 +45,7 @@ export function tokenize(text: string): string[] {
 
 // ─── DJB2 Hash ─────────────────────────────────────────────────────────
 
-function djb2Hash(text: string): string {
+export function djb2Hash(text: string): string {
   let hash = 5381
   for (let i = 0; i < text.length; i++) {
     hash = ((hash << 5) + hash) + text.charCodeAt(i)
@@ -199,6 +199,54 @@ export function updateIndex(
   return index
 }
 
+// ─── Serialization ─────────────────────────────────────────────────────
+
+/** JSON-safe form of a chunk index, for indexes kept on disk */
+export interface SerializedChunkIndex {
+  chunks: Array<Omit<IndexedChunk, 'termFrequencies'> & { termFrequencies: [string, number][] }>
+  documents: [string, { title: string; chunkCount: number; totalTokens: number }][]
+  lastIndexedAt: string
+}
+
+export function serializeIndex(index: ChunkIndex): SerializedChunkIndex {
+  return {
+    chunks: [...index.chunks.values()].map(chunk => ({
+      ...chunk,
+      termFrequencies: [...chunk.termFrequencies.entries()],
+    })),
+    documents: [...index.documents.entries()],
+    lastIndexedAt: index.lastIndexedAt,
+  }
+}
+
+/** Rebuild an index from its serialized form; the inverted index and stats are recomputed */
+export function deserializeIndex(data: SerializedChunkIndex): ChunkIndex {
+  const index = createIndex()
+  let totalTerms = 0
+
+  for (const serialized of data.chunks) {
+    const chunk: IndexedChunk = { ...serialized, termFrequencies: new Map(serialized.termFrequencies) }
+    const key = chunkKey(chunk.ref.documentId, chunk.ref.blockId)
+    index.chunks.set(key, chunk)
+    index.chunkHashes.set(key, chunk.textHash)
+    for (const term of chunk.termFrequencies.keys()) {
+      let postings = index.invertedIndex.get(term)
+      if (!postings) {
+        postings = new Set()
+        index.invertedIndex.set(term, postings)
+      }
+      postings.add(key)
+    }
+    totalTerms += chunk.totalTerms
+  }
+
+  index.documents = new Map(data.documents)
+  index.totalChunks = index.chunks.size
+  index.avgDocLength = index.totalChunks > 0 ? totalTerms / index.totalChunks : 0
+  index.lastIndexedAt = data.lastIndexedAt
+  return index
+}
+
 // ─── BM25 Scoring ──────────────────────────────────────────────────────
 
 /**
@@ -0,0 +1,106 @@
+/**
+ * Document Drafts
+ *
+ * Alternate drafts (branches) of a document, kept in `.cadmus/drafts/` as
+ * one file per document. The document file always holds the checked-out
+ * draft; switching drafts swaps its content with a stored one. A new draft
+ * starts from a saved version of the current content, which both drafts
+ * then share as the base for a three-way merge (see utils/blockMerge).
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import type { JSONContent } from '@tiptap/core'
+import type { DocumentDrafts } from '../../src/types/project'
+import { FileIO } from './fileIO'
+import { saveVersion } from './versionStore'
+
+export const DRAFTS_DIR = join('.cadmus', 'drafts')
+
+// The draft a document starts with, before any other is created
+const MAIN_DRAFT = { id: 'main', name: 'Main', baseVersionId: null }
+
+function draftsPath(projectPath: string, docId: string): string {
+  return join(projectPath, DRAFTS_DIR, `${docId}.json`)
+}
+
+export async function loadDrafts(projectPath: string, docId: string): Promise<DocumentDrafts> {
+  try {
+    return JSON.parse(await fs.readFile(draftsPath(projectPath, docId), 'utf-8'))
+  } catch {
+    return { documentId: docId, current: { ...MAIN_DRAFT }, branches: [] }
+  }
+}
+
+async function writeDrafts(projectPath: string, drafts: DocumentDrafts): Promise<DocumentDrafts> {
+  await FileIO.writeAtomic(draftsPath(projectPath, drafts.documentId), JSON.stringify(drafts, null, 2))
+  return drafts
+}
+
+/**
+ * Start a new draft from the document's current content. The content is
+ * saved as a version first so the two drafts share a merge base.
+ */
+export async function createDraft(projectPath: string, docId: string, name: string, content: JSONContent): Promise<DocumentDrafts> {
+  const drafts = await loadDrafts(projectPath, docId)
+  const base = await saveVersion(projectPath, docId, content, `Draft "${name}" created`)
+
+  drafts.current.baseVersionId = base.id
+  drafts.branches.push({
+    id: uuidv4(),
+    name,
+    baseVersionId: base.id,
+    content,
+    updatedAt: base.timestamp
+  })
+  return writeDrafts(projectPath, drafts)
+}
+
+/**
+ * Check out a stored draft. The checked-out draft's `content` is stored in
+ * its place; the caller writes the new draft's content to the document.
+ */
+export async function switchDraft(projectPath: string, docId: string, branchId: string, content: JSONContent): Promise<DocumentDrafts> {
+  const drafts = await loadDrafts(projectPath, docId)
+  const index = drafts.branches.findIndex(branch => branch.id === branchId)
+  if (index === -1) throw new Error(`Draft ${branchId} not found`)
+
+  const { content: _content, updatedAt: _updatedAt, ...next } = drafts.branches[index]
+  drafts.branches[index] = { ...drafts.current, content, updatedAt: new Date().toISOString() }
+  drafts.current = next
+  return writeDrafts(projectPath, drafts)
+}
+
+/**
+ * Record that a draft was merged into the checked-out one: its content as
+ * merged is saved as a version and becomes the base for merging it again.
+ */
+export async function markDraftMerged(projectPath: string, docId: string, branchId: string): Promise<DocumentDrafts> {
+  const drafts = await loadDrafts(projectPath, docId)
+  const branch = drafts.branches.find(b => b.id === branchId)
+  if (!branch) throw new Error(`Draft ${branchId} not found`)
+
+  const base = await saveVersion(projectPath, docId, branch.content, `Draft "${branch.name}" merged`)
+  branch.baseVersionId = base.id
+  return writeDrafts(projectPath, drafts)
+}
+
+export async function renameDraft(projectPath: string, docId: string, draftId: string, name: string): Promise<DocumentDrafts> {
+  const drafts = await loadDrafts(projectPath, docId)
+  const draft = drafts.current.id === draftId ? drafts.current : drafts.branches.find(branch => branch.id === draftId)
+  if (!draft) throw new Error(`Draft ${draftId} not found`)
+
+  draft.name = name
+  return writeDrafts(projectPath, drafts)
+}
+
+export async function deleteDraft(projectPath: string, docId: string, branchId: string): Promise<DocumentDrafts> {
+  const drafts = await loadDrafts(projectPath, docId)
+  drafts.branches = drafts.branches.filter(branch => branch.id !== branchId)
+  return writeDrafts(projectPath, drafts)
+}
+
+export async function discardDrafts(projectPath: string, docId: string): Promise<void> {
+  await fs.unlink(draftsPath(projectPath, docId)).catch(() => {})
+}
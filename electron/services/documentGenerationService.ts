@@ -6,7 +6,7 @@
  * These are internal decision filters for production departments - not audience-facing content.
  */
 
-import Store from 'electron-store'
+import { getAIProvider, getAIProviderService } from './aiProvider'
 
 // Script context passed to the service
 export interface ScriptContext {
@@ -65,7 +65,6 @@ export interface SupplementaryDocument {
 
 // OpenAI Responses API types
 interface OpenAIResponsesRequest {
-  model: string
   input: string
   instructions: string
   text?: {
@@ -325,31 +324,13 @@ Guidelines:
 This document helps writers track the structural and thematic elements of their act.`
 
 export class DocumentGenerationService {
-  private store: Store
   private isGenerating: boolean = false
 
-  constructor() {
-    // Use the same store as image generation for API key
-    this.store = new Store({
-      name: 'image-generation-settings',
-      encryptionKey: 'cadmus-image-gen-v1'
-    })
-  }
-
   /**
    * Check if an API key is configured
    */
   hasApiKey(): boolean {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return !!apiKey && apiKey.length > 0
-  }
-
-  /**
-   * Get the API key
-   */
-  private getApiKey(): string | null {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return apiKey && apiKey.length > 0 ? apiKey : null
+    return getAIProviderService().isConfigured()
   }
 
   /**
@@ -365,8 +346,7 @@ export class DocumentGenerationService {
       return null
     }
 
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    if (!this.hasApiKey()) {
       console.log('[DocumentGeneration] No API key configured')
       return null
     }
@@ -388,8 +368,7 @@ export class DocumentGenerationService {
         inputText,
         CHARACTER_SYSTEM_INSTRUCTIONS,
         'character_document',
-        CHARACTER_DOC_SCHEMA,
-        apiKey
+        CHARACTER_DOC_SCHEMA
       )
 
       const result = this.parseResponse<CharacterDocOutput>(response)
@@ -417,8 +396,7 @@ export class DocumentGenerationService {
       return null
     }
 
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    if (!this.hasApiKey()) {
       console.log('[DocumentGeneration] No API key configured')
       return null
     }
@@ -440,8 +418,7 @@ export class DocumentGenerationService {
         inputText,
         PROP_SYSTEM_INSTRUCTIONS,
         'prop_document',
-        PROP_DOC_SCHEMA,
-        apiKey
+        PROP_DOC_SCHEMA
       )
 
       const result = this.parseResponse<PropDocOutput>(response)
@@ -468,8 +445,7 @@ export class DocumentGenerationService {
       return null
     }
 
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    if (!this.hasApiKey()) {
       console.log('[DocumentGeneration] No API key configured')
       return null
     }
@@ -488,8 +464,7 @@ export class DocumentGenerationService {
         inputText,
         LOCATION_SYSTEM_INSTRUCTIONS,
         'location_document',
-        LOCATION_DOC_SCHEMA,
-        apiKey
+        LOCATION_DOC_SCHEMA
       )
 
       const result = this.parseResponse<LocationDocOutput>(response)
@@ -516,8 +491,7 @@ export class DocumentGenerationService {
       return null
     }
 
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    if (!this.hasApiKey()) {
       console.log('[DocumentGeneration] No API key configured')
       return null
     }
@@ -536,8 +510,7 @@ export class DocumentGenerationService {
         inputText,
         ACT_BREAK_SYSTEM_INSTRUCTIONS,
         'act_break_document',
-        ACT_BREAK_DOC_SCHEMA,
-        apiKey
+        ACT_BREAK_DOC_SCHEMA
       )
 
       const result = this.parseResponse<ActBreakDocOutput>(response)
@@ -607,11 +580,9 @@ export class DocumentGenerationService {
     input: string,
     instructions: string,
     schemaName: string,
-    schema: object,
-    apiKey: string
+    schema: object
   ): Promise<OpenAIResponsesResponse> {
     const requestBody: OpenAIResponsesRequest = {
-      model: 'gpt-4.1',
       input: input,
       instructions: instructions,
       text: {
@@ -626,16 +597,9 @@ export class DocumentGenerationService {
       max_output_tokens: 2048
     }
 
-    console.log('[DocumentGeneration] Calling OpenAI Responses API...')
+    console.log('[DocumentGeneration] Calling Responses API...')
 
-    const response = await fetch('https://api.openai.com/v1/responses', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    })
+    const response = await getAIProvider().request('responses', requestBody, { feature: 'documentGeneration' })
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
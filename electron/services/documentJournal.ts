@@ -0,0 +1,92 @@
+/**
+ * Document Journal
+ *
+ * Write-ahead journal of unsaved editor states in `.cadmus/journal/`, one
+ * file per document. The renderer journals a document shortly after each
+ * edit, and a save clears the entry unless it was journaled after the save
+ * began. An entry that outlives its session therefore holds work the
+ * document file never received, and is offered back when the project opens.
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { JSONContent } from '@tiptap/core'
+import type { JournalEntry, Project, RecoverableDocument } from '../../src/types/project'
+import { FileIO } from './fileIO'
+
+export const JOURNAL_DIR = join('.cadmus', 'journal')
+
+function entryPath(projectPath: string, documentId: string): string {
+  return join(projectPath, JOURNAL_DIR, `${documentId}.json`)
+}
+
+async function readEntry(filePath: string): Promise<JournalEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('[Journal] Ignoring unreadable entry:', filePath, error)
+    }
+    return null
+  }
+}
+
+export async function writeJournalEntry(projectPath: string, documentId: string, content: JSONContent): Promise<void> {
+  const entry: JournalEntry = { documentId, content, journaledAt: new Date().toISOString() }
+  await FileIO.writeAtomic(entryPath(projectPath, documentId), JSON.stringify(entry))
+}
+
+/**
+ * Clear a document's entry after a save that began at `savedAt` (ISO date).
+ * An entry journaled after that holds later edits, so it stays.
+ */
+export async function clearJournalEntry(projectPath: string, documentId: string, savedAt: string): Promise<void> {
+  const filePath = entryPath(projectPath, documentId)
+  const entry = await readEntry(filePath)
+  if (entry && entry.journaledAt <= savedAt) {
+    await fs.unlink(filePath).catch(() => {})
+  }
+}
+
+export async function discardJournalEntry(projectPath: string, documentId: string): Promise<void> {
+  await fs.unlink(entryPath(projectPath, documentId)).catch(() => {})
+}
+
+/**
+ * Entries whose content differs from the saved document. Entries for
+ * deleted documents or matching what is on disk are removed.
+ */
+export async function findRecoverableDocuments(project: Project): Promise<RecoverableDocument[]> {
+  const dirPath = join(project.path, JOURNAL_DIR)
+  let files: string[]
+  try {
+    files = (await fs.readdir(dirPath)).filter(file => file.endsWith('.json'))
+  } catch {
+    return []
+  }
+
+  const recoverable: RecoverableDocument[] = []
+  for (const file of files) {
+    const filePath = join(dirPath, file)
+    const entry = await readEntry(filePath)
+    const doc = entry && project.documents.find(d => d.id === entry.documentId && d.type === 'document')
+    if (!entry || !doc) {
+      await fs.unlink(filePath).catch(() => {})
+      continue
+    }
+
+    const saved = await fs.readFile(join(project.path, 'documents', doc.path), 'utf-8')
+      .then(raw => JSON.stringify(JSON.parse(raw)), () => null)
+    if (saved === JSON.stringify(entry.content)) {
+      await fs.unlink(filePath).catch(() => {})
+      continue
+    }
+
+    recoverable.push({ ...entry, title: doc.title })
+  }
+
+  if (recoverable.length > 0) {
+    console.log(`[Journal] Found unsaved changes for ${recoverable.length} document(s)`)
+  }
+  return recoverable.sort((a, b) => b.journaledAt.localeCompare(a.journaledAt))
+}
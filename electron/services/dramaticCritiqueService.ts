@@ -9,7 +9,7 @@
  * and structural issues as pointed questions, not suggestions.
  */
 
-import Store from 'electron-store'
+import { getAIProvider, getAIProviderService } from './aiProvider'
 import { v4 as uuidv4 } from 'uuid'
 
 // Types matching src/types/project.ts
@@ -134,7 +134,6 @@ export interface SupplementaryDoc {
 
 // OpenAI Chat Completions API types
 interface ChatCompletionRequest {
-  model: string
   messages: Array<{
     role: 'system' | 'user' | 'assistant'
     content: string
@@ -548,30 +547,13 @@ Example evidence format:
 CRITICAL: You are the audience's advocate. The counter is ticking. Be ruthless - but back up every claim with a direct quote.`
 
 export class DramaticCritiqueService {
-  private store: Store
   private isGenerating: boolean = false
 
-  constructor() {
-    this.store = new Store({
-      name: 'image-generation-settings',
-      encryptionKey: 'cadmus-image-gen-v1'
-    })
-  }
-
   /**
    * Check if an API key is configured
    */
   hasApiKey(): boolean {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return !!apiKey && apiKey.length > 0
-  }
-
-  /**
-   * Get the API key
-   */
-  private getApiKey(): string | null {
-    const apiKey = this.store.get('apiKey') as string | undefined
-    return apiKey && apiKey.length > 0 ? apiKey : null
+    return getAIProviderService().isConfigured()
   }
 
   /**
@@ -587,8 +569,7 @@ export class DramaticCritiqueService {
       return []
     }
 
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    if (!this.hasApiKey()) {
       console.log('[DramaticCritique] No API key configured')
       return []
     }
@@ -605,7 +586,7 @@ export class DramaticCritiqueService {
     try {
       // Pass 1: Extract story facts
       console.log('[DramaticCritique] Pass 1: Extracting story facts...')
-      const storyFacts = await this.extractStoryFacts(screenplayText, entityDocs, supplementaryDocs, apiKey)
+      const storyFacts = await this.extractStoryFacts(screenplayText, entityDocs, supplementaryDocs)
       
       if (!storyFacts) {
         console.log('[DramaticCritique] Pass 1 failed to extract facts')
@@ -622,7 +603,7 @@ export class DramaticCritiqueService {
 
       // Pass 2: Run critique operators
       console.log('[DramaticCritique] Pass 2: Running critique operators...')
-      const issues = await this.runCritiqueOperators(storyFacts, screenplayText, apiKey)
+      const issues = await this.runCritiqueOperators(storyFacts, screenplayText)
 
       // Filter by confidence threshold, add IDs, and set default resolution
       const filteredIssues = issues
@@ -650,8 +631,7 @@ export class DramaticCritiqueService {
   private async extractStoryFacts(
     screenplayText: string,
     entityDocs: EntityDoc[],
-    supplementaryDocs: SupplementaryDoc[] | undefined,
-    apiKey: string
+    supplementaryDocs: SupplementaryDoc[] | undefined
   ): Promise<StoryFacts | null> {
     // Build input with screenplay, supplementary context, and entity docs
     let input = ''
@@ -685,7 +665,6 @@ export class DramaticCritiqueService {
       PASS1_SYSTEM_INSTRUCTIONS,
       'story_facts',
       STORY_FACTS_SCHEMA,
-      apiKey,
       0.3 // Low temperature for factual extraction
     )
 
@@ -697,8 +676,7 @@ export class DramaticCritiqueService {
    */
   private async runCritiqueOperators(
     facts: StoryFacts,
-    screenplayText: string,
-    apiKey: string
+    screenplayText: string
   ): Promise<Omit<CritiqueIssue, 'id' | 'resolution' | 'resolvedAt' | 'resolutionNote'>[]> {
     // Build input with facts and original screenplay for reference
     const factsJson = JSON.stringify(facts, null, 2)
@@ -715,7 +693,6 @@ export class DramaticCritiqueService {
       PASS2_SYSTEM_INSTRUCTIONS,
       'critique_issues',
       CRITIQUE_ISSUES_SCHEMA,
-      apiKey,
       0.5 // Moderate temperature for balanced critique
     )
 
@@ -743,7 +720,6 @@ export class DramaticCritiqueService {
     instructions: string,
     schemaName: string,
     schema: object,
-    apiKey: string,
     temperature: number = 0.5
   ): Promise<ChatCompletionResponse> {
     // Build system prompt with schema instructions
@@ -755,7 +731,6 @@ ${JSON.stringify(schema, null, 2)}
 Respond ONLY with the JSON object, no other text.`
 
     const requestBody: ChatCompletionRequest = {
-      model: 'gpt-4o',
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: input }
@@ -765,16 +740,9 @@ Respond ONLY with the JSON object, no other text.`
       max_tokens: 8192
     }
 
-    console.log(`[DramaticCritique] Calling OpenAI Chat Completions API (${schemaName})...`)
+    console.log(`[DramaticCritique] Calling Chat Completions API (${schemaName})...`)
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    })
+    const response = await getAIProvider().request('chat/completions', requestBody, { feature: 'critique' })
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
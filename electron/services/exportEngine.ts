@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs'
+import { createHash } from 'crypto'
+import { join } from 'path'
+import type {
+  Project,
+  BuildProfile,
+  BuildArtifact,
+  Diagnostic,
+  ExportFormat,
+  TemplateId
+} from '../../src/types/project'
+import type { DocumentWithContent } from './passEngine'
+
+// Folder (relative to the project root) that receives build artifacts
+export const BUILD_OUTPUT_DIR = 'build'
+
+// Context passed to each exporter
+export interface ExportContext {
+  project: Project
+  profile: BuildProfile
+  documents: DocumentWithContent[] // Already filtered and ordered by the profile
+  outputDir: string
+  baseFileName: string
+}
+
+// Exporter interface that all exporters must implement
+export interface Exporter {
+  format: ExportFormat
+  name: string
+  templateIds?: TemplateId[] // Only used for these templates; omit for a general exporter
+  export(ctx: ExportContext): Promise<BuildArtifact>
+}
+
+// Result of exporting one build profile
+export interface ExportResult {
+  artifacts: BuildArtifact[]
+  diagnostics: Diagnostic[] // One error per format that failed to export
+}
+
+// Registry for managing exporters. Each format has a general exporter and
+// may have template-specific ones that take precedence (e.g. screenplay PDF).
+export class ExporterRegistry {
+  private exporters: Exporter[] = []
+
+  register(exporter: Exporter): void {
+    this.exporters.push(exporter)
+  }
+
+  get(format: ExportFormat, templateId?: TemplateId): Exporter | undefined {
+    const candidates = this.exporters.filter(e => e.format === format)
+    return (
+      candidates.find(e => templateId && e.templateIds?.includes(templateId)) ||
+      candidates.find(e => !e.templateIds)
+    )
+  }
+
+  getAll(): Exporter[] {
+    return [...this.exporters]
+  }
+}
+
+// Strip characters that are not safe in file names on macOS/Windows
+export function sanitizeFileName(name: string): string {
+  const cleaned = name
+    .replace(/[/\\?%*:|"<>]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return cleaned || 'Untitled'
+}
+
+// Resolve the documents a profile includes, in profile order.
+// Folders and IDs that no longer exist are skipped. An empty profile
+// falls back to every document in project order.
+export function resolveProfileDocuments(
+  project: Project,
+  profile: BuildProfile,
+  documents: DocumentWithContent[]
+): DocumentWithContent[] {
+  const byId = new Map(documents.map(doc => [doc.id, doc]))
+  const isDocument = (id: string) =>
+    project.documents.some(d => d.id === id && d.type === 'document')
+
+  if (profile.includedDocumentIds.length === 0) {
+    return [...project.documents]
+      .filter(d => d.type === 'document')
+      .sort((a, b) => a.order - b.order)
+      .map(d => byId.get(d.id))
+      .filter((doc): doc is DocumentWithContent => doc !== undefined)
+  }
+
+  return profile.includedDocumentIds
+    .filter(isDocument)
+    .map(id => byId.get(id))
+    .filter((doc): doc is DocumentWithContent => doc !== undefined)
+}
+
+// Hash of everything an export renders from. Timestamps are left out, as
+// every save moves them whether or not the output would change.
+function exportKey(ctx: ExportContext): string {
+  const key = {
+    project: {
+      ...ctx.project,
+      updatedAt: undefined,
+      documents: ctx.project.documents.map(doc => ({ ...doc, createdAt: undefined, updatedAt: undefined }))
+    },
+    profile: ctx.profile,
+    documents: ctx.documents.map(doc => ({ id: doc.id, title: doc.title, content: doc.content }))
+  }
+  return createHash('sha1').update(JSON.stringify(key)).digest('hex')
+}
+
+interface CacheEntry {
+  key: string
+  artifacts: BuildArtifact[]
+}
+
+// Main Export Engine that renders a build profile into artifacts
+export class ExportEngine {
+  private registry: ExporterRegistry
+  // Last clean export of each profile, by project path and profile ID
+  private cache = new Map<string, CacheEntry>()
+
+  constructor(registry: ExporterRegistry) {
+    this.registry = registry
+  }
+
+  /**
+   * Export a profile unless nothing it renders from has changed since its
+   * last clean export and those artifacts are still on disk
+   */
+  async exportProfileIfChanged(
+    project: Project,
+    profile: BuildProfile,
+    documents: DocumentWithContent[]
+  ): Promise<ExportResult> {
+    const cacheId = `${project.path}:${profile.id}`
+    const key = exportKey(this.createContext(project, profile, documents))
+    const entry = this.cache.get(cacheId)
+    if (entry?.key === key) {
+      const present = await Promise.all(entry.artifacts.map(a => fs.access(a.path).then(() => true, () => false)))
+      if (present.every(Boolean)) {
+        console.log(`[ExportEngine] Profile ${profile.name} unchanged; keeping its artifacts`)
+        return { artifacts: entry.artifacts, diagnostics: [] }
+      }
+    }
+
+    const result = await this.exportProfile(project, profile, documents)
+    if (result.diagnostics.length === 0) this.cache.set(cacheId, { key, artifacts: result.artifacts })
+    else this.cache.delete(cacheId)
+    return result
+  }
+
+  private createContext(project: Project, profile: BuildProfile, documents: DocumentWithContent[]): ExportContext {
+    return {
+      project,
+      profile,
+      documents: resolveProfileDocuments(project, profile, documents),
+      outputDir: join(project.path, BUILD_OUTPUT_DIR),
+      baseFileName: sanitizeFileName(
+        profile.name && profile.name !== 'Default'
+          ? `${project.name} - ${profile.name}`
+          : project.name
+      )
+    }
+  }
+
+  async exportProfile(
+    project: Project,
+    profile: BuildProfile,
+    documents: DocumentWithContent[]
+  ): Promise<ExportResult> {
+    const ctx = this.createContext(project, profile, documents)
+    await fs.mkdir(ctx.outputDir, { recursive: true })
+
+    const artifacts: BuildArtifact[] = []
+    const diagnostics: Diagnostic[] = []
+
+    // Run each requested format sequentially (PDF rendering uses an offscreen window)
+    for (const format of profile.exportFormats) {
+      const exporter = this.registry.get(format, project.templateId)
+      if (!exporter) {
+        console.warn(`[ExportEngine] No exporter registered for format: ${format}`)
+        continue
+      }
+
+      try {
+        console.log(`[ExportEngine] Exporting ${exporter.name} for profile: ${profile.name}`)
+        artifacts.push(await exporter.export(ctx))
+      } catch (error) {
+        console.error(`[ExportEngine] ${exporter.name} export failed:`, error)
+        diagnostics.push({
+          id: `export-${format}-error`,
+          passId: 'export',
+          severity: 'error',
+          title: `${exporter.name} Export Failed`,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          documentId: ''
+        })
+      }
+    }
+
+    return { artifacts, diagnostics }
+  }
+}
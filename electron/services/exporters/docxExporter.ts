@@ -0,0 +1,424 @@
+import { promises as fs } from 'fs'
+import { join, extname } from 'path'
+import type { JSONContent } from '@tiptap/core'
+import type { Exporter, ExportContext } from '../exportEngine'
+import type { BuildArtifact, Project } from '../../../src/types/project'
+import { createZip, type ZipEntry } from './zipWriter'
+
+// Measurement helpers: Word uses twips (1/1440") for layout and EMUs for drawings
+const TWIPS_PER_INCH = 1440
+const EMU_PER_INCH = 914400
+const EMU_PER_PIXEL = 9525
+const MAX_IMAGE_WIDTH_EMU = 6 * EMU_PER_INCH
+
+// Screenplay paragraph indents (left, right) in inches, relative to a 1.5" left / 1" right page margin
+const SCREENPLAY_INDENTS: Record<string, { left: number; right: number; align?: 'right' }> = {
+  'scene-heading': { left: 0, right: 0 },
+  'action': { left: 0, right: 0 },
+  'character': { left: 2.2, right: 0 },
+  'dialogue': { left: 1.0, right: 1.5 },
+  'parenthetical': { left: 1.6, right: 1.9 },
+  'transition': { left: 4.0, right: 0, align: 'right' },
+  'shot': { left: 0, right: 0 }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Convert a CSS color (#rgb / #rrggbb) to Word's RRGGBB form
+function toWordColor(color: unknown): string | null {
+  if (typeof color !== 'string') return null
+  const hex = color.trim().replace(/^#/, '')
+  if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase()
+  if (/^[0-9a-f]{3}$/i.test(hex)) return hex.split('').map(c => c + c).join('').toUpperCase()
+  return null
+}
+
+// Read pixel dimensions from PNG, GIF or JPEG headers
+function readImageSize(data: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR chunk starts at byte 16
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+  }
+  // GIF: logical screen size at byte 6
+  if (data.length > 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) }
+  }
+  // JPEG: walk markers until a start-of-frame segment
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null
+      const marker = data[offset + 1]
+      const length = data.readUInt16BE(offset + 2)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) }
+      }
+      offset += 2 + length
+    }
+  }
+  return null
+}
+
+interface MediaEntry {
+  relId: string
+  fileName: string
+  data: Buffer
+}
+
+interface HyperlinkEntry {
+  relId: string
+  target: string
+}
+
+/**
+ * Walks TipTap JSON and emits WordprocessingML body content, collecting
+ * the media, hyperlinks and list numbering instances it references.
+ */
+class DocxBodyWriter {
+  media: MediaEntry[] = []
+  hyperlinks: HyperlinkEntry[] = []
+  orderedListStarts: number[] = [] // One numbering instance per ordered list
+  private relCounter = 10 // rId1-9 are reserved for package parts
+  private drawingCounter = 1
+
+  constructor(private project: Project, private isScreenplay: boolean) {}
+
+  private nextRelId(): string {
+    return `rId${this.relCounter++}`
+  }
+
+  private runProperties(marks: JSONContent['marks']): string {
+    if (!marks || marks.length === 0) return ''
+    const props: string[] = []
+    for (const mark of marks) {
+      switch (mark.type) {
+        case 'bold': props.push('<w:b/>'); break
+        case 'italic': props.push('<w:i/>'); break
+        case 'underline': props.push('<w:u w:val="single"/>'); break
+        case 'strike': props.push('<w:strike/>'); break
+        case 'code': props.push('<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>'); break
+        case 'highlight': props.push('<w:highlight w:val="yellow"/>'); break
+        case 'textStyle': {
+          const color = toWordColor(mark.attrs?.color)
+          if (color) props.push(`<w:color w:val="${color}"/>`)
+          break
+        }
+      }
+    }
+    return props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : ''
+  }
+
+  private textRun(text: string, marks: JSONContent['marks']): string {
+    return `<w:r>${this.runProperties(marks)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`
+  }
+
+  private async inlines(node: JSONContent): Promise<string> {
+    const parts: string[] = []
+    for (const child of node.content || []) {
+      if (child.type === 'text') {
+        const run = this.textRun(child.text || '', child.marks)
+        const link = child.marks?.find(m => m.type === 'link')
+        if (link?.attrs?.href) {
+          const relId = this.nextRelId()
+          this.hyperlinks.push({ relId, target: String(link.attrs.href) })
+          parts.push(`<w:hyperlink r:id="${relId}">${run}</w:hyperlink>`)
+        } else {
+          parts.push(run)
+        }
+      } else if (child.type === 'mention') {
+        parts.push(this.textRun(String(child.attrs?.label || child.attrs?.id || ''), child.marks))
+      } else if (child.type === 'hardBreak') {
+        parts.push('<w:r><w:br/></w:r>')
+      } else if (child.type === 'image' || child.type === 'assetImage') {
+        parts.push(await this.image(child))
+      } else if (child.content) {
+        parts.push(await this.inlines(child))
+      }
+    }
+    return parts.join('')
+  }
+
+  private paragraph(props: string[], content: string): string {
+    const pPr = props.length > 0 ? `<w:pPr>${props.join('')}</w:pPr>` : ''
+    return `<w:p>${pPr}${content}</w:p>`
+  }
+
+  private alignment(node: JSONContent): string[] {
+    const align = node.attrs?.textAlign
+    if (align === 'center') return ['<w:jc w:val="center"/>']
+    if (align === 'right') return ['<w:jc w:val="right"/>']
+    if (align === 'justify') return ['<w:jc w:val="both"/>']
+    return []
+  }
+
+  private async image(node: JSONContent): Promise<string> {
+    const assetId = node.attrs?.assetId as string | undefined
+    const asset = assetId ? this.project.assets.find(a => a.id === assetId) : undefined
+    if (!asset) return ''
+
+    let data: Buffer
+    try {
+      data = await fs.readFile(join(this.project.path, asset.path))
+    } catch (error) {
+      console.warn(`[DocxExporter] Failed to read asset ${asset.id}:`, error)
+      return ''
+    }
+
+    const size = readImageSize(data)
+    if (!size || size.width === 0 || size.height === 0) return ''
+
+    let cx = size.width * EMU_PER_PIXEL
+    let cy = size.height * EMU_PER_PIXEL
+    if (cx > MAX_IMAGE_WIDTH_EMU) {
+      cy = Math.round(cy * (MAX_IMAGE_WIDTH_EMU / cx))
+      cx = MAX_IMAGE_WIDTH_EMU
+    }
+
+    const relId = this.nextRelId()
+    const id = this.drawingCounter++
+    const fileName = `image${id}${extname(asset.path).toLowerCase() || '.png'}`
+    this.media.push({ relId, fileName, data })
+
+    const name = escapeXml(asset.name)
+    return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+      `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="${name}"/>` +
+      `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">` +
+      `<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+      `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+      `<pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`
+  }
+
+  private async list(node: JSONContent, numId: number, level: number): Promise<string> {
+    const parts: string[] = []
+    for (const item of node.content || []) {
+      for (const child of item.content || []) {
+        if (child.type === 'bulletList' || child.type === 'orderedList' || child.type === 'taskList') {
+          parts.push(await this.block(child, level + 1))
+        } else if (child.type === 'paragraph') {
+          const checkbox = item.type === 'taskItem' ? this.textRun(item.attrs?.checked ? '☒ ' : '☐ ', undefined) : ''
+          const numbering = item.type === 'taskItem'
+            ? [`<w:ind w:left="${360 * (level + 1)}"/>`]
+            : [`<w:numPr><w:ilvl w:val="${Math.min(level, 8)}"/><w:numId w:val="${numId}"/></w:numPr>`]
+          parts.push(this.paragraph(['<w:pStyle w:val="ListParagraph"/>', ...numbering], checkbox + await this.inlines(child)))
+        } else {
+          parts.push(await this.block(child, level + 1))
+        }
+      }
+    }
+    return parts.join('')
+  }
+
+  async block(node: JSONContent, listLevel = 0): Promise<string> {
+    switch (node.type) {
+      case 'doc': {
+        const parts: string[] = []
+        for (const child of node.content || []) parts.push(await this.block(child))
+        return parts.join('')
+      }
+      case 'paragraph':
+        return this.paragraph(this.alignment(node), await this.inlines(node))
+      case 'heading': {
+        const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6)
+        return this.paragraph([`<w:pStyle w:val="Heading${level}"/>`, ...this.alignment(node)], await this.inlines(node))
+      }
+      case 'blockquote': {
+        const parts: string[] = []
+        for (const child of node.content || []) {
+          parts.push(this.paragraph(['<w:pStyle w:val="Quote"/>'], await this.inlines(child)))
+        }
+        return parts.join('')
+      }
+      case 'codeBlock':
+        return this.paragraph(['<w:pStyle w:val="Code"/>'], await this.inlines(node))
+      case 'bulletList':
+      case 'taskList':
+        return this.list(node, 1, listLevel)
+      case 'orderedList': {
+        this.orderedListStarts.push(Number(node.attrs?.start) || 1)
+        // numId 1 is bullets; ordered lists start at 2
+        return this.list(node, this.orderedListStarts.length + 1, listLevel)
+      }
+      case 'horizontalRule':
+        return this.paragraph(['<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>'], '')
+      case 'image':
+      case 'assetImage':
+        return this.paragraph(['<w:jc w:val="center"/>'], await this.image(node))
+      case 'screenplayElement': {
+        const elementType = String(node.attrs?.elementType || 'action')
+        const styleId = `Screenplay${elementType.split('-').map(s => s.charAt(0).toUpperCase() + s.slice(1)).join('')}`
+        return this.paragraph([`<w:pStyle w:val="${styleId}"/>`], await this.inlines(node))
+      }
+      default: {
+        if (!node.content) return ''
+        const parts: string[] = []
+        for (const child of node.content) parts.push(await this.block(child, listLevel))
+        return parts.join('')
+      }
+    }
+  }
+
+  sectionProperties(): string {
+    const left = this.isScreenplay ? 1.5 : 1
+    return `<w:sectPr><w:pgSz w:w="${8.5 * TWIPS_PER_INCH}" w:h="${11 * TWIPS_PER_INCH}"/>` +
+      `<w:pgMar w:top="${TWIPS_PER_INCH}" w:right="${TWIPS_PER_INCH}" w:bottom="${TWIPS_PER_INCH}" w:left="${left * TWIPS_PER_INCH}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`
+  }
+}
+
+function buildStylesXml(isScreenplay: boolean): string {
+  const bodyFont = isScreenplay ? 'Courier New' : 'Times New Roman'
+  const headingSizes = [32, 28, 26, 24, 22, 22]
+  const headings = headingSizes.map((size, i) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`
+  ).join('')
+
+  const screenplayStyles = Object.entries(SCREENPLAY_INDENTS).map(([type, indent]) => {
+    const styleId = `Screenplay${type.split('-').map(s => s.charAt(0).toUpperCase() + s.slice(1)).join('')}`
+    const caps = ['scene-heading', 'character', 'transition', 'shot'].includes(type) ? '<w:caps/>' : ''
+    const keepNext = ['scene-heading', 'character', 'parenthetical'].includes(type) ? '<w:keepNext/>' : ''
+    const jc = indent.align === 'right' ? '<w:jc w:val="right"/>' : ''
+    return `<w:style w:type="paragraph" w:customStyle="1" w:styleId="${styleId}"><w:name w:val="Screenplay ${type}"/><w:basedOn w:val="Normal"/>` +
+      `<w:pPr>${keepNext}<w:spacing w:before="0" w:after="${type === 'character' || type === 'parenthetical' ? 0 : 240}" w:line="240" w:lineRule="auto"/>` +
+      `<w:ind w:left="${Math.round(indent.left * TWIPS_PER_INCH)}" w:right="${Math.round(indent.right * TWIPS_PER_INCH)}"/>${jc}</w:pPr>` +
+      `<w:rPr>${caps}</w:rPr></w:style>`
+  }).join('')
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${bodyFont}" w:hAnsi="${bodyFont}" w:cs="${bodyFont}"/><w:sz w:val="24"/><w:szCs w:val="24"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="${isScreenplay ? 0 : 160}" w:line="${isScreenplay ? 240 : 276}" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${headings}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/><w:color w:val="404040"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr></w:style>
+${screenplayStyles}
+</w:styles>`
+}
+
+function buildNumberingXml(orderedListStarts: number[]): string {
+  const levels = (format: 'bullet' | 'decimal') => Array.from({ length: 9 }, (_, lvl) => {
+    const text = format === 'bullet' ? ['•', '◦', '▪'][lvl % 3] : `%${lvl + 1}.`
+    return `<w:lvl w:ilvl="${lvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${720 * (lvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+  }).join('')
+
+  const orderedNums = orderedListStarts.map((start, i) =>
+    `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+  ).join('')
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>
+<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+${orderedNums}
+</w:numbering>`
+}
+
+const MEDIA_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif'
+}
+
+/**
+ * Render the export context to a .docx package.
+ */
+export async function renderDocx(ctx: ExportContext): Promise<Buffer> {
+  const isScreenplay = ctx.project.templateId === 'screenplay'
+  const writer = new DocxBodyWriter(ctx.project, isScreenplay)
+
+  const bodyParts: string[] = []
+  for (let i = 0; i < ctx.documents.length; i++) {
+    if (i > 0) {
+      // Each document starts on a new page
+      bodyParts.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>')
+    }
+    bodyParts.push(await writer.block(ctx.documents[i].content))
+  }
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">
+<w:body>${bodyParts.join('')}${writer.sectionProperties()}</w:body>
+</w:document>`
+
+  const documentRels = [
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>',
+    ...writer.media.map(m =>
+      `<Relationship Id="${m.relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${m.fileName}"/>`),
+    ...writer.hyperlinks.map(h =>
+      `<Relationship Id="${h.relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(h.target)}" TargetMode="External"/>`)
+  ].join('')
+
+  const mediaExtensions = Array.from(new Set(writer.media.map(m => extname(m.fileName).slice(1))))
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+${mediaExtensions.map(ext => `<Default Extension="${ext}" ContentType="${MEDIA_CONTENT_TYPES[ext] || 'application/octet-stream'}"/>`).join('\n')}
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`
+
+  const packageRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`
+
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')
+  const coreProps = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(ctx.project.name)}</dc:title>
+<dc:creator>Cadmus</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>`
+
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: packageRels },
+    { name: 'docProps/core.xml', data: coreProps },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: buildStylesXml(isScreenplay) },
+    { name: 'word/numbering.xml', data: buildNumberingXml(writer.orderedListStarts) },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${documentRels}</Relationships>`
+    },
+    ...writer.media.map(m => ({ name: `word/media/${m.fileName}`, data: m.data }))
+  ]
+
+  return createZip(entries)
+}
+
+export class DocxExporter implements Exporter {
+  format: 'docx' = 'docx'
+  name = 'Word Document'
+
+  async export(ctx: ExportContext): Promise<BuildArtifact> {
+    const docx = await renderDocx(ctx)
+    const outputPath = join(ctx.outputDir, `${ctx.baseFileName}.docx`)
+    await fs.writeFile(outputPath, docx)
+
+    return {
+      format: this.format,
+      path: outputPath,
+      size: docx.byteLength
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { Exporter, ExportContext } from '../exportEngine'
+import type { BuildArtifact, TemplateId } from '../../../src/types/project'
+import { documentsToScript, serializeFdx } from '../screenplayFormats'
+
+export class FdxExporter implements Exporter {
+  format: 'fdx' = 'fdx'
+  name = 'Final Draft'
+  templateIds: TemplateId[] = ['screenplay']
+
+  async export(ctx: ExportContext): Promise<BuildArtifact> {
+    const fdx = serializeFdx(documentsToScript(ctx.project, ctx.documents))
+    const outputPath = join(ctx.outputDir, `${ctx.baseFileName}.fdx`)
+    await fs.writeFile(outputPath, fdx, 'utf-8')
+
+    return {
+      format: this.format,
+      path: outputPath,
+      size: Buffer.byteLength(fdx, 'utf-8')
+    }
+  }
+}
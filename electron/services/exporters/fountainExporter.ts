@@ -0,0 +1,23 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { Exporter, ExportContext } from '../exportEngine'
+import type { BuildArtifact, TemplateId } from '../../../src/types/project'
+import { documentsToScript, serializeFountain } from '../screenplayFormats'
+
+export class FountainExporter implements Exporter {
+  format: 'fountain' = 'fountain'
+  name = 'Fountain'
+  templateIds: TemplateId[] = ['screenplay']
+
+  async export(ctx: ExportContext): Promise<BuildArtifact> {
+    const fountain = serializeFountain(documentsToScript(ctx.project, ctx.documents))
+    const outputPath = join(ctx.outputDir, `${ctx.baseFileName}.fountain`)
+    await fs.writeFile(outputPath, fountain, 'utf-8')
+
+    return {
+      format: this.format,
+      path: outputPath,
+      size: Buffer.byteLength(fountain, 'utf-8')
+    }
+  }
+}
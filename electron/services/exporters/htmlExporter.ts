@@ -0,0 +1,242 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { JSONContent } from '@tiptap/core'
+import type { Exporter, ExportContext } from '../exportEngine'
+import type { BuildArtifact, Project } from '../../../src/types/project'
+
+// Escape text for safe inclusion in HTML
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Read an asset as a data URI so exported HTML is self-contained
+// (the cadmus-asset:// protocol only exists inside the app)
+export async function assetDataUri(project: Project, assetId: string): Promise<string | null> {
+  const asset = project.assets.find(a => a.id === assetId)
+  if (!asset) return null
+
+  try {
+    const data = await fs.readFile(join(project.path, asset.path))
+    return `data:${asset.mimeType || 'application/octet-stream'};base64,${data.toString('base64')}`
+  } catch (error) {
+    console.warn(`[HtmlExporter] Failed to read asset ${asset.id}:`, error)
+    return null
+  }
+}
+
+// Resolve an image node to a data URI
+async function resolveImageSource(node: JSONContent, project: Project): Promise<string | null> {
+  const assetId = node.attrs?.assetId as string | undefined
+  if (assetId && project.assets.some(a => a.id === assetId)) {
+    return assetDataUri(project, assetId)
+  }
+
+  const src = node.attrs?.src as string | undefined
+  if (src && /^(https?:|data:)/.test(src)) {
+    return src
+  }
+  return null
+}
+
+// Collect inline style declarations shared by paragraphs and headings
+function blockStyle(node: JSONContent): string {
+  const styles: string[] = []
+  if (node.attrs?.textAlign && node.attrs.textAlign !== 'left') {
+    styles.push(`text-align: ${node.attrs.textAlign}`)
+  }
+  if (node.attrs?.lineHeight) {
+    styles.push(`line-height: ${node.attrs.lineHeight}`)
+  }
+  return styles.length > 0 ? ` style="${escapeHtml(styles.join('; '))}"` : ''
+}
+
+// Wrap text in the HTML equivalents of its TipTap marks
+function renderMarks(html: string, marks: JSONContent['marks']): string {
+  if (!marks) return html
+
+  let result = html
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'bold':
+        result = `<strong>${result}</strong>`
+        break
+      case 'italic':
+        result = `<em>${result}</em>`
+        break
+      case 'underline':
+        result = `<u>${result}</u>`
+        break
+      case 'strike':
+        result = `<s>${result}</s>`
+        break
+      case 'code':
+        result = `<code>${result}</code>`
+        break
+      case 'link':
+        result = `<a href="${escapeHtml(String(mark.attrs?.href || '#'))}">${result}</a>`
+        break
+      case 'highlight': {
+        const color = mark.attrs?.color ? ` style="background-color: ${escapeHtml(String(mark.attrs.color))}"` : ''
+        result = `<mark${color}>${result}</mark>`
+        break
+      }
+      case 'textStyle': {
+        const styles: string[] = []
+        if (mark.attrs?.color) styles.push(`color: ${mark.attrs.color}`)
+        if (mark.attrs?.fontFamily) styles.push(`font-family: ${mark.attrs.fontFamily}`)
+        if (mark.attrs?.fontSize) styles.push(`font-size: ${mark.attrs.fontSize}`)
+        if (styles.length > 0) {
+          result = `<span style="${escapeHtml(styles.join('; '))}">${result}</span>`
+        }
+        break
+      }
+      // Citation marks and other editor-only marks render as plain text
+    }
+  }
+  return result
+}
+
+/**
+ * Render TipTap JSON content to an HTML fragment.
+ */
+export async function contentToHtml(node: JSONContent, project: Project): Promise<string> {
+  const children = async (): Promise<string> => {
+    if (!node.content) return ''
+    const parts: string[] = []
+    for (const child of node.content) {
+      parts.push(await contentToHtml(child, project))
+    }
+    return parts.join('')
+  }
+
+  switch (node.type) {
+    case 'doc':
+      return children()
+    case 'text':
+      return renderMarks(escapeHtml(node.text || ''), node.marks)
+    case 'mention':
+      return renderMarks(
+        `<span class="mention">${escapeHtml(String(node.attrs?.label || node.attrs?.id || ''))}</span>`,
+        node.marks
+      )
+    case 'hardBreak':
+      return '<br>'
+    case 'paragraph': {
+      const inner = await children()
+      return `<p${blockStyle(node)}>${inner || '&nbsp;'}</p>\n`
+    }
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6)
+      return `<h${level}${blockStyle(node)}>${await children()}</h${level}>\n`
+    }
+    case 'blockquote':
+      return `<blockquote>${await children()}</blockquote>\n`
+    case 'bulletList':
+      return `<ul>${await children()}</ul>\n`
+    case 'orderedList': {
+      const start = node.attrs?.start && node.attrs.start !== 1 ? ` start="${Number(node.attrs.start)}"` : ''
+      return `<ol${start}>${await children()}</ol>\n`
+    }
+    case 'listItem':
+      return `<li>${await children()}</li>`
+    case 'taskList':
+      return `<ul class="task-list">${await children()}</ul>\n`
+    case 'taskItem': {
+      const checked = node.attrs?.checked ? ' checked' : ''
+      return `<li class="task-item"><input type="checkbox" disabled${checked}> ${await children()}</li>`
+    }
+    case 'codeBlock':
+      return `<pre><code>${await children()}</code></pre>\n`
+    case 'horizontalRule':
+      return '<hr>\n'
+    case 'image':
+    case 'assetImage': {
+      const src = await resolveImageSource(node, project)
+      if (!src) return ''
+      const alt = escapeHtml(String(node.attrs?.alt || ''))
+      return `<figure><img src="${src}" alt="${alt}"></figure>\n`
+    }
+    case 'screenplayElement': {
+      const elementType = String(node.attrs?.elementType || 'action')
+      return `<p class="sp-${escapeHtml(elementType)}">${(await children()) || '&nbsp;'}</p>\n`
+    }
+    default:
+      // Unknown block: render its children so no text is lost
+      return children()
+  }
+}
+
+// Base stylesheet for exported documents. Screenplay elements follow
+// standard script indentation relative to a 6" text column.
+export const EXPORT_STYLES = `
+  @page { size: Letter; margin: 1in; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 12pt; line-height: 1.5; color: #111; max-width: 6.5in; margin: 0 auto; }
+  h1, h2, h3, h4, h5, h6 { line-height: 1.25; margin: 1.2em 0 0.5em; }
+  p { margin: 0 0 0.8em; }
+  blockquote { margin: 0 0 0.8em; padding-left: 1em; border-left: 3px solid #ccc; color: #444; }
+  pre { background: #f4f4f4; padding: 0.75em; white-space: pre-wrap; }
+  figure { margin: 1em 0; text-align: center; }
+  img { max-width: 100%; }
+  ul.task-list { list-style: none; padding-left: 0.5em; }
+  .document-break { page-break-before: always; break-before: page; }
+  .screenplay { font-family: 'Courier Prime', 'Courier New', Courier, monospace; font-size: 12pt; line-height: 1; }
+  .screenplay p { margin: 0 0 12pt; }
+  .screenplay .sp-scene-heading { text-transform: uppercase; font-weight: bold; }
+  .screenplay .sp-character { margin: 0 0 0 2.2in; text-transform: uppercase; }
+  .screenplay .sp-parenthetical { margin: 0 0 0 1.6in; max-width: 2.5in; }
+  .screenplay .sp-dialogue { margin: 0 0 12pt 1in; max-width: 3.5in; }
+  .screenplay .sp-transition { text-align: right; text-transform: uppercase; }
+  .screenplay .sp-shot { text-transform: uppercase; }
+`
+
+/**
+ * Render every document in the export context into one standalone HTML page.
+ * Each document after the first starts on a new page when printed.
+ */
+export async function renderExportHtml(ctx: ExportContext): Promise<string> {
+  const isScreenplay = ctx.project.templateId === 'screenplay'
+  const sections: string[] = []
+
+  for (let i = 0; i < ctx.documents.length; i++) {
+    const doc = ctx.documents[i]
+    const classes = ['document']
+    if (i > 0) classes.push('document-break')
+    sections.push(
+      `<section class="${classes.join(' ')}" data-document-id="${escapeHtml(doc.id)}">\n${await contentToHtml(doc.content, ctx.project)}</section>`
+    )
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(ctx.project.name)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body${isScreenplay ? ' class="screenplay"' : ''}>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
+
+export class HtmlExporter implements Exporter {
+  format: 'html' = 'html'
+  name = 'HTML'
+
+  async export(ctx: ExportContext): Promise<BuildArtifact> {
+    const html = await renderExportHtml(ctx)
+    const outputPath = join(ctx.outputDir, `${ctx.baseFileName}.html`)
+    await fs.writeFile(outputPath, html, 'utf-8')
+
+    return {
+      format: this.format,
+      path: outputPath,
+      size: Buffer.byteLength(html, 'utf-8')
+    }
+  }
+}
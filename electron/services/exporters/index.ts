@@ -0,0 +1,7 @@
+// Export all exporters
+export { HtmlExporter } from './htmlExporter'
+export { PdfExporter } from './pdfExporter'
+export { DocxExporter } from './docxExporter'
+export { ScreenplayPdfExporter } from './screenplayPdfExporter'
+export { FountainExporter } from './fountainExporter'
+export { FdxExporter } from './fdxExporter'
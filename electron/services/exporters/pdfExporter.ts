@@ -0,0 +1,60 @@
+import { BrowserWindow } from 'electron'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { v4 as uuidv4 } from 'uuid'
+import type { Exporter, ExportContext } from '../exportEngine'
+import type { BuildArtifact } from '../../../src/types/project'
+import { renderExportHtml } from './htmlExporter'
+
+/**
+ * Print a standalone HTML page to PDF using an offscreen window.
+ * The HTML is written to a temp file first because large documents with
+ * embedded images exceed what Chromium accepts as a data: URL.
+ * Pass `marginless` when the page positions its own content edge to edge.
+ */
+export async function printHtmlToPdf(html: string, marginless = false): Promise<Buffer> {
+  const tempPath = join(tmpdir(), `cadmus-export-${uuidv4()}.html`)
+  await fs.writeFile(tempPath, html, 'utf-8')
+
+  const window = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      sandbox: true,
+      contextIsolation: true,
+      nodeIntegration: false,
+      javascript: false
+    }
+  })
+
+  try {
+    await window.loadFile(tempPath)
+    return await window.webContents.printToPDF({
+      pageSize: 'Letter',
+      printBackground: true,
+      preferCSSPageSize: true,
+      ...(marginless ? { margins: { top: 0, bottom: 0, left: 0, right: 0 } } : {})
+    })
+  } finally {
+    window.destroy()
+    await fs.unlink(tempPath).catch(() => {})
+  }
+}
+
+export class PdfExporter implements Exporter {
+  format: 'pdf' = 'pdf'
+  name = 'PDF'
+
+  async export(ctx: ExportContext): Promise<BuildArtifact> {
+    const html = await renderExportHtml(ctx)
+    const pdf = await printHtmlToPdf(html)
+    const outputPath = join(ctx.outputDir, `${ctx.baseFileName}.pdf`)
+    await fs.writeFile(outputPath, pdf)
+
+    return {
+      format: this.format,
+      path: outputPath,
+      size: pdf.byteLength
+    }
+  }
+}
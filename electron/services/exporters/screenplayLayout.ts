@@ -0,0 +1,512 @@
+import type { JSONContent } from '@tiptap/core'
+import type { DocumentWithContent } from '../passEngine'
+
+/**
+ * Screenplay page layout.
+ *
+ * Lays screenplay documents out on US Letter pages the way a script is
+ * typed: Courier 12pt (10 characters per inch, 6 lines per inch), 1.5" left
+ * margin, 1" on the other sides, and fixed indents per element type.
+ * The result is a list of positioned lines per page that renderers can
+ * draw directly, so page breaks are decided here and not by the browser.
+ */
+
+export type ScreenplayElementType =
+  | 'scene-heading'
+  | 'action'
+  | 'character'
+  | 'dialogue'
+  | 'parenthetical'
+  | 'transition'
+  | 'shot'
+
+// Page geometry (inches)
+export const PAGE_WIDTH = 8.5
+export const PAGE_HEIGHT = 11
+export const TOP_MARGIN = 1
+export const LINE_HEIGHT = 1 / 6
+export const CHAR_WIDTH = 0.1
+export const LINES_PER_PAGE = 54
+const BODY_LEFT = 1.5
+const BODY_RIGHT = 7.5
+const BODY_WIDTH_CHARS = 60
+
+interface ElementSpec {
+  x: number          // Left edge in inches from the page edge
+  width: number      // Maximum characters per line
+  spaceBefore: number // Blank lines before the element
+  uppercase?: boolean
+  align?: 'right'
+}
+
+export const ELEMENT_SPECS: Record<ScreenplayElementType, ElementSpec> = {
+  'scene-heading': { x: BODY_LEFT, width: BODY_WIDTH_CHARS, spaceBefore: 1, uppercase: true },
+  'action': { x: BODY_LEFT, width: BODY_WIDTH_CHARS, spaceBefore: 1 },
+  'character': { x: 3.7, width: 38, spaceBefore: 1, uppercase: true },
+  'parenthetical': { x: 3.1, width: 25, spaceBefore: 0 },
+  'dialogue': { x: 2.5, width: 35, spaceBefore: 0 },
+  'transition': { x: 5.5, width: 20, spaceBefore: 1, uppercase: true, align: 'right' },
+  'shot': { x: BODY_LEFT, width: BODY_WIDTH_CHARS, spaceBefore: 1, uppercase: true }
+}
+
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+export interface LayoutLine {
+  row: number // 0-based line within the body area (negative rows sit in the top margin)
+  x: number   // Left edge in inches from the page edge
+  runs: TextRun[]
+}
+
+export interface ScreenplayPage {
+  number: number // 0 for the title page
+  lines: LayoutLine[]
+}
+
+export interface ScreenplayLayoutOptions {
+  sceneNumbers: boolean
+}
+
+// --- Text extraction and wrapping ---
+
+interface StyledChar {
+  ch: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+function collectChars(node: JSONContent, out: StyledChar[], uppercase: boolean): void {
+  for (const child of node.content || []) {
+    if (child.type === 'text' || child.type === 'mention') {
+      const text = child.type === 'text'
+        ? child.text || ''
+        : String(child.attrs?.label || child.attrs?.id || '')
+      const marks = new Set((child.marks || []).map(m => m.type))
+      const style = {
+        bold: marks.has('bold') || undefined,
+        italic: marks.has('italic') || undefined,
+        underline: marks.has('underline') || undefined
+      }
+      for (const ch of uppercase ? text.toUpperCase() : text) {
+        out.push({ ch, ...style })
+      }
+    } else if (child.type === 'hardBreak') {
+      out.push({ ch: '\n' })
+    } else if (child.content) {
+      collectChars(child, out, uppercase)
+    }
+  }
+}
+
+function charsToRuns(chars: StyledChar[]): TextRun[] {
+  const runs: TextRun[] = []
+  for (const c of chars) {
+    const last = runs[runs.length - 1]
+    if (last && last.bold === c.bold && last.italic === c.italic && last.underline === c.underline) {
+      last.text += c.ch
+    } else {
+      runs.push({ text: c.ch, bold: c.bold, italic: c.italic, underline: c.underline })
+    }
+  }
+  return runs
+}
+
+function trimEnd(chars: StyledChar[]): StyledChar[] {
+  let end = chars.length
+  while (end > 0 && chars[end - 1].ch === ' ') end--
+  return chars.slice(0, end)
+}
+
+// Greedy word wrap at a fixed character width, keeping inline styles
+function wrapChars(chars: StyledChar[], width: number): StyledChar[][] {
+  const lines: StyledChar[][] = []
+  let start = 0
+
+  while (start < chars.length) {
+    // Explicit line breaks always end a line
+    const newline = chars.findIndex((c, i) => i >= start && c.ch === '\n')
+    const limit = newline === -1 ? chars.length : newline
+
+    if (limit - start <= width) {
+      lines.push(trimEnd(chars.slice(start, limit)))
+      start = limit + (newline === -1 ? 0 : 1)
+      if (newline === -1) break
+      continue
+    }
+
+    // Break at the last space that fits, or hard-break a long word
+    let breakAt = -1
+    for (let i = start + width; i > start; i--) {
+      if (chars[i].ch === ' ') {
+        breakAt = i
+        break
+      }
+    }
+    if (breakAt === -1) {
+      lines.push(chars.slice(start, start + width))
+      start += width
+    } else {
+      lines.push(trimEnd(chars.slice(start, breakAt)))
+      start = breakAt + 1
+    }
+    while (start < chars.length && chars[start].ch === ' ') start++
+  }
+
+  return lines.length > 0 ? lines : [[]]
+}
+
+function lineLength(runs: TextRun[]): number {
+  return runs.reduce((sum, r) => sum + r.text.length, 0)
+}
+
+function plainText(runs: TextRun[]): string {
+  return runs.map(r => r.text).join('')
+}
+
+// A wrapped element ready to place: one entry per printed line
+interface ElementLines {
+  type: ScreenplayElementType
+  lines: { x: number; runs: TextRun[] }[]
+}
+
+function layoutElement(node: JSONContent, type: ScreenplayElementType): ElementLines {
+  const spec = ELEMENT_SPECS[type]
+  const chars: StyledChar[] = []
+  collectChars(node, chars, !!spec.uppercase)
+
+  // The editor draws parentheses around parentheticals with CSS
+  if (type === 'parenthetical') {
+    const text = chars.map(c => c.ch).join('').trim()
+    if (!text.startsWith('(')) chars.unshift({ ch: '(' })
+    if (!text.endsWith(')')) chars.push({ ch: ')' })
+  }
+
+  const wrapped = wrapChars(chars, spec.width)
+  return {
+    type,
+    lines: wrapped.map(line => {
+      const runs = charsToRuns(line)
+      const x = spec.align === 'right'
+        ? BODY_RIGHT - lineLength(runs) * CHAR_WIDTH
+        : spec.x
+      return { x, runs }
+    })
+  }
+}
+
+// --- Blocks ---
+
+type Block =
+  | { kind: 'element'; element: ElementLines; sceneNumber?: number }
+  | { kind: 'dialogue'; character: ElementLines; parts: ElementLines[] }
+  | { kind: 'act'; title: TextRun[] }
+
+function isScreenplayType(value: unknown): value is ScreenplayElementType {
+  return typeof value === 'string' && value in ELEMENT_SPECS
+}
+
+function hasScreenplayElements(content: JSONContent): boolean {
+  return (content.content || []).some(node => node.type === 'screenplayElement')
+}
+
+// Group screenplay nodes into blocks: a character cue owns the
+// parentheticals and dialogue that follow it
+function buildBlocks(content: JSONContent, nextSceneNumber: () => number): Block[] {
+  const blocks: Block[] = []
+
+  for (const node of content.content || []) {
+    if (node.type !== 'screenplayElement') continue
+    const type = isScreenplayType(node.attrs?.elementType) ? node.attrs.elementType : 'action'
+
+    // Skip empty elements (the editor leaves one behind on new pages)
+    if (!node.content?.length) continue
+
+    const element = layoutElement(node, type)
+    const last = blocks[blocks.length - 1]
+
+    if (type === 'character') {
+      blocks.push({ kind: 'dialogue', character: element, parts: [] })
+    } else if ((type === 'dialogue' || type === 'parenthetical') && last?.kind === 'dialogue') {
+      last.parts.push(element)
+    } else if (type === 'scene-heading') {
+      blocks.push({ kind: 'element', element, sceneNumber: nextSceneNumber() })
+    } else {
+      blocks.push({ kind: 'element', element })
+    }
+  }
+
+  return blocks
+}
+
+// Title of an act break: the first heading, falling back to the document title
+function actTitle(doc: DocumentWithContent): TextRun[] {
+  const heading = (doc.content.content || []).find(node => node.type === 'heading')
+  const chars: StyledChar[] = []
+  if (heading) collectChars(heading, chars, true)
+  const text = chars.length > 0 ? chars.map(c => c.ch).join('') : doc.title.toUpperCase()
+  return [{ text, underline: true }]
+}
+
+// --- Pagination ---
+
+class Paginator {
+  pages: ScreenplayPage[] = []
+  private page: ScreenplayPage
+  private row = 0
+
+  constructor(private options: ScreenplayLayoutOptions, firstPageNumber: number) {
+    this.page = { number: firstPageNumber, lines: [] }
+    this.pages.push(this.page)
+  }
+
+  get remaining(): number {
+    return LINES_PER_PAGE - this.row
+  }
+
+  newPage(): void {
+    this.page = { number: this.page.number + 1, lines: [] }
+    this.pages.push(this.page)
+    this.row = 0
+  }
+
+  // Blank lines are dropped at the top of a page
+  private space(lines: number): number {
+    return this.row === 0 ? 0 : lines
+  }
+
+  private emit(x: number, runs: TextRun[]): void {
+    this.page.lines.push({ row: this.row, x, runs })
+    this.row++
+  }
+
+  private emitElement(element: ElementLines, from = 0, to = element.lines.length): void {
+    for (let i = from; i < to; i++) {
+      this.emit(element.lines[i].x, element.lines[i].runs)
+    }
+  }
+
+  // Lines a block needs to start on the current page without orphaning it
+  private minimumLines(block: Block | undefined): number {
+    if (!block) return 0
+    if (block.kind === 'act') return LINES_PER_PAGE
+    if (block.kind === 'dialogue') {
+      const firstPart = block.parts[0]?.lines.length ?? 0
+      return ELEMENT_SPECS.character.spaceBefore + block.character.lines.length + Math.min(2, firstPart)
+    }
+    return ELEMENT_SPECS[block.element.type].spaceBefore + Math.min(2, block.element.lines.length)
+  }
+
+  placeAct(title: TextRun[]): void {
+    if (this.row > 0 || this.page.lines.length > 0) this.newPage()
+    const x = BODY_LEFT + ((BODY_WIDTH_CHARS - lineLength(title)) / 2) * CHAR_WIDTH
+    this.emit(x, title)
+  }
+
+  placeElement(element: ElementLines, next: Block | undefined, sceneNumber?: number): void {
+    const spec = ELEMENT_SPECS[element.type]
+    let space = this.space(spec.spaceBefore)
+    const total = element.lines.length
+
+    if (element.type === 'scene-heading' || element.type === 'shot') {
+      // Headings stay with the start of what follows them
+      if (space + total + this.minimumLines(next) > this.remaining && this.row > 0) {
+        this.newPage()
+        space = 0
+      }
+    } else if (space + total > this.remaining && this.row > 0) {
+      // Action may split between sentences-worth of lines, two on each side
+      const fit = this.remaining - space
+      if (element.type === 'action' && fit >= 2 && total - fit >= 2) {
+        this.row += space
+        this.emitElement(element, 0, fit)
+        this.newPage()
+        this.placeRemainder(element, fit)
+        return
+      }
+      this.newPage()
+      space = 0
+    }
+
+    this.row += space
+    const page = this.page
+    const firstRow = this.row
+    this.placeRemainder(element, 0)
+
+    if (sceneNumber !== undefined && this.options.sceneNumbers) {
+      const label = String(sceneNumber)
+      page.lines.push({ row: firstRow, x: BODY_LEFT - 0.75, runs: [{ text: label }] })
+      page.lines.push({ row: firstRow, x: BODY_RIGHT + 0.25, runs: [{ text: label }] })
+    }
+  }
+
+  // Emit lines from an element, continuing onto new pages if it is longer than a page
+  private placeRemainder(element: ElementLines, from: number): void {
+    let index = from
+    while (index < element.lines.length) {
+      if (this.remaining === 0) this.newPage()
+      const count = Math.min(this.remaining, element.lines.length - index)
+      this.emitElement(element, index, index + count)
+      index += count
+    }
+  }
+
+  placeDialogue(block: Extract<Block, { kind: 'dialogue' }>): void {
+    const characterSpec = ELEMENT_SPECS.character
+    let space = this.space(characterSpec.spaceBefore)
+
+    // Flatten to printable lines, remembering which element each came from
+    const items = block.parts.flatMap(part =>
+      part.lines.map((line, i) => ({ ...line, type: part.type, lastOfPart: i === part.lines.length - 1 }))
+    )
+    const characterLines = block.character.lines
+    const total = characterLines.length + items.length
+
+    if (space + total > this.remaining && this.row > 0) {
+      const split = this.findDialogueSplit(items, this.remaining - space - characterLines.length - 1)
+      if (split === -1) {
+        this.newPage()
+        space = 0
+      } else {
+        this.row += space
+        this.emitElement(block.character)
+        items.slice(0, split).forEach(item => this.emit(item.x, item.runs))
+        this.emit(characterSpec.x, [{ text: '(MORE)' }])
+        this.newPage()
+        this.emitContinuedCharacter(block.character)
+        this.emitDialogueItems(items.slice(split), block.character)
+        return
+      }
+    }
+
+    this.row += space
+    this.emitElement(block.character)
+    this.emitDialogueItems(items, block.character)
+  }
+
+  // Emit dialogue lines, breaking with (MORE)/(CONT'D) if a speech outruns a whole page
+  private emitDialogueItems(
+    items: { x: number; runs: TextRun[]; type: ScreenplayElementType; lastOfPart: boolean }[],
+    character: ElementLines
+  ): void {
+    let index = 0
+    while (index < items.length) {
+      if (items.length - index <= this.remaining) {
+        items.slice(index).forEach(item => this.emit(item.x, item.runs))
+        return
+      }
+      const split = this.findDialogueSplit(items.slice(index), this.remaining - 1)
+      const count = split === -1 ? Math.max(1, this.remaining - 1) : split
+      items.slice(index, index + count).forEach(item => this.emit(item.x, item.runs))
+      this.emit(ELEMENT_SPECS.character.x, [{ text: '(MORE)' }])
+      this.newPage()
+      this.emitContinuedCharacter(character)
+      index += count
+    }
+  }
+
+  private emitContinuedCharacter(character: ElementLines): void {
+    const cue = plainText(character.lines[0]?.runs || []).trim()
+    const text = /\(CONT'D\)/.test(cue) ? cue : `${cue} (CONT'D)`
+    this.emit(ELEMENT_SPECS.character.x, [{ text }])
+  }
+
+  // Pick how many dialogue lines stay on this page. At least two lines must
+  // stay and two must move, a parenthetical never ends the page, and a break
+  // after a full sentence is preferred. Returns -1 if the speech cannot split.
+  private findDialogueSplit(
+    items: { runs: TextRun[]; type: ScreenplayElementType; lastOfPart: boolean }[],
+    available: number
+  ): number {
+    const max = Math.min(available, items.length - 2)
+    let fallback = -1
+
+    for (let count = max; count >= 2; count--) {
+      const last = items[count - 1]
+      if (last.type === 'parenthetical') continue
+      if (items[count].type === 'parenthetical' && !last.lastOfPart) continue
+      if (/[.!?]["')]?$/.test(plainText(last.runs).trim())) return count
+      if (fallback === -1) fallback = count
+    }
+
+    return fallback
+  }
+
+  placeBlocks(blocks: Block[]): void {
+    blocks.forEach((block, i) => {
+      if (block.kind === 'act') {
+        this.placeAct(block.title)
+      } else if (block.kind === 'dialogue') {
+        this.placeDialogue(block)
+      } else {
+        this.placeElement(block.element, blocks[i + 1], block.sceneNumber)
+      }
+    })
+  }
+}
+
+// Lay out a title page from ordinary editor content (headings and paragraphs
+// with alignment), as created by the screenplay template
+function layoutTitlePage(doc: DocumentWithContent): ScreenplayPage {
+  const lines: LayoutLine[] = []
+  let row = 0
+
+  for (const node of doc.content.content || []) {
+    if (row >= LINES_PER_PAGE) break
+    const chars: StyledChar[] = []
+    collectChars(node, chars, node.type === 'heading')
+    const align = node.type === 'heading' ? 'center' : node.attrs?.textAlign
+
+    for (const line of wrapChars(chars, BODY_WIDTH_CHARS)) {
+      const runs = charsToRuns(line)
+      let x = BODY_LEFT
+      if (align === 'center') x += ((BODY_WIDTH_CHARS - lineLength(runs)) / 2) * CHAR_WIDTH
+      if (align === 'right') x = BODY_RIGHT - lineLength(runs) * CHAR_WIDTH
+      if (runs.length > 0) lines.push({ row, x, runs })
+      row++
+    }
+  }
+
+  return { number: 0, lines }
+}
+
+/**
+ * Paginate screenplay documents. A leading document without screenplay
+ * elements (the template's title page) becomes an unnumbered title page,
+ * act breaks start new pages with a centered act title, and other
+ * documents without screenplay elements (notes) are skipped.
+ */
+export function paginateScreenplay(
+  documents: (DocumentWithContent & { isActBreak?: boolean })[],
+  options: ScreenplayLayoutOptions
+): ScreenplayPage[] {
+  const pages: ScreenplayPage[] = []
+  let sceneNumber = 0
+  const nextSceneNumber = () => ++sceneNumber
+
+  let body = documents
+  const first = documents[0]
+  if (first && !first.isActBreak && !hasScreenplayElements(first.content)) {
+    pages.push(layoutTitlePage(first))
+    body = documents.slice(1)
+  }
+
+  const blocks: Block[] = []
+  for (const doc of body) {
+    if (doc.isActBreak) {
+      blocks.push({ kind: 'act', title: actTitle(doc) })
+    } else if (hasScreenplayElements(doc.content)) {
+      blocks.push(...buildBlocks(doc.content, nextSceneNumber))
+    }
+  }
+
+  const paginator = new Paginator(options, 1)
+  paginator.placeBlocks(blocks)
+  pages.push(...paginator.pages.filter(page => page.lines.length > 0))
+
+  return pages
+}
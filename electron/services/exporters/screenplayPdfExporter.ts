@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { Exporter, ExportContext } from '../exportEngine'
+import type { BuildArtifact, TemplateId } from '../../../src/types/project'
+import { escapeHtml } from './htmlExporter'
+import { printHtmlToPdf } from './pdfExporter'
+import {
+  paginateScreenplay,
+  PAGE_WIDTH,
+  PAGE_HEIGHT,
+  TOP_MARGIN,
+  LINE_HEIGHT,
+  type ScreenplayPage,
+  type TextRun
+} from './screenplayLayout'
+
+// Page numbers sit half an inch from the top, flush with the right margin
+const PAGE_NUMBER_ROW = -3
+const PAGE_NUMBER_RIGHT = 7.5
+
+const SCREENPLAY_PRINT_STYLES = `
+  @page { size: Letter; margin: 0; }
+  html, body { margin: 0; padding: 0; }
+  body { font-family: 'Courier Prime', 'Courier New', Courier, monospace; font-size: 12pt; color: #000; }
+  .page { position: relative; width: ${PAGE_WIDTH}in; height: ${PAGE_HEIGHT}in; overflow: hidden; page-break-after: always; break-after: page; }
+  .page:last-child { page-break-after: auto; break-after: auto; }
+  .line { position: absolute; white-space: pre; line-height: ${LINE_HEIGHT}in; height: ${LINE_HEIGHT}in; }
+  .page-number { position: absolute; white-space: pre; line-height: ${LINE_HEIGHT}in; }
+`
+
+function rowTop(row: number): string {
+  return `${(TOP_MARGIN + row * LINE_HEIGHT).toFixed(4)}in`
+}
+
+function renderRuns(runs: TextRun[]): string {
+  return runs.map(run => {
+    let html = escapeHtml(run.text)
+    if (run.underline) html = `<u>${html}</u>`
+    if (run.italic) html = `<i>${html}</i>`
+    if (run.bold) html = `<b>${html}</b>`
+    return html
+  }).join('')
+}
+
+/**
+ * Render paginated screenplay pages to HTML with every line absolutely
+ * positioned, so the printed PDF keeps the layout's page breaks exactly.
+ */
+export function renderScreenplayPagesHtml(title: string, pages: ScreenplayPage[]): string {
+  const pageHtml = pages.map(page => {
+    const lines = page.lines.map(line =>
+      `<div class="line" style="top: ${rowTop(line.row)}; left: ${line.x.toFixed(2)}in">${renderRuns(line.runs)}</div>`
+    )
+
+    // Title page and first script page are unnumbered by convention
+    if (page.number > 1) {
+      lines.push(
+        `<div class="page-number" style="top: ${rowTop(PAGE_NUMBER_ROW)}; right: ${(PAGE_WIDTH - PAGE_NUMBER_RIGHT).toFixed(2)}in">${page.number}.</div>`
+      )
+    }
+
+    return `<div class="page">\n${lines.join('\n')}\n</div>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${SCREENPLAY_PRINT_STYLES}</style>
+</head>
+<body>
+${pageHtml.join('\n')}
+</body>
+</html>
+`
+}
+
+// Lay out the export context's documents as screenplay pages
+export function paginateExportContext(ctx: ExportContext): ScreenplayPage[] {
+  const documents = ctx.documents.map(doc => {
+    const meta = ctx.project.documents.find(d => d.id === doc.id)
+    // Act breaks are detected by isActBreak flag OR by title pattern (for legacy docs)
+    const isActBreak = !!meta?.isActBreak || /^act\s*\d+/i.test(doc.title)
+    return { ...doc, isActBreak }
+  })
+
+  return paginateScreenplay(documents, {
+    sceneNumbers: ctx.profile.sceneNumbers ?? true
+  })
+}
+
+export class ScreenplayPdfExporter implements Exporter {
+  format: 'pdf' = 'pdf'
+  name = 'Screenplay PDF'
+  templateIds: TemplateId[] = ['screenplay']
+
+  async export(ctx: ExportContext): Promise<BuildArtifact> {
+    const pages = paginateExportContext(ctx)
+    const html = renderScreenplayPagesHtml(ctx.project.name, pages)
+    const pdf = await printHtmlToPdf(html, true)
+    const outputPath = join(ctx.outputDir, `${ctx.baseFileName}.pdf`)
+    await fs.writeFile(outputPath, pdf)
+
+    return {
+      format: this.format,
+      path: outputPath,
+      size: pdf.byteLength
+    }
+  }
+}
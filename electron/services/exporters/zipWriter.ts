@@ -0,0 +1,103 @@
+import { deflateRawSync } from 'zlib'
+
+/**
+ * Minimal ZIP archive writer (deflate, no encryption, no ZIP64).
+ * Enough for Office Open XML packages such as .docx.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Buffer | string
+}
+
+// CRC-32 lookup table (IEEE polynomial)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Encode a Date as MS-DOS time and date fields
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  const { time, date } = toDosDateTime(new Date())
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8')
+    const raw = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf-8') : entry.data
+    const compressed = deflateRawSync(raw)
+    const crc = crc32(raw)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)   // Local file header signature
+    local.writeUInt16LE(20, 4)           // Version needed to extract
+    local.writeUInt16LE(0x0800, 6)       // Flags: UTF-8 names
+    local.writeUInt16LE(8, 8)            // Compression: deflate
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)           // Extra field length
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0) // Central directory signature
+    central.writeUInt16LE(20, 4)         // Version made by
+    central.writeUInt16LE(20, 6)         // Version needed to extract
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt16LE(0, 30)         // Extra field length
+    central.writeUInt16LE(0, 32)         // Comment length
+    central.writeUInt16LE(0, 34)         // Disk number start
+    central.writeUInt16LE(0, 36)         // Internal attributes
+    central.writeUInt32LE(0, 38)         // External attributes
+    central.writeUInt32LE(offset, 42)    // Local header offset
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)       // End of central directory signature
+  end.writeUInt16LE(0, 4)
+  end.writeUInt16LE(0, 6)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  end.writeUInt16LE(0, 20)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
@@ -1,6 +1,8 @@
 import { promises as fs } from 'fs'
 import { join, dirname } from 'path'
 
+let tmpCounter = 0
+
 /**
  * Low-level file I/O utilities for the Cadmus app
  */
@@ -28,6 +30,30 @@ export class FileIO {
     await fs.writeFile(filePath, content, 'utf-8')
   }
 
+  /**
+   * Write text or bytes so the file ends up with either its old or its new
+   * content, never a partial write: the data is flushed to a temp file beside
+   * it, which then replaces the file in one rename
+   */
+  static async writeAtomic(filePath: string, content: string | Buffer): Promise<void> {
+    await fs.mkdir(dirname(filePath), { recursive: true })
+    // Unique per write so overlapping saves of one file don't share a temp file
+    const tmpPath = `${filePath}.${process.pid}.${++tmpCounter}.tmp`
+    try {
+      const handle = await fs.open(tmpPath, 'w')
+      try {
+        await handle.writeFile(content)
+        await handle.sync()
+      } finally {
+        await handle.close()
+      }
+      await fs.rename(tmpPath, filePath)
+    } catch (error) {
+      await fs.unlink(tmpPath).catch(() => {})
+      throw error
+    }
+  }
+
   /**
    * Write JSON to a file, creating directories if needed
    */
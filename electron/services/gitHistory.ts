@@ -0,0 +1,250 @@
+/**
+ * Git History
+ *
+ * Optional git integration for a project folder, using the system git.
+ * Once a repository is initialized, every saved version is committed with
+ * a generated message, documents get a commit history and per-block blame,
+ * and the history can be synced with a remote, typically a bare repository
+ * on a local or shared drive. Caches and crash-recovery files are ignored.
+ */
+
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { promisify } from 'util'
+import type { JSONContent } from '@tiptap/core'
+import type { BlockBlame, GitCommit, GitStatus, GitSyncResult, Project } from '../../src/types/project'
+import { BUILD_OUTPUT_DIR } from './exportEngine'
+
+const execFileAsync = promisify(execFile)
+
+const GITIGNORE = `# Cadmus caches, crash recovery and build output
+.cadmus/search-index.json
+.cadmus/journal/
+${BUILD_OUTPUT_DIR}/
+*.tmp
+`
+
+// Used when git has no identity configured, since commits need one
+const DEFAULT_IDENTITY = ['-c', 'user.name=Cadmus', '-c', 'user.email=cadmus@localhost']
+
+const FIELD_SEPARATOR = '\x1f'
+const LOG_FORMAT = ['%H', '%an', '%aI', '%s'].join('%x1f')
+const UNCOMMITTED_HASH = /^0+$/
+
+// Git locks a repository while it writes, so commands in one folder run one
+// at a time
+const queues = new Map<string, Promise<unknown>>()
+
+function git(cwd: string, args: string[]): Promise<string> {
+  const run = async () => {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 })
+      return stdout
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new Error(stderr || (error as Error).message)
+    }
+  }
+  const result = (queues.get(cwd) || Promise.resolve()).then(run)
+  const settled = result.catch(() => {})
+  queues.set(cwd, settled)
+  settled.then(() => {
+    if (queues.get(cwd) === settled) queues.delete(cwd)
+  })
+  return result
+}
+
+async function succeeds(cwd: string, args: string[]): Promise<boolean> {
+  return git(cwd, args).then(() => true, () => false)
+}
+
+async function identityArgs(projectPath: string): Promise<string[]> {
+  const name = await git(projectPath, ['config', 'user.name']).catch(() => '')
+  return name.trim() ? [] : DEFAULT_IDENTITY
+}
+
+function parseCommit(line: string): GitCommit {
+  const [hash, author, date, message] = line.split(FIELD_SEPARATOR)
+  return { hash, author, date, message }
+}
+
+function documentPath(project: Project, docId: string): string {
+  const doc = project.documents.find(d => d.id === docId && d.type === 'document')
+  if (!doc) throw new Error(`Document ${docId} not found`)
+  // Git paths always use forward slashes
+  return `documents/${doc.path.replace(/\\/g, '/')}`
+}
+
+export async function getGitStatus(projectPath: string): Promise<GitStatus> {
+  const status: GitStatus = { available: false, initialized: false, branch: null, remote: null, uncommitted: 0 }
+  status.available = await succeeds(projectPath, ['--version'])
+  if (!status.available) return status
+
+  // Only a repository rooted at the project counts, not one it sits inside
+  const topLevel = await git(projectPath, ['rev-parse', '--show-toplevel']).catch(() => '')
+  status.initialized = !!topLevel.trim()
+    && await fs.realpath(topLevel.trim()).catch(() => '') === await fs.realpath(projectPath).catch(() => projectPath)
+  if (!status.initialized) return status
+
+  status.branch = (await git(projectPath, ['rev-parse', '--abbrev-ref', 'HEAD']).catch(() => '')).trim() || null
+  status.remote = (await git(projectPath, ['remote', 'get-url', 'origin']).catch(() => '')).trim() || null
+  status.uncommitted = (await git(projectPath, ['status', '--porcelain'])).split('\n').filter(Boolean).length
+  return status
+}
+
+/**
+ * Commit every change in the project. Returns the commit, or null if there
+ * was nothing to commit.
+ */
+export async function commitChanges(projectPath: string, message: string): Promise<GitCommit | null> {
+  await git(projectPath, ['add', '-A'])
+  if (!(await git(projectPath, ['status', '--porcelain'])).trim()) return null
+
+  await git(projectPath, [...await identityArgs(projectPath), 'commit', '-q', '-m', message])
+  return parseCommit((await git(projectPath, ['log', '-1', `--format=${LOG_FORMAT}`])).trim())
+}
+
+export async function initRepository(projectPath: string): Promise<GitStatus> {
+  await git(projectPath, ['init', '-q', '--initial-branch=main'])
+  const gitignorePath = join(projectPath, '.gitignore')
+  if (!await fs.access(gitignorePath).then(() => true, () => false)) {
+    await fs.writeFile(gitignorePath, GITIGNORE, 'utf-8')
+  }
+  await commitChanges(projectPath, 'Start project history')
+  console.log('[Git] Initialized repository in', projectPath)
+  return getGitStatus(projectPath)
+}
+
+/**
+ * Commit after a version of a document is saved, if the project uses git
+ */
+export async function commitVersionSave(project: Project, docId: string, label?: string): Promise<void> {
+  if (!(await getGitStatus(project.path)).initialized) return
+  const title = project.documents.find(d => d.id === docId)?.title || 'Untitled'
+  await commitChanges(project.path, `Save version of "${title}"${label ? `: ${label}` : ''}`)
+}
+
+/**
+ * Commits that changed a document, newest first
+ */
+export async function getDocumentHistory(project: Project, docId: string): Promise<GitCommit[]> {
+  const output = await git(project.path, ['log', `--format=${LOG_FORMAT}`, '--follow', '--', documentPath(project, docId)])
+  return output.split('\n').filter(Boolean).map(parseCommit)
+}
+
+/**
+ * A document's content as of a commit, or null if it didn't exist yet
+ */
+export async function getDocumentAtCommit(project: Project, docId: string, hash: string): Promise<JSONContent | null> {
+  try {
+    return JSON.parse(await git(project.path, ['show', `${hash}:${documentPath(project, docId)}`]))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The commit that last changed each top-level block of a document. Blame
+ * runs over the saved JSON, where each block spans the lines of one entry
+ * in the document's `content` array.
+ */
+export async function blameDocument(project: Project, docId: string): Promise<BlockBlame[]> {
+  const output = await git(project.path, ['blame', '--line-porcelain', '--', documentPath(project, docId)])
+
+  // Commits can share a timestamp, so recency is their place in the log
+  const recency = new Map((await getDocumentHistory(project, docId)).map((commit, i) => [commit.hash, -i]))
+
+  // One entry per line of the file, with the commit that last changed it
+  const lines: { commit: GitCommit | null; rank: number; text: string }[] = []
+  let header: { hash: string; author: string; time: number; summary: string } | null = null
+  for (const line of output.split('\n')) {
+    const commitHeader = line.match(/^([0-9a-f]{40}) \d+ \d+/)
+    if (commitHeader) {
+      header = { hash: commitHeader[1], author: '', time: 0, summary: '' }
+    } else if (header && line.startsWith('\t')) {
+      const { hash, author, time, summary } = header
+      lines.push({
+        commit: UNCOMMITTED_HASH.test(hash) ? null : { hash, author, date: new Date(time * 1000).toISOString(), message: summary },
+        rank: recency.get(hash) ?? -Infinity,
+        text: line.slice(1)
+      })
+    } else if (header && line.startsWith('author ')) {
+      header.author = line.slice('author '.length)
+    } else if (header && line.startsWith('author-time ')) {
+      header.time = Number(line.slice('author-time '.length))
+    } else if (header && line.startsWith('summary ')) {
+      header.summary = line.slice('summary '.length)
+    }
+  }
+
+  // Top-level blocks open and close at four spaces of indentation
+  const blame: BlockBlame[] = []
+  let block: { blockId: string | null; latest: (typeof lines)[number] | null; uncommitted: boolean } | null = null
+  for (const line of lines) {
+    if (/^ {4}\{/.test(line.text)) {
+      block = { blockId: null, latest: null, uncommitted: false }
+    }
+    if (!block) continue
+
+    // The block's own id comes before any nested block's
+    const id = !block.blockId && line.text.match(/"blockId": "([^"]+)"/)
+    if (id) block.blockId = id[1]
+    if (!line.commit) block.uncommitted = true
+    if (!block.latest || line.rank > block.latest.rank) block.latest = line
+
+    if (/^ {4}\}/.test(line.text)) {
+      if (block.blockId) {
+        blame.push({ blockId: block.blockId, commit: block.uncommitted ? null : block.latest?.commit ?? null })
+      }
+      block = null
+    }
+  }
+  return blame
+}
+
+/**
+ * Use a bare repository as the `origin` remote, creating it if the folder
+ * doesn't exist or is empty
+ */
+export async function setRemote(projectPath: string, remotePath: string): Promise<GitStatus> {
+  const entries = await fs.readdir(remotePath).catch(() => null)
+  if (!entries || entries.length === 0) {
+    await fs.mkdir(remotePath, { recursive: true })
+    await git(remotePath, ['init', '-q', '--bare', '--initial-branch=main'])
+  } else if ((await git(remotePath, ['rev-parse', '--is-bare-repository']).catch(() => '')).trim() !== 'true') {
+    throw new Error(`${remotePath} is not empty and is not a bare git repository`)
+  }
+
+  const hasOrigin = await succeeds(projectPath, ['remote', 'get-url', 'origin'])
+  await git(projectPath, ['remote', hasOrigin ? 'set-url' : 'add', 'origin', remotePath])
+  return getGitStatus(projectPath)
+}
+
+/**
+ * Commit local changes, fast-forward to the remote's history and push.
+ * Histories that have diverged are left for the writer to merge with git.
+ */
+export async function syncWithRemote(projectPath: string): Promise<GitSyncResult> {
+  const status = await getGitStatus(projectPath)
+  if (!status.initialized || !status.branch) throw new Error('This project has no git history')
+  if (!status.remote) throw new Error('No remote is set for this project')
+
+  await commitChanges(projectPath, 'Sync project')
+  await git(projectPath, ['fetch', '-q', 'origin'])
+
+  const remoteBranch = `origin/${status.branch}`
+  const remoteExists = await succeeds(projectPath, ['rev-parse', '--verify', '-q', remoteBranch])
+  const count = async (range: string) => Number((await git(projectPath, ['rev-list', '--count', range])).trim())
+
+  const pulled = remoteExists ? await count(`HEAD..${remoteBranch}`) : 0
+  const pushed = remoteExists ? await count(`${remoteBranch}..HEAD`) : await count('HEAD')
+  if (pulled > 0 && pushed > 0) {
+    throw new Error('This project and the remote both have new commits. Merge them with git, then sync again.')
+  }
+
+  if (pulled > 0) await git(projectPath, ['merge', '-q', '--ff-only', remoteBranch])
+  if (pushed > 0) await git(projectPath, ['push', '-q', '-u', 'origin', status.branch])
+  console.log(`[Git] Synced ${projectPath}: ${pulled} pulled, ${pushed} pushed`)
+  return { pulled, pushed }
+}
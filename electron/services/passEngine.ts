@@ -1,3 +1,5 @@
+import * as crypto from 'crypto'
+import pLimit from 'p-limit'
 import type { JSONContent } from '@tiptap/core'
 import type {
   Project,
@@ -5,8 +7,10 @@ import type {
   Diagnostic,
   Fix,
   PassResult,
-  BuildResult
+  BuildResult,
+  BuildProgress
 } from '../../src/types/project'
+import { nodeSize } from '../../src/utils/nodeSize'
 
 // Document with content for pass processing
 export interface DocumentWithContent {
@@ -28,9 +32,18 @@ export interface Pass {
   id: string
   name: string
   kind: 'local' | 'ai'
+  // 'document' passes check each document on its own, so they run once per
+  // document and only changed documents are re-checked. 'project' passes
+  // (the default) see every document at once.
+  scope?: 'document' | 'project'
+  // Inputs besides documents and settings that affect results (e.g. a
+  // dictionary or a service being reachable); folded into the cache key
+  cacheKey?(ctx: PassContext): string | Promise<string>
   run(ctx: PassContext): Promise<PassResult>
 }
 
+export type BuildProgressListener = (progress: BuildProgress) => void
+
 // Registry for managing passes
 export class PassRegistry {
   private passes: Map<string, Pass> = new Map()
@@ -39,6 +52,10 @@ export class PassRegistry {
     this.passes.set(pass.id, pass)
   }
 
+  unregister(passId: string): void {
+    this.passes.delete(passId)
+  }
+
   get(passId: string): Pass | undefined {
     return this.passes.get(passId)
   }
@@ -130,6 +147,53 @@ export function contentToPlainText(content: JSONContent): PlainTextResult {
   return { text: text.trimEnd(), positions }
 }
 
+// A top-level block of a document with enough position data to report on it
+export interface TextBlock {
+  node: JSONContent
+  text: string
+  blockId?: string
+  nodeStart: number
+  nodeEnd: number
+  positions: TextPosition[] // Relative to the block; its opening tag sits at nodeStart
+}
+
+// The top-level blocks of a document in order
+export function extractBlocks(content: JSONContent): TextBlock[] {
+  const blocks: TextBlock[] = []
+  let pos = 0
+
+  for (const node of content.content || []) {
+    const size = nodeSize(node)
+    const { text, positions } = contentToPlainText({ type: 'doc', content: [node] })
+    blocks.push({
+      node,
+      text,
+      blockId: (node.attrs?.blockId as string) || undefined,
+      nodeStart: pos,
+      nodeEnd: pos + size,
+      positions
+    })
+    pos += size
+  }
+
+  return blocks
+}
+
+/**
+ * Document range for a slice of a block's text, or the whole block. The
+ * end maps from its last character so a slice at the end of the block
+ * stays inside the node.
+ */
+export function blockRange(block: TextBlock, start?: number, end?: number): { from: number; to: number } {
+  if (start === undefined || end === undefined) {
+    return { from: block.nodeStart + 1, to: block.nodeEnd - 1 }
+  }
+  return {
+    from: block.nodeStart + plainTextOffsetToDocPos(start, block.positions),
+    to: block.nodeStart + plainTextOffsetToDocPos(end - 1, block.positions) + 1
+  }
+}
+
 // Map plain text offset back to document position
 // This function accounts for mention nodes which have different sizes in plain text vs document
 export function plainTextOffsetToDocPos(
@@ -175,49 +239,129 @@ export function plainTextOffsetToDocPos(
   return Math.max(0, offset - mentionAdjustment) // Fallback
 }
 
+// Number of pass runs in flight at once
+const PASS_CONCURRENCY = 4
+
+function hashOf(value: unknown): string {
+  return crypto.createHash('sha1').update(JSON.stringify(value) ?? '').digest('hex')
+}
+
+interface CacheEntry {
+  key: string
+  diagnostics: Diagnostic[]
+  fixes: Fix[]
+}
+
+// One unit of work: a pass over one document, or over all of them
+interface PassTask {
+  pass: Pass
+  documents: DocumentWithContent[]
+  cacheId: string
+  cacheKey: string
+}
+
 // Main Pass Engine that orchestrates pass execution
 export class PassEngine {
   private registry: PassRegistry
+  // Last result per pass and document (or per pass for project passes),
+  // valid while the content, settings and pass cache key are unchanged
+  private cache: Map<string, CacheEntry> = new Map()
+  private limit = pLimit(PASS_CONCURRENCY)
 
   constructor(registry: PassRegistry) {
     this.registry = registry
   }
 
-  async runBuild(ctx: PassContext): Promise<BuildResult> {
+  clearCache(): void {
+    this.cache.clear()
+  }
+
+  async runBuild(ctx: PassContext, onProgress?: BuildProgressListener): Promise<BuildResult> {
     const startTime = Date.now()
-    const allDiagnostics: Diagnostic[] = []
-    const passResults: PassResult[] = []
+    const passResults = new Map<string, PassResult>()
     let hasErrors = false
 
     // Get enabled passes in order
     const enabledPasses = this.registry.getEnabled(ctx.settings.enabledPasses)
-
-    // Run each pass sequentially
+    const tasks = await this.planTasks(ctx, enabledPasses)
     for (const pass of enabledPasses) {
+      passResults.set(pass.id, { passId: pass.id, diagnostics: [], fixes: [], timing: 0 })
+    }
+
+    let completed = 0
+    let cached = 0
+    const report = (passId: string, diagnostics: Diagnostic[]) => {
+      onProgress?.({ passId, completed, total: tasks.length, cached, diagnostics })
+    }
+
+    const collect = (passId: string, diagnostics: Diagnostic[], fixes: Fix[], timing: number) => {
+      const result = passResults.get(passId)!
+      // Document passes repeat project-level notices (e.g. a service being
+      // unavailable) once per document; keep the first
+      const fresh = diagnostics.filter(d => d.documentId !== '' || !result.diagnostics.some(existing =>
+        existing.documentId === '' && existing.title === d.title && existing.message === d.message))
+      result.diagnostics.push(...fresh)
+      result.fixes!.push(...fixes)
+      result.timing += timing
+      if (fresh.some(d => d.severity === 'error')) hasErrors = true
+      return fresh
+    }
+
+    // Serve unchanged work from the cache
+    const pending: PassTask[] = []
+    for (const task of tasks) {
+      const entry = this.cache.get(task.cacheId)
+      if (entry && entry.key === task.cacheKey) {
+        completed++
+        cached++
+        report(task.pass.id, collect(task.pass.id, entry.diagnostics, entry.fixes, 0))
+      } else {
+        pending.push(task)
+      }
+    }
+    if (cached > 0) {
+      console.log(`[PassEngine] ${cached}/${tasks.length} pass runs served from cache`)
+    }
+
+    // Run the rest concurrently
+    await Promise.all(pending.map(task => this.limit(async () => {
+      const { pass } = task
+      let diagnostics: Diagnostic[]
       try {
-        console.log(`[PassEngine] Running pass: ${pass.name}`)
-        const result = await pass.run(ctx)
-        passResults.push(result)
-        allDiagnostics.push(...result.diagnostics)
-
-        // Check for errors
-        if (result.diagnostics.some(d => d.severity === 'error')) {
-          hasErrors = true
+        console.log(`[PassEngine] Running pass: ${pass.name}${pass.scope === 'document' ? ` on "${task.documents[0].title}"` : ''}`)
+        const result = await pass.run({ ...ctx, documents: task.documents })
+        diagnostics = collect(pass.id, result.diagnostics, result.fixes || [], result.timing)
+
+        // Project-level warnings and errors usually report a transient
+        // problem, so only cache results without them. Informational notices
+        // hold for as long as the cache key does.
+        if (!result.diagnostics.some(d => d.documentId === '' && d.severity !== 'info')) {
+          this.cache.set(task.cacheId, {
+            key: task.cacheKey,
+            diagnostics: result.diagnostics,
+            fixes: result.fixes || []
+          })
         }
       } catch (error) {
         console.error(`[PassEngine] Pass ${pass.name} failed:`, error)
+        this.cache.delete(task.cacheId)
         // Add error diagnostic for failed pass
-        allDiagnostics.push({
+        diagnostics = collect(pass.id, [{
           id: `${pass.id}-error`,
           passId: pass.id,
           severity: 'error',
           title: `${pass.name} Failed`,
           message: error instanceof Error ? error.message : 'Unknown error',
           documentId: ''
-        })
+        }], [], 0)
         hasErrors = true
       }
-    }
+      completed++
+      report(pass.id, diagnostics)
+    })))
+
+    // Passes report in registry order regardless of completion order
+    const allDiagnostics = enabledPasses.flatMap(pass => passResults.get(pass.id)!.diagnostics)
 
     // Sort diagnostics by severity (errors first) then by document
     const severityOrder = { error: 0, warning: 1, info: 2 }
@@ -232,10 +376,41 @@ export class PassEngine {
     return {
       success: !hasErrors,
       diagnostics: allDiagnostics,
-      passResults,
+      passResults: Array.from(passResults.values()),
       totalTiming
     }
   }
+
+  private async planTasks(ctx: PassContext, passes: Pass[]): Promise<PassTask[]> {
+    const settingsHash = hashOf(ctx.settings)
+    const documentHashes = new Map(ctx.documents.map(doc =>
+      [doc.id, hashOf({ title: doc.title, content: doc.content })]))
+    const allDocumentsHash = hashOf(ctx.documents.map(doc => documentHashes.get(doc.id)))
+
+    const tasks: PassTask[] = []
+    for (const pass of passes) {
+      const passHash = pass.cacheKey ? `${settingsHash}:${hashOf(await pass.cacheKey(ctx))}` : settingsHash
+
+      if (pass.scope === 'document') {
+        for (const doc of ctx.documents) {
+          tasks.push({
+            pass,
+            documents: [doc],
+            cacheId: `${pass.id}:${doc.id}`,
+            cacheKey: `${documentHashes.get(doc.id)}:${passHash}`
+          })
+        }
+      } else {
+        tasks.push({
+          pass,
+          documents: ctx.documents,
+          cacheId: `${pass.id}:${ctx.project.path}`,
+          cacheKey: `${allDocumentsHash}:${passHash}`
+        })
+      }
+    }
+    return tasks
+  }
 }
 
 // Create and configure the global pass registry
@@ -1,7 +1,7 @@
 import { v4 as uuidv4 } from 'uuid'
-import type { Pass, PassContext } from '../passEngine'
+import type { Pass, PassContext, TextPosition } from '../passEngine'
+import { contentToPlainText, plainTextOffsetToDocPos } from '../passEngine'
 import type { Diagnostic, PassResult, Fix } from '../../../src/types/project'
-import type { JSONContent } from '@tiptap/core'
 
 // Citation patterns
 // APA: (Author, Year) or (Author, Year, p. 123) or Author (Year)
@@ -12,6 +12,23 @@ const APA_NARRATIVE_PATTERN = /([A-Z][a-zA-Z]+(?:\s*(?:&|and)\s*[A-Z][a-zA-Z]+)*
 const MLA_INLINE_PATTERN = /\(([A-Z][a-zA-Z]+(?:\s*(?:and)\s*[A-Z][a-zA-Z]+)*)\s+(\d+(?:-\d+)?)\)/g
 const MLA_AUTHOR_ONLY_PATTERN = /\(([A-Z][a-zA-Z]+(?:\s*(?:and)\s*[A-Z][a-zA-Z]+)*)\)/g
 
+// Chicago author-date: (Author Year) or (Author Year, 123) or Author (Year)
+const CHICAGO_INLINE_PATTERN = /\(([A-Z][a-zA-Z]+(?:\s*(?:,|and)\s*[A-Z][a-zA-Z]+)*(?:\s+et\s+al\.)?)\s+(\d{4}[a-z]?)(?:,\s*(\d+(?:[-–]\d+)?))?\)/g
+const CHICAGO_NARRATIVE_PATTERN = /([A-Z][a-zA-Z]+(?:\s*(?:,|and)\s*[A-Z][a-zA-Z]+)*(?:\s+et\s+al\.)?)\s*\((\d{4}[a-z]?)(?:,\s*(\d+(?:[-–]\d+)?))?\)/g
+
+// Chicago notes-bibliography: superscript (¹²) or bracketed ([12]) note numbers
+const NOTE_MARKER_PATTERN = /[⁰¹²³⁴⁵⁶⁷⁸⁹]+|\[(\d+)\]/g
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹'
+
+// Numbered entry in a notes section: "1. John Smith, Title (City: Publisher, 2020), 45."
+const NOTE_ENTRY_PATTERN = /^(\d+)\.\s+(.+)$/
+// Leading author names of a note, up to the first comma
+const NOTE_AUTHOR_PATTERN = /^([A-Z][\p{L}.'’-]*(?:\s+(?:and\s+)?[A-Z][\p{L}.'’-]*){0,5}),/u
+
+// Section headings
+const REFERENCES_HEADING_PATTERN = /^(References|Works Cited|Bibliography)$/i
+const NOTES_HEADING_PATTERN = /^(Notes|Endnotes|Footnotes)$/i
+
 // Bibliography entry patterns (simplified)
 // APA: Author, A. B. (Year). Title. Publisher.
 const APA_REFERENCE_PATTERN = /^([A-Z][a-zA-Z]+),\s*[A-Z]\.\s*(?:[A-Z]\.\s*)?\((\d{4})\)\./m
@@ -19,6 +36,14 @@ const APA_REFERENCE_PATTERN = /^([A-Z][a-zA-Z]+),\s*[A-Z]\.\s*(?:[A-Z]\.\s*)?\((
 // MLA: Author. Title. Publisher, Year.
 const MLA_REFERENCE_PATTERN = /^([A-Z][a-zA-Z]+),\s*[A-Za-z]+\.\s*.+\.\s*[A-Za-z\s]+,?\s*(\d{4})\./m
 
+// Chicago author-date reference list: Author, First. Year. Title. City: Publisher.
+const CHICAGO_AUTHOR_DATE_REFERENCE_PATTERN = /^([A-Z][\p{L}'’-]+),\s*(?:[^.]+\.\s*)+?(\d{4}[a-z]?)\./u
+
+// Chicago bibliography: Author, First. Title. City: Publisher, Year.
+const CHICAGO_BIBLIOGRAPHY_PATTERN = /^([A-Z][\p{L}'’-]+),\s*[^.]+\..*\b(\d{4})\b/u
+
+type CitationStyle = 'apa' | 'mla' | 'chicago'
+
 interface CitationMatch {
   author: string
   year?: string
@@ -33,24 +58,29 @@ interface ReferenceEntry {
   year: string
   position: number
   raw: string
+  // Chicago entries put the year after the author or at the end
+  form?: 'author-date' | 'bibliography'
 }
 
-// Extract plain text from TipTap JSON content
-function extractPlainText(content: JSONContent): string {
-  function traverse(node: JSONContent): string {
-    if (node.type === 'text' && node.text) {
-      return node.text
-    }
-    if (node.content) {
-      const text = node.content.map(traverse).join('')
-      if (['paragraph', 'heading', 'blockquote', 'listItem'].includes(node.type || '')) {
-        return text + '\n'
-      }
-      return text
-    }
-    return ''
+interface NoteMarker {
+  number: number
+  position: number
+  length: number
+}
+
+interface NoteEntry {
+  number: number
+  text: string
+  position: number
+  length: number
+}
+
+// Document range for a span of plain text, keeping the end inside its block
+function toRange(start: number, end: number, positions: TextPosition[]): { from: number; to: number } {
+  return {
+    from: plainTextOffsetToDocPos(start, positions),
+    to: plainTextOffsetToDocPos(end - 1, positions) + 1
   }
-  return traverse(content)
 }
 
 // Parse APA citations from text
@@ -127,8 +157,60 @@ function parseMLACitations(text: string): CitationMatch[] {
   return citations
 }
 
+// Parse Chicago author-date citations from text
+function parseChicagoCitations(text: string): CitationMatch[] {
+  const citations: CitationMatch[] = []
+
+  // Parenthetical citations: (Author Year, Page)
+  let match
+  const inlinePattern = new RegExp(CHICAGO_INLINE_PATTERN.source, 'g')
+  while ((match = inlinePattern.exec(text)) !== null) {
+    citations.push({
+      author: match[1].trim(),
+      year: match[2],
+      page: match[3],
+      position: match.index,
+      length: match[0].length,
+      raw: match[0]
+    })
+  }
+
+  // Narrative citations: Author (Year)
+  const narrativePattern = new RegExp(CHICAGO_NARRATIVE_PATTERN.source, 'g')
+  while ((match = narrativePattern.exec(text)) !== null) {
+    const overlaps = citations.some(c =>
+      match!.index < c.position + c.length && c.position < match!.index + match![0].length
+    )
+    if (!overlaps) {
+      citations.push({
+        author: match[1].trim(),
+        year: match[2],
+        page: match[3],
+        position: match.index,
+        length: match[0].length,
+        raw: match[0]
+      })
+    }
+  }
+
+  return citations
+}
+
+// Parse a Chicago reference list or bibliography entry
+function parseChicagoReference(line: string): Omit<ReferenceEntry, 'position'> | null {
+  const authorDate = CHICAGO_AUTHOR_DATE_REFERENCE_PATTERN.exec(line)
+  if (authorDate) {
+    return { author: authorDate[1].trim(), year: authorDate[2], raw: line, form: 'author-date' }
+  }
+  const bibliography = CHICAGO_BIBLIOGRAPHY_PATTERN.exec(line)
+  if (bibliography) {
+    return { author: bibliography[1].trim(), year: bibliography[2], raw: line, form: 'bibliography' }
+  }
+  return null
+}
+
 // Parse bibliography/references section
-function parseReferences(text: string, style: 'apa' | 'mla'): ReferenceEntry[] {
+function parseReferences(text: string, style: CitationStyle): ReferenceEntry[] {
   const references: ReferenceEntry[] = []
   const lines = text.split('\n')
   
@@ -140,13 +222,23 @@ function parseReferences(text: string, style: 'apa' | 'mla'): ReferenceEntry[] {
     const trimmedLine = line.trim()
     
     // Detect start of references section
-    if (/^(References|Works Cited|Bibliography)$/i.test(trimmedLine)) {
+    if (REFERENCES_HEADING_PATTERN.test(trimmedLine)) {
       inReferences = true
       currentPosition += line.length + 1
       continue
     }
-    
-    if (inReferences && trimmedLine) {
+
+    // A notes section ends the references
+    if (NOTES_HEADING_PATTERN.test(trimmedLine)) {
+      inReferences = false
+    }
+
+    if (inReferences && trimmedLine && style === 'chicago') {
+      const entry = parseChicagoReference(trimmedLine)
+      if (entry) {
+        references.push({ ...entry, position: currentPosition + line.indexOf(trimmedLine) })
+      }
+    } else if (inReferences && trimmedLine) {
       const pattern = style === 'apa' ? APA_REFERENCE_PATTERN : MLA_REFERENCE_PATTERN
       const match = pattern.exec(trimmedLine)
       
@@ -166,6 +258,81 @@ function parseReferences(text: string, style: 'apa' | 'mla'): ReferenceEntry[] {
   return references
 }
 
+// Each line of text with its offset and the section it falls in; headings
+// count as part of the section they start
+function textSections(text: string): Array<{ line: string; position: number; section: 'body' | 'notes' | 'references' }> {
+  const lines: Array<{ line: string; position: number; section: 'body' | 'notes' | 'references' }> = []
+  let section: 'body' | 'notes' | 'references' = 'body'
+  let currentPosition = 0
+
+  for (const line of text.split('\n')) {
+    if (NOTES_HEADING_PATTERN.test(line.trim())) {
+      section = 'notes'
+    } else if (REFERENCES_HEADING_PATTERN.test(line.trim())) {
+      section = 'references'
+    }
+    lines.push({ line, position: currentPosition, section })
+    currentPosition += line.length + 1
+  }
+
+  return lines
+}
+
+// Blank out notes and references sections, keeping offsets, so entries
+// there are not read as in-text citations
+function bodyText(text: string): string {
+  return textSections(text)
+    .map(({ line, section }) => section === 'body' ? line : ' '.repeat(line.length))
+    .join('\n')
+}
+
+/**
+ * Parse note numbers in the body text and the numbered entries of a
+ * "Notes" section. Text under a references heading is neither.
+ */
+function parseNotes(text: string): { markers: NoteMarker[]; notes: NoteEntry[] } {
+  const markers: NoteMarker[] = []
+  const notes: NoteEntry[] = []
+
+  for (const { line, position, section } of textSections(text)) {
+    const trimmedLine = line.trim()
+
+    if (section === 'notes') {
+      const match = NOTE_ENTRY_PATTERN.exec(trimmedLine)
+      if (match) {
+        notes.push({
+          number: parseInt(match[1], 10),
+          text: match[2].trim(),
+          position: position + line.indexOf(trimmedLine),
+          length: trimmedLine.length
+        })
+      }
+    } else if (section === 'body') {
+      const markerPattern = new RegExp(NOTE_MARKER_PATTERN.source, 'g')
+      let match
+      while ((match = markerPattern.exec(line)) !== null) {
+        const digits = match[1] ?? Array.from(match[0], c => SUPERSCRIPT_DIGITS.indexOf(c)).join('')
+        markers.push({
+          number: parseInt(digits, 10),
+          position: position + match.index,
+          length: match[0].length
+        })
+      }
+    }
+  }
+
+  return { markers, notes }
+}
+
+// Surname a note cites ("John Smith and Jane Doe, Title" gives "Smith"), and
+// whether the note is a full citation rather than a shortened one
+function noteAuthor(note: string): { surname: string; full: boolean } | null {
+  const match = NOTE_AUTHOR_PATTERN.exec(note)
+  if (!match) return null
+  const names = match[1].split(/\s+and\s+/)[0].trim().split(/\s+/)
+  return { surname: names[names.length - 1], full: names.length > 1 }
+}
+
 // Normalize author name for comparison
 function normalizeAuthor(author: string): string {
   return author
@@ -201,14 +368,18 @@ export class CitationPass implements Pass {
     // Collect all citations and references across all documents
     const allCitations: Array<CitationMatch & { documentId: string }> = []
     const allReferences: Array<ReferenceEntry & { documentId: string }> = []
+    const documentTexts = new Map<string, { text: string; positions: TextPosition[] }>()
 
     for (const doc of ctx.documents) {
-      const text = extractPlainText(doc.content)
+      const { text, positions } = contentToPlainText(doc.content)
+      documentTexts.set(doc.id, { text, positions })
       
       // Parse citations based on style
-      const citations = style === 'apa' 
+      const citations = style === 'apa'
         ? parseAPACitations(text)
-        : parseMLACitations(text)
+        : style === 'chicago'
+          ? parseChicagoCitations(bodyText(text))
+          : parseMLACitations(text)
       
       allCitations.push(...citations.map(c => ({ ...c, documentId: doc.id })))
       
@@ -217,6 +388,14 @@ export class CitationPass implements Pass {
       allReferences.push(...references.map(r => ({ ...r, documentId: doc.id })))
     }
 
+    const rangeIn = (documentId: string, start: number, end: number) =>
+      toRange(start, end, documentTexts.get(documentId)!.positions)
+
+    // Chicago notes cite sources too, so collect them before the reference checks
+    const citedByNotes = style === 'chicago'
+      ? this.checkNotes(ctx, documentTexts, allReferences, diagnostics, rangeIn)
+      : new Set<ReferenceEntry>()
+
     // Check each citation has a matching reference
     for (const citation of allCitations) {
       const normalizedCitationAuthor = normalizeAuthor(citation.author)
@@ -226,7 +405,7 @@ export class CitationPass implements Pass {
         const authorMatch = normalizedRefAuthor.includes(normalizedCitationAuthor) ||
                            normalizedCitationAuthor.includes(normalizedRefAuthor)
         
-        if (style === 'apa') {
+        if (style === 'apa' || style === 'chicago') {
           return authorMatch && ref.year === citation.year
         } else {
           // MLA doesn't require year match in citation
@@ -242,12 +421,11 @@ export class CitationPass implements Pass {
           title: 'Missing Reference',
           message: style === 'apa'
             ? `No reference found for citation "${citation.author}, ${citation.year}". Add this source to your References section.`
-            : `No reference found for citation "${citation.author}". Add this source to your Works Cited.`,
+            : style === 'chicago'
+              ? `No reference found for citation "${citation.author} ${citation.year}". Add this source to your reference list.`
+              : `No reference found for citation "${citation.author}". Add this source to your Works Cited.`,
           documentId: citation.documentId,
-          range: {
-            from: citation.position,
-            to: citation.position + citation.length
-          },
+          range: rangeIn(citation.documentId, citation.position, citation.position + citation.length),
           suggestions: [{
             label: 'Add to references',
             action: 'add-reference'
@@ -260,12 +438,12 @@ export class CitationPass implements Pass {
     for (const ref of allReferences) {
       const normalizedRefAuthor = normalizeAuthor(ref.author)
       
-      const isCited = allCitations.some(citation => {
+      const isCited = citedByNotes.has(ref) || allCitations.some(citation => {
         const normalizedCitationAuthor = normalizeAuthor(citation.author)
         const authorMatch = normalizedRefAuthor.includes(normalizedCitationAuthor) ||
                            normalizedCitationAuthor.includes(normalizedRefAuthor)
         
-        if (style === 'apa') {
+        if (style === 'apa' || style === 'chicago') {
           return authorMatch && citation.year === ref.year
         } else {
           return authorMatch
@@ -280,17 +458,18 @@ export class CitationPass implements Pass {
           title: 'Uncited Reference',
           message: `Reference "${ref.author}" is not cited in the document. Consider removing or citing this source.`,
           documentId: ref.documentId,
-          range: {
-            from: ref.position,
-            to: ref.position + ref.raw.length
-          }
+          range: rangeIn(ref.documentId, ref.position, ref.position + ref.raw.length)
         })
       }
     }
 
+    if (style === 'chicago') {
+      this.checkChicagoReferenceList(allReferences, allCitations.length > 0, diagnostics, rangeIn)
+    }
+
     // Check for citation formatting issues
     for (const doc of ctx.documents) {
-      const text = extractPlainText(doc.content)
+      const { text } = documentTexts.get(doc.id)!
       
       // Check for common citation format issues
       if (style === 'apa') {
@@ -310,10 +489,7 @@ export class CitationPass implements Pass {
               title: 'Citation Format Error',
               message: 'APA citations require a comma between author and year: (Author, Year)',
               documentId: doc.id,
-              range: {
-                from: match.index,
-                to: match.index + match[0].length
-              },
+              range: rangeIn(doc.id, match.index, match.index + match[0].length),
               suggestions: [{
                 label: 'Add comma',
                 replacement: `(${match[1]}, ${match[2]})`
@@ -321,23 +497,45 @@ export class CitationPass implements Pass {
             })
           }
         }
+      } else if (style === 'chicago') {
+        // Chicago author-date puts no comma between author and year
+        const extraComma = /\(([A-Z][a-zA-Z]+(?:\s+et\s+al\.)?),\s+(\d{4}[a-z]?)((?:,\s*\d+(?:[-–]\d+)?)?)\)/g
+        let match
+        while ((match = extraComma.exec(text)) !== null) {
+          diagnostics.push({
+            id: uuidv4(),
+            passId: this.id,
+            severity: 'warning',
+            title: 'Citation Format Error',
+            message: 'Chicago author-date citations have no comma between author and year: (Author Year)',
+            documentId: doc.id,
+            range: rangeIn(doc.id, match.index, match.index + match[0].length),
+            suggestions: [{
+              label: 'Remove comma',
+              replacement: `(${match[1]} ${match[2]}${match[3]})`
+            }]
+          })
+        }
       }
 
       // Check for year-only citations that might be errors
       const yearOnly = /\((\d{4})\)/g
       let match
       while ((match = yearOnly.exec(text)) !== null) {
+        // Skip the year of a narrative citation: Author (Year)
+        const inCitation = allCitations.some(c =>
+          c.documentId === doc.id && c.position <= match!.index && match!.index < c.position + c.length
+        )
+        if (inCitation) continue
+
         diagnostics.push({
           id: uuidv4(),
           passId: this.id,
           severity: 'info',
           title: 'Possible Incomplete Citation',
-          message: `Year-only citation found. Did you mean to include an author? Example: (Author, ${match[1]})`,
+          message: `Year-only citation found. Did you mean to include an author? Example: ${style === 'chicago' ? `(Author ${match[1]})` : `(Author, ${match[1]})`}`,
           documentId: doc.id,
-          range: {
-            from: match.index,
-            to: match.index + match[0].length
-          }
+          range: rangeIn(doc.id, match.index, match.index + match[0].length)
         })
       }
     }
@@ -349,4 +547,191 @@ export class CitationPass implements Pass {
       timing: Date.now() - startTime
     }
   }
+
+  /**
+   * Check Chicago notes: every note number has a note and vice versa,
+   * numbers run in order, a source's first note is a full citation, and
+   * cited sources are in the bibliography. Notes are numbered per document
+   * when it has both note numbers and its own notes section, otherwise
+   * across the project (e.g. chapters plus one endnotes document).
+   * Returns the references the notes cite.
+   */
+  private checkNotes(
+    ctx: PassContext,
+    documentTexts: Map<string, { text: string }>,
+    references: ReferenceEntry[],
+    diagnostics: Diagnostic[],
+    rangeIn: (documentId: string, start: number, end: number) => { from: number; to: number }
+  ): Set<ReferenceEntry> {
+    type Scoped<T> = T & { documentId: string }
+    const scopes: { markers: Scoped<NoteMarker>[]; notes: Scoped<NoteEntry>[] }[] = []
+    const shared = { markers: [] as Scoped<NoteMarker>[], notes: [] as Scoped<NoteEntry>[] }
+
+    for (const doc of ctx.documents) {
+      const { markers, notes } = parseNotes(documentTexts.get(doc.id)!.text)
+      const scoped = {
+        markers: markers.map(m => ({ ...m, documentId: doc.id })),
+        notes: notes.map(n => ({ ...n, documentId: doc.id }))
+      }
+      if (markers.length > 0 && notes.length > 0) {
+        scopes.push(scoped)
+      } else {
+        shared.markers.push(...scoped.markers)
+        shared.notes.push(...scoped.notes)
+      }
+    }
+    scopes.push(shared)
+
+    const cited = new Set<ReferenceEntry>()
+    const report = (
+      item: { documentId: string; position: number; length: number },
+      severity: Diagnostic['severity'],
+      title: string,
+      message: string
+    ) => {
+      diagnostics.push({
+        id: uuidv4(),
+        passId: this.id,
+        severity,
+        title,
+        message,
+        documentId: item.documentId,
+        range: rangeIn(item.documentId, item.position, item.position + item.length)
+      })
+    }
+
+    for (const { markers, notes } of scopes) {
+      const noteNumbers = new Set(notes.map(n => n.number))
+      const markerNumbers = new Set(markers.map(m => m.number))
+
+      // Note numbers in the text: each has a note, each is new, in order
+      const seen = new Set<number>()
+      let expected = 1
+      for (const marker of markers) {
+        if (seen.has(marker.number)) {
+          report(marker, 'warning', 'Repeated Note Number',
+            `Note ${marker.number} is referenced more than once. Chicago style uses a new note number each time, even for the same source.`)
+          continue
+        }
+        seen.add(marker.number)
+
+        if (marker.number !== expected) {
+          report(marker, 'warning', 'Note Out of Sequence',
+            `Note ${marker.number} appears where note ${expected} was expected`)
+        }
+        expected = marker.number + 1
+
+        if (notes.length > 0 && !noteNumbers.has(marker.number)) {
+          report(marker, 'warning', 'Missing Note',
+            `Note ${marker.number} is referenced in the text but has no entry in the notes section`)
+        }
+      }
+
+      // Note entries: each is referenced, and cites a source properly
+      const fullyCited = new Set<string>()
+      for (const note of notes) {
+        if (markers.length > 0 && !markerNumbers.has(note.number)) {
+          report(note, 'info', 'Unreferenced Note',
+            `Note ${note.number} is not referenced anywhere in the text`)
+        }
+
+        if (/^ibid\.?/i.test(note.text)) {
+          report(note, 'info', 'Ibid. in Notes',
+            'Chicago style now prefers a shortened citation (Author, Short Title, page) over "Ibid."')
+          continue
+        }
+
+        const author = noteAuthor(note.text)
+        if (!author) continue
+        const surname = normalizeAuthor(author.surname)
+
+        if (author.full) {
+          fullyCited.add(surname)
+        } else if (!fullyCited.has(surname)) {
+          report(note, 'info', 'Shortened Note Before Full Note',
+            `Note ${note.number} uses a shortened citation for ${author.surname}, but no earlier note gives the full citation`)
+        }
+
+        // A bibliography is optional when the notes give full citations
+        if (references.length === 0) continue
+        const matching = references.filter(ref => {
+          const refAuthor = normalizeAuthor(ref.author)
+          return refAuthor.includes(surname) || surname.includes(refAuthor)
+        })
+        if (matching.length === 0) {
+          report(note, 'warning', 'Missing Bibliography Entry',
+            `Note ${note.number} cites ${author.surname}, who has no entry in the bibliography`)
+        }
+        matching.forEach(ref => cited.add(ref))
+      }
+    }
+
+    return cited
+  }
+
+  /**
+   * Check a Chicago reference list is consistent: one entry form
+   * throughout, alphabetical by author, and same-author same-year works
+   * told apart with letters (2020a, 2020b).
+   */
+  private checkChicagoReferenceList(
+    references: Array<ReferenceEntry & { documentId: string }>,
+    hasAuthorDateCitations: boolean,
+    diagnostics: Diagnostic[],
+    rangeIn: (documentId: string, start: number, end: number) => { from: number; to: number }
+  ): void {
+    const report = (ref: ReferenceEntry & { documentId: string }, title: string, message: string) => {
+      diagnostics.push({
+        id: uuidv4(),
+        passId: this.id,
+        severity: 'warning',
+        title,
+        message,
+        documentId: ref.documentId,
+        range: rangeIn(ref.documentId, ref.position, ref.position + ref.raw.length)
+      })
+    }
+
+    // Entry form: the most common one wins; ties go to the citation system in use
+    const authorDateCount = references.filter(r => r.form === 'author-date').length
+    const bibliographyCount = references.length - authorDateCount
+    const expectedForm = authorDateCount > bibliographyCount ||
+      (authorDateCount === bibliographyCount && hasAuthorDateCitations)
+      ? 'author-date'
+      : 'bibliography'
+
+    for (const ref of references) {
+      if (ref.form === expectedForm) continue
+      report(ref, 'Inconsistent Reference Format', expectedForm === 'author-date'
+        ? `Reference "${ref.author}" is formatted as a bibliography entry. Author-date reference lists put the year after the author: Author, First. Year. Title.`
+        : `Reference "${ref.author}" puts the year after the author. Bibliography entries end with the publication details: Author, First. Title. City: Publisher, Year.`)
+    }
+
+    // Alphabetical order within each document's list
+    for (let i = 1; i < references.length; i++) {
+      const previous = references[i - 1]
+      const ref = references[i]
+      if (previous.documentId !== ref.documentId) continue
+      if (normalizeAuthor(previous.author).localeCompare(normalizeAuthor(ref.author)) > 0) {
+        report(ref, 'Reference List Out of Order',
+          `Reference "${ref.author}" should come before "${previous.author}". Chicago reference lists are alphabetical by author.`)
+      }
+    }
+
+    // Same author and year without a letter to tell the works apart
+    if (expectedForm !== 'author-date') return
+    const byAuthorYear = new Map<string, Array<ReferenceEntry & { documentId: string }>>()
+    for (const ref of references) {
+      if (ref.form !== 'author-date') continue
+      const key = `${normalizeAuthor(ref.author)}|${ref.year}`
+      byAuthorYear.set(key, [...(byAuthorYear.get(key) || []), ref])
+    }
+    for (const refs of byAuthorYear.values()) {
+      if (refs.length < 2) continue
+      for (const ref of refs.slice(1)) {
+        report(ref, 'Ambiguous Reference Year',
+          `${refs.length} works by ${ref.author} are dated ${ref.year}. Add letters (${ref.year}a, ${ref.year}b) to the years here and in the citations.`)
+      }
+    }
+  }
 }
@@ -0,0 +1,264 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Pass, PassContext } from '../passEngine'
+import type { Diagnostic, PassResult, Prop, PropState, TimelineBeat } from '../../../src/types/project'
+import type { JSONContent } from '@tiptap/core'
+import { extractLines, lineRange, stripCharacterExtensions, headingTimeOfDay, headingLocation, type ScriptLine } from './screenplayLines'
+
+// Times of day on either side of the DAY/NIGHT split
+const DAY_TIMES = new Set(['DAY', 'DAYTIME', 'MORNING', 'MORN', 'AFTERNOON', 'NOON', 'MIDDAY'])
+const NIGHT_TIMES = new Set(['NIGHT', 'NIGHTTIME', 'NITE', 'EVENING', 'MIDNIGHT'])
+
+// Markers saying no time has passed since the previous scene
+const CONTINUOUS_MARKERS = ['CONTINUOUS', 'CONT.', 'CONT', 'CONTINUING', 'MOMENTS LATER', 'MOMENT LATER', 'A MOMENT LATER']
+// Markers saying the scene happens at the same moment as the previous one
+const SIMULTANEOUS_MARKERS = ['SAME', 'SAME TIME', 'MEANWHILE', 'SIMULTANEOUS', 'INTERCUT']
+
+type Period = 'DAY' | 'NIGHT'
+
+// Where a character or prop shows up in the script
+interface Appearance {
+  line: ScriptLine
+  scene: SceneInfo
+}
+
+interface SceneInfo {
+  beat: TimelineBeat
+  heading: ScriptLine
+  period: Period | null       // Stated in the heading
+  continuous: boolean         // Follows straight on from the previous scene
+  simultaneous: boolean       // Happens at the same moment as the previous scene
+  characters: Map<string, Appearance>
+  lines: ScriptLine[]         // Everything after the heading, up to the next one
+}
+
+// Heading times split on "-" or "/" ("NIGHT - CONTINUOUS", "DAY/SAME")
+function timeTokens(time: string): string[] {
+  return stripCharacterExtensions(time)
+    .toUpperCase()
+    .split(/\s*[-–—/]\s*/)
+    .map(t => t.trim())
+    .filter(Boolean)
+}
+
+function headingPeriod(tokens: string[]): Period | null {
+  if (tokens.some(t => DAY_TIMES.has(t))) return 'DAY'
+  if (tokens.some(t => NIGHT_TIMES.has(t))) return 'NIGHT'
+  return null
+}
+
+function hasMarker(tokens: string[], time: string, markers: string[]): boolean {
+  // Also look inside parentheses: "NIGHT (CONTINUOUS)"
+  const upper = time.toUpperCase()
+  return tokens.some(t => markers.includes(t)) || markers.some(m => upper.includes(`(${m})`))
+}
+
+// Mentions in a node, optionally of one type
+function mentions(node: JSONContent, type: 'character' | 'prop'): JSONContent[] {
+  const found: JSONContent[] = []
+  const walk = (n: JSONContent) => {
+    for (const child of n.content || []) {
+      if (child.type === 'mention' && (child.attrs?.type || 'character') === type) found.push(child)
+      else walk(child)
+    }
+  }
+  walk(node)
+  return found
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Builds the script's timeline from scene headings, cues and mentions,
+ * then checks it for continuity errors:
+ * - props used in dialogue before any action line introduces them
+ * - characters in two locations at once (scenes marked SAME/MEANWHILE)
+ * - DAY/NIGHT changes across scenes marked CONTINUOUS or MOMENTS LATER
+ */
+export class ContinuityPass implements Pass {
+  id = 'continuity'
+  name = 'Continuity'
+  kind: 'local' = 'local'
+  scope: 'project' = 'project'
+
+  // Character and prop banks decide who and what is tracked
+  cacheKey(ctx: PassContext): string {
+    return JSON.stringify([
+      (ctx.project.characters || []).map(c => [c.id, c.name]),
+      (ctx.project.props || []).map(p => [p.id, p.name])
+    ])
+  }
+
+  async run(ctx: PassContext): Promise<PassResult> {
+    const startTime = Date.now()
+    const diagnostics: Diagnostic[] = []
+
+    const report = (line: ScriptLine, title: string, message: string) => {
+      diagnostics.push({
+        id: uuidv4(),
+        passId: this.id,
+        severity: 'warning',
+        title,
+        message,
+        documentId: line.doc.id,
+        blockId: line.blockId,
+        range: lineRange(line),
+        context: { text: line.text, offset: 0, length: line.text.length }
+      })
+    }
+
+    const scenes = this.buildTimeline(ctx)
+
+    // Props: first action line is the introduction; dialogue before that is early use
+    for (const { prop, state, earlyUses } of this.trackProps(ctx, scenes)) {
+      for (const use of earlyUses) {
+        report(use.line, 'Prop Used Before Introduction',
+          state.introduced
+            ? `${prop.name} is used in scene ${use.scene.beat.sceneNumber} but not introduced until scene ${state.introduced.scene}`
+            : `${prop.name} is used in scene ${use.scene.beat.sceneNumber} but never introduced in an action line`)
+      }
+    }
+
+    // Characters: one location per moment; SAME/MEANWHILE scenes share the moment
+    let moment: SceneInfo[] = []
+    for (const scene of scenes) {
+      moment = scene.simultaneous ? [...moment, scene] : [scene]
+      if (moment.length < 2) continue
+
+      for (const [key, appearance] of scene.characters) {
+        const elsewhere = moment.find(other =>
+          other !== scene && other.characters.has(key) && other.beat.location !== scene.beat.location)
+        if (!elsewhere) continue
+
+        report(appearance.line, 'Character in Two Places',
+          `${this.characterName(ctx, key) || key} is in ${scene.beat.location} (scene ${scene.beat.sceneNumber}) and ${elsewhere.beat.location} (scene ${elsewhere.beat.sceneNumber}) at the same time`)
+      }
+    }
+
+    // Time of day: a continuous scene keeps the previous scene's DAY/NIGHT
+    let previousPeriod: Period | null = null
+    let previousScene: SceneInfo | null = null
+    for (const scene of scenes) {
+      const linked = scene.continuous || scene.simultaneous
+      if (linked && scene.period && previousPeriod && scene.period !== previousPeriod && previousScene) {
+        report(scene.heading, 'Day/Night Jump',
+          `Scene ${scene.beat.sceneNumber} follows on from scene ${previousScene.beat.sceneNumber} (${previousPeriod}) but is set at ${scene.period}`)
+      }
+      previousPeriod = scene.period || (linked ? previousPeriod : null)
+      previousScene = scene
+    }
+
+    return {
+      passId: this.id,
+      diagnostics,
+      fixes: [],
+      timing: Date.now() - startTime
+    }
+  }
+
+  /**
+   * One timeline beat per scene heading, in script order, with the
+   * characters who appear in it (cues, and mentions in action lines).
+   */
+  private buildTimeline(ctx: PassContext): SceneInfo[] {
+    const characters = ctx.project.characters || []
+    const idsByName = new Map(characters.map(c => [c.name.trim().toUpperCase(), c.id]))
+    const scenes: SceneInfo[] = []
+    let current: SceneInfo | null = null
+
+    const appear = (key: string, line: ScriptLine) => {
+      if (current && !current.characters.has(key)) current.characters.set(key, { line, scene: current })
+    }
+
+    for (const doc of ctx.documents) {
+      for (const line of extractLines(doc)) {
+        const text = line.text.trim()
+        if (!text) continue
+
+        if (line.type === 'scene-heading') {
+          const time = headingTimeOfDay(text)?.time || ''
+          const tokens = timeTokens(time)
+          current = {
+            beat: {
+              scene: text,
+              sceneNumber: scenes.length + 1,
+              characters: [],
+              location: headingLocation(text),
+              timeOfDay: time,
+              impliedDuration: null,
+              keyEvents: []
+            },
+            heading: line,
+            period: headingPeriod(tokens),
+            continuous: hasMarker(tokens, time, CONTINUOUS_MARKERS),
+            simultaneous: hasMarker(tokens, time, SIMULTANEOUS_MARKERS),
+            characters: new Map(),
+            lines: []
+          }
+          scenes.push(current)
+          continue
+        }
+
+        current?.lines.push(line)
+        if (line.type === 'character') {
+          const id = (line.node.attrs?.characterId as string) ||
+            mentions(line.node, 'character')[0]?.attrs?.id ||
+            idsByName.get(stripCharacterExtensions(text).toUpperCase())
+          appear(id || stripCharacterExtensions(text).toUpperCase(), line)
+        } else if (line.type === 'action') {
+          for (const mention of mentions(line.node, 'character')) {
+            if (mention.attrs?.id) appear(mention.attrs.id, line)
+          }
+        }
+      }
+    }
+
+    for (const scene of scenes) {
+      scene.beat.characters = Array.from(scene.characters.keys()).map(key => this.characterName(ctx, key) || key)
+    }
+    return scenes
+  }
+
+  /**
+   * Track each bank prop through the script: where an action line first
+   * introduces it, and dialogue that uses it before then.
+   */
+  private trackProps(ctx: PassContext, scenes: SceneInfo[]): { prop: Prop; state: PropState; earlyUses: Appearance[] }[] {
+    const props = ctx.project.props || []
+    if (props.length === 0) return []
+
+    const namePatterns = new Map(props.map(p => [p.id, new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegex(p.name.trim())}(?![\\p{L}\\p{N}_])`, 'iu')]))
+    const results = props.map(prop => ({
+      prop,
+      state: { propId: prop.id, name: prop.name, introduced: null, usages: [], rules: [], symbolicSetup: null } as PropState,
+      earlyUses: [] as Appearance[]
+    }))
+
+    for (const scene of scenes) {
+      for (const line of scene.lines) {
+        const propIds = new Set(mentions(line.node, 'prop').map(m => m.attrs?.id as string))
+
+        for (const result of results) {
+          const named = propIds.has(result.prop.id) || (result.prop.name.trim().length > 0 && namePatterns.get(result.prop.id)!.test(line.text))
+          if (!named) continue
+
+          const sceneLabel = String(scene.beat.sceneNumber)
+          if (line.type === 'action' || line.type === 'shot') {
+            if (!result.state.introduced) result.state.introduced = { scene: sceneLabel, context: line.text.trim() }
+            result.state.usages.push({ scene: sceneLabel, how: 'action' })
+          } else if (line.type === 'dialogue' || line.type === 'parenthetical') {
+            result.state.usages.push({ scene: sceneLabel, how: line.type })
+            if (!result.state.introduced) result.earlyUses.push({ line, scene })
+          }
+        }
+      }
+    }
+
+    return results.filter(r => r.earlyUses.length > 0)
+  }
+
+  private characterName(ctx: PassContext, key: string): string | undefined {
+    return (ctx.project.characters || []).find(c => c.id === key)?.name.toUpperCase()
+  }
+}
@@ -0,0 +1,371 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Pass, PassContext, TextBlock } from '../passEngine'
+import { extractBlocks, blockRange } from '../passEngine'
+import type { Diagnostic, DiagnosticSourcePassage, Fix, PassResult } from '../../../src/types/project'
+import { isSourceAsset, loadSourcePages } from '../sourceMaterial'
+
+// Documents that hold the project's own reference material
+const BIBLIOGRAPHY_TITLE_PATTERN = /^(bibliography|references|works cited|sources)$/i
+
+// Sentence boundary: end punctuation (and any closing quote) before a capital or digit
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[.!?]["”’)]?)\s+(?=["“‘(]?[\p{Lu}\d])|\n+/gu
+
+// Figures: $1,200 / 3.5 million / 42% / 1999
+const FIGURE_PATTERN = /(?<![\p{L}\d.,])([$€£]\s?)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(%|percent\b|per cent\b))?(?:\s(thousand|million|billion|trillion)\b)?/giu
+
+// Quoted text worth checking: at least three words
+const QUOTATION_PATTERN = /["“]([^"“”]+)["”]/g
+const MIN_QUOTATION_WORDS = 3
+
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9, trillion: 1e12 }
+
+// Words too common to say whether a passage is about the same thing
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'has', 'had', 'have', 'that', 'this', 'these', 'those',
+  'with', 'from', 'into', 'than', 'then', 'they', 'their', 'there', 'which', 'while', 'who', 'whom',
+  'what', 'when', 'where', 'will', 'would', 'could', 'should', 'can', 'not', 'but', 'its', 'his',
+  'her', 'our', 'your', 'about', 'over', 'under', 'more', 'most', 'less', 'some', 'such', 'only',
+  'also', 'been', 'being', 'per', 'cent', 'percent', 'thousand', 'million', 'billion', 'trillion',
+  'year', 'years', 'said', 'says', 'according'
+])
+
+// Share of a claim's keywords a passage needs to count as the same topic
+const MIN_TOPIC_OVERLAP = 0.5
+const MIN_SHARED_KEYWORDS = 2
+// Share of a quotation's words that makes a passage its likely source
+const MIN_QUOTATION_OVERLAP = 0.6
+
+type FigureKind = 'percent' | 'currency' | 'year' | 'number'
+
+interface Figure {
+  kind: FigureKind
+  value: number
+  decimals: number
+  raw: string
+  offset: number
+}
+
+// A passage of reference material, with where it came from
+interface SourcePassage {
+  text: string
+  keywords: Set<string>
+  figures: Figure[]
+  location: Omit<DiagnosticSourcePassage, 'text'>
+  label: string
+}
+
+// A sentence in the writing that states figures or quotes a source
+interface Claim {
+  documentId: string
+  block: TextBlock
+  start: number
+  text: string
+  figures: Figure[]
+  quotations: { text: string; offset: number; length: number }[]
+}
+
+function keywords(text: string): Set<string> {
+  const words = new Set<string>()
+  for (const match of text.toLowerCase().matchAll(/\p{L}[\p{L}'’-]*/gu)) {
+    const word = match[0].replace(/['’]s$/, '')
+    if (word.length < 3 || STOPWORDS.has(word)) continue
+    // Light stemming so "rates" matches "rate"
+    words.add(word.length > 4 ? word.replace(/(?:es|s)$/, '') : word)
+  }
+  return words
+}
+
+function figures(text: string): Figure[] {
+  const found: Figure[] = []
+  for (const match of text.matchAll(FIGURE_PATTERN)) {
+    const [raw, currency, whole, fraction, percent, scale] = match
+    const value = parseFloat(whole.replace(/,/g, '') + (fraction || '')) * (scale ? SCALES[scale.toLowerCase()] : 1)
+    const kind: FigureKind = percent ? 'percent'
+      : currency ? 'currency'
+      : !fraction && !scale && /^(1[5-9]|20)\d\d$/.test(whole) ? 'year'
+      : 'number'
+    found.push({ kind, value, decimals: fraction ? fraction.length - 1 : 0, raw: raw.trim(), offset: match.index! })
+  }
+  return found
+}
+
+// Same figure, allowing the claim to round the source ("42%" for 41.7%)
+function sameFigure(claim: Figure, source: Figure): boolean {
+  if (claim.kind !== source.kind) return false
+  if (claim.value === source.value) return true
+  const factor = 10 ** claim.decimals
+  return Math.round(source.value * factor) / factor === claim.value
+}
+
+function normalizeQuotation(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}' ]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Split text into sentences with their offsets
+function sentences(text: string): { text: string; start: number }[] {
+  const result: { text: string; start: number }[] = []
+  let start = 0
+  const push = (end: number) => {
+    const sentence = text.slice(start, end)
+    const leading = sentence.length - sentence.trimStart().length
+    if (sentence.trim()) result.push({ text: sentence.trim(), start: start + leading })
+  }
+  for (const match of text.matchAll(SENTENCE_BOUNDARY_PATTERN)) {
+    push(match.index!)
+    start = match.index! + match[0].length
+  }
+  push(text.length)
+  return result
+}
+
+function excerpt(text: string, max = 200): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text
+}
+
+/**
+ * Checks claims with figures, dates and quotations against the project's
+ * reference material: PDF and link assets, and the Bibliography document.
+ * A claim whose figures differ from the passage it matches is reported
+ * as contradicted; one with no matching passage as unsupported.
+ */
+export class FactCheckPass implements Pass {
+  id = 'fact-check'
+  name = 'Fact Check'
+  kind: 'local' = 'local'
+  scope: 'project' = 'project'
+
+  // Adding, removing or replacing source assets changes the results
+  cacheKey(ctx: PassContext): string {
+    return JSON.stringify(ctx.project.assets.filter(isSourceAsset).map(a => [a.id, a.path, a.size]))
+  }
+
+  async run(ctx: PassContext): Promise<PassResult> {
+    const startTime = Date.now()
+    const diagnostics: Diagnostic[] = []
+    const fixes: Fix[] = []
+
+    const { passages, unreadable } = await this.loadPassages(ctx)
+
+    for (const { asset, error } of unreadable) {
+      diagnostics.push({
+        id: uuidv4(),
+        passId: this.id,
+        severity: 'warning',
+        title: 'Unreadable Source',
+        message: `Could not read "${asset}" for fact checking: ${error}`,
+        documentId: ''
+      })
+    }
+
+    if (passages.length === 0) {
+      diagnostics.push({
+        id: uuidv4(),
+        passId: this.id,
+        severity: 'info',
+        title: 'No Reference Material',
+        message: 'Add PDF or link assets, or a Bibliography document, to check claims against your sources.',
+        documentId: ''
+      })
+      return { passId: this.id, diagnostics, fixes, timing: Date.now() - startTime }
+    }
+
+    for (const claim of this.extractClaims(ctx)) {
+      const report = (
+        severity: Diagnostic['severity'],
+        title: string,
+        message: string,
+        span: { offset: number; length: number },
+        passage?: SourcePassage,
+        replacement?: string
+      ) => {
+        const id = uuidv4()
+        const start = claim.start + span.offset
+        const range = blockRange(claim.block, start, start + span.length)
+
+        diagnostics.push({
+          id,
+          passId: this.id,
+          severity,
+          title,
+          message,
+          documentId: claim.documentId,
+          blockId: claim.block.blockId,
+          range,
+          suggestions: replacement !== undefined
+            ? [{ label: `Change to "${replacement}"`, replacement }]
+            : undefined,
+          source: passage?.label,
+          sourcePassage: passage ? { text: excerpt(passage.text), ...passage.location } : undefined,
+          context: { text: claim.text, offset: span.offset, length: span.length }
+        })
+
+        if (replacement !== undefined) {
+          fixes.push({
+            id: uuidv4(),
+            diagnosticId: id,
+            label: `Change to "${replacement}"`,
+            patch: { documentId: claim.documentId, range, replacement }
+          })
+        }
+      }
+
+      // Quotations must appear word for word in a source
+      for (const quotation of claim.quotations) {
+        const normalized = normalizeQuotation(quotation.text)
+        if (passages.some(p => normalizeQuotation(p.text).includes(normalized))) continue
+
+        const quoteWords = keywords(quotation.text)
+        const closest = this.bestPassage(passages, quoteWords)
+        if (closest && closest.overlap >= MIN_QUOTATION_OVERLAP) {
+          report('warning', 'Misquoted Source',
+            `This quotation does not match the wording of ${closest.passage.label}`,
+            quotation, closest.passage)
+        } else {
+          report('warning', 'Unsupported Quotation',
+            'This quotation was not found in any of the project\'s reference material',
+            quotation)
+        }
+      }
+
+      // Figures: find the passage on the same topic and compare its figures
+      if (claim.figures.length === 0) continue
+      const closest = this.bestPassage(passages, keywords(claim.text))
+      if (!closest || closest.overlap < MIN_TOPIC_OVERLAP || closest.shared < MIN_SHARED_KEYWORDS) {
+        report('info', 'Unsupported Claim',
+          'No passage in the project\'s reference material supports this claim',
+          { offset: 0, length: claim.text.length })
+        continue
+      }
+
+      const passage = closest.passage
+      const unmatched = passage.figures.filter(f => !claim.figures.some(c => sameFigure(c, f)))
+      const missing = claim.figures.filter(c => !passage.figures.some(f => sameFigure(c, f)))
+
+      // Pair differing figures in order ("30-40" against "15-20")
+      const paired = new Set<Figure>()
+      for (const figure of missing) {
+        const differing = unmatched.find(f => f.kind === figure.kind && !paired.has(f)) ??
+          unmatched.find(f => f.kind === figure.kind)
+        if (differing) {
+          paired.add(differing)
+          report('warning', 'Contradicted Claim',
+            `${passage.label} gives ${differing.raw} where this says ${figure.raw}`,
+            { offset: figure.offset, length: figure.raw.length }, passage, differing.raw)
+        } else {
+          report('info', 'Unsupported Claim',
+            `${passage.label} discusses this but does not state ${figure.raw}`,
+            { offset: figure.offset, length: figure.raw.length }, passage)
+        }
+      }
+    }
+
+    return {
+      passId: this.id,
+      diagnostics,
+      fixes,
+      timing: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Sentences in the writing (not the bibliography) that state figures
+   * or quote at least a few words.
+   */
+  private extractClaims(ctx: PassContext): Claim[] {
+    const claims: Claim[] = []
+
+    for (const doc of ctx.documents) {
+      if (BIBLIOGRAPHY_TITLE_PATTERN.test(doc.title.trim())) continue
+
+      for (const block of extractBlocks(doc.content)) {
+        for (const sentence of sentences(block.text)) {
+          const quotations = Array.from(sentence.text.matchAll(QUOTATION_PATTERN))
+            .filter(m => m[1].trim().split(/\s+/).length >= MIN_QUOTATION_WORDS)
+            .map(m => ({ text: m[1], offset: m.index! + 1, length: m[1].length }))
+          // Figures inside a quotation are checked with the quotation
+          const claimFigures = figures(sentence.text)
+            .filter(f => !quotations.some(q => f.offset >= q.offset && f.offset < q.offset + q.length))
+
+          if (quotations.length === 0 && claimFigures.length === 0) continue
+          claims.push({
+            documentId: doc.id,
+            block,
+            start: sentence.start,
+            text: sentence.text,
+            figures: claimFigures,
+            quotations
+          })
+        }
+      }
+    }
+
+    return claims
+  }
+
+  /**
+   * Sentences of every readable source asset and bibliography entry.
+   */
+  private async loadPassages(ctx: PassContext): Promise<{
+    passages: SourcePassage[]
+    unreadable: { asset: string; error: string }[]
+  }> {
+    const passages: SourcePassage[] = []
+    const unreadable: { asset: string; error: string }[] = []
+
+    const addPassages = (text: string, location: SourcePassage['location'], label: string) => {
+      for (const sentence of sentences(text)) {
+        passages.push({
+          text: sentence.text,
+          keywords: keywords(sentence.text),
+          figures: figures(sentence.text),
+          location,
+          label
+        })
+      }
+    }
+
+    for (const asset of ctx.project.assets.filter(isSourceAsset)) {
+      try {
+        for (const page of await loadSourcePages(ctx.project.path, asset)) {
+          addPassages(page.text, { assetId: asset.id, page: page.page },
+            page.page ? `${asset.name} (p. ${page.page})` : asset.name)
+        }
+      } catch (error) {
+        console.error(`[FactCheck] Failed to read ${asset.name}:`, error)
+        unreadable.push({ asset: asset.name, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    for (const doc of ctx.documents) {
+      if (!BIBLIOGRAPHY_TITLE_PATTERN.test(doc.title.trim())) continue
+      for (const block of extractBlocks(doc.content)) {
+        addPassages(block.text, { documentId: doc.id, blockId: block.blockId }, doc.title)
+      }
+    }
+
+    return { passages, unreadable }
+  }
+
+  // The passage sharing the most of the given keywords
+  private bestPassage(passages: SourcePassage[], words: Set<string>): { passage: SourcePassage; overlap: number; shared: number } | null {
+    if (words.size === 0) return null
+    let best: { passage: SourcePassage; overlap: number; shared: number } | null = null
+
+    for (const passage of passages) {
+      let shared = 0
+      for (const word of words) {
+        if (passage.keywords.has(word)) shared++
+      }
+      if (shared > 0 && (!best || shared > best.shared)) {
+        best = { passage, overlap: shared / words.size, shared }
+      }
+    }
+
+    return best
+  }
+}
@@ -173,6 +173,7 @@ export class FormattingPass implements Pass {
   id = 'formatting-lint'
   name = 'Formatting Lint'
   kind: 'local' = 'local'
+  scope: 'document' = 'document'
 
   async run(ctx: PassContext): Promise<PassResult> {
     const startTime = Date.now()
@@ -2,3 +2,7 @@
 export { FormattingPass } from './formattingPass'
 export { SpellingGrammarPass } from './spellingGrammarPass'
 export { CitationPass } from './citationPass'
+export { ScreenplayPass } from './screenplayPass'
+export { ContinuityPass } from './continuityPass'
+export { FactCheckPass } from './factCheckPass'
+export { RulePackPass, registerRulePacks } from './rulePackPass'
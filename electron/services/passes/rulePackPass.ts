@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Pass, PassContext, PassRegistry } from '../passEngine'
+import { blockRange, extractBlocks } from '../passEngine'
+import type { Diagnostic, DiagnosticSeverity, Fix, PassResult, RulePack, RulePackRule, RulePackLoadResult } from '../../../src/types/project'
+import { loadRulePacks, rulePackPassId, ruleRegexFlags, RULE_PACK_PASS_PREFIX } from '../rulePacks'
+
+// Characters of surrounding text shown with each diagnostic
+const CONTEXT_RADIUS = 40
+
+// A rule compiled to one expression plus how to describe and fix a match
+interface CompiledRule {
+  rule: RulePackRule
+  regex: RegExp
+  title: string
+  severity: DiagnosticSeverity
+  message: (match: string) => string
+  replacement?: (match: string) => string
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Match whole words only: no letter, digit or underscore on either side
+function wordListPattern(words: string[]): string {
+  const alternatives = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+    .join('|')
+  return `(?<![\\p{L}\\p{N}_])(?:${alternatives})(?![\\p{L}\\p{N}_])`
+}
+
+// Carry a leading capital over to the replacement ("E-mail" -> "Email")
+function matchCase(replacement: string, match: string): string {
+  if (match[0] && match[0] === match[0].toUpperCase() && match[0] !== match[0].toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1)
+  }
+  return replacement
+}
+
+function compileRule(rule: RulePackRule): CompiledRule {
+  const severity = rule.severity || 'warning'
+
+  switch (rule.type) {
+    case 'banned-words': {
+      const replacement = rule.replacement
+      return {
+        rule,
+        regex: new RegExp(wordListPattern(rule.words), `${ruleRegexFlags(rule)}u`),
+        title: 'Banned Word',
+        severity,
+        message: match => rule.message || `"${match}" is not allowed by the house style.`,
+        replacement: replacement !== undefined ? match => matchCase(replacement, match) : undefined
+      }
+    }
+    case 'terminology':
+      return {
+        rule,
+        regex: new RegExp(wordListPattern(rule.variants), `${ruleRegexFlags(rule)}u`),
+        title: 'Terminology',
+        severity,
+        message: match => rule.message || `Use "${rule.term}" instead of "${match}".`,
+        replacement: match => matchCase(rule.term, match)
+      }
+    case 'regex': {
+      const replacement = rule.replacement
+      const flags = ruleRegexFlags(rule)
+      return {
+        rule,
+        regex: new RegExp(rule.pattern, flags),
+        title: 'Style Rule',
+        severity,
+        message: match => rule.message || `"${match}" matches style rule "${rule.id}".`,
+        // Re-run the expression on the match alone so $1-style groups resolve
+        replacement: replacement !== undefined
+          ? match => match.replace(new RegExp(rule.pattern, flags.replace('g', '')), replacement)
+          : undefined
+      }
+    }
+  }
+}
+
+/**
+ * Runs one project rule pack over each block of each document, so a match
+ * never spans two blocks.
+ */
+export class RulePackPass implements Pass {
+  id: string
+  name: string
+  kind: 'local' = 'local'
+  scope: 'document' = 'document'
+
+  private rules: CompiledRule[]
+
+  constructor(private pack: RulePack) {
+    this.id = rulePackPassId(pack.id)
+    this.name = pack.name
+    this.rules = pack.rules.map(compileRule)
+  }
+
+  // Editing a pack invalidates its cached results
+  cacheKey(): string {
+    return JSON.stringify(this.pack)
+  }
+
+  async run(ctx: PassContext): Promise<PassResult> {
+    const startTime = Date.now()
+    const diagnostics: Diagnostic[] = []
+    const fixes: Fix[] = []
+
+    for (const doc of ctx.documents) {
+      for (const block of extractBlocks(doc.content)) {
+        const { text } = block
+        if (!text.trim()) continue
+
+        for (const compiled of this.rules) {
+          compiled.regex.lastIndex = 0
+          let match: RegExpExecArray | null
+          while ((match = compiled.regex.exec(text)) !== null) {
+            // Skip empty matches without looping forever
+            if (match[0].length === 0) {
+              compiled.regex.lastIndex++
+              continue
+            }
+
+            const start = match.index
+            const end = start + match[0].length
+            const range = blockRange(block, start, end)
+            const contextStart = Math.max(0, start - CONTEXT_RADIUS)
+            const replacement = compiled.replacement?.(match[0])
+            const diagnosticId = uuidv4()
+
+            diagnostics.push({
+              id: diagnosticId,
+              passId: this.id,
+              severity: compiled.severity,
+              title: compiled.title,
+              message: compiled.message(match[0]),
+              documentId: doc.id,
+              blockId: block.blockId,
+              range,
+              suggestions: replacement !== undefined && replacement !== match[0]
+                ? [{ label: replacement ? `Replace with "${replacement}"` : 'Remove', replacement }]
+                : undefined,
+              source: `${this.pack.name}: ${compiled.rule.id}`,
+              context: {
+                text: text.slice(contextStart, end + CONTEXT_RADIUS),
+                offset: start - contextStart,
+                length: match[0].length
+              }
+            })
+
+            if (replacement !== undefined && replacement !== match[0]) {
+              fixes.push({
+                id: uuidv4(),
+                diagnosticId,
+                label: replacement ? `Replace with "${replacement}"` : 'Remove',
+                patch: {
+                  documentId: doc.id,
+                  range,
+                  replacement
+                }
+              })
+            }
+          }
+        }
+      }
+    }
+
+    return {
+      passId: this.id,
+      diagnostics,
+      fixes,
+      timing: Date.now() - startTime
+    }
+  }
+}
+
+/**
+ * Stands in for a rule pack that failed to load, so enabling it reports
+ * the problem in the Problems panel instead of silently doing nothing.
+ */
+class InvalidRulePackPass implements Pass {
+  id: string
+  name: string
+  kind: 'local' = 'local'
+
+  constructor(packId: string, private error: string) {
+    this.id = rulePackPassId(packId)
+    this.name = `Rule Pack "${packId}"`
+  }
+
+  async run(): Promise<PassResult> {
+    throw new Error(this.error)
+  }
+}
+
+/**
+ * Load a project's rule packs and register each as a pass, replacing any
+ * packs registered for a previous build.
+ */
+export async function registerRulePacks(registry: PassRegistry, projectPath: string): Promise<RulePackLoadResult> {
+  const result = await loadRulePacks(projectPath)
+
+  for (const pass of registry.getAll()) {
+    if (pass.id.startsWith(RULE_PACK_PASS_PREFIX)) registry.unregister(pass.id)
+  }
+  for (const pack of result.packs) {
+    registry.register(new RulePackPass(pack))
+  }
+  for (const error of result.errors) {
+    registry.register(new InvalidRulePackPass(error.id, error.message))
+  }
+
+  return result
+}
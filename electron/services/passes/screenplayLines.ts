@@ -0,0 +1,94 @@
+/**
+ * Screenplay element helpers shared by the screenplay passes: flatten a
+ * document into its screenplay elements with the positions needed to
+ * report on them, and pick scene headings apart.
+ */
+
+import type { DocumentWithContent, TextBlock } from '../passEngine'
+import { extractBlocks, blockRange } from '../passEngine'
+import type { ScreenplayElementType } from '../screenplayFormats'
+
+// Scene heading prefixes, e.g. "INT.", "EXT.", "INT./EXT.", "I/E"
+export const SCENE_PREFIX_PATTERN = /^(INT\.?\s*\/\s*EXT\.?|EXT\.?\s*\/\s*INT\.?|I\/E\.?|INT\.|EXT\.|EST\.)(?=\s|$)/i
+
+// Separator before the time of day ("INT. KITCHEN - NIGHT")
+const TIME_SEPARATOR_PATTERN = /\s[-–—]{1,2}\s/g
+
+// Words that can follow a location as (part of) the time of day
+export const TIME_WORDS = new Set([
+  'DAY', 'DAYTIME', 'NIGHT', 'NIGHTTIME', 'NITE', 'MORNING', 'MORN', 'AFTERNOON', 'EVENING',
+  'NOON', 'MIDDAY', 'MIDNIGHT', 'DAWN', 'DAYBREAK', 'DUSK', 'SUNRISE', 'SUNSET', 'TWILIGHT',
+  'MAGIC HOUR', 'LATER', 'MOMENTS LATER', 'MOMENT LATER', 'A MOMENT LATER', 'CONTINUOUS',
+  'CONT.', 'CONT', 'CONTINUING', 'SAME', 'SAME TIME', 'MEANWHILE', 'SIMULTANEOUS', 'INTERCUT'
+])
+
+// A screenplay element with enough position data to report on it
+export interface ScriptLine extends TextBlock {
+  doc: DocumentWithContent
+  type: ScreenplayElementType
+}
+
+/**
+ * The screenplay elements of a document in order. Other top-level nodes
+ * are skipped but still counted towards positions.
+ */
+export function extractLines(doc: DocumentWithContent): ScriptLine[] {
+  return extractBlocks(doc.content)
+    .filter(block => block.node.type === 'screenplayElement')
+    .map(block => ({
+      ...block,
+      doc,
+      type: (block.node.attrs?.elementType as ScreenplayElementType) || 'action'
+    }))
+}
+
+/**
+ * Document range for a slice of a line's text, or the whole line.
+ */
+export function lineRange(line: ScriptLine, start?: number, end?: number): { from: number; to: number } {
+  return blockRange(line, start, end)
+}
+
+// Strip extensions like (V.O.), (O.S.), (CONT'D) to get the base name
+export function stripCharacterExtensions(cue: string): string {
+  return cue.replace(/\s*\([^)]*\)/g, '').trim()
+}
+
+/**
+ * Split a heading into its time of day and where that starts in the text.
+ * The time runs from the first trailing segment that reads as a time
+ * ("KITCHEN - NIGHT - CONTINUOUS" gives "NIGHT - CONTINUOUS"), or is the
+ * last segment when none do. Returns null when the heading has no time.
+ */
+export function headingTimeOfDay(text: string): { time: string; offset: number } | null {
+  const separatorEnds: number[] = []
+  let match: RegExpExecArray | null
+  TIME_SEPARATOR_PATTERN.lastIndex = 0
+  while ((match = TIME_SEPARATOR_PATTERN.exec(text)) !== null) {
+    separatorEnds.push(match.index + match[0].length)
+  }
+  if (separatorEnds.length === 0) return null
+
+  let start = separatorEnds[separatorEnds.length - 1]
+  for (let i = separatorEnds.length - 1; i >= 0; i--) {
+    const segment = text.slice(separatorEnds[i], i + 1 < separatorEnds.length ? separatorEnds[i + 1] : undefined)
+    const word = stripCharacterExtensions(segment.replace(/\s[-–—]{1,2}\s*$/, '')).toUpperCase()
+    if (!TIME_WORDS.has(word)) break
+    start = separatorEnds[i]
+  }
+
+  const rest = text.slice(start)
+  const time = rest.trim()
+  if (!time) return null
+  return { time, offset: start + (rest.length - rest.trimStart().length) }
+}
+
+/**
+ * The location part of a heading: everything between the INT./EXT.
+ * prefix and the time of day, uppercased.
+ */
+export function headingLocation(text: string): string {
+  const timeOfDay = headingTimeOfDay(text)
+  const withoutTime = timeOfDay ? text.slice(0, timeOfDay.offset).replace(/\s[-–—]{1,2}\s*$/, '') : text
+  return withoutTime.trim().replace(SCENE_PREFIX_PATTERN, '').trim().toUpperCase()
+}
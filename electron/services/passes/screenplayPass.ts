@@ -0,0 +1,246 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Pass, PassContext } from '../passEngine'
+import type { Character, Diagnostic, DiagnosticSeverity, PassResult, Fix } from '../../../src/types/project'
+import type { JSONContent } from '@tiptap/core'
+import { extractLines, lineRange, stripCharacterExtensions, headingTimeOfDay, SCENE_PREFIX_PATTERN, type ScriptLine } from './screenplayLines'
+
+// Prefixes that are almost right and can be fixed in place
+const FIXABLE_PREFIXES: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /^(INT|INTERIOR\.?)(?=\s)/i, replacement: 'INT.' },
+  { pattern: /^(EXT|EXTERIOR\.?)(?=\s)/i, replacement: 'EXT.' }
+]
+
+// Spellings of the same time of day; the first is preferred on a tie
+const TIME_OF_DAY_SYNONYMS = [
+  ['DAY', 'DAYTIME'],
+  ['NIGHT', 'NIGHTTIME', 'NITE'],
+  ['MORNING', 'MORN'],
+  ['DAWN', 'DAYBREAK'],
+  ['CONTINUOUS', 'CONT.', 'CONT', 'CONTINUING'],
+  ['MOMENTS LATER', 'MOMENT LATER', 'A MOMENT LATER'],
+  ['SAME', 'SAME TIME']
+]
+
+// Transitions that may close the script without a scene after them
+const CLOSING_TRANSITION_PATTERN = /^(FADE OUT|FADE TO BLACK|CUT TO BLACK|THE END)\b/i
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1))
+      previous = current
+    }
+  }
+  return row[b.length]
+}
+
+// The character a misspelled cue most likely means, if any is close enough
+function closestCharacter(name: string, characters: Character[]): Character | undefined {
+  const maxDistance = Math.max(1, Math.floor(name.length / 4))
+  let best: Character | undefined
+  let bestDistance = Infinity
+  for (const character of characters) {
+    const distance = editDistance(name, character.name.toUpperCase())
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = character
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function hasCharacterMention(node: JSONContent): boolean {
+  return (node.content || []).some(child =>
+    (child.type === 'mention' && child.attrs?.type !== 'prop') || hasCharacterMention(child))
+}
+
+/**
+ * Checks screenplay structure: cues, parentheticals, scene headings and
+ * transitions, plus consistency with the project's character bank.
+ */
+export class ScreenplayPass implements Pass {
+  id = 'screenplay-lint'
+  name = 'Screenplay Lint'
+  kind: 'local' = 'local'
+  scope: 'project' = 'project'
+
+  // Character bank edits change which cues are known
+  cacheKey(ctx: PassContext): string {
+    return JSON.stringify((ctx.project.characters || []).map(c => [c.id, c.name]))
+  }
+
+  async run(ctx: PassContext): Promise<PassResult> {
+    const startTime = Date.now()
+    const diagnostics: Diagnostic[] = []
+    const fixes: Fix[] = []
+
+    const report = (
+      line: ScriptLine,
+      severity: DiagnosticSeverity,
+      title: string,
+      message: string,
+      fix?: { start: number; end: number; replacement: string; label: string }
+    ) => {
+      const id = uuidv4()
+      const range = fix ? lineRange(line, fix.start, fix.end) : lineRange(line)
+
+      diagnostics.push({
+        id,
+        passId: this.id,
+        severity,
+        title,
+        message,
+        documentId: line.doc.id,
+        blockId: line.blockId,
+        range,
+        suggestions: fix ? [{ label: fix.label, replacement: fix.replacement }] : undefined,
+        context: {
+          text: line.text,
+          offset: fix ? fix.start : 0,
+          length: fix ? fix.end - fix.start : line.text.length
+        }
+      })
+
+      if (fix) {
+        fixes.push({
+          id: uuidv4(),
+          diagnosticId: id,
+          label: fix.label,
+          patch: { documentId: line.doc.id, range, replacement: fix.replacement }
+        })
+      }
+    }
+
+    // Documents without screenplay elements (title page, act breaks) drop out
+    const scripts = ctx.documents.map(extractLines).filter(lines => lines.length > 0)
+    const characters = ctx.project.characters || []
+    const characterIds = new Set(characters.map(c => c.id))
+    const characterNames = new Set(characters.map(c => c.name.trim().toUpperCase()))
+    const timeUsages: { line: ScriptLine; time: string; offset: number }[] = []
+
+    scripts.forEach((lines, scriptIndex) => {
+      lines.forEach((line, index) => {
+        const text = line.text.trim()
+        if (!text) return
+
+        const next = lines.slice(index + 1).find(l => l.text.trim())
+        const previous = lines.slice(0, index).reverse().find(l => l.text.trim())
+        const leading = line.text.length - line.text.trimStart().length
+
+        switch (line.type) {
+          case 'character': {
+            // Dialogue must follow, optionally after parentheticals
+            const following = lines.slice(index + 1).find(l => l.text.trim() && l.type !== 'parenthetical')
+            if (following?.type !== 'dialogue') {
+              report(line, 'warning', 'Character Without Dialogue',
+                `Character cue "${text}" is not followed by dialogue`)
+            }
+
+            if (characters.length === 0 || hasCharacterMention(line.node)) break
+            if (line.node.attrs?.characterId && characterIds.has(line.node.attrs.characterId)) break
+
+            const name = stripCharacterExtensions(text).toUpperCase()
+            if (!name || characterNames.has(name)) break
+
+            const match = closestCharacter(name, characters)
+            report(line, 'warning', 'Unknown Character',
+              match
+                ? `"${name}" does not match any character. Did you mean ${match.name.toUpperCase()}?`
+                : `"${name}" does not match any character in the character bank`,
+              match ? {
+                start: leading,
+                end: leading + name.length,
+                replacement: match.name.toUpperCase(),
+                label: `Change to ${match.name.toUpperCase()}`
+              } : undefined)
+            break
+          }
+
+          case 'parenthetical':
+            if (!previous || !['character', 'dialogue', 'parenthetical'].includes(previous.type)) {
+              report(line, 'warning', 'Parenthetical Outside Dialogue',
+                'Parentheticals belong under a character cue or within dialogue')
+            }
+            break
+
+          case 'scene-heading': {
+            if (!SCENE_PREFIX_PATTERN.test(text)) {
+              const fixable = FIXABLE_PREFIXES
+                .map(({ pattern, replacement }) => ({ match: text.match(pattern), replacement }))
+                .find(({ match }) => match)
+              report(line, 'warning', 'Missing INT./EXT.',
+                `Scene heading "${text}" should start with INT. or EXT.`,
+                fixable?.match ? {
+                  start: leading,
+                  end: leading + fixable.match[0].length,
+                  replacement: fixable.replacement,
+                  label: `Use ${fixable.replacement}`
+                } : undefined)
+            }
+
+            const timeOfDay = headingTimeOfDay(line.text)
+            if (timeOfDay) {
+              // Each part of "NIGHT - CONTINUOUS" is checked on its own
+              for (const part of timeOfDay.time.matchAll(/[^-–—]+/g)) {
+                const time = part[0].trim()
+                if (!time) continue
+                const offset = timeOfDay.offset + part.index! + part[0].length - part[0].trimStart().length
+                timeUsages.push({ line, time, offset })
+              }
+            } else {
+              report(line, 'warning', 'Missing Time of Day',
+                `Scene heading "${text}" should end with a time of day (e.g. "- DAY" or "- NIGHT")`)
+            }
+            break
+          }
+
+          case 'transition': {
+            // The next element, looking past the end of this page if needed
+            const upcoming = next || scripts.slice(scriptIndex + 1).flat().find(l => l.text.trim())
+            if (upcoming ? upcoming.type !== 'scene-heading' : !CLOSING_TRANSITION_PATTERN.test(text)) {
+              report(line, 'warning', 'Orphaned Transition',
+                upcoming
+                  ? `Transition "${text}" should be followed by a scene heading`
+                  : `Transition "${text}" ends the script without leading anywhere`)
+            }
+            break
+          }
+        }
+      })
+    })
+
+    // Time of day: flag every spelling other than the one used most
+    for (const synonyms of TIME_OF_DAY_SYNONYMS) {
+      const usages = timeUsages
+        .map(usage => {
+          const base = stripCharacterExtensions(usage.time).toUpperCase()
+          return { ...usage, variant: synonyms.find(s => s === base) }
+        })
+        .filter((usage): usage is typeof usage & { variant: string } => !!usage.variant)
+
+      const counts = new Map<string, number>()
+      usages.forEach(u => counts.set(u.variant, (counts.get(u.variant) || 0) + 1))
+      if (counts.size < 2) continue
+
+      const preferred = synonyms.reduce((best, s) => (counts.get(s) || 0) > (counts.get(best) || 0) ? s : best)
+      for (const usage of usages) {
+        if (usage.variant === preferred) continue
+        const start = usage.offset + usage.time.toUpperCase().indexOf(usage.variant)
+        report(usage.line, 'info', 'Inconsistent Time of Day',
+          `"${usage.variant}" is also written as "${preferred}" in this script`,
+          { start, end: start + usage.variant.length, replacement: preferred, label: `Change to ${preferred}` })
+      }
+    }
+
+    return {
+      passId: this.id,
+      diagnostics,
+      fixes,
+      timing: Date.now() - startTime
+    }
+  }
+}
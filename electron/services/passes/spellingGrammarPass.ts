@@ -1,7 +1,8 @@
 import { v4 as uuidv4 } from 'uuid'
-import type { Pass, PassContext, PlainTextResult } from '../passEngine'
+import type { Pass, PassContext, PlainTextResult, DocumentWithContent } from '../passEngine'
 import { contentToPlainText, plainTextOffsetToDocPos } from '../passEngine'
-import type { Diagnostic, PassResult, Fix } from '../../../src/types/project'
+import type { Diagnostic, DiagnosticSuggestion, PassResult, Fix } from '../../../src/types/project'
+import { getSpellChecker, allowedWordSet } from '../spellChecker'
 
 // LanguageTool API types
 interface LanguageToolMatch {
@@ -36,6 +37,9 @@ interface LanguageToolResponse {
 // LanguageTool server configuration
 const LANGUAGETOOL_URL = 'http://localhost:8010/v2/check'
 
+// Characters of surrounding text shown with offline misspellings
+const OFFLINE_CONTEXT_RADIUS = 40
+
 // Check if LanguageTool server is available
 async function isLanguageToolAvailable(): Promise<boolean> {
   try {
@@ -94,29 +98,71 @@ function mapSeverity(ruleCategory: string): 'error' | 'warning' | 'info' {
   return 'info'
 }
 
+// Offered on every misspelling; the renderer adds the flagged word
+const DICTIONARY_SUGGESTIONS: DiagnosticSuggestion[] = [
+  { label: 'Add to Dictionary', action: 'add-to-project-dictionary' },
+  { label: 'Add to My Dictionary', action: 'add-to-user-dictionary' }
+]
+
+// Words accepted in this project: both custom dictionaries plus the
+// names in the character and prop banks
+function projectAllowedWords(ctx: PassContext): Set<string> {
+  return allowedWordSet(
+    ctx.settings.customDictionary || [],
+    getSpellChecker().getUserDictionary(),
+    (ctx.project.characters || []).map(c => c.name),
+    (ctx.project.props || []).map(p => p.name)
+  )
+}
+
 export class SpellingGrammarPass implements Pass {
   id = 'spelling-grammar'
   name = 'Spelling & Grammar'
   kind: 'local' = 'local'
+  scope: 'document' = 'document'
+
+  // Results depend on the user dictionary and bank names, which live
+  // outside the document and project settings, and on whether LanguageTool
+  // is reachable, so offline results are redone once it is back
+  async cacheKey(ctx: PassContext): Promise<string> {
+    return JSON.stringify([Array.from(projectAllowedWords(ctx)).sort(), await isLanguageToolAvailable()])
+  }
 
   async run(ctx: PassContext): Promise<PassResult> {
     const startTime = Date.now()
     const diagnostics: Diagnostic[] = []
     const fixes: Fix[] = []
+    const allowed = projectAllowedWords(ctx)
 
     // Check if LanguageTool is available
     const available = await isLanguageToolAvailable()
     
     if (!available) {
-      console.warn('[SpellingGrammarPass] LanguageTool server not available at localhost:8010')
+      console.warn('[SpellingGrammarPass] LanguageTool server not available at localhost:8010, using offline dictionary')
       diagnostics.push({
         id: uuidv4(),
         passId: this.id,
         severity: 'info',
-        title: 'Spelling Check Unavailable',
-        message: 'LanguageTool server is not running. Start it with: docker run -d -p 8010:8010 erikvl87/languagetool',
+        title: 'Grammar Check Unavailable',
+        message: 'LanguageTool server is not running, so only spelling is checked (offline dictionary). Start it with: docker run -d -p 8010:8010 erikvl87/languagetool',
         documentId: ''
       })
+
+      for (const doc of ctx.documents) {
+        try {
+          diagnostics.push(...await this.checkOffline(doc, allowed, fixes))
+        } catch (error) {
+          console.error(`[SpellingGrammarPass] Offline check failed for document ${doc.id}:`, error)
+          diagnostics.push({
+            id: uuidv4(),
+            passId: this.id,
+            severity: 'warning',
+            title: 'Spelling Check Error',
+            message: `Failed to check document "${doc.title}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+            documentId: doc.id
+          })
+        }
+      }
       
       return {
         passId: this.id,
@@ -139,6 +185,10 @@ export class SpellingGrammarPass implements Pass {
 
         // Convert matches to diagnostics
         for (const match of matches) {
+          const isTypo = match.rule.category.id === 'TYPOS'
+          const word = text.slice(match.offset, match.offset + match.length)
+          if (isTypo && allowed.has(word.replace(/’/g, "'").toLowerCase())) continue
+
           const diagId = uuidv4()
           
           // Map plain text offset to document position
@@ -146,10 +196,11 @@ export class SpellingGrammarPass implements Pass {
           const toPos = plainTextOffsetToDocPos(match.offset + match.length, positions)
 
           // Create suggestions from replacements
-          const suggestions = match.replacements.slice(0, 5).map(r => ({
+          const suggestions: DiagnosticSuggestion[] = match.replacements.slice(0, 5).map(r => ({
             label: `Replace with "${r.value}"`,
             replacement: r.value
           }))
+          if (isTypo) suggestions.push(...DICTIONARY_SUGGESTIONS)
 
           diagnostics.push({
             id: diagId,
@@ -208,4 +259,56 @@ export class SpellingGrammarPass implements Pass {
       timing: Date.now() - startTime
     }
   }
+
+  // Spelling only, with the in-process dictionary
+  private async checkOffline(doc: DocumentWithContent, allowed: Set<string>, fixes: Fix[]): Promise<Diagnostic[]> {
+    const diagnostics: Diagnostic[] = []
+    const { text, positions }: PlainTextResult = contentToPlainText(doc.content)
+    if (!text.trim()) return diagnostics
+
+    for (const misspelling of await getSpellChecker().check(text, allowed)) {
+      const diagId = uuidv4()
+      const end = misspelling.offset + misspelling.length
+      const range = {
+        from: plainTextOffsetToDocPos(misspelling.offset, positions),
+        to: plainTextOffsetToDocPos(end - 1, positions) + 1
+      }
+      const contextStart = Math.max(0, misspelling.offset - OFFLINE_CONTEXT_RADIUS)
+
+      diagnostics.push({
+        id: diagId,
+        passId: this.id,
+        severity: 'error',
+        title: 'Possible Typo',
+        message: 'Possible spelling mistake found.',
+        documentId: doc.id,
+        range,
+        suggestions: [
+          ...misspelling.suggestions.map(s => ({ label: `Replace with "${s}"`, replacement: s })),
+          ...DICTIONARY_SUGGESTIONS
+        ],
+        source: 'Offline dictionary (en-US)',
+        context: {
+          text: text.slice(contextStart, end + OFFLINE_CONTEXT_RADIUS),
+          offset: misspelling.offset - contextStart,
+          length: misspelling.length
+        }
+      })
+
+      if (misspelling.suggestions.length > 0) {
+        fixes.push({
+          id: uuidv4(),
+          diagnosticId: diagId,
+          label: `Replace with "${misspelling.suggestions[0]}"`,
+          patch: {
+            documentId: doc.id,
+            range,
+            replacement: misspelling.suggestions[0]
+          }
+        })
+      }
+    }
+
+    return diagnostics
+  }
 }
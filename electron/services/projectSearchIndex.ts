@@ -0,0 +1,302 @@
+/**
+ * Project Search Index
+ *
+ * Persistent BM25 index (see contextGatherIndex) over a project's
+ * documents, their saved versions and its Thought Partner conversations,
+ * backing quick-open search. It lives in `.cadmus/search-index.json` and is
+ * brought up to date before each query: a source is only re-read when its
+ * stamp changes (document updatedAt, versions file mtime, conversation
+ * updatedAt), and unchanged blocks are skipped by text hash.
+ */
+
+import { promises as fs } from 'fs'
+import { join, dirname } from 'path'
+import type { JSONContent } from '@tiptap/core'
+import type { Project, SearchResult, SearchResultKind } from '../../src/types/project'
+import type { DocumentBlock, ChunkIndex } from '../../shared/contextGatherTypes'
+import {
+  createIndex,
+  updateIndex,
+  queryIndex,
+  tokenize,
+  djb2Hash,
+  serializeIndex,
+  deserializeIndex,
+  type SerializedChunkIndex
+} from './contextGatherIndex'
+import { extractBlocks } from './passEngine'
+import { getThoughtPartnerService } from './thoughtPartnerService'
+import { loadVersions } from './versionStore'
+
+export const SEARCH_INDEX_FILE = join('.cadmus', 'search-index.json')
+
+// Bump when the stored shape or block extraction changes to force a rebuild
+const INDEX_FORMAT = 1
+
+// Index terms a partly typed last word may stand for
+const MAX_PREFIX_EXPANSIONS = 20
+
+const SNIPPET_LENGTH = 160
+
+// Something indexed as one document of the BM25 index
+interface IndexSource {
+  id: string // Document id in the index
+  kind: SearchResultKind
+  stamp: string
+  title: string
+  subtitle?: string
+  documentId?: string
+  versionId?: string
+  conversationId?: string
+}
+
+interface StoredIndex {
+  format: number
+  sources: IndexSource[]
+  versionStamps: Record<string, number>
+  index: SerializedChunkIndex
+}
+
+interface ProjectIndex {
+  index: ChunkIndex
+  sources: Map<string, IndexSource>
+  versionStamps: Record<string, number>
+}
+
+function documentBlocks(content: JSONContent): DocumentBlock[] {
+  return extractBlocks(content)
+    .filter(block => block.blockId && block.text.trim())
+    .map(block => ({
+      blockId: block.blockId!,
+      type: block.node.type || 'paragraph',
+      text: block.text,
+      textHash: djb2Hash(block.text)
+    }))
+}
+
+// The blocks already indexed for a source, in document order
+function indexedBlocks(index: ChunkIndex, sourceId: string): DocumentBlock[] {
+  return [...index.chunks.values()]
+    .filter(chunk => chunk.ref.documentId === sourceId)
+    .sort((a, b) => a.ref.blockIndex - b.ref.blockIndex)
+    .map(chunk => ({ blockId: chunk.ref.blockId, type: chunk.ref.blockType, text: chunk.text, textHash: chunk.textHash }))
+}
+
+function snippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  if (flat.length <= SNIPPET_LENGTH) return flat
+
+  const lower = flat.toLowerCase()
+  const hit = terms.map(term => lower.indexOf(term)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0
+  const start = Math.max(0, Math.min(hit - SNIPPET_LENGTH / 4, flat.length - SNIPPET_LENGTH))
+  return `${start > 0 ? '…' : ''}${flat.slice(start, start + SNIPPET_LENGTH).trim()}…`
+}
+
+export class ProjectSearchIndex {
+  private projects = new Map<string, ProjectIndex>()
+  // Refreshes for a project run one at a time
+  private pending = new Map<string, Promise<ProjectIndex>>()
+
+  /**
+   * Ranked block-level results for a query. Document titles that contain
+   * the query come first.
+   */
+  async search(projectPath: string, query: string, limit = 50): Promise<SearchResult[]> {
+    const previous = this.pending.get(projectPath) || Promise.resolve(null)
+    const refresh = previous.catch(() => null).then(() => this.refresh(projectPath))
+    this.pending.set(projectPath, refresh)
+    const { index, sources } = await refresh
+
+    const trimmed = query.trim()
+    if (!trimmed) return []
+
+    const titleMatches: SearchResult[] = [...sources.values()]
+      .filter(source => source.kind === 'document' && source.title.toLowerCase().includes(trimmed.toLowerCase()))
+      .map(source => ({
+        kind: source.kind,
+        documentId: source.documentId,
+        title: source.title,
+        text: '',
+        score: Infinity
+      }))
+
+    const terms = this.expandQuery(index, trimmed)
+    const blockMatches = queryIndex(index, terms.join(' '), limit).flatMap(({ chunkKey, score }): SearchResult[] => {
+      const chunk = index.chunks.get(chunkKey)
+      const source = chunk && sources.get(chunk.ref.documentId)
+      if (!chunk || !source) return []
+      return [{
+        kind: source.kind,
+        documentId: source.documentId,
+        blockId: source.kind === 'conversation' ? undefined : chunk.ref.blockId,
+        versionId: source.versionId,
+        conversationId: source.conversationId,
+        messageId: source.kind === 'conversation' ? chunk.ref.blockId : undefined,
+        title: source.title,
+        subtitle: source.subtitle,
+        text: snippet(chunk.text, terms),
+        score
+      }]
+    })
+
+    return [...titleMatches, ...blockMatches].slice(0, limit)
+  }
+
+  // Query terms, with a partly typed last word widened to the terms it starts
+  private expandQuery(index: ChunkIndex, query: string): string[] {
+    const terms = tokenize(query)
+    const last = query.toLowerCase().split(/\s+/).pop() || ''
+    if (!last || /\s$/.test(query) || index.invertedIndex.has(last)) return terms
+
+    const expansions = [...index.invertedIndex.keys()]
+      .filter(term => term.startsWith(last))
+      .slice(0, MAX_PREFIX_EXPANSIONS)
+    return [...terms.filter(term => term !== last), ...expansions]
+  }
+
+  private async refresh(projectPath: string): Promise<ProjectIndex> {
+    const current = this.projects.get(projectPath) || await this.load(projectPath)
+    const project: Project = JSON.parse(await fs.readFile(join(projectPath, 'project.json'), 'utf-8'))
+
+    const sources = new Map<string, IndexSource>()
+    const versionStamps: Record<string, number> = {}
+    const documents: { documentId: string; documentTitle: string; blocks: DocumentBlock[] }[] = []
+    let changed = false
+
+    // Reuse a source's indexed blocks while its stamp holds, else read it again
+    const addSource = async (source: IndexSource, read: () => Promise<DocumentBlock[]>) => {
+      const previous = current.sources.get(source.id)
+      if (previous && previous.title !== source.title) changed = true
+      let blocks: DocumentBlock[]
+      if (previous && previous.stamp === source.stamp) {
+        blocks = indexedBlocks(current.index, source.id)
+      } else {
+        try {
+          blocks = await read()
+        } catch (error) {
+          console.warn(`[SearchIndex] Could not read "${source.title}":`, error)
+          return
+        }
+        changed = true
+      }
+      sources.set(source.id, source)
+      documents.push({ documentId: source.id, documentTitle: source.title, blocks })
+    }
+
+    for (const doc of project.documents) {
+      if (doc.type !== 'document') continue
+
+      await addSource(
+        { id: doc.id, kind: 'document', stamp: doc.updatedAt, title: doc.title, documentId: doc.id },
+        async () => documentBlocks(JSON.parse(await fs.readFile(join(projectPath, 'documents', doc.path), 'utf-8')))
+      )
+
+      // Saving, labelling or thinning versions rewrites their index, so its
+      // mtime covers them all
+      const versionsPath = join(projectPath, 'documents', `${doc.id}.versions.json`)
+      const mtime = await fs.stat(versionsPath).then(stat => stat.mtimeMs, () => 0)
+      if (!mtime) continue
+      versionStamps[doc.id] = mtime
+
+      if (current.versionStamps[doc.id] === mtime) {
+        for (const source of current.sources.values()) {
+          if (source.kind === 'version' && source.documentId === doc.id) {
+            await addSource({ ...source, title: doc.title }, async () => [])
+          }
+        }
+        continue
+      }
+
+      const versions = await loadVersions(projectPath, doc.id)
+      for (const version of versions) {
+        await addSource({
+          id: `version:${version.id}`,
+          kind: 'version',
+          stamp: version.timestamp,
+          title: doc.title,
+          subtitle: version.label || new Date(version.timestamp).toLocaleString(),
+          documentId: doc.id,
+          versionId: version.id
+        }, async () => documentBlocks(version.content))
+      }
+    }
+
+    const thoughtPartner = getThoughtPartnerService()
+    const conversationIndex = await thoughtPartner.loadConversationIndex(projectPath)
+    for (const meta of conversationIndex.conversations) {
+      await addSource(
+        { id: `conversation:${meta.id}`, kind: 'conversation', stamp: meta.updatedAt, title: meta.title, conversationId: meta.id },
+        async () => {
+          const conversation = await thoughtPartner.loadConversation(projectPath, meta.id)
+          return (conversation?.messages || [])
+            .filter(message => message.role !== 'system' && message.content.trim())
+            .map(message => ({
+              blockId: message.id,
+              type: message.role,
+              text: message.content,
+              textHash: djb2Hash(message.content)
+            }))
+        }
+      )
+    }
+
+    if (sources.size !== current.sources.size) changed = true
+
+    const next: ProjectIndex = {
+      index: changed ? updateIndex(current.index, { documents }) : current.index,
+      sources,
+      versionStamps
+    }
+    this.projects.set(projectPath, next)
+
+    if (changed) {
+      await this.save(projectPath, next)
+      console.log(`[SearchIndex] Indexed ${next.index.totalChunks} block(s) from ${sources.size} source(s)`)
+    }
+    return next
+  }
+
+  private async load(projectPath: string): Promise<ProjectIndex> {
+    try {
+      const stored: StoredIndex = JSON.parse(await fs.readFile(join(projectPath, SEARCH_INDEX_FILE), 'utf-8'))
+      if (stored.format === INDEX_FORMAT) {
+        return {
+          index: deserializeIndex(stored.index),
+          sources: new Map(stored.sources.map(source => [source.id, source])),
+          versionStamps: stored.versionStamps
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('[SearchIndex] Rebuilding unreadable index:', error)
+      }
+    }
+    return { index: createIndex(), sources: new Map(), versionStamps: {} }
+  }
+
+  private async save(projectPath: string, project: ProjectIndex): Promise<void> {
+    const stored: StoredIndex = {
+      format: INDEX_FORMAT,
+      sources: [...project.sources.values()],
+      versionStamps: project.versionStamps,
+      index: serializeIndex(project.index)
+    }
+    const filePath = join(projectPath, SEARCH_INDEX_FILE)
+    try {
+      await fs.mkdir(dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(stored))
+    } catch (error) {
+      console.error('[SearchIndex] Failed to save index:', error)
+    }
+  }
+}
+
+// Singleton instance
+let instance: ProjectSearchIndex | null = null
+
+export function getProjectSearchIndex(): ProjectSearchIndex {
+  if (!instance) {
+    instance = new ProjectSearchIndex()
+  }
+  return instance
+}
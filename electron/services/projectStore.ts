@@ -12,6 +12,13 @@ import type {
   DocumentVersion
 } from '../../src/types/project'
 import type { JSONContent } from '@tiptap/core'
+import { parseFdx, parseFountain, scriptToParts, type ScriptTitlePage } from './screenplayFormats'
+import { FileIO } from './fileIO'
+import { clearJournalEntry, discardJournalEntry } from './documentJournal'
+import { discardDrafts } from './documentDrafts'
+import { deleteVersion, labelVersion, loadVersions, saveVersion, snapshotIfDue } from './versionStore'
+import { resolveVersionHistorySettings } from '../../src/utils/versionRetention'
+import { recordWrite } from './projectWatcher'
 
 interface RecentProject {
   name: string
@@ -167,12 +174,29 @@ function createScreenplayBreakContent(fontFamily: string, title: string): JSONCo
   }
 }
 
-// Generate industry-standard screenplay title page content
-function createScreenplayTitlePageContent(fontFamily: string, projectName: string): JSONContent {
+// Generate industry-standard screenplay title page content.
+// Imported scripts pass their title page details; new projects get placeholders.
+function createScreenplayTitlePageContent(
+  fontFamily: string,
+  projectName: string,
+  details?: ScriptTitlePage
+): JSONContent {
   const fontOpts = { fontFamily }
   
   // Convert project name to uppercase for screenplay title convention
-  const screenplayTitle = projectName.toUpperCase()
+  const screenplayTitle = (details?.title || projectName).toUpperCase()
+  
+  // Multi-line fields (e.g. a long source credit) become one paragraph per line
+  const centeredLines = (text: string) =>
+    text.split('\n').map(line => createCenteredParagraph(line, fontOpts))
+  
+  const contact = details
+    ? details.contact.map(line => createLeftParagraph(line, fontOpts))
+    : [
+        createLeftParagraph('Your Contact Information:', fontOpts),
+        createLeftParagraph('Email Address', fontOpts),
+        createLeftParagraph('Phone Number', fontOpts),
+      ]
   
   return {
     type: 'doc',
@@ -185,27 +209,27 @@ function createScreenplayTitlePageContent(fontFamily: string, projectName: strin
       createCenteredParagraph(),
       
       // Written by
-      createCenteredParagraph('Written by', fontOpts),
+      ...centeredLines(details?.credit || 'Written by'),
       
       // Spacing
       createCenteredParagraph(),
       
       // Author name
-      createCenteredParagraph('Your Name', fontOpts),
+      ...centeredLines(details ? details.author || '' : 'Your Name'),
       
       // Spacing
       createCenteredParagraph(),
       createCenteredParagraph(),
       
       // Based on (optional)
-      createCenteredParagraph('Based on (If Any)', fontOpts),
+      ...centeredLines(details ? details.source || '' : 'Based on (If Any)'),
       
       // Spacing
       createCenteredParagraph(),
       createCenteredParagraph(),
       
       // Draft date
-      createCenteredParagraph('Draft Date', fontOpts),
+      ...centeredLines(details ? details.draftDate || '' : 'Draft Date'),
       
       // Large spacing to push contact info to bottom
       createCenteredParagraph(),
@@ -224,9 +248,7 @@ function createScreenplayTitlePageContent(fontFamily: string, projectName: strin
       createCenteredParagraph(),
       
       // Contact details - left aligned at bottom
-      createLeftParagraph('Your Contact Information:', fontOpts),
-      createLeftParagraph('Email Address', fontOpts),
-      createLeftParagraph('Phone Number', fontOpts),
+      ...contact,
     ]
   }
 }
@@ -253,6 +275,7 @@ interface AppPreferences {
   theme: 'dark' | 'light'
   panelWidths?: PanelWidths
   windowBounds?: WindowBounds
+  keymap?: Record<string, string | null>
 }
 
 export class ProjectStore {
@@ -394,7 +417,9 @@ export class ProjectStore {
       
       const docFilePath = join(projectPath, 'documents', docTemplate.path)
       await fs.mkdir(join(docFilePath, '..'), { recursive: true }).catch(() => {})
-      await fs.writeFile(docFilePath, JSON.stringify(initialContent, null, 2))
+      const serialized = JSON.stringify(initialContent, null, 2)
+      recordWrite(docFilePath, serialized)
+      await fs.writeFile(docFilePath, serialized)
     }
 
     // Create project manifest
@@ -414,7 +439,9 @@ export class ProjectStore {
           id: uuidv4(),
           name: 'Default',
           includedDocumentIds: documents.map(d => d.id),
-          exportFormats: ['html', 'pdf']
+          exportFormats: template.id === 'screenplay'
+            ? ['html', 'pdf', 'fountain', 'fdx']
+            : ['html', 'pdf']
         }
       ]
     }
@@ -431,6 +458,15 @@ export class ProjectStore {
   }
 
   async openProject(projectPath: string): Promise<Project> {
+    const project = await this.loadProject(projectPath)
+    this.addToRecentProjects(projectPath, project.name, project.templateId)
+    return project
+  }
+
+  /**
+   * Read a project's manifest without touching the recent projects list
+   */
+  async loadProject(projectPath: string): Promise<Project> {
     const manifestPath = join(projectPath, 'project.json')
     const content = await fs.readFile(manifestPath, 'utf-8')
     const project: Project = JSON.parse(content)
@@ -441,8 +477,6 @@ export class ProjectStore {
       project.characters = []
     }
     
-    this.addToRecentProjects(projectPath, project.name, project.templateId)
-    
     return project
   }
 
@@ -493,6 +527,77 @@ export class ProjectStore {
     return project
   }
 
+  /**
+   * Create a screenplay project from a Fountain or Final Draft file.
+   * Each scene becomes a page under the title page and each act a break
+   * document; character cues are picked up by the renderer's character sync.
+   */
+  async importScript(sourcePath: string, destinationBasePath: string, template: Template): Promise<Project> {
+    const source = await fs.readFile(sourcePath, 'utf-8')
+    const extension = extname(sourcePath).toLowerCase()
+    const script = extension === '.fdx' ? parseFdx(source) : parseFountain(source)
+
+    // Determine project name from the file, handle conflicts
+    const baseName = basename(sourcePath, extname(sourcePath))
+    let name = baseName
+    let suffix = 1
+    while (true) {
+      try {
+        await fs.access(join(destinationBasePath, name))
+        suffix++
+        name = `${baseName} (${suffix})`
+      } catch {
+        break
+      }
+    }
+
+    const project = await this.createProject(template, name, destinationBasePath)
+    const fontFamily = template.settings.formattingRules.defaultFontFamily || 'Courier New, Courier, monospace'
+
+    // Fill in the title page and drop the template's empty starter page
+    const titlePage = project.documents.find(d => !d.parentId && d.type === 'document')
+    if (!titlePage) throw new Error('Screenplay template has no title page')
+    await FileIO.writeAtomic(
+      join(project.path, 'documents', titlePage.path),
+      JSON.stringify(createScreenplayTitlePageContent(fontFamily, name, script.titlePage), null, 2)
+    )
+
+    for (const starter of project.documents.filter(d => d.parentId === titlePage.id)) {
+      await fs.unlink(join(project.path, 'documents', starter.path)).catch(() => {})
+    }
+    project.documents = project.documents.filter(d => d.parentId !== titlePage.id)
+
+    const now = new Date().toISOString()
+    for (const part of scriptToParts(script)) {
+      const docId = uuidv4()
+      const doc: ProjectDocument = {
+        id: docId,
+        path: `${titlePage.id}/${docId}.json`,
+        title: part.title,
+        order: project.documents.length,
+        type: 'document',
+        parentId: titlePage.id,
+        isActBreak: part.kind === 'act' ? true : undefined,
+        createdAt: now,
+        updatedAt: now
+      }
+      const content = part.kind === 'act'
+        ? createScreenplayBreakContent(fontFamily, part.title)
+        : part.content
+
+      await FileIO.writeAtomic(join(project.path, 'documents', doc.path), JSON.stringify(content, null, 2))
+      project.documents.push(doc)
+    }
+
+    for (const profile of project.buildProfiles) {
+      profile.includedDocumentIds = project.documents.map(d => d.id)
+    }
+
+    await this.saveProject(project)
+    console.log(`[ProjectStore] Imported ${script.elements.length} script elements into ${project.documents.length} documents`)
+    return project
+  }
+
   async exportProject(projectPath: string, destinationBasePath: string): Promise<string> {
     // Read the source project
     const sourceManifestPath = join(projectPath, 'project.json')
@@ -522,7 +627,9 @@ export class ProjectStore {
   async saveProject(project: Project): Promise<void> {
     const manifestPath = join(project.path, 'project.json')
     project.updatedAt = new Date().toISOString()
-    await fs.writeFile(manifestPath, JSON.stringify(project, null, 2))
+    const manifest = JSON.stringify(project, null, 2)
+    recordWrite(manifestPath, manifest)
+    await FileIO.writeAtomic(manifestPath, manifest)
   }
 
   // Document operations
@@ -622,8 +729,9 @@ export class ProjectStore {
       }
       
       const docFilePath = join(projectPath, 'documents', doc.path)
-      await fs.mkdir(join(docFilePath, '..'), { recursive: true }).catch(() => {})
-      await fs.writeFile(docFilePath, JSON.stringify(initialContent, null, 2))
+      const serialized = JSON.stringify(initialContent, null, 2)
+      recordWrite(docFilePath, serialized)
+      await FileIO.writeAtomic(docFilePath, serialized)
     } else {
       // Create folder
       await fs.mkdir(join(projectPath, 'documents', doc.path), { recursive: true })
@@ -632,18 +740,35 @@ export class ProjectStore {
     return fullDoc
   }
 
-  async saveDocument(projectPath: string, docId: string, content: JSONContent): Promise<void> {
+  /**
+   * Save a document's content. Returns the automatic snapshot the save
+   * triggered, if any.
+   */
+  async saveDocument(projectPath: string, docId: string, content: JSONContent): Promise<DocumentVersion | null> {
     // Load project to get document path
     const project = await this.openProject(projectPath)
     const doc = project.documents.find(d => d.id === docId)
     if (!doc) throw new Error(`Document ${docId} not found`)
 
+    const savedAt = new Date().toISOString()
     const docFilePath = join(projectPath, 'documents', doc.path)
-    await fs.writeFile(docFilePath, JSON.stringify(content, null, 2))
+    const serialized = JSON.stringify(content, null, 2)
+    recordWrite(docFilePath, serialized)
+    await FileIO.writeAtomic(docFilePath, serialized)
 
     // Update document timestamp
-    doc.updatedAt = new Date().toISOString()
+    doc.updatedAt = savedAt
     await this.saveProject(project)
+
+    // The content is on disk, so the journal no longer needs it
+    await clearJournalEntry(projectPath, docId, savedAt)
+
+    // A failed snapshot shouldn't fail a save that already succeeded
+    const settings = resolveVersionHistorySettings(project.settings?.versionHistory)
+    return snapshotIfDue(projectPath, docId, content, settings).catch(error => {
+      console.error('[ProjectStore] Automatic snapshot failed:', error)
+      return null
+    })
   }
 
   async loadDocument(projectPath: string, docId: string): Promise<JSONContent> {
@@ -666,6 +791,8 @@ export class ProjectStore {
     if (doc.type === 'document') {
       const docFilePath = join(projectPath, 'documents', doc.path)
       await fs.unlink(docFilePath).catch(() => {})
+      await discardJournalEntry(projectPath, docId)
+      await discardDrafts(projectPath, docId)
     } else {
       const folderPath = join(projectPath, 'documents', doc.path)
       await fs.rm(folderPath, { recursive: true, force: true }).catch(() => {})
@@ -937,105 +1064,22 @@ export class ProjectStore {
     this.store.set('livingDocuments', filtered)
   }
 
-  // Version history operations
-  
-  /**
-   * Get the path to a document's versions file
-   */
-  private getVersionsFilePath(projectPath: string, docId: string): string {
-    return join(projectPath, 'documents', `${docId}.versions.json`)
-  }
+  // Version history operations (stored by versionStore)
 
-  /**
-   * Count words in JSONContent
-   */
-  private countWordsInContent(content: JSONContent): number {
-    let wordCount = 0
-    
-    const traverse = (node: JSONContent) => {
-      if (node.type === 'text' && node.text) {
-        // Split by whitespace and count non-empty parts
-        wordCount += node.text.split(/\s+/).filter(Boolean).length
-      }
-      if (node.content) {
-        node.content.forEach(traverse)
-      }
-    }
-    
-    traverse(content)
-    return wordCount
-  }
-
-  /**
-   * Save a new version snapshot of a document
-   */
   async saveVersion(projectPath: string, docId: string, content: JSONContent, label?: string): Promise<DocumentVersion> {
-    const versionsPath = this.getVersionsFilePath(projectPath, docId)
-    
-    // Load existing versions or create empty array
-    let versions: DocumentVersion[] = []
-    try {
-      const existing = await fs.readFile(versionsPath, 'utf-8')
-      versions = JSON.parse(existing)
-    } catch {
-      // File doesn't exist yet, start fresh
-    }
-
-    // Create new version
-    const version: DocumentVersion = {
-      id: uuidv4(),
-      documentId: docId,
-      timestamp: new Date().toISOString(),
-      label,
-      content,
-      wordCount: this.countWordsInContent(content)
-    }
-
-    // Add to beginning (newest first)
-    versions.unshift(version)
-
-    // Save versions file
-    await fs.writeFile(versionsPath, JSON.stringify(versions, null, 2))
-
-    return version
+    return saveVersion(projectPath, docId, content, label)
   }
 
-  /**
-   * Load all versions for a document
-   */
   async loadVersions(projectPath: string, docId: string): Promise<DocumentVersion[]> {
-    const versionsPath = this.getVersionsFilePath(projectPath, docId)
-    
-    try {
-      const content = await fs.readFile(versionsPath, 'utf-8')
-      return JSON.parse(content)
-    } catch {
-      // No versions file exists
-      return []
-    }
+    return loadVersions(projectPath, docId)
   }
 
-  /**
-   * Delete a specific version
-   */
   async deleteVersion(projectPath: string, docId: string, versionId: string): Promise<void> {
-    const versionsPath = this.getVersionsFilePath(projectPath, docId)
-    
-    try {
-      const content = await fs.readFile(versionsPath, 'utf-8')
-      let versions: DocumentVersion[] = JSON.parse(content)
-      
-      versions = versions.filter(v => v.id !== versionId)
-      
-      if (versions.length === 0) {
-        // Remove file if no versions left
-        await fs.unlink(versionsPath).catch(() => {})
-      } else {
-        await fs.writeFile(versionsPath, JSON.stringify(versions, null, 2))
-      }
-    } catch {
-      // No versions file exists, nothing to delete
-    }
+    return deleteVersion(projectPath, docId, versionId)
+  }
+
+  async labelVersion(projectPath: string, docId: string, versionId: string, label: string | undefined, milestone: boolean): Promise<void> {
+    return labelVersion(projectPath, docId, versionId, label, milestone)
   }
 
   // Agenda item operations (for NotesJournal todo tracking)
@@ -1369,6 +1413,15 @@ export class ProjectStore {
     this.store.set('panelWidths', { ...current, ...widths })
   }
 
+  // Keymap methods (user key bindings by command id)
+  getKeymap(): Record<string, string | null> {
+    return this.store.get('keymap') || {}
+  }
+
+  setKeymap(keymap: Record<string, string | null>): void {
+    this.store.set('keymap', keymap)
+  }
+
   // Window bounds methods
   getWindowBounds(): WindowBounds | undefined {
     return this.store.get('windowBounds')
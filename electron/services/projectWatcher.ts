@@ -0,0 +1,178 @@
+/**
+ * Project Watcher
+ *
+ * Watches the open project's manifest and document files for changes made
+ * outside the app (a sync tool, a git checkout, a second window) and reports
+ * them with the new content. The app records what it writes, so its own
+ * saves are not reported back as external changes.
+ */
+
+import { watch, promises as fs, type FSWatcher } from 'fs'
+import { createHash } from 'crypto'
+import { join, relative } from 'path'
+import type { JSONContent } from '@tiptap/core'
+import type { ExternalChange, Project } from '../../src/types/project'
+
+// Editors and sync tools often write a file in several steps
+const SETTLE_MS = 300
+
+// The app's own writes are recognised for this long, the last few per file
+const WRITE_TTL_MS = 30000
+const MAX_RECORDED_WRITES = 5
+
+interface ActiveWatch {
+  projectPath: string
+  watchers: FSWatcher[]
+  timers: Map<string, NodeJS.Timeout>
+  onChange: (change: ExternalChange) => void
+}
+
+interface RecordedWrite {
+  hash: string
+  at: number
+}
+
+// Content this app wrote recently, oldest first, by file path. Saves in
+// quick succession can each raise a change event after the next has begun.
+const recentWrites = new Map<string, RecordedWrite[]>()
+
+// Hash of the external content last reported, by file path
+const reportedContent = new Map<string, string>()
+
+let active: ActiveWatch | null = null
+
+function hash(content: string): string {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/')
+}
+
+/**
+ * Note content the app is about to write, so the change isn't reported
+ */
+export function recordWrite(filePath: string, content: string): void {
+  const writes = unexpiredWrites(filePath)
+  writes.push({ hash: hash(content), at: Date.now() })
+  recentWrites.set(filePath, writes.slice(-MAX_RECORDED_WRITES))
+  reportedContent.delete(filePath)
+}
+
+function unexpiredWrites(filePath: string): RecordedWrite[] {
+  const now = Date.now()
+  return (recentWrites.get(filePath) || []).filter(write => now - write.at < WRITE_TTL_MS)
+}
+
+function isOwnWrite(filePath: string, contentHash: string): boolean {
+  const writes = unexpiredWrites(filePath)
+  if (writes.length > 0) recentWrites.set(filePath, writes)
+  else recentWrites.delete(filePath)
+  return writes.some(write => write.hash === contentHash)
+}
+
+async function readManifest(projectPath: string): Promise<Project | null> {
+  try {
+    const project: Project = JSON.parse(await fs.readFile(join(projectPath, 'project.json'), 'utf-8'))
+    project.path = projectPath
+    return project
+  } catch {
+    return null
+  }
+}
+
+async function handleFileChange(watched: ActiveWatch, filePath: string): Promise<void> {
+  // Deleted or mid-rename files are left alone; the next save restores them
+  const content = await fs.readFile(filePath, 'utf-8').catch(() => null)
+  if (content === null) return
+
+  const contentHash = hash(content)
+  if (isOwnWrite(filePath, contentHash) || reportedContent.get(filePath) === contentHash) return
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    return // Still being written; a later event brings the full file
+  }
+  reportedContent.set(filePath, contentHash)
+  if (active !== watched) return
+
+  const manifestPath = join(watched.projectPath, 'project.json')
+  if (filePath === manifestPath) {
+    const project = parsed as Project
+    project.path = watched.projectPath
+    console.log('[ProjectWatcher] project.json changed on disk')
+    // Folders may have been added, so their directories need watching too
+    watchDirectories(watched, project)
+    watched.onChange({ kind: 'project', project })
+    return
+  }
+
+  const project = await readManifest(watched.projectPath)
+  const docPath = normalizePath(relative(join(watched.projectPath, 'documents'), filePath))
+  const doc = project?.documents.find(d => d.type === 'document' && normalizePath(d.path) === docPath)
+  if (!doc || active !== watched) return
+
+  console.log(`[ProjectWatcher] Document ${doc.id} changed on disk`)
+  watched.onChange({ kind: 'document', documentId: doc.id, content: parsed as JSONContent })
+}
+
+function scheduleCheck(watched: ActiveWatch, filePath: string): void {
+  clearTimeout(watched.timers.get(filePath))
+  watched.timers.set(filePath, setTimeout(() => {
+    watched.timers.delete(filePath)
+    handleFileChange(watched, filePath).catch(error => {
+      console.error('[ProjectWatcher] Failed to check', filePath, error)
+    })
+  }, SETTLE_MS))
+}
+
+function watchDirectory(watched: ActiveWatch, dirPath: string, accept: (fileName: string) => boolean): void {
+  try {
+    const watcher = watch(dirPath, (_event, fileName) => {
+      if (fileName && accept(fileName.toString())) {
+        scheduleCheck(watched, join(dirPath, fileName.toString()))
+      }
+    })
+    watcher.on('error', error => console.error('[ProjectWatcher] Watch error in', dirPath, error))
+    watched.watchers.push(watcher)
+  } catch (error) {
+    console.error('[ProjectWatcher] Could not watch', dirPath, error)
+  }
+}
+
+// Recursive watching isn't available on every platform, so the project
+// folder, documents folder and each document folder are watched separately
+function watchDirectories(watched: ActiveWatch, project: Project | null): void {
+  for (const watcher of watched.watchers) watcher.close()
+  watched.watchers = []
+
+  const isDocumentFile = (fileName: string) => fileName.endsWith('.json') && !fileName.endsWith('.versions.json')
+  watchDirectory(watched, watched.projectPath, fileName => fileName === 'project.json')
+  watchDirectory(watched, join(watched.projectPath, 'documents'), isDocumentFile)
+  for (const folder of project?.documents.filter(d => d.type === 'folder') || []) {
+    watchDirectory(watched, join(watched.projectPath, 'documents', folder.path), isDocumentFile)
+  }
+}
+
+/**
+ * Start watching a project, replacing any project watched before
+ */
+export async function watchProject(projectPath: string, onChange: (change: ExternalChange) => void): Promise<void> {
+  unwatchProject()
+  const watched: ActiveWatch = { projectPath, watchers: [], timers: new Map(), onChange }
+  active = watched
+  const project = await readManifest(projectPath)
+  // Another project may have been opened while the manifest was read
+  if (active !== watched) return
+  watchDirectories(watched, project)
+  console.log('[ProjectWatcher] Watching', projectPath)
+}
+
+export function unwatchProject(): void {
+  if (!active) return
+  for (const watcher of active.watchers) watcher.close()
+  for (const timer of active.timers.values()) clearTimeout(timer)
+  active = null
+}
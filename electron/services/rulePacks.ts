@@ -0,0 +1,161 @@
+/**
+ * Rule Packs
+ *
+ * Declarative house-style checks stored with the project. Every
+ * `.cadmus/rule-packs/<id>.json` file is one pack:
+ *
+ *   {
+ *     "name": "House Style",
+ *     "rules": [
+ *       { "id": "no-very", "type": "banned-words", "words": ["very"] },
+ *       { "id": "email", "type": "terminology", "term": "email", "variants": ["e-mail"] },
+ *       { "id": "ellipsis", "type": "regex", "pattern": "\\.\\.\\.", "replacement": "…" }
+ *     ]
+ *   }
+ *
+ * Packs are validated on load so a malformed rule is reported once, by
+ * file, rather than failing every build in a confusing way.
+ */
+
+import { promises as fs } from 'fs'
+import { join, extname, basename } from 'path'
+import type { DiagnosticSeverity, RulePack, RulePackRule, RulePackLoadResult } from '../../src/types/project'
+
+export const RULE_PACKS_DIR = join('.cadmus', 'rule-packs')
+
+// Rule packs register as passes under this prefix
+export const RULE_PACK_PASS_PREFIX = 'rule-pack:'
+
+const SEVERITIES: DiagnosticSeverity[] = ['error', 'warning', 'info']
+
+// Written when the folder is first opened so there is something to copy from
+const EXAMPLE_PACK = {
+  name: 'Example House Style',
+  description: 'Enable this pack in Project Settings, or copy it as a starting point.',
+  rules: [
+    { id: 'no-very', type: 'banned-words', words: ['very', 'really'], message: 'Cut the intensifier or pick a stronger word.' },
+    { id: 'email', type: 'terminology', term: 'email', variants: ['e-mail', 'E-Mail'] },
+    { id: 'ellipsis', type: 'regex', pattern: '\\.\\.\\.', replacement: '…', message: 'Use the ellipsis character.', severity: 'info' }
+  ]
+}
+
+export function rulePackPassId(packId: string): string {
+  return `${RULE_PACK_PASS_PREFIX}${packId}`
+}
+
+/**
+ * Flags for a rule's expression: always global, case-insensitive unless the
+ * rule says otherwise, plus any extra flags a regex rule asks for.
+ */
+export function ruleRegexFlags(rule: { caseSensitive?: boolean; flags?: string }): string {
+  const flags = new Set(`g${rule.caseSensitive ? '' : 'i'}${rule.flags || ''}`)
+  return Array.from(flags).join('')
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v.length > 0)
+}
+
+function validateRule(raw: unknown, index: number): RulePackRule {
+  const label = `Rule ${index + 1}`
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${label} must be an object`)
+  }
+
+  const rule = { ...(raw as Record<string, unknown>) }
+  rule.id = typeof rule.id === 'string' && rule.id ? rule.id : `rule-${index + 1}`
+
+  if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity as DiagnosticSeverity)) {
+    throw new Error(`${label} (${rule.id}): severity must be one of ${SEVERITIES.join(', ')}`)
+  }
+
+  switch (rule.type) {
+    case 'banned-words':
+      if (!isStringList(rule.words)) throw new Error(`${label} (${rule.id}): "words" must be a non-empty list of strings`)
+      break
+    case 'terminology':
+      if (typeof rule.term !== 'string' || !rule.term) throw new Error(`${label} (${rule.id}): "term" is required`)
+      if (!isStringList(rule.variants)) throw new Error(`${label} (${rule.id}): "variants" must be a non-empty list of strings`)
+      break
+    case 'regex':
+      if (typeof rule.pattern !== 'string' || !rule.pattern) throw new Error(`${label} (${rule.id}): "pattern" is required`)
+      try {
+        new RegExp(rule.pattern, ruleRegexFlags(rule as { flags?: string }))
+      } catch (error) {
+        throw new Error(`${label} (${rule.id}): invalid pattern: ${error instanceof Error ? error.message : error}`)
+      }
+      break
+    default:
+      throw new Error(`${label} (${rule.id}): unknown type "${rule.type}" (expected banned-words, terminology or regex)`)
+  }
+
+  return rule as unknown as RulePackRule
+}
+
+/**
+ * Parse and validate a rule pack file's contents. Throws with a
+ * user-facing message when the pack is malformed.
+ */
+export function parseRulePack(id: string, json: string): RulePack {
+  let data: Record<string, unknown>
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.rules)) {
+    throw new Error('A rule pack needs a "rules" list')
+  }
+
+  return {
+    id,
+    name: typeof data.name === 'string' && data.name ? data.name : id,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    rules: data.rules.map(validateRule)
+  }
+}
+
+/**
+ * Load every rule pack in a project. Packs that fail to parse are returned
+ * as errors so their passes can report the problem.
+ */
+export async function loadRulePacks(projectPath: string): Promise<RulePackLoadResult> {
+  const dir = join(projectPath, RULE_PACKS_DIR)
+  const result: RulePackLoadResult = { packs: [], errors: [] }
+
+  let files: string[]
+  try {
+    files = await fs.readdir(dir)
+  } catch {
+    return result
+  }
+
+  for (const file of files.filter(f => extname(f).toLowerCase() === '.json').sort()) {
+    const id = basename(file, extname(file))
+    try {
+      const json = await fs.readFile(join(dir, file), 'utf-8')
+      result.packs.push(parseRulePack(id, json))
+    } catch (error) {
+      result.errors.push({ id, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Create the rule pack folder (with an example pack) if it does not exist.
+ * Returns the folder path.
+ */
+export async function ensureRulePacksDir(projectPath: string): Promise<string> {
+  const dir = join(projectPath, RULE_PACKS_DIR)
+  await fs.mkdir(dir, { recursive: true })
+
+  const files = await fs.readdir(dir)
+  if (files.length === 0) {
+    await fs.writeFile(join(dir, 'example.json'), JSON.stringify(EXAMPLE_PACK, null, 2) + '\n', 'utf-8')
+  }
+
+  return dir
+}
@@ -0,0 +1,259 @@
+/**
+ * Final Draft (.fdx) reader and writer.
+ *
+ * FDX is XML: a <Content> list of <Paragraph Type="..."> elements whose
+ * <Text> children carry inline styles, plus an optional <TitlePage>.
+ * Only the subset Cadmus can represent is read; everything else is skipped.
+ */
+
+import type { Script, ScriptElement, ScriptTitlePage, ScreenplayElementType, TextRun } from './script'
+import { runsToText, titlePageFromLines } from './script'
+
+const PARAGRAPH_TYPES: Record<string, ScreenplayElementType> = {
+  'Scene Heading': 'scene-heading',
+  'Action': 'action',
+  'General': 'action',
+  'Character': 'character',
+  'Dialogue': 'dialogue',
+  'Parenthetical': 'parenthetical',
+  'Transition': 'transition',
+  'Shot': 'shot'
+}
+
+const ELEMENT_TO_PARAGRAPH_TYPE: Record<ScreenplayElementType, string> = {
+  'scene-heading': 'Scene Heading',
+  'action': 'Action',
+  'character': 'Character',
+  'dialogue': 'Dialogue',
+  'parenthetical': 'Parenthetical',
+  'transition': 'Transition',
+  'shot': 'Shot'
+}
+
+// Paragraph types that open an act in Final Draft's TV templates
+const ACT_PARAGRAPH_TYPES = new Set(['New Act', 'Act Break'])
+
+// =============================================================================
+// MINIMAL XML
+// =============================================================================
+
+interface XmlElement {
+  name: string
+  attrs: Record<string, string>
+  children: (XmlElement | string)[]
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&'
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'quot': return '"'
+      case 'apos': return "'"
+    }
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    return String.fromCodePoint(code)
+  })
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Parse well-formed XML into an element tree. Comments, processing
+ * instructions and doctypes are dropped; CDATA becomes text.
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#root', attrs: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  const tokenPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+  const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+  let match: RegExpExecArray | null
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const current = stack[stack.length - 1]
+    const [, cdata, closeName, openName, attrText, selfClosing, text] = match
+
+    if (cdata !== undefined) {
+      current.children.push(cdata)
+    } else if (closeName) {
+      if (stack.length > 1 && current.name === closeName) stack.pop()
+    } else if (openName) {
+      const element: XmlElement = { name: openName, attrs: {}, children: [] }
+      let attr: RegExpExecArray | null
+      attrPattern.lastIndex = 0
+      while ((attr = attrPattern.exec(attrText || '')) !== null) {
+        element.attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '')
+      }
+      current.children.push(element)
+      if (!selfClosing) stack.push(element)
+    } else if (text !== undefined) {
+      current.children.push(decodeEntities(text))
+    }
+  }
+
+  return root
+}
+
+function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((c): c is XmlElement =>
+    typeof c !== 'string' && (!name || c.name === name))
+}
+
+function textContent(element: XmlElement): string {
+  return element.children.map(c => typeof c === 'string' ? c : textContent(c)).join('')
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function paragraphRuns(paragraph: XmlElement): TextRun[] {
+  const runs: TextRun[] = []
+  for (const text of childElements(paragraph, 'Text')) {
+    const styles = new Set((text.attrs.Style || '').split('+'))
+    const run: TextRun = { text: textContent(text) }
+    if (styles.has('Bold')) run.bold = true
+    if (styles.has('Italic')) run.italic = true
+    if (styles.has('Underline')) run.underline = true
+    if (run.text) runs.push(run)
+  }
+  return runs
+}
+
+// Paragraphs in reading order; dual dialogue wrappers are flattened
+function collectParagraphs(content: XmlElement): XmlElement[] {
+  const paragraphs: XmlElement[] = []
+  for (const child of childElements(content)) {
+    if (child.name === 'Paragraph') {
+      const nested = childElements(child, 'DualDialogue')
+      if (nested.length > 0) nested.forEach(dual => paragraphs.push(...collectParagraphs(dual)))
+      else paragraphs.push(child)
+    } else if (child.name === 'DualDialogue') {
+      paragraphs.push(...collectParagraphs(child))
+    }
+  }
+  return paragraphs
+}
+
+function parseTitlePage(titlePage: XmlElement): ScriptTitlePage {
+  const content = childElements(titlePage, 'Content')[0]
+  if (!content) return { title: '', contact: [] }
+
+  return titlePageFromLines(collectParagraphs(content).map(paragraph => ({
+    text: runsToText(paragraphRuns(paragraph)),
+    centered: paragraph.attrs.Alignment === 'Center'
+  })))
+}
+
+/**
+ * Parse a Final Draft document into a script.
+ */
+export function parseFdx(xml: string): Script {
+  const document = childElements(parseXml(xml), 'FinalDraft')[0]
+  if (!document) {
+    throw new Error('Invalid Final Draft file: no <FinalDraft> root element')
+  }
+
+  const elements: ScriptElement[] = []
+  const content = childElements(document, 'Content')[0]
+
+  for (const paragraph of content ? collectParagraphs(content) : []) {
+    const paragraphType = paragraph.attrs.Type || 'Action'
+    const runs = paragraphRuns(paragraph)
+    const text = runsToText(runs).trim()
+    if (!text) continue
+
+    if (ACT_PARAGRAPH_TYPES.has(paragraphType)) {
+      elements.push({ type: 'act', title: text })
+    } else if (PARAGRAPH_TYPES[paragraphType]) {
+      elements.push({ type: PARAGRAPH_TYPES[paragraphType], runs })
+    }
+  }
+
+  const titlePage = childElements(document, 'TitlePage')[0]
+  return {
+    titlePage: titlePage ? parseTitlePage(titlePage) : undefined,
+    elements
+  }
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+function formatRuns(runs: TextRun[]): string {
+  if (runs.length === 0) return '<Text></Text>'
+  return runs.map(run => {
+    const styles = [run.bold && 'Bold', run.italic && 'Italic', run.underline && 'Underline'].filter(Boolean)
+    const style = styles.length > 0 ? ` Style="${styles.join('+')}"` : ''
+    return `<Text${style}>${escapeXml(run.text)}</Text>`
+  }).join('')
+}
+
+function formatParagraph(type: string, runs: TextRun[], attrs = ''): string {
+  return `    <Paragraph Type="${type}"${attrs}>\n      ${formatRuns(runs)}\n    </Paragraph>`
+}
+
+function formatTitlePage(page: ScriptTitlePage): string {
+  const paragraphs: string[] = []
+  const centered = (text?: string) => {
+    if (!text) return
+    text.split('\n').forEach(line => {
+      paragraphs.push(formatParagraph('General', [{ text: line }], ' Alignment="Center"'))
+    })
+    paragraphs.push(formatParagraph('General', [], ' Alignment="Center"'))
+  }
+
+  if (page.title) {
+    paragraphs.push(formatParagraph('General', [{ text: page.title, underline: true }], ' Alignment="Center"'))
+    paragraphs.push(formatParagraph('General', [], ' Alignment="Center"'))
+  }
+  centered(page.credit)
+  centered(page.author)
+  centered(page.source)
+  centered(page.draftDate)
+  page.contact.forEach(line => paragraphs.push(formatParagraph('General', [{ text: line }], ' Alignment="Left"')))
+
+  return `  <TitlePage>\n  <Content>\n${paragraphs.join('\n')}\n  </Content>\n  </TitlePage>`
+}
+
+/**
+ * Write a script as a Final Draft document. Scene headings are numbered
+ * in order and parentheticals get their parentheses back.
+ */
+export function serializeFdx(script: Script): string {
+  const paragraphs: string[] = []
+  let sceneNumber = 0
+
+  for (const element of script.elements) {
+    if (element.type === 'act') {
+      paragraphs.push(formatParagraph('New Act', [{ text: element.title }]))
+      continue
+    }
+
+    let runs = element.runs
+    if (element.type === 'parenthetical') {
+      const text = runsToText(runs).trim()
+      if (!text.startsWith('(')) runs = [{ text: '(' }, ...runs]
+      if (!text.endsWith(')')) runs = [...runs, { text: ')' }]
+    }
+
+    const number = element.type === 'scene-heading' ? ` Number="${++sceneNumber}"` : ''
+    paragraphs.push(formatParagraph(ELEMENT_TO_PARAGRAPH_TYPE[element.type], runs, number))
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+${paragraphs.join('\n')}
+  </Content>
+${script.titlePage ? formatTitlePage(script.titlePage) + '\n' : ''}</FinalDraft>
+`
+}
@@ -0,0 +1,358 @@
+/**
+ * Fountain (https://fountain.io) reader and writer.
+ *
+ * Fountain has no syntax for shots, so shots are written as action ending
+ * in a [[cadmus:shot]] note, which other apps ignore. Only that note reads
+ * back as a shot; uppercase lines such as BLACK. or THE END stay action, as
+ * Fountain defines them. Uppercase action is written with Fountain's forced
+ * action marker so it stays action.
+ */
+
+import type { Script, ScriptElement, ScriptTitlePage, ScreenplayElementType, TextRun } from './script'
+import { runsToText } from './script'
+
+const SCENE_HEADING_PATTERN = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i
+const TRANSITION_PATTERN = /^[A-Z0-9 .'-]+TO:$/
+const SCENE_NUMBER_PATTERN = /\s*#[\w.-]+#\s*$/
+
+// Note marking an action line as a Cadmus shot
+const SHOT_NOTE = '[[cadmus:shot]]'
+const SHOT_NOTE_PATTERN = /[ \t]*\[\[cadmus:shot\]\][ \t]*$/gm
+// Stands in for the shot note while other notes are stripped
+const SHOT_MARK = '\uE000'
+
+// =============================================================================
+// INLINE EMPHASIS
+// =============================================================================
+
+/**
+ * Parse Fountain emphasis (*italic*, **bold**, ***bold italic***, _underline_)
+ * into styled runs. Backslash escapes are honored.
+ */
+export function parseEmphasis(text: string): TextRun[] {
+  const runs: TextRun[] = []
+  const state = { bold: false, italic: false, underline: false }
+  let buffer = ''
+
+  const flush = () => {
+    if (!buffer) return
+    const run: TextRun = { text: buffer }
+    if (state.bold) run.bold = true
+    if (state.italic) run.italic = true
+    if (state.underline) run.underline = true
+    runs.push(run)
+    buffer = ''
+  }
+
+  // Only treat a marker as emphasis if it has a partner later in the text
+  const hasClosing = (marker: string, from: number) => text.indexOf(marker, from) !== -1
+
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    if (ch === '\\' && i + 1 < text.length) {
+      buffer += text[i + 1]
+      i += 2
+      continue
+    }
+    if (text.startsWith('***', i) && ((state.bold && state.italic) || hasClosing('***', i + 3))) {
+      flush()
+      state.bold = !state.bold
+      state.italic = !state.italic
+      i += 3
+    } else if (text.startsWith('**', i) && (state.bold || hasClosing('**', i + 2))) {
+      flush()
+      state.bold = !state.bold
+      i += 2
+    } else if (ch === '*' && (state.italic || hasClosing('*', i + 1))) {
+      flush()
+      state.italic = !state.italic
+      i += 1
+    } else if (ch === '_' && (state.underline || hasClosing('_', i + 1))) {
+      flush()
+      state.underline = !state.underline
+      i += 1
+    } else {
+      buffer += ch
+      i += 1
+    }
+  }
+  flush()
+
+  return runs
+}
+
+function escapeEmphasis(text: string): string {
+  return text.replace(/([\\*_])/g, '\\$1')
+}
+
+export function formatEmphasis(runs: TextRun[]): string {
+  return runs.map(run => {
+    let text = escapeEmphasis(run.text)
+    if (run.underline) text = `_${text}_`
+    if (run.bold && run.italic) text = `***${text}***`
+    else if (run.bold) text = `**${text}**`
+    else if (run.italic) text = `*${text}*`
+    return text
+  }).join('')
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const TITLE_PAGE_KEY = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/
+const TITLE_PAGE_KEYS = new Set([
+  'title', 'credit', 'author', 'authors', 'source', 'draft date', 'date', 'contact', 'copyright', 'notes'
+])
+
+function parseTitlePage(lines: string[]): { titlePage?: ScriptTitlePage; bodyStart: number } {
+  // A script may open with a line like FADE IN:, so only known keys start a title page
+  const first = lines[0]?.match(TITLE_PAGE_KEY)
+  if (!first || !TITLE_PAGE_KEYS.has(first[1].trim().toLowerCase())) {
+    return { bodyStart: 0 }
+  }
+
+  const fields = new Map<string, string[]>()
+  let key = ''
+  let i = 0
+  for (; i < lines.length && lines[i].trim() !== ''; i++) {
+    const match = lines[i].match(TITLE_PAGE_KEY)
+    if (match && !/^\s/.test(lines[i])) {
+      key = match[1].toLowerCase()
+      fields.set(key, match[2].trim() ? [match[2].trim()] : [])
+    } else if (key) {
+      fields.get(key)!.push(lines[i].trim())
+    }
+  }
+
+  const field = (name: string) => fields.get(name)?.join('\n') || undefined
+  return {
+    titlePage: {
+      title: runsToText(parseEmphasis(field('title') || '')),
+      credit: field('credit'),
+      author: field('author') || field('authors'),
+      source: field('source'),
+      draftDate: field('draft date') || field('date'),
+      contact: fields.get('contact') || []
+    },
+    bodyStart: i
+  }
+}
+
+function isUppercase(text: string): boolean {
+  // Character extensions like (cont'd) may be lowercase
+  const withoutExtensions = text.replace(/\([^)]*\)/g, '')
+  return /[A-Z]/.test(withoutExtensions) && withoutExtensions === withoutExtensions.toUpperCase()
+}
+
+/**
+ * Parse a Fountain document into a script.
+ */
+export function parseFountain(source: string): Script {
+  const text = source
+    .replace(/\r\n?/g, '\n')
+    .replace(SHOT_NOTE_PATTERN, SHOT_MARK)
+    .replace(/\/\*[\s\S]*?\*\//g, '') // Boneyard
+    .replace(/\[\[[\s\S]*?\]\]/g, '') // Notes
+
+  const lines = text.split('\n')
+  const { titlePage, bodyStart } = parseTitlePage(lines)
+  const elements: ScriptElement[] = []
+
+  const push = (type: ScreenplayElementType, content: string) => {
+    elements.push({ type, runs: parseEmphasis(content.split(SHOT_MARK).join('')) })
+  }
+
+  let i = bodyStart
+  while (i < lines.length) {
+    const raw = lines[i]
+    const line = raw.trim()
+    const prevBlank = i === 0 || lines[i - 1].trim() === ''
+    const nextBlank = i + 1 >= lines.length || lines[i + 1].trim() === ''
+
+    if (line === '') {
+      i++
+      continue
+    }
+
+    // Page breaks and synopses carry no script content
+    if (/^={3,}$/.test(line) || (line.startsWith('=') && !line.startsWith('=='))) {
+      i++
+      continue
+    }
+
+    // Top-level sections are acts; deeper sections are outline only
+    if (line.startsWith('#')) {
+      const depth = line.match(/^#+/)![0].length
+      if (depth === 1) elements.push({ type: 'act', title: line.slice(1).trim() })
+      i++
+      continue
+    }
+
+    // Scene heading (forced with a leading period)
+    if ((line.startsWith('.') && !line.startsWith('..')) || (prevBlank && SCENE_HEADING_PATTERN.test(line))) {
+      const heading = line.startsWith('.') ? line.slice(1) : line
+      push('scene-heading', heading.replace(SCENE_NUMBER_PATTERN, '').trim())
+      i++
+      continue
+    }
+
+    // Transition (forced with >, but >centered< text is action)
+    if (line.startsWith('>') && !line.endsWith('<')) {
+      push('transition', line.slice(1).trim())
+      i++
+      continue
+    }
+    if (prevBlank && nextBlank && TRANSITION_PATTERN.test(line)) {
+      push('transition', line)
+      i++
+      continue
+    }
+
+    // Character cue followed by parentheticals and dialogue. A forced cue
+    // may stand alone, as a cue with no lines under it is written that way.
+    const forcedCharacter = line.startsWith('@')
+    if (prevBlank && (forcedCharacter || (!nextBlank && !line.startsWith('!') && isUppercase(line)))) {
+      push('character', (forcedCharacter ? line.slice(1) : line).trim())
+      i++
+      let dialogue: string[] = []
+      const flushDialogue = () => {
+        if (dialogue.length > 0) push('dialogue', dialogue.join('\n'))
+        dialogue = []
+      }
+      while (i < lines.length && lines[i].trim() !== '') {
+        const dialogueLine = lines[i].trim()
+        if (dialogueLine.startsWith('(') && dialogueLine.endsWith(')')) {
+          flushDialogue()
+          push('parenthetical', dialogueLine)
+        } else {
+          dialogue.push(dialogueLine)
+        }
+        i++
+      }
+      flushDialogue()
+      continue
+    }
+
+    // Action: every line up to the next blank line
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() !== '') {
+      let actionLine = lines[i].replace(/\s+$/, '')
+      if (paragraph.length === 0 && actionLine.trimStart().startsWith('!')) {
+        actionLine = actionLine.trimStart().slice(1)
+      }
+      // Centered text has no equivalent; keep it as action
+      if (/^\s*>.*<\s*$/.test(actionLine)) actionLine = actionLine.trim().slice(1, -1).trim()
+      paragraph.push(actionLine)
+      i++
+    }
+    const action = paragraph.join('\n')
+    const isShot = paragraph.length === 1 && action.endsWith(SHOT_MARK)
+    push(isShot ? 'shot' : 'action', isShot ? action.trim() : action)
+  }
+
+  return { titlePage, elements }
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+function formatTitlePage(page: ScriptTitlePage): string {
+  const lines: string[] = []
+  const add = (key: string, value: string | string[] | undefined) => {
+    const values = (Array.isArray(value) ? value : value?.split('\n') || []).filter(v => v.trim())
+    if (values.length === 0) return
+    if (values.length === 1) {
+      lines.push(`${key}: ${values[0]}`)
+    } else {
+      lines.push(`${key}:`)
+      values.forEach(v => lines.push(`    ${v}`))
+    }
+  }
+
+  add('Title', page.title)
+  add('Credit', page.credit)
+  add('Author', page.author)
+  add('Source', page.source)
+  add('Draft date', page.draftDate)
+  add('Contact', page.contact)
+  return lines.join('\n')
+}
+
+// Force action that would otherwise read as a heading, cue or transition
+function formatAction(text: string, plain: string): string {
+  const ambiguous = SCENE_HEADING_PATTERN.test(plain) || isUppercase(plain) || /^[.@>#=!~]/.test(plain)
+  return ambiguous ? `!${text}` : text
+}
+
+/**
+ * Write a script as Fountain, forcing element types wherever the plain
+ * text would otherwise be read back as something else.
+ */
+export function serializeFountain(script: Script): string {
+  const blocks: string[] = []
+  let dialogueBlock: string[] | null = null
+
+  const endDialogue = () => {
+    if (dialogueBlock) blocks.push(dialogueBlock.join('\n'))
+    dialogueBlock = null
+  }
+
+  if (script.titlePage) {
+    const titlePage = formatTitlePage(script.titlePage)
+    if (titlePage) blocks.push(titlePage)
+  }
+
+  for (const [index, element] of script.elements.entries()) {
+    if (element.type === 'act') {
+      endDialogue()
+      blocks.push(`# ${element.title}`)
+      continue
+    }
+
+    const plain = runsToText(element.runs).trim()
+    const text = formatEmphasis(element.runs).trim()
+
+    switch (element.type) {
+      case 'scene-heading':
+        endDialogue()
+        blocks.push(SCENE_HEADING_PATTERN.test(plain) ? text.toUpperCase() : `.${text.toUpperCase()}`)
+        break
+      case 'character': {
+        endDialogue()
+        const cue = text.toUpperCase()
+        // A cue with nothing under it only reads back as a cue when forced
+        const next = script.elements[index + 1]
+        const alone = next?.type !== 'dialogue' && next?.type !== 'parenthetical'
+        dialogueBlock = [isUppercase(plain) && !SCENE_HEADING_PATTERN.test(plain) && !alone ? cue : `@${cue}`]
+        break
+      }
+      case 'parenthetical': {
+        const wrapped = plain.startsWith('(') ? text : `(${text})`
+        if (dialogueBlock) dialogueBlock.push(wrapped)
+        else blocks.push(`!${wrapped}`)
+        break
+      }
+      case 'dialogue':
+        if (dialogueBlock) dialogueBlock.push(text)
+        else blocks.push(`!${text}`)
+        break
+      case 'transition':
+        endDialogue()
+        blocks.push(TRANSITION_PATTERN.test(plain.toUpperCase()) ? text.toUpperCase() : `> ${text.toUpperCase()}`)
+        break
+      case 'shot':
+        endDialogue()
+        blocks.push(`${formatAction(text.toUpperCase(), plain.toUpperCase())} ${SHOT_NOTE}`)
+        break
+      default:
+        endDialogue()
+        blocks.push(formatAction(text, plain))
+    }
+  }
+  endDialogue()
+
+  return blocks.join('\n\n') + '\n'
+}
@@ -0,0 +1,4 @@
+// Screenplay interchange formats
+export * from './script'
+export { parseFountain, serializeFountain } from './fountain'
+export { parseFdx, serializeFdx } from './fdx'
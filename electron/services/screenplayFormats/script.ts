@@ -0,0 +1,246 @@
+/**
+ * Screenplay Interchange Model
+ *
+ * A format-neutral script (title page plus a flat list of elements) that
+ * sits between Cadmus documents and external formats such as Fountain
+ * and Final Draft. Element types map one-to-one onto the editor's
+ * `screenplayElement` types; act breaks are carried as their own entries.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import type { Project } from '../../../src/types/project'
+import type { DocumentWithContent } from '../passEngine'
+import type { ScreenplayElementType, TextRun } from '../exporters/screenplayLayout'
+
+export type { ScreenplayElementType, TextRun }
+
+export interface ScriptTitlePage {
+  title: string
+  credit?: string    // e.g. "Written by"
+  author?: string
+  source?: string    // e.g. "Based on the novel by..."
+  draftDate?: string
+  contact: string[]
+}
+
+export type ScriptElement =
+  | { type: ScreenplayElementType; runs: TextRun[] }
+  | { type: 'act'; title: string }
+
+export interface Script {
+  titlePage?: ScriptTitlePage
+  elements: ScriptElement[]
+}
+
+// File extensions that import as a new screenplay project
+export const SCRIPT_FILE_EXTENSIONS = ['fountain', 'spmd', 'fdx']
+
+export const SCREENPLAY_ELEMENT_TYPES: ScreenplayElementType[] = [
+  'scene-heading', 'action', 'character', 'dialogue', 'parenthetical', 'transition', 'shot'
+]
+
+// Text the screenplay template puts on a new title page; never exported
+const TITLE_PAGE_PLACEHOLDERS = new Set([
+  'your name',
+  'based on (if any)',
+  'draft date',
+  'your contact information:',
+  'email address',
+  'phone number'
+])
+
+// =============================================================================
+// TEXT HELPERS
+// =============================================================================
+
+export function runsToText(runs: TextRun[]): string {
+  return runs.map(r => r.text).join('')
+}
+
+// Collect inline text with bold/italic/underline marks. Mentions become
+// their label so exported scripts read as plain names.
+function nodeToRuns(node: JSONContent): TextRun[] {
+  const runs: TextRun[] = []
+
+  const push = (text: string, marks: JSONContent['marks']) => {
+    const types = new Set((marks || []).map(m => m.type))
+    const run: TextRun = { text }
+    if (types.has('bold')) run.bold = true
+    if (types.has('italic')) run.italic = true
+    if (types.has('underline')) run.underline = true
+
+    const last = runs[runs.length - 1]
+    if (last && last.bold === run.bold && last.italic === run.italic && last.underline === run.underline) {
+      last.text += text
+    } else {
+      runs.push(run)
+    }
+  }
+
+  const walk = (parent: JSONContent) => {
+    for (const child of parent.content || []) {
+      if (child.type === 'text') push(child.text || '', child.marks)
+      else if (child.type === 'mention') push(String(child.attrs?.label || child.attrs?.id || ''), child.marks)
+      else if (child.type === 'hardBreak') push('\n', undefined)
+      else if (child.content) walk(child)
+    }
+  }
+
+  walk(node)
+  return runs
+}
+
+function runsToNodes(runs: TextRun[]): JSONContent[] {
+  const nodes: JSONContent[] = []
+  for (const run of runs) {
+    const marks: { type: string }[] = []
+    if (run.bold) marks.push({ type: 'bold' })
+    if (run.italic) marks.push({ type: 'italic' })
+    if (run.underline) marks.push({ type: 'underline' })
+
+    run.text.split('\n').forEach((part, i) => {
+      if (i > 0) nodes.push({ type: 'hardBreak' })
+      if (part) nodes.push(marks.length > 0 ? { type: 'text', text: part, marks } : { type: 'text', text: part })
+    })
+  }
+  return nodes
+}
+
+// =============================================================================
+// TITLE PAGE
+// =============================================================================
+
+/**
+ * Interpret title page lines. The first centered line is the title; the
+ * remaining centered lines are credit, author, source and draft date in
+ * the order the screenplay template lays them out, and left-aligned lines
+ * are contact details.
+ */
+export function titlePageFromLines(lines: { text: string; centered: boolean }[]): ScriptTitlePage {
+  const page: ScriptTitlePage = { title: '', contact: [] }
+  const centered: string[] = []
+
+  for (const line of lines) {
+    const text = line.text.trim()
+    if (!text || TITLE_PAGE_PLACEHOLDERS.has(text.toLowerCase())) continue
+    if (!page.title && line.centered) page.title = text
+    else if (line.centered) centered.push(text)
+    else page.contact.push(text)
+  }
+
+  for (const text of centered) {
+    if (!page.credit && !page.author && /\bby$/i.test(text)) page.credit = text
+    else if (/^based on\b/i.test(text)) page.source = text
+    else if (page.credit && !page.author) page.author = text
+    else if (!page.draftDate && /\d/.test(text)) page.draftDate = text
+    else if (!page.author) page.author = text
+    else page.source = page.source ? `${page.source}\n${text}` : text
+  }
+
+  return page
+}
+
+function titlePageFromContent(content: JSONContent): ScriptTitlePage {
+  return titlePageFromLines((content.content || []).map(node => ({
+    text: runsToText(nodeToRuns(node)),
+    centered: node.type === 'heading' || node.attrs?.textAlign === 'center'
+  })))
+}
+
+// =============================================================================
+// DOCUMENTS -> SCRIPT
+// =============================================================================
+
+function hasScreenplayElements(content: JSONContent): boolean {
+  return (content.content || []).some(node => node.type === 'screenplayElement')
+}
+
+function actTitle(doc: DocumentWithContent): string {
+  const heading = (doc.content.content || []).find(node => node.type === 'heading')
+  const text = heading ? runsToText(nodeToRuns(heading)).trim() : ''
+  return text || doc.title
+}
+
+/**
+ * Build a script from screenplay documents in reading order. A leading
+ * document without screenplay elements is the title page, act break
+ * documents become act entries, and notes are skipped.
+ */
+export function documentsToScript(project: Project, documents: DocumentWithContent[]): Script {
+  const script: Script = { elements: [] }
+
+  documents.forEach((doc, index) => {
+    const meta = project.documents.find(d => d.id === doc.id)
+    // Act breaks are detected by isActBreak flag OR by title pattern (for legacy docs)
+    const isActBreak = !!meta?.isActBreak || /^act\s*\d+/i.test(doc.title)
+
+    if (isActBreak) {
+      script.elements.push({ type: 'act', title: actTitle(doc) })
+    } else if (hasScreenplayElements(doc.content)) {
+      for (const node of doc.content.content || []) {
+        if (node.type !== 'screenplayElement') continue
+        const elementType = node.attrs?.elementType as ScreenplayElementType
+        const type = SCREENPLAY_ELEMENT_TYPES.includes(elementType) ? elementType : 'action'
+        const runs = nodeToRuns(node)
+        if (runsToText(runs).trim()) script.elements.push({ type, runs })
+      }
+    } else if (index === 0 && !meta?.isCharacterNote && !meta?.isPropNote) {
+      script.titlePage = titlePageFromContent(doc.content)
+    }
+  })
+
+  return script
+}
+
+// =============================================================================
+// SCRIPT -> DOCUMENTS
+// =============================================================================
+
+export type ScriptPart =
+  | { kind: 'act'; title: string }
+  | { kind: 'scene'; title: string; content: JSONContent }
+
+export function elementToNode(type: ScreenplayElementType, runs: TextRun[]): JSONContent {
+  let content = runs
+
+  // The editor draws the parentheses around parentheticals itself
+  if (type === 'parenthetical') {
+    const text = runsToText(runs).trim()
+    if (text.startsWith('(') && text.endsWith(')')) {
+      content = [{ text: text.slice(1, -1).trim() }]
+    }
+  }
+
+  const nodes = runsToNodes(content)
+  return {
+    type: 'screenplayElement',
+    attrs: { elementType: type },
+    ...(nodes.length > 0 ? { content: nodes } : {})
+  }
+}
+
+/**
+ * Split a script into the documents a screenplay project uses: one page
+ * per scene (titled by its heading) and one document per act break.
+ */
+export function scriptToParts(script: Script): ScriptPart[] {
+  const parts: ScriptPart[] = []
+  let scene: Extract<ScriptPart, { kind: 'scene' }> | null = null
+
+  for (const element of script.elements) {
+    if (element.type === 'act') {
+      parts.push({ kind: 'act', title: element.title })
+      scene = null
+      continue
+    }
+
+    if (element.type === 'scene-heading' || !scene) {
+      const title = element.type === 'scene-heading' ? runsToText(element.runs).trim() : 'New page'
+      scene = { kind: 'scene', title, content: { type: 'doc', content: [] } }
+      parts.push(scene)
+    }
+    scene.content.content!.push(elementToNode(element.type, element.runs))
+  }
+
+  return parts
+}
@@ -0,0 +1,32 @@
+/**
+ * Shot List Export
+ *
+ * Writes the shot list to a CSV in the project's build folder, in the order
+ * the table is sorted, for the first AD to schedule from in a spreadsheet.
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { JSONContent } from '@tiptap/core'
+import type { Project, ShotListCsvResult, ShotListSort } from '../../src/types/project'
+import { buildShotListRows, shotListToCsv, sortShotListRows } from '../../src/utils/shotList'
+import { BUILD_OUTPUT_DIR, sanitizeFileName } from './exportEngine'
+
+export async function exportShotListCsv(
+  project: Project,
+  documentContents: Record<string, JSONContent>,
+  sort: ShotListSort
+): Promise<ShotListCsvResult> {
+  const rows = sortShotListRows(buildShotListRows(project, documentContents), sort)
+  if (rows.length === 0) throw new Error('The shot list is empty')
+
+  const outputDir = join(project.path, BUILD_OUTPUT_DIR)
+  await fs.mkdir(outputDir, { recursive: true })
+  const outputPath = join(outputDir, `${sanitizeFileName(project.name)} - Shot List.csv`)
+
+  // A byte order mark so spreadsheet apps read the file as UTF-8
+  const csv = '\uFEFF' + shotListToCsv(rows)
+  await fs.writeFile(outputPath, csv, 'utf-8')
+  console.log(`[ShotList] Wrote ${rows.length} shots to ${outputPath}`)
+  return { path: outputPath, size: Buffer.byteLength(csv), rowCount: rows.length }
+}
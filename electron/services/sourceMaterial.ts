@@ -0,0 +1,111 @@
+/**
+ * Source Material
+ *
+ * Reads the text of a project's reference assets (PDFs and web links) so
+ * passes can check the writing against them. Text is cached for the
+ * session: PDFs by file and size, links by URL.
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import pdfParse from 'pdf-parse'
+import type { Asset } from '../../src/types/project'
+
+// One page of an asset's text (links have a single page)
+export interface SourcePage {
+  text: string
+  page?: number
+}
+
+// Give up on slow links rather than stall the build
+const LINK_TIMEOUT_MS = 10000
+
+const pageCache = new Map<string, SourcePage[]>()
+
+/**
+ * Assets that can be read as source material.
+ */
+export function isSourceAsset(asset: Asset): boolean {
+  return asset.type === 'pdf' || (asset.type === 'link' && /^https?:\/\//i.test(asset.path))
+}
+
+/**
+ * Text of a PDF or link asset, page by page. Throws if it cannot be read.
+ */
+export async function loadSourcePages(projectPath: string, asset: Asset): Promise<SourcePage[]> {
+  const key = asset.type === 'link' ? asset.path : `${asset.path}:${asset.size}`
+  const cached = pageCache.get(key)
+  if (cached) return cached
+
+  const pages = asset.type === 'link'
+    ? await loadLinkPages(asset.path)
+    : await loadPdfPages(join(projectPath, asset.path))
+
+  pageCache.set(key, pages)
+  console.log(`[SourceMaterial] Read ${pages.length} page(s) from "${asset.name}"`)
+  return pages
+}
+
+async function loadPdfPages(filePath: string): Promise<SourcePage[]> {
+  const buffer = await fs.readFile(filePath)
+  const pages: SourcePage[] = []
+
+  // Render each page ourselves to keep page numbers
+  await pdfParse(buffer, {
+    pagerender: async (pageData) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: true })
+      let text = ''
+      let lastY: number | undefined
+      for (const item of content.items) {
+        const y = item.transform[5]
+        text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`
+        lastY = y
+      }
+      pages.push({ text: joinLines(text), page: pageData.pageNumber })
+      return text
+    }
+  })
+
+  return pages.sort((a, b) => (a.page || 0) - (b.page || 0))
+}
+
+async function loadLinkPages(url: string): Promise<SourcePage[]> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(LINK_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`)
+  }
+
+  const body = await response.text()
+  const isHtml = (response.headers.get('content-type') || '').includes('html') || /^\s*</.test(body)
+  return [{ text: isHtml ? htmlToText(body) : joinLines(body) }]
+}
+
+// Rejoin lines broken by layout, including words hyphenated across them
+function joinLines(text: string): string {
+  return text
+    .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+}
+
+function htmlToText(html: string): string {
+  const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    // Block-level tags end sentences so passages do not run together
+    .replace(/<\/?(p|div|br|li|h[1-6]|tr|section|article|blockquote)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#\d+|#x[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match
+      }
+      return entities[entity.toLowerCase()] ?? match
+    })
+    .split(/\n+/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
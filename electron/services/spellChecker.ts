@@ -0,0 +1,139 @@
+/**
+ * Offline Spell Checker
+ *
+ * In-process Hunspell checking (nspell with the bundled en-US dictionary)
+ * used when no LanguageTool server is running. Also owns the user's
+ * personal dictionary, which applies to every project; project words live
+ * in `ProjectSettings.customDictionary`.
+ */
+
+import Store from 'electron-store'
+import nspell from 'nspell'
+
+interface SpellingStoreSchema {
+  userDictionary: string[]
+}
+
+export interface Misspelling {
+  word: string
+  offset: number
+  length: number
+  suggestions: string[]
+}
+
+// Letters with inner apostrophes ("don't", "O'Brien"); digits end a word
+const WORD_PATTERN = /\p{L}+(?:['’]\p{L}+)*/gu
+
+// Spans that are not prose and should not be spell checked
+const SKIP_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\S+@\S+\.\w+/g
+
+const MAX_SUGGESTIONS = 5
+
+/**
+ * Words allowed on top of the dictionary, compared case-insensitively.
+ * Names are split so "Mary Jane" allows both "Mary" and "Jane".
+ */
+export function allowedWordSet(...sources: string[][]): Set<string> {
+  const allowed = new Set<string>()
+  for (const source of sources) {
+    for (const entry of source) {
+      for (const word of entry.split(/\s+/)) {
+        if (word) allowed.add(normalizeWord(word))
+      }
+    }
+  }
+  return allowed
+}
+
+function normalizeWord(word: string): string {
+  return word.replace(/’/g, "'").toLowerCase()
+}
+
+export class SpellChecker {
+  private store: Store<SpellingStoreSchema>
+  private speller: Promise<nspell> | null = null
+  private suggestionCache = new Map<string, string[]>()
+
+  constructor() {
+    this.store = new Store<SpellingStoreSchema>({
+      name: 'spelling',
+      defaults: { userDictionary: [] }
+    })
+  }
+
+  getUserDictionary(): string[] {
+    return this.store.get('userDictionary')
+  }
+
+  addUserWord(word: string): string[] {
+    const words = this.getUserDictionary()
+    if (!words.includes(word)) {
+      this.store.set('userDictionary', [...words, word].sort((a, b) => a.localeCompare(b)))
+    }
+    return this.getUserDictionary()
+  }
+
+  removeUserWord(word: string): string[] {
+    this.store.set('userDictionary', this.getUserDictionary().filter(w => w !== word))
+    return this.getUserDictionary()
+  }
+
+  /**
+   * Find misspelled words in plain text. Words in `allowed` (see
+   * allowedWordSet) are accepted, including their possessive forms.
+   */
+  async check(text: string, allowed: Set<string>): Promise<Misspelling[]> {
+    const speller = await this.getSpeller()
+    const prose = text.replace(SKIP_PATTERN, match => ' '.repeat(match.length))
+    const misspellings: Misspelling[] = []
+
+    for (const match of prose.matchAll(WORD_PATTERN)) {
+      const word = match[0]
+      if (word.length < 2) continue
+
+      const normalized = normalizeWord(word)
+      if (allowed.has(normalized) || allowed.has(normalized.replace(/'s$/, ''))) continue
+      if (speller.correct(word.replace(/’/g, "'"))) continue
+
+      misspellings.push({
+        word,
+        offset: match.index!,
+        length: word.length,
+        suggestions: this.suggest(speller, word)
+      })
+    }
+
+    return misspellings
+  }
+
+  private suggest(speller: nspell, word: string): string[] {
+    let suggestions = this.suggestionCache.get(word)
+    if (!suggestions) {
+      suggestions = speller.suggest(word).slice(0, MAX_SUGGESTIONS)
+      this.suggestionCache.set(word, suggestions)
+    }
+    return suggestions
+  }
+
+  // The dictionary takes a moment to parse, so load it on first use
+  private getSpeller(): Promise<nspell> {
+    if (!this.speller) {
+      this.speller = import('dictionary-en').then(({ default: dictionary }) => {
+        console.log('[SpellChecker] Loaded offline en-US dictionary')
+        return nspell({ aff: Buffer.from(dictionary.aff), dic: Buffer.from(dictionary.dic) })
+      })
+      this.speller.catch(() => { this.speller = null })
+    }
+    return this.speller
+  }
+}
+
+// Singleton instance
+let instance: SpellChecker | null = null
+
+export function getSpellChecker(): SpellChecker {
+  if (!instance) {
+    instance = new SpellChecker()
+  }
+  return instance
+}
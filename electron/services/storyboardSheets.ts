@@ -0,0 +1,130 @@
+/**
+ * Storyboard Sheets
+ *
+ * Prints the storyboard as pages of shot panels for a shoot: a grid of
+ * thumbnails per page, each with its shot number, scene heading, duration,
+ * camera details, the script text it's linked to and free-text notes. The
+ * PDF is written to the project's build folder.
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { JSONContent } from '@tiptap/core'
+import type {
+  Project,
+  StoryboardShot,
+  StoryboardSheetLayout,
+  StoryboardSheetOptions,
+  StoryboardSheetResult
+} from '../../src/types/project'
+import { getSceneHeadingsByBlock } from '../../src/utils/blockAnchoring'
+import { createPacingModel, getShotDuration, type PacingModel } from '../../src/utils/pacing'
+import { BUILD_OUTPUT_DIR, sanitizeFileName } from './exportEngine'
+import { assetDataUri, escapeHtml } from './exporters/htmlExporter'
+import { printHtmlToPdf } from './exporters/pdfExporter'
+
+const LAYOUTS: Record<StoryboardSheetLayout, { columns: number; rows: number; fontSize: number }> = {
+  '2x3': { columns: 2, rows: 3, fontSize: 9 },
+  '3x4': { columns: 3, rows: 4, fontSize: 7.5 }
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1).replace(/\.0$/, '')}s`
+}
+
+async function renderPanel(
+  project: Project,
+  shot: StoryboardShot,
+  number: number,
+  documents: Record<string, JSONContent>,
+  headings: Map<string, string>,
+  pacing: PacingModel
+): Promise<string> {
+  const anchor = shot.linkedBlock
+  const scene = anchor && !shot.isUnlinked ? headings.get(anchor.blockId) : undefined
+  const image = await assetDataUri(project, shot.assetId)
+  const camera = [shot.camera, shot.lens, shot.movement].filter(Boolean).join(' · ')
+
+  return `<div class="panel">
+  <div class="frame">${image ? `<img src="${image}">` : '<span class="missing">Missing image</span>'}</div>
+  <div class="meta">
+    <span class="number">${number}</span>
+    <span class="scene">${escapeHtml(scene || '')}</span>
+    <span class="duration">${formatSeconds(getShotDuration(shot, documents, pacing))}</span>
+  </div>
+  ${camera ? `<div class="camera">${escapeHtml(camera)}</div>` : ''}
+  ${anchor ? `<div class="script${shot.isUnlinked ? ' unlinked' : ''}">${escapeHtml(anchor.textSnapshot)}</div>` : ''}
+  ${shot.notes ? `<div class="notes">${escapeHtml(shot.notes)}</div>` : ''}
+</div>`
+}
+
+function renderSheetHtml(project: Project, pages: string[][], layout: StoryboardSheetLayout): string {
+  const { columns, rows, fontSize } = LAYOUTS[layout]
+  const body = pages.map((panels, i) => `<section class="page">
+  <header><span>${escapeHtml(project.name)}</span><span>Page ${i + 1} of ${pages.length}</span></header>
+  <div class="grid">${panels.join('\n')}</div>
+</section>`).join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(project.name)} - Storyboard</title>
+<style>
+  @page { size: letter; margin: 0.5in; }
+  html, body { margin: 0; }
+  body { font: ${fontSize}pt/1.3 -apple-system, 'Segoe UI', Helvetica, sans-serif; color: #111; }
+  .page { height: 10in; display: flex; flex-direction: column; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  header { display: flex; justify-content: space-between; padding-bottom: 0.08in; margin-bottom: 0.12in; border-bottom: 1px solid #999; font-size: 9pt; font-weight: 600; }
+  .grid { flex: 1; display: grid; grid-template-columns: repeat(${columns}, 1fr); grid-template-rows: repeat(${rows}, 1fr); gap: 0.15in; min-height: 0; }
+  .panel { display: flex; flex-direction: column; min-height: 0; overflow: hidden; }
+  .frame { aspect-ratio: 16 / 9; border: 1px solid #333; background: #f2f2f2; display: flex; align-items: center; justify-content: center; overflow: hidden; flex-shrink: 0; }
+  .frame img { width: 100%; height: 100%; object-fit: contain; }
+  .missing { color: #888; }
+  .meta { display: flex; gap: 0.5em; align-items: baseline; margin-top: 0.35em; }
+  .number { font-weight: 700; }
+  .scene { flex: 1; font-family: 'Courier New', Courier, monospace; font-weight: 700; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .duration { color: #555; }
+  .camera { color: #555; }
+  .script { margin-top: 0.25em; font-family: 'Courier New', Courier, monospace; overflow: hidden; display: -webkit-box; -webkit-line-clamp: 3; -webkit-box-orient: vertical; }
+  .script.unlinked { color: #888; font-style: italic; }
+  .notes { margin-top: 0.25em; padding-top: 0.25em; border-top: 1px dotted #aaa; white-space: pre-wrap; overflow: hidden; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`
+}
+
+export async function exportStoryboardSheets(
+  project: Project,
+  documentContents: Record<string, JSONContent>,
+  options: StoryboardSheetOptions
+): Promise<StoryboardSheetResult> {
+  const shots = [...(project.storyboard?.shots || [])].sort((a, b) => a.order - b.order)
+  if (shots.length === 0) throw new Error('The storyboard has no shots to print')
+
+  const headings = getSceneHeadingsByBlock(project, documentContents)
+  const pacing = createPacingModel(project, documentContents)
+  const panels = await Promise.all(
+    shots.map((shot, i) => renderPanel(project, shot, i + 1, documentContents, headings, pacing))
+  )
+
+  const { columns, rows } = LAYOUTS[options.layout]
+  const perPage = columns * rows
+  const pages: string[][] = []
+  for (let i = 0; i < panels.length; i += perPage) {
+    pages.push(panels.slice(i, i + perPage))
+  }
+
+  const outputDir = join(project.path, BUILD_OUTPUT_DIR)
+  await fs.mkdir(outputDir, { recursive: true })
+  const outputPath = join(outputDir, `${sanitizeFileName(project.name)} - Storyboard.pdf`)
+
+  console.log(`[StoryboardSheets] Printing ${shots.length} shots on ${pages.length} pages`)
+  const pdf = await printHtmlToPdf(renderSheetHtml(project, pages, options.layout))
+  await fs.writeFile(outputPath, pdf)
+  return { path: outputPath, size: pdf.byteLength, pageCount: pages.length }
+}
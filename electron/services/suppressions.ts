@@ -0,0 +1,38 @@
+/**
+ * Diagnostic Suppressions
+ *
+ * Suppressions and the baseline are stored with the project in
+ * `.cadmus/suppressions.json`, so they are shared by everyone who opens
+ * it. Matching happens in the renderer (see src/utils/diagnosticSuppression)
+ * so AI suggestions are covered too; this module only reads and writes.
+ */
+
+import { promises as fs } from 'fs'
+import { join, dirname } from 'path'
+import type { ProjectSuppressions } from '../../src/types/project'
+
+export const SUPPRESSIONS_FILE = join('.cadmus', 'suppressions.json')
+
+/**
+ * Load a project's suppressions. A missing or unreadable file means none.
+ */
+export async function loadSuppressions(projectPath: string): Promise<ProjectSuppressions> {
+  try {
+    const raw = JSON.parse(await fs.readFile(join(projectPath, SUPPRESSIONS_FILE), 'utf-8'))
+    return {
+      suppressions: Array.isArray(raw.suppressions) ? raw.suppressions : [],
+      baseline: raw.baseline && Array.isArray(raw.baseline.fingerprints) ? raw.baseline : undefined
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[Suppressions] Failed to read suppressions:', error)
+    }
+    return { suppressions: [] }
+  }
+}
+
+export async function saveSuppressions(projectPath: string, suppressions: ProjectSuppressions): Promise<void> {
+  const filePath = join(projectPath, SUPPRESSIONS_FILE)
+  await fs.mkdir(dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(suppressions, null, 2) + '\n', 'utf-8')
+}
@@ -13,7 +13,6 @@
  * Uses OpenAI's latest reasoning model with streaming for real-time responses.
  */
 
-import Store from 'electron-store'
 import * as fs from 'fs'
 import * as path from 'path'
 import { FeedbackLogger } from './feedbackLogger'
@@ -75,12 +74,8 @@ import { createIndex, updateIndex } from './contextGatherIndex'
 import { contextGather, buildWorkingSet, formatWorkingSetForPatcher } from './contextGather'
 import type { ChunkIndex, MultiDocumentBlockContext, WorkingSet } from '../../shared/contextGatherTypes'
 import * as crypto from 'crypto'
+import { getAIProvider, getAIProviderService } from './aiProvider'
 
-// Store is created lazily inside the class to avoid module-level deserialization crashes
-
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions'
-const MODEL = 'o3-mini'
-const PATCHER_MODEL = 'gpt-4o'
 const SUGGESTIONS_MAX_TOKENS = 4096
 const CHAT_MAX_TOKENS = 16384
 const PATCHER_MAX_TOKENS = 8192
@@ -1190,22 +1185,10 @@ function mergeContextDocument(existing: ContextDocument, update: Partial<Context
 
 class ThoughtPartnerService {
   private abortController: AbortController | null = null
-  private store: Store
   private chunkIndex: ChunkIndex | null = null
 
-  constructor() {
-    this.store = new Store({
-      name: 'image-generation-settings',
-      encryptionKey: 'cadmus-image-gen-v1'
-    })
-  }
-
-  private getApiKey(): string | null {
-    return (this.store.get('apiKey') as string) || null
-  }
-
   hasApiKey(): boolean {
-    return !!this.getApiKey()
+    return getAIProviderService().isConfigured()
   }
 
   stopStreaming(): void {
@@ -1370,8 +1353,8 @@ class ThoughtPartnerService {
     onPipelineState?: (state: PipelineState) => void,
     options?: { chatOnly?: boolean }
   ): Promise<ThoughtPartnerResponse> {
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    const provider = getAIProvider()
+    if (!provider.isConfigured()) {
       return { message: '', error: 'No API key configured. Please add your OpenAI API key in Settings.' }
     }
 
@@ -1446,20 +1429,14 @@ class ThoughtPartnerService {
 
     try {
       const requestBody: any = {
-        model: MODEL,
         messages,
         max_completion_tokens: CHAT_MAX_TOKENS,
         stream: true,
         tools,
       }
 
-      const response = await fetch(OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(requestBody),
+      const response = await provider.request('chat/completions', requestBody, {
+        feature: 'thoughtPartner',
         signal: this.abortController.signal
       })
 
@@ -2182,8 +2159,7 @@ class ThoughtPartnerService {
     emitState: (state: PipelineState) => void,
     structuredPlan?: StructuredPlan
   ): Promise<{ patchList: PatchList; verifyResult: VerifyResult; workingSet: WorkingSet }> {
-    const apiKey = this.getApiKey()
-    if (!apiKey) throw new Error('No API key')
+    if (!this.hasApiKey()) throw new Error('No API key')
 
     // 1. Context Gathering — build/update BM25 index, gather relevant chunks
     emitState('context_gathering')
@@ -2215,7 +2191,7 @@ class ThoughtPartnerService {
     emitState('patching')
     const targetBlockIds = editPlan.readsNeeded.flatMap(r => r.blockIds)
     let patchList = await this.callPatcherWithWorkingSet(
-      editPlan, workingSet, targetBlockIds, templateType, apiKey,
+      editPlan, workingSet, targetBlockIds, templateType,
       undefined, structuredPlan
     )
 
@@ -2236,7 +2212,7 @@ class ThoughtPartnerService {
 
       try {
         patchList = await this.callPatcherWithWorkingSet(
-          editPlan, workingSet, targetBlockIds, templateType, apiKey,
+          editPlan, workingSet, targetBlockIds, templateType,
           verifyResult.repairInstructions, structuredPlan
         )
 
@@ -2259,7 +2235,6 @@ class ThoughtPartnerService {
     workingSet: WorkingSet,
     targetBlockIds: string[],
     templateType: string,
-    apiKey: string,
     repairInstructions?: string,
     structuredPlan?: StructuredPlan
   ): Promise<PatchList> {
@@ -2307,24 +2282,18 @@ class ThoughtPartnerService {
       ? PATCHER_SYSTEM_PROMPT + PATCHER_SCREENPLAY_ADDENDUM
       : PATCHER_SYSTEM_PROMPT
 
-    const response = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+    const response = await getAIProvider().request('chat/completions', {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      max_completion_tokens: PATCHER_MAX_TOKENS,
+      response_format: {
+        type: 'json_schema',
+        json_schema: PRODUCE_PATCH_SCHEMA,
       },
-      body: JSON.stringify({
-        model: PATCHER_MODEL,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        max_completion_tokens: PATCHER_MAX_TOKENS,
-        response_format: {
-          type: 'json_schema',
-          json_schema: PRODUCE_PATCH_SCHEMA,
-        },
-      }),
+    }, {
+      feature: 'patcher',
       signal: this.abortController?.signal,
     })
 
@@ -2390,8 +2359,8 @@ class ThoughtPartnerService {
    * make a focused extraction call to convert the model's text into structured actions.
    */
   private async extractActions(responseText: string, templateType: string): Promise<ThoughtPartnerAction[]> {
-    const apiKey = this.getApiKey()
-    if (!apiKey) return []
+    const provider = getAIProvider()
+    if (!provider.isConfigured()) return []
 
     const isScreenplay = templateType === 'screenplay'
     const extractionPrompt = `You are a structured data extraction tool. Given a writing assistant's response below, extract any proposed content, characters, or props into structured action blocks.
@@ -2441,18 +2410,10 @@ ${responseText}
 
     try {
       console.log('[ThoughtPartner] Running extraction fallback for agent mode...')
-      const response = await fetch(OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: MODEL,
-          messages: [{ role: 'user', content: extractionPrompt }],
-          max_completion_tokens: 8192
-        })
-      })
+      const response = await provider.request('chat/completions', {
+        messages: [{ role: 'user', content: extractionPrompt }],
+        max_completion_tokens: 8192
+      }, { feature: 'thoughtPartner' })
 
       if (!response.ok) {
         console.error('[ThoughtPartner] Extraction API error:', response.status)
@@ -2488,8 +2449,8 @@ ${responseText}
     }
 
     // Legacy mode below
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
+    const provider = getAIProvider()
+    if (!provider.isConfigured()) {
       return { message: '', error: 'No API key configured. Please add your OpenAI API key in Settings.' }
     }
 
@@ -2510,7 +2471,6 @@ ${responseText}
 
     try {
       const requestBody: any = {
-        model: MODEL,
         messages,
         max_completion_tokens: CHAT_MAX_TOKENS,
         stream: true
@@ -2519,13 +2479,8 @@ ${responseText}
         requestBody.tools = [ASK_QUESTION_TOOL]
       }
 
-      const response = await fetch(OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(requestBody),
+      const response = await provider.request('chat/completions', requestBody, {
+        feature: 'thoughtPartner',
         signal: this.abortController.signal
       })
 
@@ -2673,8 +2628,8 @@ ${responseText}
   }
 
   async generateSuggestions(request: ThoughtPartnerSuggestionsRequest): Promise<SuggestionCard[]> {
-    const apiKey = this.getApiKey()
-    if (!apiKey) return []
+    const provider = getAIProvider()
+    if (!provider.isConfigured()) return []
 
     // Build a concise project summary for suggestion generation
     const sub = request.subconsciousContext
@@ -2697,21 +2652,13 @@ ${responseText}
     }
 
     try {
-      const response = await fetch(OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: MODEL,
-          messages: [
-            { role: 'system', content: SUGGESTIONS_SYSTEM_PROMPT },
-            { role: 'user', content: projectSummary }
-          ],
-          max_completion_tokens: SUGGESTIONS_MAX_TOKENS
-        })
-      })
+      const response = await provider.request('chat/completions', {
+        messages: [
+          { role: 'system', content: SUGGESTIONS_SYSTEM_PROMPT },
+          { role: 'user', content: projectSummary }
+        ],
+        max_completion_tokens: SUGGESTIONS_MAX_TOKENS
+      }, { feature: 'thoughtPartner' })
 
       if (!response.ok) return []
 
@@ -0,0 +1,246 @@
+/**
+ * Version Store
+ *
+ * Saved versions of each document. `documents/<docId>.versions.json` lists
+ * them newest first without their content, which is kept gzipped in
+ * `documents/<docId>.versions/<versionId>.json.gz`. Index files written
+ * before compression held the content inline; they are migrated the first
+ * time they are read.
+ *
+ * Besides versions saved by hand, an edited document gets an automatic
+ * snapshot when saved once enough time has passed or enough words changed
+ * (see utils/versionRetention), and older automatic snapshots are thinned
+ * by the project's retention policy.
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { promisify } from 'util'
+import { gzip, gunzip } from 'zlib'
+import { v4 as uuidv4 } from 'uuid'
+import type { JSONContent } from '@tiptap/core'
+import type { DocumentVersion, VersionHistorySettings } from '../../src/types/project'
+import { isSnapshotDue, versionsToThin, wordDelta, wordFrequencies } from '../../src/utils/versionRetention'
+import { FileIO } from './fileIO'
+
+type VersionMeta = Omit<DocumentVersion, 'content'>
+
+interface LatestVersion {
+  id: string
+  timestamp: string
+  words: Map<string, number>
+}
+
+const gzipAsync = promisify(gzip)
+const gunzipAsync = promisify(gunzip)
+
+function indexPath(projectPath: string, docId: string): string {
+  return join(projectPath, 'documents', `${docId}.versions.json`)
+}
+
+function contentDir(projectPath: string, docId: string): string {
+  return join(projectPath, 'documents', `${docId}.versions`)
+}
+
+function contentPath(projectPath: string, docId: string, versionId: string): string {
+  return join(contentDir(projectPath, docId), `${versionId}.json.gz`)
+}
+
+// Every change rewrites the whole index, so changes to one document's
+// versions run one after another
+const queues = new Map<string, Promise<unknown>>()
+
+function serialized<T>(projectPath: string, docId: string, task: () => Promise<T>): Promise<T> {
+  const key = indexPath(projectPath, docId)
+  const result = (queues.get(key) || Promise.resolve()).then(task)
+  const settled = result.catch(() => {})
+  queues.set(key, settled)
+  settled.then(() => {
+    if (queues.get(key) === settled) queues.delete(key)
+  })
+  return result
+}
+
+// Word frequencies of each document's newest version, so deciding whether a
+// save is due a snapshot doesn't decompress it every time
+const latestVersions = new Map<string, LatestVersion>()
+
+function countWords(content: JSONContent): number {
+  let total = 0
+  for (const count of wordFrequencies(content).values()) total += count
+  return total
+}
+
+async function writeContent(projectPath: string, docId: string, versionId: string, content: JSONContent): Promise<void> {
+  await FileIO.writeAtomic(contentPath(projectPath, docId, versionId), await gzipAsync(JSON.stringify(content)))
+}
+
+async function readContent(projectPath: string, docId: string, versionId: string): Promise<JSONContent> {
+  const compressed = await fs.readFile(contentPath(projectPath, docId, versionId))
+  return JSON.parse((await gunzipAsync(compressed)).toString('utf-8'))
+}
+
+async function writeIndex(projectPath: string, docId: string, index: VersionMeta[]): Promise<void> {
+  if (index.length === 0) {
+    await fs.unlink(indexPath(projectPath, docId)).catch(() => {})
+    await fs.rm(contentDir(projectPath, docId), { recursive: true, force: true })
+    return
+  }
+  await FileIO.writeAtomic(indexPath(projectPath, docId), JSON.stringify(index, null, 2))
+}
+
+async function readIndex(projectPath: string, docId: string): Promise<VersionMeta[]> {
+  let entries: (VersionMeta & { content?: JSONContent })[]
+  try {
+    entries = JSON.parse(await fs.readFile(indexPath(projectPath, docId), 'utf-8'))
+  } catch {
+    return []
+  }
+  if (!entries.some(entry => entry.content)) return entries
+
+  // Move inline content out to compressed files, then drop it from the index
+  const index: VersionMeta[] = []
+  for (const { content, ...meta } of entries) {
+    if (content) await writeContent(projectPath, docId, meta.id, content)
+    index.push(meta)
+  }
+  await writeIndex(projectPath, docId, index)
+  console.log(`[VersionStore] Compressed ${index.length} version(s) of document ${docId}`)
+  return index
+}
+
+async function removeVersions(projectPath: string, docId: string, index: VersionMeta[], versionIds: string[]): Promise<VersionMeta[]> {
+  const removed = new Set(versionIds)
+  for (const versionId of removed) {
+    await fs.unlink(contentPath(projectPath, docId, versionId)).catch(() => {})
+  }
+  const key = indexPath(projectPath, docId)
+  if (removed.has(latestVersions.get(key)?.id ?? '')) latestVersions.delete(key)
+  return index.filter(version => !removed.has(version.id))
+}
+
+async function getLatestVersion(projectPath: string, docId: string, index: VersionMeta[]): Promise<LatestVersion | null> {
+  const newest = index[0]
+  if (!newest) return null
+
+  const key = indexPath(projectPath, docId)
+  const cached = latestVersions.get(key)
+  if (cached?.id === newest.id) return cached
+
+  try {
+    const latest = {
+      id: newest.id,
+      timestamp: newest.timestamp,
+      words: wordFrequencies(await readContent(projectPath, docId, newest.id))
+    }
+    latestVersions.set(key, latest)
+    return latest
+  } catch (error) {
+    console.warn(`[VersionStore] Could not read version ${newest.id}:`, error)
+    return null
+  }
+}
+
+async function addVersion(
+  projectPath: string,
+  docId: string,
+  index: VersionMeta[],
+  content: JSONContent,
+  options: { label?: string; auto?: boolean }
+): Promise<DocumentVersion> {
+  const words = wordFrequencies(content)
+  const version: DocumentVersion = {
+    id: uuidv4(),
+    documentId: docId,
+    timestamp: new Date().toISOString(),
+    label: options.label,
+    content,
+    wordCount: countWords(content),
+    ...(options.auto && { auto: true })
+  }
+
+  await writeContent(projectPath, docId, version.id, content)
+  const { content: _content, ...meta } = version
+  index.unshift(meta)
+  latestVersions.set(indexPath(projectPath, docId), { id: version.id, timestamp: version.timestamp, words })
+  return version
+}
+
+/**
+ * All versions of a document with their content, newest first
+ */
+export function loadVersions(projectPath: string, docId: string): Promise<DocumentVersion[]> {
+  return serialized(projectPath, docId, async () => {
+    const versions: DocumentVersion[] = []
+    for (const meta of await readIndex(projectPath, docId)) {
+      try {
+        versions.push({ ...meta, content: await readContent(projectPath, docId, meta.id) })
+      } catch (error) {
+        console.warn(`[VersionStore] Skipping unreadable version ${meta.id}:`, error)
+      }
+    }
+    return versions
+  })
+}
+
+export function saveVersion(projectPath: string, docId: string, content: JSONContent, label?: string): Promise<DocumentVersion> {
+  return serialized(projectPath, docId, async () => {
+    const index = await readIndex(projectPath, docId)
+    const version = await addVersion(projectPath, docId, index, content, { label })
+    await writeIndex(projectPath, docId, index)
+    return version
+  })
+}
+
+export function deleteVersion(projectPath: string, docId: string, versionId: string): Promise<void> {
+  return serialized(projectPath, docId, async () => {
+    const index = await readIndex(projectPath, docId)
+    await writeIndex(projectPath, docId, await removeVersions(projectPath, docId, index, [versionId]))
+  })
+}
+
+/**
+ * Rename a version or mark it as a milestone, which retention never removes
+ */
+export function labelVersion(projectPath: string, docId: string, versionId: string, label: string | undefined, milestone: boolean): Promise<void> {
+  return serialized(projectPath, docId, async () => {
+    const index = await readIndex(projectPath, docId)
+    const version = index.find(v => v.id === versionId)
+    if (!version) throw new Error(`Version ${versionId} not found`)
+
+    version.label = label || undefined
+    if (milestone) {
+      version.milestone = true
+    } else {
+      delete version.milestone
+    }
+    await writeIndex(projectPath, docId, index)
+  })
+}
+
+/**
+ * Take an automatic snapshot of just-saved content if one is due, then thin
+ * older automatic snapshots. Returns the snapshot, or null if none was taken.
+ */
+export function snapshotIfDue(
+  projectPath: string,
+  docId: string,
+  content: JSONContent,
+  settings: VersionHistorySettings
+): Promise<DocumentVersion | null> {
+  if (!settings.autoSnapshots) return Promise.resolve(null)
+
+  return serialized(projectPath, docId, async () => {
+    const index = await readIndex(projectPath, docId)
+    const latest = await getLatestVersion(projectPath, docId, index)
+    const delta = wordDelta(latest?.words ?? new Map(), wordFrequencies(content))
+    if (!isSnapshotDue(settings, latest?.timestamp ?? null, delta)) return null
+
+    const snapshot = await addVersion(projectPath, docId, index, content, { auto: true })
+    const thinned = versionsToThin(index, settings.retention)
+    await writeIndex(projectPath, docId, await removeVersions(projectPath, docId, index, thinned))
+
+    console.log(`[VersionStore] Snapshot of document ${docId} (${delta} words changed, ${thinned.length} thinned)`)
+    return snapshot
+  })
+}
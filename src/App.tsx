@@ -5,19 +5,22 @@ import { AppShell } from './components/AppShell'
 import { ImageGenerationModal } from './components/ImageGenerationModal'
 import { useAutoSave } from './hooks/useAutoSave'
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
+import { useProjectWatcher } from './hooks/useProjectWatcher'
 
 function App() {
-  const { currentProject, isLoading, initialize, initializeTheme } = useProjectStore()
+  const { currentProject, isLoading, initialize, initializeTheme, loadKeymap } = useProjectStore()
 
   // Initialize hooks
   useAutoSave()
   useKeyboardShortcuts()
+  useProjectWatcher()
 
-  // Initialize app and theme (zoom + panel widths are now per-project via workspace state)
+  // Initialize app, theme and keymap (zoom + panel widths are now per-project via workspace state)
   useEffect(() => {
     initialize()
     initializeTheme()
-  }, [initialize, initializeTheme])
+    loadKeymap()
+  }, [initialize, initializeTheme, loadKeymap])
 
   // Prevent default drag/drop behavior globally for Electron
   // This prevents browser navigation when files are dropped outside of dropzones
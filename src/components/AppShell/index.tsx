@@ -7,8 +7,14 @@ import { CharactersPanel } from '../CharactersPanel'
 import { PropsPanel } from '../PropsPanel'
 import { WebLinksPanel } from '../WebLinksPanel'
 import { ProblemsPanel } from '../ProblemsPanel'
+import { FindReplacePanel } from '../FindReplacePanel'
 import { ProjectSettingsPanel } from '../ProjectSettingsPanel'
 import { ThoughtPartnerPanel } from '../ThoughtPartnerPanel'
+import { ShotListPanel } from '../ShotListPanel'
+import { QuickOpen } from '../QuickOpen'
+import { CommandPalette } from '../CommandPalette'
+import { RecoveryDialog } from '../RecoveryDialog'
+import { ExternalChangeDialog } from '../ExternalChangeDialog'
 import { StatusBar } from './StatusBar'
 import { useWorkspace } from '../../workspaces'
 import { clsx } from 'clsx'
@@ -224,7 +230,7 @@ export function AppShell() {
               className="sidebar-transition panel-floating overflow-hidden flex flex-col flex-shrink-0"
               style={{ width: ui.leftSidebarWidth }}
             >
-              <ProjectExplorer />
+              {ui.findReplacePanelOpen ? <FindReplacePanel /> : <ProjectExplorer />}
             </div>
 
             {/* Left sidebar resize handle - in gap */}
@@ -381,6 +387,15 @@ export function AppShell() {
 
       {/* Status bar */}
       <StatusBar />
+
+      {/* Quick open search */}
+      {ui.activeModal === 'quick-open' && <QuickOpen />}
+      {ui.activeModal === 'command-palette' && <CommandPalette />}
+      {ui.activeModal === 'shot-list' && <ShotListPanel />}
+
+      {/* Unsaved changes left in the journal by the last session */}
+      <RecoveryDialog />
+      <ExternalChangeDialog />
     </div>
   )
 }
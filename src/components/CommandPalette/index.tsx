@@ -0,0 +1,126 @@
+/**
+ * CommandPalette
+ *
+ * Fuzzy search over the registered commands that are available right now,
+ * showing each one's key binding.
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { clsx } from 'clsx'
+import { ChevronRightRegular } from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+import { bindingFor, formatChord, fuzzyScore, type Command } from '../../utils/commands'
+
+export function CommandPalette() {
+  const { commands, keymap, setActiveModal } = useProjectStore()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const [query, setQuery] = useState('')
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  const results = useMemo(() => {
+    const available = Object.values(commands).filter(command => command.when?.() ?? true)
+    if (!query.trim()) {
+      return available.sort((a, b) => a.category.localeCompare(b.category) || a.title.localeCompare(b.title))
+    }
+    return available
+      .map(command => ({ command, score: fuzzyScore(query, `${command.category}: ${command.title}`) }))
+      .filter((entry): entry is { command: Command; score: number } => entry.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.command)
+  }, [commands, query])
+
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [query])
+
+  // Keep the selected command in view
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' })
+  }, [selectedIndex])
+
+  const close = () => setActiveModal(null)
+
+  const run = (command: Command) => {
+    close()
+    Promise.resolve(command.run()).catch(error => {
+      console.error(`[Commands] "${command.id}" failed:`, error)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      close()
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setSelectedIndex(i => Math.min(i + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setSelectedIndex(i => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      e.preventDefault()
+      run(results[selectedIndex])
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-[12vh] bg-black/60 backdrop-blur-sm"
+      onClick={close}
+    >
+      <div
+        className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[560px] max-h-[60vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Query */}
+        <div className="relative border-b border-theme-subtle">
+          <ChevronRightRegular className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-theme-muted" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command"
+            className="w-full bg-transparent text-sm font-ui text-theme-primary pl-11 pr-4 py-3 focus:outline-none"
+          />
+        </div>
+
+        {/* Commands */}
+        <div ref={listRef} className="flex-1 overflow-y-auto py-1">
+          {results.map((command, index) => {
+            const binding = bindingFor(command, keymap)
+            return (
+              <button
+                key={command.id}
+                onClick={() => run(command)}
+                onMouseMove={() => setSelectedIndex(index)}
+                className={clsx(
+                  'w-full flex items-center gap-3 px-4 py-2 text-left transition-colors',
+                  index === selectedIndex ? 'bg-theme-active' : 'hover:bg-theme-hover'
+                )}
+              >
+                <span className="text-sm font-ui text-theme-primary truncate flex-1">
+                  <span className="text-theme-muted">{command.category}: </span>
+                  {command.title}
+                </span>
+                {binding && (
+                  <kbd className="text-xs font-ui text-theme-muted flex-shrink-0">{formatChord(binding)}</kbd>
+                )}
+              </button>
+            )
+          })}
+
+          {results.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm font-ui text-theme-muted">No matching commands</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+/**
+ * ExternalChangeDialog
+ *
+ * Shown when a document with unsaved edits changes on disk, for example
+ * after a sync or a git checkout. The diff shows how the version on disk
+ * differs from the edits; the writer keeps one or the other. Autosave
+ * holds off on the document until then.
+ */
+
+import { useState } from 'react'
+import { useProjectStore } from '../../stores/projectStore'
+import { ParagraphDiff } from '../../workspaces/shared/components/ParagraphDiff'
+
+export function ExternalChangeDialog() {
+  const { externalConflicts, documents, keepLocalVersion, loadExternalVersion } = useProjectStore()
+  const [isWorking, setIsWorking] = useState(false)
+
+  const conflict = externalConflicts[0]
+  if (!conflict) return null
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    try {
+      await action()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[720px] h-[70vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-theme-subtle">
+          <h3 className="text-sm font-ui font-semibold text-theme-primary">
+            "{conflict.title}" Changed on Disk
+          </h3>
+          <p className="text-xs font-ui text-theme-muted mt-1">
+            Another program changed this document while it had unsaved edits. The highlights show how the version on disk differs from your edits.
+            {externalConflicts.length > 1 && ` ${externalConflicts.length - 1} more document${externalConflicts.length === 2 ? '' : 's'} also changed.`}
+          </p>
+        </div>
+
+        {/* Diff */}
+        <ParagraphDiff
+          oldContent={documents[conflict.documentId]?.content}
+          newContent={conflict.content}
+        />
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-theme-subtle">
+          <button
+            onClick={() => run(() => keepLocalVersion(conflict.documentId))}
+            disabled={isWorking}
+            className="px-3 py-1.5 rounded-lg text-sm font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            Keep My Edits
+          </button>
+          <button
+            onClick={() => run(() => loadExternalVersion(conflict.documentId))}
+            disabled={isWorking}
+            className="px-3 py-1.5 rounded-lg text-sm font-ui font-medium bg-gold-500 text-black hover:bg-gold-400 transition-colors"
+          >
+            Load Version on Disk
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
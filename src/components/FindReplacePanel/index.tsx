@@ -0,0 +1,346 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { clsx } from 'clsx'
+import {
+  ArrowLeftRegular,
+  ArrowSwapRegular,
+  ArrowUndoRegular,
+  CodeRegular,
+  SearchRegular,
+  TextCaseTitleRegular,
+  TextWholeWordRegular
+} from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+import { useWorkspace } from '../../workspaces'
+import { expandReplacement, type FindMatch, type FindOptions } from '../../utils/findReplace'
+
+// Element types a search can be limited to
+const SCREENPLAY_SCOPES = [
+  { id: 'scene-heading', label: 'Scene Headings' },
+  { id: 'action', label: 'Action' },
+  { id: 'character', label: 'Characters' },
+  { id: 'dialogue', label: 'Dialogue' },
+  { id: 'parenthetical', label: 'Parentheticals' },
+  { id: 'transition', label: 'Transitions' },
+  { id: 'shot', label: 'Shots' }
+]
+
+const PROSE_SCOPES = [
+  { id: 'paragraph', label: 'Paragraphs' },
+  { id: 'heading', label: 'Headings' },
+  { id: 'codeBlock', label: 'Code' }
+]
+
+// Characters of context shown either side of a match
+const PREVIEW_CONTEXT = 40
+
+const SEARCH_DEBOUNCE_MS = 300
+
+function MatchPreview({ match, replacement }: { match: FindMatch; replacement: string | null }) {
+  const before = match.blockText.slice(Math.max(0, match.start - PREVIEW_CONTEXT), match.start)
+  const after = match.blockText.slice(match.end, match.end + PREVIEW_CONTEXT)
+
+  return (
+    <span className="text-xs font-mono text-theme-muted truncate">
+      {match.start > PREVIEW_CONTEXT && '…'}
+      {before}
+      <span className={clsx(
+        'rounded px-0.5',
+        replacement !== null ? 'line-through text-red-400/80 bg-red-400/10' : 'text-theme-accent bg-theme-active'
+      )}>
+        {match.mention && '@'}{match.text}
+      </span>
+      {replacement !== null && (
+        <span className="rounded px-0.5 text-green-400/90 bg-green-400/10">{replacement}</span>
+      )}
+      {after}
+    </span>
+  )
+}
+
+export function FindReplacePanel() {
+  const {
+    currentProject,
+    replaceHistory,
+    setFindReplacePanelOpen,
+    findInProject,
+    replaceInProject,
+    undoReplace,
+    navigateToRange
+  } = useProjectStore()
+  const { showCharactersPanel } = useWorkspace()
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const [query, setQuery] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [elementTypes, setElementTypes] = useState<string[]>([])
+  const [matches, setMatches] = useState<FindMatch[]>([])
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [isReplacing, setIsReplacing] = useState(false)
+  const [renameCharacter, setRenameCharacter] = useState(true)
+  // Bumped after replacing or undoing so the results refresh
+  const [searchVersion, setSearchVersion] = useState(0)
+
+  const options: FindOptions = useMemo(
+    () => ({ query, regex, caseSensitive, wholeWord, elementTypes }),
+    [query, regex, caseSensitive, wholeWord, elementTypes]
+  )
+
+  const scopes = currentProject?.templateId === 'screenplay' ? SCREENPLAY_SCOPES : PROSE_SCOPES
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  // Search as the query and options change
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true)
+        const results = await findInProject(options)
+        if (cancelled) return
+        setMatches(results)
+        setExcluded(new Set())
+        setError(null)
+      } catch (err) {
+        if (cancelled) return
+        setMatches([])
+        setError(err instanceof Error ? err.message : 'Invalid search')
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [options, findInProject, searchVersion])
+
+  // A literal search for a character's name can rename the character too
+  const matchedCharacter = useMemo(() => {
+    if (regex || !showCharactersPanel || !replacement.trim()) return undefined
+    const name = query.trim().toUpperCase()
+    return currentProject?.characters?.find(c => c.name.toUpperCase() === name)
+  }, [regex, showCharactersPanel, query, replacement, currentProject?.characters])
+
+  const groupedMatches = useMemo(() => {
+    const groups = new Map<string, FindMatch[]>()
+    for (const match of matches) {
+      groups.set(match.documentId, [...(groups.get(match.documentId) || []), match])
+    }
+    return Array.from(groups.entries())
+  }, [matches])
+
+  const selectedIds = matches.filter(m => !excluded.has(m.id)).map(m => m.id)
+  const lastReplace = replaceHistory[replaceHistory.length - 1]
+
+  const getDocumentTitle = (docId: string): string =>
+    currentProject?.documents.find(d => d.id === docId)?.title || 'Unknown Document'
+
+  const toggleExcluded = (ids: string[], include: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev)
+      ids.forEach(id => include ? next.delete(id) : next.add(id))
+      return next
+    })
+  }
+
+  const toggleScope = (scope: string) => {
+    setElementTypes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+  }
+
+  const handleReplace = async () => {
+    if (selectedIds.length === 0) return
+    setIsReplacing(true)
+    try {
+      await replaceInProject(options, replacement, selectedIds, renameCharacter ? matchedCharacter?.id : undefined)
+    } finally {
+      setIsReplacing(false)
+      setSearchVersion(v => v + 1)
+    }
+  }
+
+  const handleUndo = async () => {
+    setIsReplacing(true)
+    try {
+      await undoReplace()
+    } finally {
+      setIsReplacing(false)
+      setSearchVersion(v => v + 1)
+    }
+  }
+
+  if (!currentProject) return null
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-theme-subtle bg-theme-header">
+        <h2 className="text-xs font-ui font-medium uppercase tracking-wider text-theme-muted">
+          Find & Replace
+        </h2>
+        <div className="flex items-center gap-1">
+          {lastReplace && (
+            <button
+              onClick={handleUndo}
+              disabled={isReplacing}
+              className="btn-icon-modern w-7 h-7 flex items-center justify-center"
+              title={`Undo ${lastReplace.label} (${lastReplace.count})`}
+            >
+              <ArrowUndoRegular className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setFindReplacePanelOpen(false)}
+            className="btn-icon-modern w-7 h-7 flex items-center justify-center"
+            title="Back to Project"
+          >
+            <ArrowLeftRegular className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Query */}
+      <div className="px-3 py-3 space-y-2 border-b border-theme-subtle">
+        <div className="relative">
+          <SearchRegular className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-theme-muted" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setFindReplacePanelOpen(false)}
+            placeholder="Find"
+            className={clsx('input-modern w-full text-sm font-ui pl-7 pr-24 py-1.5', error && 'border-red-400/60')}
+          />
+          <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+            <button
+              onClick={() => setCaseSensitive(v => !v)}
+              className={clsx('btn-icon-modern p-1', caseSensitive && 'bg-theme-active text-theme-accent')}
+              title="Match Case"
+            >
+              <TextCaseTitleRegular className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setWholeWord(v => !v)}
+              className={clsx('btn-icon-modern p-1', wholeWord && 'bg-theme-active text-theme-accent')}
+              title="Match Whole Word"
+            >
+              <TextWholeWordRegular className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setRegex(v => !v)}
+              className={clsx('btn-icon-modern p-1', regex && 'bg-theme-active text-theme-accent')}
+              title="Use Regular Expression"
+            >
+              <CodeRegular className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+        {error && <p className="text-xs text-red-400/80 font-ui">{error}</p>}
+
+        <div className="relative">
+          <ArrowSwapRegular className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-theme-muted" />
+          <input
+            type="text"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && (e.metaKey || e.ctrlKey) && handleReplace()}
+            placeholder={regex ? 'Replace ($1 for groups)' : 'Replace'}
+            className="input-modern w-full text-sm font-ui pl-7 pr-2 py-1.5"
+          />
+        </div>
+
+        {/* Element scope - nothing selected searches everywhere */}
+        <div className="flex flex-wrap gap-1">
+          {scopes.map(scope => (
+            <button
+              key={scope.id}
+              onClick={() => toggleScope(scope.id)}
+              className={clsx(
+                'px-2 py-0.5 rounded-full text-[11px] font-ui border transition-colors',
+                elementTypes.includes(scope.id)
+                  ? 'border-gold-400/40 bg-gold-400/15 text-theme-accent'
+                  : 'border-theme-subtle text-theme-muted hover:text-theme-secondary'
+              )}
+            >
+              {scope.label}
+            </button>
+          ))}
+        </div>
+
+        {matchedCharacter && (
+          <label className="flex items-center gap-2 text-xs font-ui text-theme-secondary">
+            <input
+              type="checkbox"
+              checked={renameCharacter}
+              onChange={(e) => setRenameCharacter(e.target.checked)}
+              className="accent-gold-400"
+            />
+            Rename {matchedCharacter.name} to {replacement.trim().toUpperCase()} in the character bank
+          </label>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-theme-muted font-ui">
+            {isSearching
+              ? 'Searching...'
+              : query
+                ? `${matches.length} ${matches.length === 1 ? 'match' : 'matches'} in ${groupedMatches.length} ${groupedMatches.length === 1 ? 'document' : 'documents'}`
+                : ''}
+          </span>
+          <button
+            onClick={handleReplace}
+            disabled={isReplacing || selectedIds.length === 0}
+            className={clsx(
+              'px-3 py-1 rounded-lg text-xs font-ui font-medium text-theme-accent bg-theme-active transition-opacity',
+              (isReplacing || selectedIds.length === 0) && 'opacity-40 cursor-not-allowed'
+            )}
+          >
+            Replace {selectedIds.length === matches.length ? 'All' : selectedIds.length}
+          </button>
+        </div>
+      </div>
+
+      {/* Results, previewing each replacement */}
+      <div className="flex-1 overflow-auto py-1">
+        {groupedMatches.map(([docId, docMatches]) => (
+          <div key={docId} className="mb-1">
+            <label className="flex items-center gap-2 px-3 py-1.5 text-xs font-ui font-medium text-theme-secondary">
+              <input
+                type="checkbox"
+                checked={docMatches.some(m => !excluded.has(m.id))}
+                onChange={(e) => toggleExcluded(docMatches.map(m => m.id), e.target.checked)}
+                className="accent-gold-400"
+              />
+              <span className="truncate">{getDocumentTitle(docId)}</span>
+              <span className="text-theme-muted ml-auto">{docMatches.length}</span>
+            </label>
+            {docMatches.map(match => (
+              <div
+                key={match.id}
+                onClick={() => navigateToRange(match.documentId, match.range)}
+                className="flex items-center gap-2 pl-7 pr-3 py-1 cursor-pointer hover:bg-theme-hover"
+              >
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(match.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => toggleExcluded([match.id], e.target.checked)}
+                  className="accent-gold-400 shrink-0"
+                />
+                <MatchPreview match={match} replacement={replacement ? expandReplacement(match, replacement, regex) : null} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,10 @@
 import { useState, useMemo, useRef, useEffect } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
+import { useCommands } from '../../hooks/useCommands'
+import type { Command } from '../../utils/commands'
 import { clsx } from 'clsx'
-import type { Diagnostic, DiagnosticSeverity } from '../../types/project'
+import type { Diagnostic, DiagnosticSeverity, SuppressionScope } from '../../types/project'
+import { nodeSize, textBetween } from '../../utils/nodeSize'
 import {
   ErrorCircleRegular,
   WarningRegular,
@@ -16,7 +19,11 @@ import {
   MoreHorizontalRegular,
   CheckboxCheckedRegular,
   PanelBottomRegular,
-  SparkleRegular
+  SparkleRegular,
+  BookAddRegular,
+  BookOpenRegular,
+  EyeOffRegular,
+  HistoryRegular
 } from '@fluentui/react-icons'
 import {
   Menu,
@@ -34,10 +41,21 @@ const PASS_NAMES: Record<string, string> = {
   'formatting-lint': 'Formatting',
   'spelling-grammar': 'Spelling & Grammar',
   'citation': 'Citations',
+  'screenplay-lint': 'Screenplay',
+  'continuity': 'Continuity',
+  'fact-check': 'Fact Check',
   'system': 'System',
+  'export': 'Export',
   'ai-suggestions': 'AI Suggestions'
 }
 
+// Rule packs are named after their file ("rule-pack:house-style")
+function passName(passId: string): string {
+  if (PASS_NAMES[passId]) return PASS_NAMES[passId]
+  if (passId.startsWith('rule-pack:')) return `Rule Pack: ${passId.slice('rule-pack:'.length)}`
+  return passId
+}
+
 // Severity icons and colors
 const severityConfig: Record<DiagnosticSeverity, { icon: React.ReactNode; color: string; bgColor: string }> = {
   error: {
@@ -62,9 +80,25 @@ interface DiagnosticItemProps {
   documentTitle: string
   onNavigate: () => void
   onApplyFix?: () => void
+  onAddToDictionary?: (scope: 'project' | 'user') => void
+  onOpenSource?: () => void
+  onSuppress: (scope: SuppressionScope) => void
   onDismiss: () => void
 }
 
+// Suggestion actions that add the flagged word to a spelling dictionary
+const DICTIONARY_ACTIONS: Record<string, 'project' | 'user'> = {
+  'add-to-project-dictionary': 'project',
+  'add-to-user-dictionary': 'user'
+}
+
+// Ways to ignore an issue, narrowest first
+const SUPPRESSION_SCOPES: { scope: SuppressionScope; label: (title: string) => string }[] = [
+  { scope: 'issue', label: () => 'Ignore this issue' },
+  { scope: 'document', label: title => `Ignore "${title}" in this document` },
+  { scope: 'project', label: title => `Ignore "${title}" in this project` }
+]
+
 // Helper to render context snippet with highlighted issue
 function ContextSnippet({ context, severity }: { context: { text: string; offset: number; length: number }; severity: DiagnosticSeverity }) {
   const before = context.text.slice(0, context.offset)
@@ -86,12 +120,13 @@ function ContextSnippet({ context, severity }: { context: { text: string; offset
   )
 }
 
-function DiagnosticItem({ diagnostic, documentTitle, onNavigate, onApplyFix, onDismiss }: DiagnosticItemProps) {
+function DiagnosticItem({ diagnostic, documentTitle, onNavigate, onApplyFix, onAddToDictionary, onOpenSource, onSuppress, onDismiss }: DiagnosticItemProps) {
   const config = severityConfig[diagnostic.severity]
-  const passName = PASS_NAMES[diagnostic.passId] || diagnostic.passId
+  const passLabel = passName(diagnostic.passId)
   const hasFix = diagnostic.suggestions && diagnostic.suggestions.length > 0 && diagnostic.suggestions[0].replacement
   const hasRange = diagnostic.range && diagnostic.range.from !== undefined
   const isAISuggestion = diagnostic.passId === 'ai-suggestions'
+  const dictionarySuggestions = (diagnostic.suggestions || []).filter(s => s.action && DICTIONARY_ACTIONS[s.action])
 
   // Build enhanced title with issue text and suggestion
   const issueText = diagnostic.context 
@@ -126,7 +161,7 @@ function DiagnosticItem({ diagnostic, documentTitle, onNavigate, onApplyFix, onD
               isAISuggestion ? 'text-purple-400/70' : 'text-white/25'
             )}>
               {isAISuggestion && <SparkleRegular className="w-3 h-3" />}
-              {passName}
+              {passLabel}
             </span>
           </div>
           
@@ -141,6 +176,13 @@ function DiagnosticItem({ diagnostic, documentTitle, onNavigate, onApplyFix, onD
               {diagnostic.message}
             </p>
           )}
+
+          {/* Source passage the issue was checked against */}
+          {diagnostic.sourcePassage && (
+            <p className="text-xs text-white/40 italic line-clamp-2 mb-1">
+              {diagnostic.source ? `${diagnostic.source}: ` : ''}“{diagnostic.sourcePassage.text}”
+            </p>
+          )}
           
           {/* Location */}
           <span className="text-[11px] text-white/30 font-ui">
@@ -180,6 +222,82 @@ function DiagnosticItem({ diagnostic, documentTitle, onNavigate, onApplyFix, onD
             </button>
           )}
           
+          {/* Open source button - for issues checked against reference material */}
+          {diagnostic.sourcePassage && onOpenSource && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onOpenSource()
+              }}
+              className="p-2 text-white/30 hover:text-white/60 hover:bg-white/[0.04] rounded-lg transition-all duration-200"
+              title="Open source"
+            >
+              <BookOpenRegular className="w-4 h-4" />
+            </button>
+          )}
+
+          {/* Add to dictionary menu - for spelling issues */}
+          {dictionarySuggestions.length > 0 && onAddToDictionary && (
+            <Menu positioning="below-end">
+              <MenuTrigger disableButtonEnhancement>
+                <button
+                  onClick={(e) => e.stopPropagation()}
+                  className="p-2 text-white/30 hover:text-white/60 hover:bg-white/[0.04] rounded-lg transition-all duration-200"
+                  title="Add to dictionary"
+                >
+                  <BookAddRegular className="w-4 h-4" />
+                </button>
+              </MenuTrigger>
+              <MenuPopover className="cadmus-popover">
+                <MenuList style={{ backgroundColor: 'transparent' }}>
+                  {dictionarySuggestions.map(suggestion => (
+                    <MenuItem
+                      key={suggestion.action}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onAddToDictionary(DICTIONARY_ACTIONS[suggestion.action!])
+                      }}
+                      style={{ backgroundColor: 'transparent', color: 'var(--text-secondary)' }}
+                    >
+                      {suggestion.label}
+                    </MenuItem>
+                  ))}
+                </MenuList>
+              </MenuPopover>
+            </Menu>
+          )}
+
+          {/* Ignore menu - suppressions persist across builds */}
+          <Menu positioning="below-end">
+            <MenuTrigger disableButtonEnhancement>
+              <button
+                onClick={(e) => e.stopPropagation()}
+                className="p-2 text-white/30 hover:text-white/60 hover:bg-white/[0.04] rounded-lg transition-all duration-200"
+                title="Ignore"
+              >
+                <EyeOffRegular className="w-4 h-4" />
+              </button>
+            </MenuTrigger>
+            <MenuPopover className="cadmus-popover">
+              <MenuList style={{ backgroundColor: 'transparent' }}>
+                {SUPPRESSION_SCOPES
+                  .filter(({ scope }) => scope !== 'document' || diagnostic.documentId)
+                  .map(({ scope, label }) => (
+                    <MenuItem
+                      key={scope}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onSuppress(scope)
+                      }}
+                      style={{ backgroundColor: 'transparent', color: 'var(--text-secondary)' }}
+                    >
+                      {label(diagnostic.title)}
+                    </MenuItem>
+                  ))}
+              </MenuList>
+            </MenuPopover>
+          </Menu>
+
           {/* Dismiss button */}
           <button
             onClick={(e) => {
@@ -199,20 +317,57 @@ function DiagnosticItem({ diagnostic, documentTitle, onNavigate, onApplyFix, onD
 
 type FilterTab = 'all' | 'error' | 'warning' | 'info'
 
+const store = () => useProjectStore.getState()
+
+// Commands the Problems panel adds while it is open
+const PROBLEMS_COMMANDS: Command[] = [
+  {
+    id: 'problems.clear',
+    title: 'Clear All Issues',
+    category: 'Problems',
+    when: () => store().diagnostics.length > 0,
+    run: () => store().clearDiagnostics()
+  },
+  {
+    id: 'problems.setBaseline',
+    title: 'Set Baseline from Current Issues',
+    category: 'Problems',
+    when: () => store().diagnostics.length > 0,
+    run: () => store().setBaseline()
+  },
+  {
+    id: 'problems.clearBaseline',
+    title: 'Clear Baseline',
+    category: 'Problems',
+    when: () => !!store().suppressions?.data.baseline,
+    run: () => store().clearBaseline()
+  }
+]
+
 export function ProblemsPanel() {
   const fluentTheme = useFluentTheme()
+  useCommands(PROBLEMS_COMMANDS)
   const {
     currentProject,
+    documents,
     diagnostics,
     lastBuildResult,
+    buildProgress,
     ui,
     runBuild,
     setActiveDocument,
     navigateToRange,
+    navigateToCitation,
     requestFix,
     startBatchFix,
     toggleBottomPanel,
-    removeDiagnostic
+    removeDiagnostic,
+    addToDictionary,
+    suppressions,
+    suppressedDiagnostics,
+    suppressDiagnostic,
+    setBaseline,
+    clearBaseline
   } = useProjectStore()
 
   const [filterTab, setFilterTab] = useState<FilterTab>('all')
@@ -273,13 +428,27 @@ export function ProblemsPanel() {
     return c
   }, [diagnostics])
 
+  // Whether a diagnostic's range still covers the text it flagged; edits
+  // since the build can shift it
+  const isRangeCurrent = (diagnostic: Diagnostic): boolean => {
+    const { range, context } = diagnostic
+    if (!range || range.from > range.to) return false
+    const content = documents[diagnostic.documentId!]?.content
+    if (!content) return true // Not opened since the build
+    if (range.to > nodeSize(content) - 2) return false
+    if (!context) return true
+    return textBetween(content, range.from, range.to) === context.text.slice(context.offset, context.offset + context.length)
+  }
+
   // Handle navigate to diagnostic
   const handleNavigate = (diagnostic: Diagnostic) => {
     if (!diagnostic.documentId) return
     
-    // If there's a range, use navigateToRange to scroll to it
-    if (diagnostic.range) {
+    // Select the exact range while it holds; the block still resolves after edits shift it
+    if (diagnostic.range && (!diagnostic.blockId || isRangeCurrent(diagnostic))) {
       navigateToRange(diagnostic.documentId, diagnostic.range)
+    } else if (diagnostic.blockId) {
+      navigateToCitation(diagnostic.documentId, diagnostic.blockId)
     } else {
       // Just switch to the document
       setActiveDocument(diagnostic.documentId)
@@ -293,6 +462,31 @@ export function ProblemsPanel() {
     }
   }
 
+  // Add the flagged word to a spelling dictionary
+  const handleAddToDictionary = (diagnostic: Diagnostic, scope: 'project' | 'user') => {
+    if (!diagnostic.context) return
+    const { text, offset, length } = diagnostic.context
+    addToDictionary(text.slice(offset, offset + length), scope)
+  }
+
+  // Open the reference material a diagnostic was checked against
+  const handleOpenSource = (diagnostic: Diagnostic) => {
+    const passage = diagnostic.sourcePassage
+    if (!passage || !currentProject) return
+
+    if (passage.documentId && (passage.blockId || passage.text)) {
+      navigateToCitation(passage.documentId, passage.blockId || '', passage.text)
+    } else if (passage.documentId) {
+      setActiveDocument(passage.documentId)
+    } else if (passage.assetId) {
+      window.api.asset.open(currentProject.path, passage.assetId).catch(error => {
+        console.error('Failed to open source:', error)
+      })
+    }
+  }
+
+  const hasBaseline = !!suppressions?.data.baseline
+
   // Get all fixable diagnostics
   const fixableDiagnostics = useMemo(() => {
     return diagnostics.filter(d => 
@@ -330,6 +524,41 @@ export function ProblemsPanel() {
                 </button>
               )}
               
+              {/* Baseline menu - hide the issues that exist today */}
+              {(diagnostics.length > 0 || hasBaseline) && (
+                <FluentProvider theme={fluentTheme} style={{ background: 'transparent' }}>
+                  <Menu positioning="below-end">
+                    <MenuTrigger disableButtonEnhancement>
+                      <button
+                        className={clsx('btn-icon-modern p-1.5', hasBaseline && 'text-gold-400/80')}
+                        title={hasBaseline ? 'Baseline active' : 'Baseline'}
+                      >
+                        <HistoryRegular className="w-4 h-4" />
+                      </button>
+                    </MenuTrigger>
+                    <MenuPopover className="cadmus-popover">
+                      <MenuList style={{ backgroundColor: 'transparent' }}>
+                        <MenuItem
+                          onClick={() => setBaseline()}
+                          disabled={ui.isBuilding || diagnostics.length === 0}
+                          style={{ backgroundColor: 'transparent', color: 'var(--text-secondary)' }}
+                        >
+                          Baseline Current Issues
+                        </MenuItem>
+                        {hasBaseline && (
+                          <MenuItem
+                            onClick={() => clearBaseline()}
+                            style={{ backgroundColor: 'transparent', color: 'var(--text-secondary)' }}
+                          >
+                            Clear Baseline
+                          </MenuItem>
+                        )}
+                      </MenuList>
+                    </MenuPopover>
+                  </Menu>
+                </FluentProvider>
+              )}
+
               {/* Toggle/Collapse Panel button */}
               <button
                 onClick={toggleBottomPanel}
@@ -395,6 +624,31 @@ export function ProblemsPanel() {
                         Resolve All ({fixableDiagnostics.length})
                       </MenuItem>
                     )}
+                    {diagnostics.length > 0 && (
+                      <MenuItem
+                        icon={<HistoryRegular />}
+                        onClick={() => {
+                          setBaseline()
+                          setOverflowMenuOpen(false)
+                        }}
+                        disabled={ui.isBuilding}
+                        style={{ backgroundColor: 'transparent', color: 'var(--text-secondary)' }}
+                      >
+                        Baseline Current Issues
+                      </MenuItem>
+                    )}
+                    {hasBaseline && (
+                      <MenuItem
+                        icon={<HistoryRegular />}
+                        onClick={() => {
+                          clearBaseline()
+                          setOverflowMenuOpen(false)
+                        }}
+                        style={{ backgroundColor: 'transparent', color: 'var(--text-secondary)' }}
+                      >
+                        Clear Baseline
+                      </MenuItem>
+                    )}
                     <MenuItem
                       icon={<PanelBottomRegular />}
                       onClick={() => {
@@ -498,7 +752,7 @@ export function ProblemsPanel() {
               )}
             >
               <FilterRegular className="w-3 h-3" />
-              {filterPass ? PASS_NAMES[filterPass] || filterPass : 'Filter'}
+              {filterPass ? passName(filterPass) : 'Filter'}
               <ChevronDownRegular className="w-3 h-3" />
             </button>
             
@@ -528,7 +782,7 @@ export function ProblemsPanel() {
                       filterPass === passId ? 'text-gold-400/90' : 'text-white/70'
                     )}
                   >
-                    {PASS_NAMES[passId] || passId}
+                    {passName(passId)}
                   </button>
                 ))}
               </div>
@@ -551,6 +805,14 @@ export function ProblemsPanel() {
           <span>
             {lastBuildResult.success ? 'Build completed' : 'Build completed with issues'}
           </span>
+          {lastBuildResult.artifacts && lastBuildResult.artifacts.length > 0 && (
+            <span
+              className="text-white/40"
+              title={lastBuildResult.artifacts.map(a => a.path).join('\n')}
+            >
+              {lastBuildResult.artifacts.map(a => a.format.toUpperCase()).join(' · ')}
+            </span>
+          )}
           <span className="text-white/25 ml-auto">
             {lastBuildResult.totalTiming}ms
           </span>
@@ -562,6 +824,12 @@ export function ProblemsPanel() {
         <div className="px-3 py-2 text-xs font-ui flex items-center gap-2 border-b border-white/[0.03] bg-gold-400/8 text-gold-400/80">
           <ArrowSyncRegular className="w-4 h-4 animate-spin" />
           <span>Building...</span>
+          {buildProgress && buildProgress.total > 0 && (
+            <span className="text-white/40 ml-auto">
+              {buildProgress.completed}/{buildProgress.total}
+              {buildProgress.cached > 0 && ` (${buildProgress.cached} unchanged)`}
+            </span>
+          )}
         </div>
       )}
 
@@ -598,6 +866,9 @@ export function ProblemsPanel() {
               documentTitle={getDocumentTitle(diagnostic.documentId)}
               onNavigate={() => handleNavigate(diagnostic)}
               onApplyFix={() => handleApplyFix(diagnostic)}
+              onAddToDictionary={(scope) => handleAddToDictionary(diagnostic, scope)}
+              onOpenSource={() => handleOpenSource(diagnostic)}
+              onSuppress={(scope) => suppressDiagnostic(diagnostic, scope)}
               onDismiss={() => removeDiagnostic(diagnostic.id)}
             />
           ))
@@ -605,7 +876,7 @@ export function ProblemsPanel() {
       </div>
 
       {/* Footer with counts */}
-      {diagnostics.length > 0 && (
+      {(diagnostics.length > 0 || suppressedDiagnostics.length > 0) && (
         <div className="px-3 py-1.5 border-t border-white/[0.04] text-xs font-ui text-white/30 flex items-center gap-3">
           <span className="flex items-center gap-1">
             <ErrorCircleRegular className="w-3 h-3 text-red-400/70" />
@@ -619,6 +890,15 @@ export function ProblemsPanel() {
             <InfoRegular className="w-3 h-3 text-blue-400/70" />
             {counts.info}
           </span>
+          {suppressedDiagnostics.length > 0 && (
+            <span
+              className="flex items-center gap-1 ml-auto"
+              title="Hidden by suppressions or the baseline (manage in Project Settings)"
+            >
+              <EyeOffRegular className="w-3 h-3" />
+              {suppressedDiagnostics.length} suppressed
+            </span>
+          )}
         </div>
       )}
     </div>
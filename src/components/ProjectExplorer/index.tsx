@@ -19,7 +19,8 @@ import {
   BoxRegular,
   SettingsRegular,
   ArrowLeftRegular,
-  SaveArrowRightFilled
+  SaveArrowRightFilled,
+  SearchRegular
 } from '@fluentui/react-icons'
 import { getPropIconComponent } from '../PropsPanel'
 import { DEFAULT_STICKERS } from '../StickersPanel'
@@ -126,6 +127,7 @@ export function ProjectExplorer() {
     propReferences,
     ui,
     toggleSettingsPanel,
+    setFindReplacePanelOpen,
     getStickersForDocument,
     expandedFolders,
     toggleFolder,
@@ -851,6 +853,15 @@ export function ProjectExplorer() {
               <SaveArrowRightFilled className="w-4 h-4" />
             </button>
           )}
+          {!ui.settingsPanelOpen && (
+            <button
+              onClick={() => setFindReplacePanelOpen(true)}
+              className="btn-icon-modern w-7 h-7 flex items-center justify-center"
+              title="Find & Replace (⌘⇧F)"
+            >
+              <SearchRegular className="w-4 h-4" />
+            </button>
+          )}
           {!ui.settingsPanelOpen && <SaveVersionButton />}
           <button
             onClick={toggleSettingsPanel}
@@ -0,0 +1,104 @@
+/**
+ * GitSection
+ *
+ * Settings section for the project's optional git history: initializing a
+ * repository, choosing a bare repository to sync with, and syncing. Actions
+ * apply immediately rather than on Save.
+ */
+
+import { useEffect, useState } from 'react'
+import { ArrowSyncRegular, FolderOpenRegular } from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+
+export function GitSection() {
+  const { currentProject, gitStatus, gitError, loadGitStatus, initGitHistory, setGitRemote, syncGitHistory } = useProjectStore()
+  const [isWorking, setIsWorking] = useState(false)
+  const [syncMessage, setSyncMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadGitStatus()
+  }, [currentProject?.path, loadGitStatus])
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    setSyncMessage(null)
+    try {
+      await action()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleChooseRemote = () => run(async () => {
+    const remotePath = await window.api.dialog.selectFolder()
+    if (remotePath) await setGitRemote(remotePath)
+  })
+
+  const handleSync = () => run(async () => {
+    const result = await syncGitHistory()
+    if (result) {
+      setSyncMessage(result.pulled === 0 && result.pushed === 0
+        ? 'Already up to date'
+        : `Received ${result.pulled} and sent ${result.pushed} commit${result.pushed === 1 ? '' : 's'}`)
+    }
+  })
+
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors disabled:opacity-50'
+
+  return (
+    <section id="settings-git">
+      <h3 className="text-xs font-ui font-semibold text-theme-accent uppercase tracking-wider mb-2">
+        Git History
+      </h3>
+      <p className="text-xs text-theme-muted mb-4">
+        Keep the project in a git repository. Each saved version is committed, and Version History shows the commits and who last changed each paragraph.
+      </p>
+
+      {gitStatus && !gitStatus.available && (
+        <p className="text-xs text-theme-muted">Git was not found on this computer. Install git to use this feature.</p>
+      )}
+
+      {gitStatus?.available && !gitStatus.initialized && (
+        <button onClick={() => run(initGitHistory)} disabled={isWorking} className={buttonClass}>
+          Start Git History
+        </button>
+      )}
+
+      {gitStatus?.initialized && (
+        <div className="divide-y divide-theme-subtle">
+          <div className="flex items-center justify-between gap-4 py-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-theme-primary">Branch</div>
+              <div className="text-xs text-theme-muted mt-0.5">
+                {gitStatus.branch || 'Unknown'} · {gitStatus.uncommitted === 0 ? 'No uncommitted changes' : `${gitStatus.uncommitted} uncommitted change${gitStatus.uncommitted === 1 ? '' : 's'}`}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4 py-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-theme-primary">Remote</div>
+              <div className="text-xs text-theme-muted mt-0.5 truncate" title={gitStatus.remote || undefined}>
+                {gitStatus.remote || 'A bare repository, for example on a shared drive. An empty folder is set up as one.'}
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={handleChooseRemote} disabled={isWorking} className={buttonClass}>
+                <FolderOpenRegular className="w-3.5 h-3.5" />
+                {gitStatus.remote ? 'Change' : 'Choose'}
+              </button>
+              {gitStatus.remote && (
+                <button onClick={handleSync} disabled={isWorking} className={buttonClass}>
+                  <ArrowSyncRegular className="w-3.5 h-3.5" />
+                  Sync
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {syncMessage && <p className="text-xs text-theme-muted mt-1">{syncMessage}</p>}
+      {gitError && <p className="text-xs text-red-400/80 mt-1">{gitError}</p>}
+    </section>
+  )
+}
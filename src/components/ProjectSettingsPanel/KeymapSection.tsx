@@ -0,0 +1,185 @@
+/**
+ * KeymapSection
+ *
+ * Settings section listing the registered commands with their key bindings.
+ * A binding is changed by recording a new chord; chords reserved by the
+ * editor are refused and chords used by another command must be reassigned
+ * explicitly. Changes apply immediately and are saved with the app
+ * preferences, not the project.
+ */
+
+import { useMemo, useState } from 'react'
+import { clsx } from 'clsx'
+import { ArrowResetRegular, DismissRegular } from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+import { bindingConflicts, bindingFor, chordFromEvent, formatChord, type Command } from '../../utils/commands'
+
+interface PendingBinding {
+  commandId: string
+  chord: string
+  conflicts: Command[]
+}
+
+export function KeymapSection() {
+  const { commands, keymap, setKeybinding, resetKeybinding } = useProjectStore()
+  const [filter, setFilter] = useState('')
+  const [recordingId, setRecordingId] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingBinding | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const allCommands = useMemo(() => Object.values(commands), [commands])
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase()
+    return allCommands
+      .filter(command => !needle || `${command.category}: ${command.title}`.toLowerCase().includes(needle))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.title.localeCompare(b.title))
+  }, [allCommands, filter])
+
+  const stopRecording = () => {
+    setRecordingId(null)
+    setError(null)
+  }
+
+  const handleRecordKeyDown = (command: Command, e: React.KeyboardEvent) => {
+    // Keep the chord from also running a command
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (e.key === 'Escape') {
+      stopRecording()
+      return
+    }
+    const chord = chordFromEvent(e.nativeEvent)
+    if (!chord) return
+
+    const { reserved, commands: conflicts } = bindingConflicts(allCommands, keymap, command.id, chord)
+    if (reserved) {
+      setError(`${formatChord(chord)} is the editor's ${reserved} shortcut`)
+      return
+    }
+
+    stopRecording()
+    if (conflicts.length > 0) {
+      setPending({ commandId: command.id, chord, conflicts })
+    } else {
+      setKeybinding(command.id, chord)
+    }
+  }
+
+  // Take the chord from the commands that had it
+  const handleReassign = async () => {
+    if (!pending) return
+    for (const conflict of pending.conflicts) {
+      await setKeybinding(conflict.id, null)
+    }
+    await setKeybinding(pending.commandId, pending.chord)
+    setPending(null)
+  }
+
+  return (
+    <section id="settings-keymap">
+      <h3 className="text-xs font-ui font-semibold text-theme-accent uppercase tracking-wider mb-2">
+        Keyboard Shortcuts
+      </h3>
+      <p className="text-xs text-theme-muted mb-4">
+        Click a shortcut and press the new keys; Escape cancels. Commands from a panel or workspace are listed while it is open. Shortcuts apply to every project.
+      </p>
+      <input
+        type="text"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter commands"
+        className="input-modern w-full text-sm py-1.5 px-2 mb-2"
+      />
+      <div className="divide-y divide-theme-subtle">
+        {visible.map(command => {
+          const binding = bindingFor(command, keymap)
+          const isRecording = recordingId === command.id
+          const isPending = pending?.commandId === command.id
+          const conflicts = binding ? bindingConflicts(allCommands, keymap, command.id, binding).commands : []
+
+          return (
+            <div key={command.id} className="py-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0 text-sm text-theme-primary truncate">
+                  <span className="text-theme-muted">{command.category}: </span>
+                  {command.title}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => {
+                      setPending(null)
+                      setError(null)
+                      setRecordingId(command.id)
+                    }}
+                    onKeyDown={isRecording ? (e) => handleRecordKeyDown(command, e) : undefined}
+                    onBlur={isRecording ? stopRecording : undefined}
+                    className={clsx(
+                      'min-w-[80px] px-2 py-1 rounded-lg text-xs font-ui text-center transition-colors',
+                      isRecording
+                        ? 'bg-theme-active text-theme-accent ring-1 ring-gold-400/50'
+                        : 'bg-theme-hover text-theme-secondary hover:text-theme-primary',
+                      conflicts.length > 0 && 'text-red-400'
+                    )}
+                    title="Change Shortcut"
+                  >
+                    {isRecording ? 'Press keys…' : binding ? formatChord(binding) : '—'}
+                  </button>
+                  {binding && (
+                    <button
+                      onClick={() => setKeybinding(command.id, null)}
+                      className="btn-icon-modern p-1"
+                      title="Remove Shortcut"
+                    >
+                      <DismissRegular className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {command.id in keymap && (
+                    <button
+                      onClick={() => resetKeybinding(command.id)}
+                      className="btn-icon-modern p-1"
+                      title={command.keys ? `Reset to ${formatChord(command.keys)}` : 'Reset to None'}
+                    >
+                      <ArrowResetRegular className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {isRecording && error && (
+                <p className="text-xs text-red-400/80 mt-1">{error}</p>
+              )}
+              {!isRecording && conflicts.length > 0 && (
+                <p className="text-xs text-red-400/80 mt-1">
+                  Also bound to {conflicts.map(c => `${c.category}: ${c.title}`).join(', ')}
+                </p>
+              )}
+              {isPending && (
+                <div className="flex items-center justify-between gap-2 mt-1">
+                  <p className="text-xs text-theme-muted">
+                    {formatChord(pending.chord)} is used by {pending.conflicts.map(c => `${c.category}: ${c.title}`).join(', ')}
+                  </p>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => setPending(null)}
+                      className="px-2 py-1 rounded-lg text-xs text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleReassign}
+                      className="px-2 py-1 rounded-lg text-xs font-medium bg-gold-500 text-black hover:bg-gold-400 transition-colors"
+                    >
+                      Reassign
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,234 @@
+/**
+ * PacingCalibrationDialog
+ *
+ * Table read calibration: steps through the script a block at a time while
+ * the user reads it aloud, tapping Space as each block ends, then shows the
+ * storyboard timing rates learned from the taps.
+ */
+
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react'
+import { clsx } from 'clsx'
+import type { JSONContent } from '@tiptap/core'
+import { DismissRegular } from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+import type { PacingSettings } from '../../types/project'
+import { findScriptBlocks } from '../../utils/blockAnchoring'
+import { calibratePacing, type PacingSample } from '../../utils/pacing'
+
+interface PacingCalibrationDialogProps {
+  current: PacingSettings
+  onApply: (settings: PacingSettings) => void
+  onClose: () => void
+}
+
+interface ReadingStep {
+  elementType: string
+  text: string
+  speaker: string | null // Character cue over dialogue and parentheticals
+}
+
+const READ_ELEMENTS = ['scene-heading', 'action', 'character', 'dialogue', 'parenthetical', 'transition']
+
+const RATES: { label: string; elementType: string; format: (settings: PacingSettings) => string }[] = [
+  { label: 'Dialogue', elementType: 'dialogue', format: s => `${s.dialogueCharsPerSecond} chars/s` },
+  { label: 'Action', elementType: 'action', format: s => `${s.actionWordsPerMinute} wpm` },
+  { label: 'Parenthetical', elementType: 'parenthetical', format: s => `${s.parentheticalMs / 1000}s` },
+  { label: 'Transition', elementType: 'transition', format: s => `${s.transitionMs / 1000}s` },
+  { label: 'Scene Heading', elementType: 'scene-heading', format: s => `${s.sceneHeadingMs / 1000}s` }
+]
+
+export function PacingCalibrationDialog({ current, onApply, onClose }: PacingCalibrationDialogProps) {
+  const { currentProject, documents, activeDocumentId } = useProjectStore()
+  const [phase, setPhase] = useState<'ready' | 'reading' | 'done'>('ready')
+  const [index, setIndex] = useState(0)
+  const [samples, setSamples] = useState<PacingSample[]>([])
+  const lastTapRef = useRef(0)
+
+  // The script from the open page on, character cues folded into the lines under them
+  const steps = useMemo(() => {
+    if (!currentProject) return []
+    const contents: Record<string, JSONContent> = {}
+    for (const [id, doc] of Object.entries(documents)) {
+      if (doc.content) contents[id] = doc.content
+    }
+    const blocks = findScriptBlocks(currentProject, contents, READ_ELEMENTS).filter(b => b.text)
+    const start = Math.max(0, blocks.findIndex(b => b.documentId === activeDocumentId))
+
+    const result: ReadingStep[] = []
+    let speaker: string | null = null
+    for (const block of blocks.slice(start)) {
+      if (block.elementType === 'character') {
+        speaker = block.text.toUpperCase()
+        continue
+      }
+      const speaking = block.elementType === 'dialogue' || block.elementType === 'parenthetical'
+      result.push({ elementType: block.elementType, text: block.text, speaker: speaking ? speaker : null })
+      if (!speaking) speaker = null
+    }
+    return result
+  }, [currentProject, documents, activeDocumentId])
+
+  const learned = useMemo(() => calibratePacing(samples, current), [samples, current])
+
+  const advance = useCallback((record: boolean) => {
+    const now = performance.now()
+    if (phase === 'ready') {
+      setPhase('reading')
+      lastTapRef.current = now
+      return
+    }
+    if (phase !== 'reading') return
+
+    const step = steps[index]
+    if (record && step) {
+      setSamples(prev => [...prev, { elementType: step.elementType, text: step.text, durationMs: now - lastTapRef.current }])
+    }
+    lastTapRef.current = now
+    if (index + 1 >= steps.length) {
+      setPhase('done')
+    } else {
+      setIndex(index + 1)
+    }
+  }, [phase, steps, index])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      } else if (e.key === ' ' && phase !== 'done') {
+        e.preventDefault()
+        advance(true)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [advance, phase, onClose])
+
+  const step = steps[index]
+  const nextStep = steps[index + 1]
+  const countOf = (elementType: string) => samples.filter(s => s.elementType === elementType).length
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[560px] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-theme-subtle">
+          <h3 className="text-sm font-ui font-semibold text-theme-primary">Table Read Calibration</h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            <DismissRegular className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 min-h-[220px]">
+          {steps.length === 0 ? (
+            <p className="text-sm font-ui text-theme-muted">Open a screenplay page with some script to read.</p>
+          ) : phase === 'ready' ? (
+            <div className="space-y-2 text-sm font-ui text-theme-secondary">
+              <p>Read the script aloud at performance pace, from the page you have open.</p>
+              <p>
+                Press <kbd className="px-1.5 py-0.5 rounded border border-theme-default text-xs">Space</kbd> to
+                start, then again each time you finish a block. Skip any block you stumble over. Rates need at
+                least three timed blocks of a kind to change.
+              </p>
+            </div>
+          ) : phase === 'reading' && step ? (
+            <div className="space-y-4">
+              <div className="text-xs font-ui text-theme-muted">
+                Block {index + 1} of {steps.length} · {samples.length} timed
+              </div>
+              <div
+                className={clsx(
+                  'font-mono text-base text-theme-primary leading-relaxed',
+                  (step.elementType === 'dialogue' || step.elementType === 'parenthetical') && 'px-16',
+                  step.elementType === 'scene-heading' && 'font-bold uppercase',
+                  step.elementType === 'transition' && 'text-right uppercase'
+                )}
+              >
+                {step.speaker && <div className="text-center text-theme-secondary">{step.speaker}</div>}
+                {step.text}
+              </div>
+              {nextStep && (
+                <div className="font-mono text-xs text-theme-muted truncate">Next: {nextStep.text}</div>
+              )}
+            </div>
+          ) : (
+            <table className="w-full text-sm font-ui">
+              <thead>
+                <tr className="text-xs text-theme-muted text-left">
+                  <th className="py-1 font-medium">Rate</th>
+                  <th className="py-1 font-medium">Current</th>
+                  <th className="py-1 font-medium">Learned</th>
+                  <th className="py-1 font-medium text-right">Timed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {RATES.map(rate => {
+                  const changed = rate.format(learned) !== rate.format(current)
+                  return (
+                    <tr key={rate.label} className="border-t border-theme-subtle">
+                      <td className="py-1.5 text-theme-primary">{rate.label}</td>
+                      <td className="py-1.5 text-theme-muted">{rate.format(current)}</td>
+                      <td className={clsx('py-1.5', changed ? 'text-amber-400' : 'text-theme-muted')}>{rate.format(learned)}</td>
+                      <td className="py-1.5 text-right text-theme-muted">{countOf(rate.elementType)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-theme-subtle">
+          {phase === 'reading' && (
+            <>
+              <button
+                onClick={() => advance(false)}
+                className="px-3 py-1.5 rounded-lg text-sm font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+              >
+                Skip Block
+              </button>
+              <button
+                onClick={() => setPhase('done')}
+                className="px-3 py-1.5 rounded-lg text-sm font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+              >
+                Finish
+              </button>
+            </>
+          )}
+          {phase === 'done' ? (
+            <button
+              onClick={() => {
+                onApply(learned)
+                onClose()
+              }}
+              disabled={samples.length === 0}
+              className="px-3 py-1.5 rounded-lg text-sm font-ui font-medium bg-amber-400 text-black hover:bg-amber-300 disabled:bg-theme-hover disabled:text-theme-muted transition-colors"
+            >
+              Use Learned Rates
+            </button>
+          ) : (
+            <button
+              onClick={() => advance(true)}
+              disabled={steps.length === 0}
+              className="px-3 py-1.5 rounded-lg text-sm font-ui font-medium bg-amber-400 text-black hover:bg-amber-300 disabled:bg-theme-hover disabled:text-theme-muted transition-colors"
+            >
+              {phase === 'ready' ? 'Start' : 'Next (Space)'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
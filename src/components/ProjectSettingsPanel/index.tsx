@@ -1,10 +1,15 @@
 import { useState, useRef, useEffect } from 'react'
 import { clsx } from 'clsx'
-import { ArrowResetRegular, CheckmarkRegular, DismissRegular, ChevronDownRegular } from '@fluentui/react-icons'
+import { ArrowResetRegular, ArrowClockwiseRegular, CheckmarkRegular, DismissRegular, ChevronDownRegular, FolderOpenRegular } from '@fluentui/react-icons'
 import { useProjectStore } from '../../stores/projectStore'
+import { GitSection } from './GitSection'
+import { KeymapSection } from './KeymapSection'
+import { PacingCalibrationDialog } from './PacingCalibrationDialog'
 import { FONT_FAMILIES } from '../../workspaces/shared/extensions/FontFamily'
 import { SLASH_COMMANDS_GENERATE, SLASH_COMMANDS_SELECTION, SLASH_COMMANDS_SELECTION_GENERAL } from '../../workspaces/shared/extensions/SlashCommand'
-import type { FormattingRules, HeadingTypography } from '../../types/project'
+import { resolveVersionHistorySettings } from '../../utils/versionRetention'
+import { resolvePacingSettings } from '../../utils/pacing'
+import type { DiagnosticSuppression, FormattingRules, HeadingTypography, PacingSettings, ProjectSettings, RulePackLoadResult, VersionHistorySettings, VersionRetention } from '../../types/project'
 
 // Interface scale steps
 const INTERFACE_SCALE_STEPS = [75, 80, 90, 100, 110, 125, 150]
@@ -25,6 +30,15 @@ const COLOR_PRESETS = [
   { name: 'Lime', value: '#84cc16' },
 ]
 
+type CitationStyle = NonNullable<ProjectSettings['citationStyle']>
+
+const CITATION_STYLES: { name: string; value: CitationStyle }[] = [
+  { name: 'None', value: 'none' },
+  { name: 'APA', value: 'apa' },
+  { name: 'MLA', value: 'mla' },
+  { name: 'Chicago', value: 'chicago' },
+]
+
 // Section definitions for sidebar navigation
 export const SETTINGS_SECTIONS = [
   { id: 'body', label: 'Body Text' },
@@ -32,7 +46,13 @@ export const SETTINGS_SECTIONS = [
   { id: 'h2', label: 'Heading 2' },
   { id: 'h3', label: 'Heading 3' },
   { id: 'layout', label: 'Layout' },
+  { id: 'citations', label: 'Citations' },
   { id: 'aiPrompts', label: 'AI Prompts' },
+  { id: 'rulePacks', label: 'Rule Packs' },
+  { id: 'suppressions', label: 'Suppressions' },
+  { id: 'versionHistory', label: 'Version History' },
+  { id: 'git', label: 'Git History' },
+  { id: 'keymap', label: 'Keyboard Shortcuts' },
 ] as const
 
 // Setting row component
@@ -283,7 +303,15 @@ function getEditableCommands(isScreenplay: boolean) {
 }
 
 export function ProjectSettingsPanel() {
-  const { currentProject, updateProjectSettings, setSettingsPanelOpen } = useProjectStore()
+  const {
+    currentProject,
+    updateProjectSettings,
+    setSettingsPanelOpen,
+    suppressions,
+    loadSuppressions,
+    removeSuppression,
+    clearBaseline
+  } = useProjectStore()
   const scrollRef = useRef<HTMLDivElement>(null)
 
   const rules = currentProject?.settings?.formattingRules
@@ -299,6 +327,21 @@ export function ProjectSettingsPanel() {
     currentProject.settings.targetRuntimeMinutes
   )
 
+  // Draft storyboard timing rates (screenplay only)
+  const [draftPacing, setDraftPacing] = useState<PacingSettings>(
+    () => resolvePacingSettings(currentProject.settings.pacing)
+  )
+  const [isCalibrating, setIsCalibrating] = useState(false)
+
+  const updatePacingDraft = (partial: Partial<PacingSettings>) => {
+    setDraftPacing(prev => ({ ...prev, ...partial }))
+  }
+
+  // Draft citation style (also lives on ProjectSettings)
+  const [draftCitationStyle, setDraftCitationStyle] = useState<CitationStyle>(
+    currentProject.settings.citationStyle || 'none'
+  )
+
   // Draft state for custom AI prompts
   const [draftCustomPrompts, setDraftCustomPrompts] = useState<Record<string, string>>(
     () => {
@@ -313,6 +356,63 @@ export function ProjectSettingsPanel() {
     }
   )
 
+  // Draft for which passes run on build (rule packs are toggled here)
+  const [draftEnabledPasses, setDraftEnabledPasses] = useState<string[]>(currentProject.settings.enabledPasses)
+
+  // Draft for automatic snapshots and their retention
+  const [draftVersionHistory, setDraftVersionHistory] = useState<VersionHistorySettings>(
+    () => resolveVersionHistorySettings(currentProject.settings.versionHistory)
+  )
+
+  const updateRetentionDraft = (partial: Partial<VersionRetention>) => {
+    setDraftVersionHistory(prev => ({ ...prev, retention: { ...prev.retention, ...partial } }))
+  }
+
+  // Rule packs found in the project's .cadmus/rule-packs folder
+  const [rulePacks, setRulePacks] = useState<RulePackLoadResult | null>(null)
+
+  const loadRulePacks = () => {
+    window.api.rulePacks.list(currentProject.path).then(setRulePacks).catch(() => {})
+  }
+
+  useEffect(loadRulePacks, [currentProject.path])
+
+  const handleToggleRulePack = (passId: string, enabled: boolean) => {
+    setDraftEnabledPasses(prev => enabled
+      ? [...prev.filter(id => id !== passId), passId]
+      : prev.filter(id => id !== passId))
+  }
+
+  const handleOpenRulePacksFolder = async () => {
+    try {
+      await window.api.rulePacks.openFolder(currentProject.path)
+      loadRulePacks()
+    } catch (error) {
+      console.error('Failed to open rule packs folder:', error)
+    }
+  }
+
+  // Suppressions apply as soon as they change, like the Problems panel's ignore menu
+  useEffect(() => {
+    loadSuppressions()
+  }, [currentProject.path])
+
+  const projectSuppressions = suppressions?.projectPath === currentProject.path ? suppressions.data : null
+
+  const describeSuppression = (suppression: DiagnosticSuppression): string => {
+    const document = suppression.documentId
+      ? currentProject.documents.find(d => d.id === suppression.documentId)?.title || 'Unknown Document'
+      : null
+    switch (suppression.scope) {
+      case 'issue':
+        return `${suppression.text ? `"${suppression.text}"` : 'One issue'}${document ? ` in ${document}` : ''}`
+      case 'document':
+        return `Everywhere in ${document}`
+      case 'project':
+        return 'Everywhere in the project'
+    }
+  }
+
   // Default instruction text fetched from the AI service
   const [defaultInstructions, setDefaultInstructions] = useState<{ prose: Record<string, string>; screenplay: Record<string, string> } | null>(null)
 
@@ -345,7 +445,11 @@ export function ProjectSettingsPanel() {
   const customPromptsChanged = JSON.stringify(draftCustomPrompts) !== JSON.stringify(currentProject.settings.customAIPrompts || {})
   const dirty = hasChanges(draft, getEditableFields(rules))
     || draftTargetRuntime !== currentProject.settings.targetRuntimeMinutes
+    || draftCitationStyle !== (currentProject.settings.citationStyle || 'none')
     || customPromptsChanged
+    || JSON.stringify(draftEnabledPasses) !== JSON.stringify(currentProject.settings.enabledPasses)
+    || JSON.stringify(draftVersionHistory) !== JSON.stringify(resolveVersionHistorySettings(currentProject.settings.versionHistory))
+    || JSON.stringify(draftPacing) !== JSON.stringify(resolvePacingSettings(currentProject.settings.pacing))
 
   const updateDraft = (partial: Partial<EditableFields>) => {
     setDraft(prev => ({ ...prev, ...partial }))
@@ -374,7 +478,11 @@ export function ProjectSettingsPanel() {
     updateProjectSettings({
       formattingRules: { ...rules, ...draft },
       targetRuntimeMinutes: draftTargetRuntime,
+      citationStyle: draftCitationStyle,
       customAIPrompts: customPrompts,
+      enabledPasses: draftEnabledPasses,
+      versionHistory: draftVersionHistory,
+      pacing: isScreenplay ? draftPacing : currentProject.settings.pacing,
     })
     setSettingsPanelOpen(false)
   }
@@ -399,6 +507,8 @@ export function ProjectSettingsPanel() {
     })
     setDraftTargetRuntime(undefined)
     setDraftCustomPrompts({})
+    setDraftVersionHistory(resolveVersionHistorySettings())
+    setDraftPacing(resolvePacingSettings())
   }
 
   const editableCommands = getEditableCommands(isScreenplay)
@@ -638,6 +748,30 @@ export function ProjectSettingsPanel() {
             </div>
           </section>
 
+          {/* Citations Section - hidden for screenplay */}
+          {!isScreenplay && (
+            <section id="settings-citations">
+              <h3 className="text-xs font-ui font-semibold text-theme-accent uppercase tracking-wider mb-2">
+                Citations
+              </h3>
+              <div className="divide-y divide-theme-subtle">
+                <SettingRow label="Citation Style" description="Style the citation check validates against">
+                  <select
+                    value={draftCitationStyle}
+                    onChange={(e) => setDraftCitationStyle(e.target.value as CitationStyle)}
+                    className="input-modern text-sm py-1.5 px-3 w-48"
+                  >
+                    {CITATION_STYLES.map((style) => (
+                      <option key={style.value} value={style.value}>
+                        {style.name}
+                      </option>
+                    ))}
+                  </select>
+                </SettingRow>
+              </div>
+            </section>
+          )}
+
           {/* Screenplay Section - only for screenplay projects */}
           {isScreenplay && (
             <section id="settings-screenplay">
@@ -656,6 +790,86 @@ export function ProjectSettingsPanel() {
                   />
                 </SettingRow>
               </div>
+              <h4 className="text-xs font-ui font-medium text-theme-secondary mt-4 mb-1">Storyboard Timing</h4>
+              <p className="text-xs text-theme-muted mb-2">
+                How long shots play when they have no duration of their own, from the script block each is linked to.
+              </p>
+              <div className="divide-y divide-theme-subtle">
+                <SettingRow label="Fit to Target Runtime" description="Stretch or squeeze estimates so the whole script plays in the target runtime">
+                  <input
+                    type="checkbox"
+                    checked={draftPacing.fitToTargetRuntime}
+                    onChange={(e) => updatePacingDraft({ fitToTargetRuntime: e.target.checked })}
+                    disabled={draftTargetRuntime === undefined}
+                    className="accent-gold-400"
+                  />
+                </SettingRow>
+                <SettingRow label="Dialogue Rate" description="Speaking pace, in characters per second">
+                  <NumberStepper
+                    value={draftPacing.dialogueCharsPerSecond}
+                    onChange={(val) => val !== undefined && updatePacingDraft({ dialogueCharsPerSecond: val })}
+                    min={4}
+                    max={40}
+                    step={0.5}
+                    unit="chars/s"
+                  />
+                </SettingRow>
+                <SettingRow label="Action Reading Rate" description="Busy action with many clauses plays longer">
+                  <NumberStepper
+                    value={draftPacing.actionWordsPerMinute}
+                    onChange={(val) => val !== undefined && updatePacingDraft({ actionWordsPerMinute: val })}
+                    min={40}
+                    max={600}
+                    step={10}
+                    unit="wpm"
+                  />
+                </SettingRow>
+                <SettingRow label="Parenthetical Beat" description="Held for each parenthetical">
+                  <NumberStepper
+                    value={draftPacing.parentheticalMs / 1000}
+                    onChange={(val) => val !== undefined && updatePacingDraft({ parentheticalMs: Math.round(val * 1000) })}
+                    min={0}
+                    max={10}
+                    step={0.25}
+                    unit="s"
+                  />
+                </SettingRow>
+                <SettingRow label="Transition Hold" description="Held for each transition">
+                  <NumberStepper
+                    value={draftPacing.transitionMs / 1000}
+                    onChange={(val) => val !== undefined && updatePacingDraft({ transitionMs: Math.round(val * 1000) })}
+                    min={0}
+                    max={10}
+                    step={0.25}
+                    unit="s"
+                  />
+                </SettingRow>
+                <SettingRow label="Scene Heading Hold" description="Held for each scene heading">
+                  <NumberStepper
+                    value={draftPacing.sceneHeadingMs / 1000}
+                    onChange={(val) => val !== undefined && updatePacingDraft({ sceneHeadingMs: Math.round(val * 1000) })}
+                    min={0}
+                    max={10}
+                    step={0.25}
+                    unit="s"
+                  />
+                </SettingRow>
+                <SettingRow label="Table Read Calibration" description="Learn these rates by reading the script aloud and tapping through it">
+                  <button
+                    onClick={() => setIsCalibrating(true)}
+                    className="px-2 py-1 rounded-lg text-xs text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+                  >
+                    Calibrate…
+                  </button>
+                </SettingRow>
+              </div>
+              {isCalibrating && (
+                <PacingCalibrationDialog
+                  current={draftPacing}
+                  onApply={setDraftPacing}
+                  onClose={() => setIsCalibrating(false)}
+                />
+              )}
             </section>
           )}
 
@@ -720,6 +934,195 @@ export function ProjectSettingsPanel() {
             </div>
           </section>
 
+          {/* Rule Packs Section */}
+          <section id="settings-rulePacks">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-ui font-semibold text-theme-accent uppercase tracking-wider">
+                Rule Packs
+              </h3>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={loadRulePacks}
+                  className="btn-icon-modern p-1"
+                  title="Reload Rule Packs"
+                >
+                  <ArrowClockwiseRegular className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={handleOpenRulePacksFolder}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+                >
+                  <FolderOpenRegular className="w-3.5 h-3.5" />
+                  Open Folder
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-theme-muted mb-4">
+              House-style checks defined as JSON files in <code>.cadmus/rule-packs</code>. Enabled packs run with every build and report in the Problems panel.
+            </p>
+            {rulePacks && rulePacks.packs.length === 0 && rulePacks.errors.length === 0 && (
+              <p className="text-xs text-theme-muted">No rule packs yet. Open the folder to start from an example pack.</p>
+            )}
+            <div className="divide-y divide-theme-subtle">
+              {rulePacks?.packs.map(pack => {
+                const passId = `rule-pack:${pack.id}`
+                return (
+                  <SettingRow
+                    key={pack.id}
+                    label={pack.name}
+                    description={`${pack.description ? `${pack.description} ` : ''}(${pack.rules.length} ${pack.rules.length === 1 ? 'rule' : 'rules'})`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={draftEnabledPasses.includes(passId)}
+                      onChange={(e) => handleToggleRulePack(passId, e.target.checked)}
+                      className="accent-gold-400"
+                    />
+                  </SettingRow>
+                )
+              })}
+              {rulePacks?.errors.map(error => (
+                <SettingRow key={error.id} label={`${error.id}.json`} description={error.message}>
+                  <span className="text-xs text-red-400">Invalid</span>
+                </SettingRow>
+              ))}
+            </div>
+          </section>
+
+          {/* Suppressions Section */}
+          <section id="settings-suppressions">
+            <h3 className="text-xs font-ui font-semibold text-theme-accent uppercase tracking-wider mb-2">
+              Suppressions
+            </h3>
+            <p className="text-xs text-theme-muted mb-4">
+              Issues ignored from the Problems panel, stored in <code>.cadmus/suppressions.json</code>. Removing one brings its issues back on the next build.
+            </p>
+            {projectSuppressions && projectSuppressions.suppressions.length === 0 && !projectSuppressions.baseline && (
+              <p className="text-xs text-theme-muted">No suppressions. Use the ignore menu on an issue to add one.</p>
+            )}
+            <div className="divide-y divide-theme-subtle">
+              {projectSuppressions?.baseline && (
+                <SettingRow
+                  label="Baseline"
+                  description={`${projectSuppressions.baseline.fingerprints.length} issues present on ${new Date(projectSuppressions.baseline.createdAt).toLocaleDateString()} are hidden`}
+                >
+                  <button
+                    onClick={() => clearBaseline()}
+                    className="btn-icon-modern p-1"
+                    title="Clear Baseline"
+                  >
+                    <DismissRegular className="w-3.5 h-3.5" />
+                  </button>
+                </SettingRow>
+              )}
+              {projectSuppressions?.suppressions.map(suppression => (
+                <SettingRow
+                  key={suppression.id}
+                  label={suppression.title}
+                  description={describeSuppression(suppression)}
+                >
+                  <button
+                    onClick={() => removeSuppression(suppression.id)}
+                    className="btn-icon-modern p-1"
+                    title="Remove Suppression"
+                  >
+                    <DismissRegular className="w-3.5 h-3.5" />
+                  </button>
+                </SettingRow>
+              ))}
+            </div>
+          </section>
+
+          {/* Version History Section */}
+          <section id="settings-versionHistory">
+            <h3 className="text-xs font-ui font-semibold text-theme-accent uppercase tracking-wider mb-2">
+              Version History
+            </h3>
+            <p className="text-xs text-theme-muted mb-4">
+              Edited documents are snapshotted when saved. Older automatic snapshots are thinned to one per hour, then per day, then per week; versions you save or mark as milestones are always kept.
+            </p>
+            <div className="divide-y divide-theme-subtle">
+              <SettingRow label="Automatic Snapshots" description="Snapshot documents as you write">
+                <input
+                  type="checkbox"
+                  checked={draftVersionHistory.autoSnapshots}
+                  onChange={(e) => setDraftVersionHistory(prev => ({ ...prev, autoSnapshots: e.target.checked }))}
+                  className="accent-gold-400"
+                />
+              </SettingRow>
+              {draftVersionHistory.autoSnapshots && (
+                <>
+                  <SettingRow label="Snapshot Interval" description="Time since the last version before a changed document is snapshotted">
+                    <NumberStepper
+                      value={draftVersionHistory.intervalMinutes}
+                      onChange={(val) => val !== undefined && setDraftVersionHistory(prev => ({ ...prev, intervalMinutes: val }))}
+                      min={1}
+                      max={1440}
+                      step={5}
+                      unit="min"
+                    />
+                  </SettingRow>
+                  <SettingRow label="Word Change" description="Snapshot sooner once this many words were added or removed">
+                    <NumberStepper
+                      value={draftVersionHistory.wordDelta}
+                      onChange={(val) => val !== undefined && setDraftVersionHistory(prev => ({ ...prev, wordDelta: val }))}
+                      min={10}
+                      max={10000}
+                      step={50}
+                      unit="words"
+                    />
+                  </SettingRow>
+                  <SettingRow label="Keep All" description="Every snapshot younger than this is kept">
+                    <NumberStepper
+                      value={draftVersionHistory.retention.keepAllHours}
+                      onChange={(val) => val !== undefined && updateRetentionDraft({ keepAllHours: val })}
+                      min={0}
+                      max={168}
+                      step={1}
+                      unit="hours"
+                    />
+                  </SettingRow>
+                  <SettingRow label="Hourly" description="Then one snapshot per hour until this age">
+                    <NumberStepper
+                      value={draftVersionHistory.retention.hourlyDays}
+                      onChange={(val) => val !== undefined && updateRetentionDraft({ hourlyDays: val })}
+                      min={0}
+                      max={90}
+                      step={1}
+                      unit="days"
+                    />
+                  </SettingRow>
+                  <SettingRow label="Daily" description="Then one snapshot per day until this age">
+                    <NumberStepper
+                      value={draftVersionHistory.retention.dailyDays}
+                      onChange={(val) => val !== undefined && updateRetentionDraft({ dailyDays: val })}
+                      min={0}
+                      max={365}
+                      step={1}
+                      unit="days"
+                    />
+                  </SettingRow>
+                  <SettingRow label="Weekly" description="Then one snapshot per week until this age; older snapshots are removed">
+                    <NumberStepper
+                      value={draftVersionHistory.retention.weeklyDays}
+                      onChange={(val) => val !== undefined && updateRetentionDraft({ weeklyDays: val })}
+                      min={0}
+                      max={3650}
+                      step={7}
+                      unit="days"
+                    />
+                  </SettingRow>
+                </>
+              )}
+            </div>
+          </section>
+
+          {/* Git History Section (applied immediately) */}
+          <GitSection />
+
+          {/* Keyboard Shortcuts Section (app-wide, applied immediately) */}
+          <KeymapSection />
+
           {/* Reset */}
           <div className="pt-4 border-t border-theme-subtle">
             <button
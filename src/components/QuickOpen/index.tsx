@@ -0,0 +1,163 @@
+/**
+ * QuickOpen
+ *
+ * Search palette over the project search index: documents, saved versions
+ * and Thought Partner conversations, ranked block by block.
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import { clsx } from 'clsx'
+import {
+  ChatRegular,
+  DocumentRegular,
+  HistoryRegular,
+  SearchRegular
+} from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+import type { SearchResult, SearchResultKind } from '../../types/project'
+
+const SEARCH_DEBOUNCE_MS = 150
+
+const KIND_ICONS: Record<SearchResultKind, typeof DocumentRegular> = {
+  document: DocumentRegular,
+  version: HistoryRegular,
+  conversation: ChatRegular
+}
+
+const KIND_LABELS: Record<SearchResultKind, string> = {
+  document: 'Document',
+  version: 'Version',
+  conversation: 'Conversation'
+}
+
+export function QuickOpen() {
+  const { currentProject, setActiveModal, openSearchResult } = useProjectStore()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  // Search as the query changes
+  useEffect(() => {
+    if (!currentProject) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const found = await window.api.search.query(currentProject.path, query)
+        if (cancelled) return
+        setResults(found)
+        setSelectedIndex(0)
+      } catch (err) {
+        console.error('[QuickOpen] Search failed:', err)
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [currentProject, query])
+
+  // Keep the selected result in view
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' })
+  }, [selectedIndex])
+
+  const close = () => setActiveModal(null)
+
+  const open = (result: SearchResult) => {
+    close()
+    openSearchResult(result)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      close()
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setSelectedIndex(i => Math.min(i + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setSelectedIndex(i => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      e.preventDefault()
+      open(results[selectedIndex])
+    }
+  }
+
+  if (!currentProject) return null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-[12vh] bg-black/60 backdrop-blur-sm"
+      onClick={close}
+    >
+      <div
+        className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[600px] max-h-[60vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Query */}
+        <div className="relative border-b border-theme-subtle">
+          <SearchRegular className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-theme-muted" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search documents, versions and conversations"
+            className="w-full bg-transparent text-sm font-ui text-theme-primary pl-11 pr-4 py-3 focus:outline-none"
+          />
+        </div>
+
+        {/* Results */}
+        <div ref={listRef} className="flex-1 overflow-y-auto py-1">
+          {results.map((result, index) => {
+            const Icon = KIND_ICONS[result.kind]
+            return (
+              <button
+                key={`${result.kind}:${result.versionId || result.conversationId || result.documentId}:${result.blockId || result.messageId || ''}`}
+                onClick={() => open(result)}
+                onMouseMove={() => setSelectedIndex(index)}
+                className={clsx(
+                  'w-full flex items-start gap-3 px-4 py-2 text-left transition-colors',
+                  index === selectedIndex ? 'bg-theme-active' : 'hover:bg-theme-hover'
+                )}
+              >
+                <Icon className="w-4 h-4 mt-0.5 flex-shrink-0 text-theme-muted" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-ui text-theme-primary truncate">{result.title}</span>
+                    {result.subtitle && (
+                      <span className="text-xs font-ui text-theme-muted truncate">{result.subtitle}</span>
+                    )}
+                    <span className="ml-auto text-[10px] font-ui uppercase tracking-wider text-theme-muted flex-shrink-0">
+                      {KIND_LABELS[result.kind]}
+                    </span>
+                  </div>
+                  {result.text && (
+                    <p className="text-xs font-ui text-theme-secondary line-clamp-2 mt-0.5">{result.text}</p>
+                  )}
+                </div>
+              </button>
+            )
+          })}
+
+          {results.length === 0 && query.trim() && !isSearching && (
+            <p className="px-4 py-6 text-center text-sm font-ui text-theme-muted">No results</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+/**
+ * RecoveryDialog
+ *
+ * Shown after opening a project whose journal holds edits that were never
+ * saved (the app quit or crashed first). Each document can be restored to
+ * its journaled content or have the journal entry discarded.
+ */
+
+import { useState } from 'react'
+import { ArrowUndoRegular, DeleteRegular, DocumentRegular } from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+
+export function RecoveryDialog() {
+  const { recoverableDocuments, restoreJournaledDocument, discardJournaledDocument } = useProjectStore()
+  const [isWorking, setIsWorking] = useState(false)
+
+  if (recoverableDocuments.length === 0) return null
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    try {
+      await action()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const forAll = (action: (docId: string) => Promise<void>) => run(async () => {
+    for (const doc of recoverableDocuments) {
+      await action(doc.documentId)
+    }
+  })
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[480px] max-h-[70vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-theme-subtle">
+          <h3 className="text-sm font-ui font-semibold text-theme-primary">Recover Unsaved Changes</h3>
+          <p className="text-xs font-ui text-theme-muted mt-1">
+            Cadmus closed before these edits were saved. Restore them, or discard them to keep the saved version.
+          </p>
+        </div>
+
+        {/* Documents */}
+        <div className="flex-1 overflow-y-auto py-1">
+          {recoverableDocuments.map(doc => (
+            <div key={doc.documentId} className="flex items-center gap-3 px-4 py-2">
+              <DocumentRegular className="w-4 h-4 flex-shrink-0 text-theme-muted" />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-ui text-theme-primary truncate">{doc.title}</div>
+                <div className="text-xs font-ui text-theme-muted">
+                  Edited {new Date(doc.journaledAt).toLocaleString()}
+                </div>
+              </div>
+              <button
+                onClick={() => run(() => discardJournaledDocument(doc.documentId))}
+                disabled={isWorking}
+                className="btn-icon-modern p-1"
+                title="Discard Changes"
+              >
+                <DeleteRegular className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => run(() => restoreJournaledDocument(doc.documentId))}
+                disabled={isWorking}
+                className="btn-icon-modern p-1"
+                title="Restore Changes"
+              >
+                <ArrowUndoRegular className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-theme-subtle">
+          <button
+            onClick={() => forAll(discardJournaledDocument)}
+            disabled={isWorking}
+            className="px-3 py-1.5 rounded-lg text-sm font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            Discard All
+          </button>
+          <button
+            onClick={() => forAll(restoreJournaledDocument)}
+            disabled={isWorking}
+            className="px-3 py-1.5 rounded-lg text-sm font-ui font-medium bg-gold-500 text-black hover:bg-gold-400 transition-colors"
+          >
+            Restore All
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
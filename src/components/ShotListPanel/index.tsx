@@ -0,0 +1,415 @@
+/**
+ * ShotListPanel
+ *
+ * Sortable table of the screenplay's shot list. Entries are imported from the
+ * script's shot elements or the storyboard, edited in place and exported to
+ * CSV in the build folder.
+ */
+
+import { useState, useMemo, useCallback, useEffect } from 'react'
+import { clsx } from 'clsx'
+import type { JSONContent } from '@tiptap/core'
+import {
+  DismissRegular,
+  AddRegular,
+  DeleteRegular,
+  ArrowDownloadRegular,
+  ArrowUpRegular,
+  ArrowDownRegular,
+  FolderOpenRegular
+} from '@fluentui/react-icons'
+import { useProjectStore } from '../../stores/projectStore'
+import type { ShotListCsvResult, ShotListEntry, ShotListSort, ShotListSortKey } from '../../types/project'
+import { findScriptBlocks } from '../../utils/blockAnchoring'
+import {
+  SHOT_ANGLES,
+  SHOT_SIZES,
+  buildShotListRows,
+  sortShotListRows
+} from '../../utils/shotList'
+
+const COLUMNS: { key: ShotListSortKey | null; label: string; className: string }[] = [
+  { key: 'number', label: '#', className: 'w-10' },
+  { key: 'scene', label: 'Scene / Script', className: 'w-64' },
+  { key: 'setup', label: 'Setup', className: 'w-16' },
+  { key: 'size', label: 'Size', className: 'w-24' },
+  { key: 'angle', label: 'Angle', className: 'w-28' },
+  { key: 'movement', label: 'Movement', className: 'w-28' },
+  { key: 'lens', label: 'Lens', className: 'w-20' },
+  { key: 'setupMinutes', label: 'Setup Min', className: 'w-20' },
+  { key: null, label: 'Description', className: '' },
+  { key: null, label: 'Board', className: 'w-20' }
+]
+
+// Blocks an entry can be linked to, labelled in the picker by type
+const LINKABLE_ELEMENTS: Record<string, string> = {
+  'scene-heading': '',
+  'shot': '↳ ',
+  'action': '   · '
+}
+
+const cellInputClass = 'w-full px-1.5 py-1 rounded bg-transparent border border-transparent text-xs font-ui text-theme-primary hover:border-theme-subtle focus:border-amber-400/60 focus:outline-none'
+
+// Text or number cell that saves when it loses focus
+function EditableCell({
+  value,
+  type = 'text',
+  placeholder,
+  onCommit
+}: {
+  value: string | number | undefined
+  type?: 'text' | 'number'
+  placeholder?: string
+  onCommit: (value: string) => void
+}) {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value))
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value))
+  }, [value])
+
+  return (
+    <input
+      type={type}
+      min={type === 'number' ? 0 : undefined}
+      value={draft}
+      placeholder={placeholder}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== (value === undefined ? '' : String(value))) onCommit(draft)
+      }}
+      onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+      className={cellInputClass}
+    />
+  )
+}
+
+function parseNumber(value: string): number | undefined {
+  const number = parseFloat(value)
+  return Number.isFinite(number) && number >= 0 ? number : undefined
+}
+
+export function ShotListPanel() {
+  const {
+    currentProject,
+    documents,
+    setActiveModal,
+    importShotListEntries,
+    addShotListEntry,
+    updateShotListEntry,
+    linkShotListEntry,
+    removeShotListEntry,
+    exportShotListCsv
+  } = useProjectStore()
+
+  const [sort, setSort] = useState<ShotListSort>({ key: 'number', direction: 'asc' })
+  const [message, setMessage] = useState<string | null>(null)
+  const [exportResult, setExportResult] = useState<ShotListCsvResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const documentContents = useMemo(() => {
+    const contents: Record<string, JSONContent> = {}
+    for (const [id, doc] of Object.entries(documents)) {
+      if (doc.content) contents[id] = doc.content
+    }
+    return contents
+  }, [documents])
+
+  const rows = useMemo(() => {
+    if (!currentProject) return []
+    return sortShotListRows(buildShotListRows(currentProject, documentContents), sort)
+  }, [currentProject, documentContents, sort])
+
+  const linkableBlocks = useMemo(() => {
+    if (!currentProject) return []
+    return findScriptBlocks(currentProject, documentContents, Object.keys(LINKABLE_ELEMENTS))
+  }, [currentProject, documentContents])
+
+  const storyboardShots = useMemo(() => {
+    return [...(currentProject?.storyboard?.shots || [])].sort((a, b) => a.order - b.order)
+  }, [currentProject?.storyboard?.shots])
+
+  const onClose = useCallback(() => setActiveModal(null), [setActiveModal])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      // Escape leaves a cell first, saving it
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT') {
+        target.blur()
+      } else {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const handleSort = useCallback((key: ShotListSortKey) => {
+    setSort(current => ({
+      key,
+      direction: current.key === key && current.direction === 'asc' ? 'desc' : 'asc'
+    }))
+  }, [])
+
+  const handleImport = useCallback(async (source: 'script' | 'storyboard') => {
+    setError(null)
+    setExportResult(null)
+    const count = await importShotListEntries(source)
+    setMessage(count === 0
+      ? `Every ${source === 'script' ? 'shot in the script' : 'storyboard shot'} is already in the list.`
+      : `Added ${count} ${count === 1 ? 'shot' : 'shots'} from the ${source}.`)
+  }, [importShotListEntries])
+
+  const handleExport = useCallback(async () => {
+    setError(null)
+    setMessage(null)
+    try {
+      setExportResult(await exportShotListCsv(sort))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [exportShotListCsv, sort])
+
+  const update = useCallback((entry: ShotListEntry, updates: Partial<ShotListEntry>) => {
+    updateShotListEntry(entry.id, updates)
+  }, [updateShotListEntry])
+
+  if (!currentProject) return null
+
+  const totalSetupMinutes = rows.reduce((total, row) => total + (row.entry.setupMinutes || 0), 0)
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[min(1280px,95vw)] h-[85vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-theme-subtle">
+          <div className="flex items-baseline gap-3">
+            <h3 className="text-sm font-ui font-semibold text-theme-primary">Shot List</h3>
+            <span className="text-xs font-ui text-theme-muted">
+              {rows.length} {rows.length === 1 ? 'shot' : 'shots'}
+              {totalSetupMinutes > 0 && ` · ${totalSetupMinutes} min of setups`}
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => handleImport('script')}
+              className="px-2.5 py-1 rounded-lg text-xs font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+              title="Add an entry for each shot element in the script"
+            >
+              Import from Script
+            </button>
+            <button
+              onClick={() => handleImport('storyboard')}
+              disabled={storyboardShots.length === 0}
+              className="px-2.5 py-1 rounded-lg text-xs font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover disabled:opacity-40 transition-colors"
+              title="Add an entry for each storyboard shot"
+            >
+              Import from Storyboard
+            </button>
+            <button
+              onClick={addShotListEntry}
+              className="p-1.5 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-hover transition-colors"
+              title="Add Shot"
+            >
+              <AddRegular className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={rows.length === 0}
+              className="p-1.5 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-hover disabled:opacity-40 transition-colors"
+              title="Export CSV"
+            >
+              <ArrowDownloadRegular className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 ml-2 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-hover transition-colors"
+            >
+              <DismissRegular className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Table */}
+        <div className="flex-1 overflow-auto">
+          {rows.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center gap-2 text-sm font-ui text-theme-muted">
+              <p>No shots yet.</p>
+              <p className="text-xs">Import the script's shot lines or the storyboard, or add shots by hand.</p>
+            </div>
+          ) : (
+            <table className="w-full table-fixed border-collapse">
+              <thead className="sticky top-0 bg-theme-elevated z-10">
+                <tr className="border-b border-theme-subtle">
+                  {COLUMNS.map(column => (
+                    <th
+                      key={column.label}
+                      className={clsx('px-2 py-2 text-left text-[11px] font-ui font-medium uppercase tracking-wider text-theme-muted', column.className)}
+                    >
+                      {column.key ? (
+                        <button
+                          onClick={() => handleSort(column.key!)}
+                          className={clsx(
+                            'flex items-center gap-1 hover:text-theme-primary transition-colors',
+                            sort.key === column.key && 'text-theme-primary'
+                          )}
+                        >
+                          {column.label}
+                          {sort.key === column.key && (sort.direction === 'asc'
+                            ? <ArrowUpRegular className="w-3 h-3" />
+                            : <ArrowDownRegular className="w-3 h-3" />)}
+                        </button>
+                      ) : column.label}
+                    </th>
+                  ))}
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ entry, number, scene, scriptText, movement, lens }) => (
+                  <tr key={entry.id} className="group border-b border-theme-subtle/50 align-top hover:bg-theme-hover/40">
+                    <td className="px-2 py-1.5 text-xs font-ui font-semibold text-theme-secondary">{number}</td>
+                    <td className="px-1 py-1">
+                      <select
+                        value={entry.linkedBlock && !entry.isUnlinked ? `${entry.linkedBlock.documentId}:${entry.linkedBlock.blockId}` : ''}
+                        onChange={e => {
+                          const [documentId, blockId] = e.target.value.split(':')
+                          if (blockId) linkShotListEntry(entry.id, documentId, blockId)
+                        }}
+                        className={clsx(cellInputClass, 'font-mono truncate')}
+                        title={scriptText || undefined}
+                      >
+                        <option value="">{entry.isUnlinked ? 'Link lost - relink…' : 'Not linked'}</option>
+                        {linkableBlocks.map(block => (
+                          <option key={block.blockId} value={`${block.documentId}:${block.blockId}`}>
+                            {LINKABLE_ELEMENTS[block.elementType]}{block.text.slice(0, 60) || '(empty)'}
+                          </option>
+                        ))}
+                      </select>
+                      {(scene || scriptText) && (
+                        <div className="px-1.5 pt-0.5 text-[11px] font-ui text-theme-muted truncate">
+                          {scene && <span className="font-mono font-semibold">{scene}</span>}
+                          {scene && scriptText && ' · '}
+                          {scriptText}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-1 py-1">
+                      <EditableCell
+                        type="number"
+                        value={entry.setupNumber}
+                        onCommit={value => update(entry, { setupNumber: parseNumber(value) })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <select
+                        value={entry.size || ''}
+                        onChange={e => update(entry, { size: (e.target.value || undefined) as ShotListEntry['size'] })}
+                        className={cellInputClass}
+                      >
+                        <option value="">—</option>
+                        {SHOT_SIZES.map(size => (
+                          <option key={size.id} value={size.id}>{size.abbr} · {size.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-1 py-1">
+                      <select
+                        value={entry.angle || ''}
+                        onChange={e => update(entry, { angle: (e.target.value || undefined) as ShotListEntry['angle'] })}
+                        className={cellInputClass}
+                      >
+                        <option value="">—</option>
+                        {SHOT_ANGLES.map(angle => (
+                          <option key={angle.id} value={angle.id}>{angle.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-1 py-1">
+                      <EditableCell
+                        value={movement}
+                        placeholder="Static"
+                        onCommit={value => update(entry, { movement: value.trim() || undefined })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <EditableCell
+                        value={lens}
+                        placeholder="35mm"
+                        onCommit={value => update(entry, { lens: value.trim() || undefined })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <EditableCell
+                        type="number"
+                        value={entry.setupMinutes}
+                        onCommit={value => update(entry, { setupMinutes: parseNumber(value) })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <EditableCell
+                        value={entry.description}
+                        onCommit={value => update(entry, { description: value.trim() || undefined })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <select
+                        value={entry.storyboardShotId || ''}
+                        onChange={e => update(entry, { storyboardShotId: e.target.value || undefined })}
+                        className={cellInputClass}
+                      >
+                        <option value="">—</option>
+                        {storyboardShots.map((shot, i) => (
+                          <option key={shot.id} value={shot.id}>Shot {i + 1}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-1 py-1">
+                      <button
+                        onClick={() => removeShotListEntry(entry.id)}
+                        className="p-1 rounded text-theme-muted opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all"
+                        title="Remove Shot"
+                      >
+                        <DeleteRegular className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        {(message || exportResult || error) && (
+          <div className="flex items-center gap-3 px-4 py-2 border-t border-theme-subtle text-xs font-ui text-theme-muted">
+            {error ? (
+              <span className="text-red-400/80">{error}</span>
+            ) : exportResult ? (
+              <>
+                <span>Exported {exportResult.rowCount} shots to the build folder.</span>
+                <button
+                  onClick={() => window.api.animatic.reveal(exportResult.path)}
+                  className="flex items-center gap-1 text-theme-secondary hover:text-theme-primary transition-colors"
+                >
+                  <FolderOpenRegular className="w-3.5 h-3.5" />
+                  Show in Folder
+                </button>
+              </>
+            ) : (
+              <span>{message}</span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+/**
+ * AnimaticExportDialog
+ *
+ * Modal dialog for rendering the storyboard to an animatic in the build
+ * folder, as a video or a frame sequence.
+ */
+
+import { useState, useCallback } from 'react'
+import { useProjectStore } from '../../stores/projectStore'
+import { clsx } from 'clsx'
+import type { AnimaticFormat, AnimaticResult } from '../../types/project'
+import {
+  DismissRegular,
+  VideoClipRegular,
+  FolderOpenRegular
+} from '@fluentui/react-icons'
+
+interface AnimaticExportDialogProps {
+  onClose: () => void
+}
+
+const FORMATS: { id: AnimaticFormat; label: string; description: string }[] = [
+  { id: 'mp4', label: 'MP4', description: 'H.264 video, plays almost anywhere' },
+  { id: 'webm', label: 'WebM', description: 'VP9 video, smaller files' },
+  { id: 'frames', label: 'Frame Sequence', description: 'PNG per shot with an ffconcat timing list' }
+]
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export function AnimaticExportDialog({ onClose }: AnimaticExportDialogProps) {
+  const { exportAnimatic } = useProjectStore()
+  const [format, setFormat] = useState<AnimaticFormat>('mp4')
+  const [captions, setCaptions] = useState(true)
+  const [slates, setSlates] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const [result, setResult] = useState<AnimaticResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true)
+    setResult(null)
+    setError(null)
+    try {
+      setResult(await exportAnimatic({ format, captions, slates }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsExporting(false)
+    }
+  }, [exportAnimatic, format, captions, slates])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={isExporting ? undefined : onClose}
+      onKeyDown={e => e.key === 'Escape' && !isExporting && onClose()}
+    >
+      <div
+        className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[400px] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-theme-subtle">
+          <h3 className="text-sm font-ui font-semibold text-theme-primary">Export Animatic</h3>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="p-1 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            <DismissRegular className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="p-4 space-y-4">
+          <div className="space-y-1.5">
+            {FORMATS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setFormat(option.id)}
+                className={clsx(
+                  'w-full text-left px-3 py-2 rounded-lg border transition-colors',
+                  format === option.id
+                    ? 'border-amber-400 bg-amber-400/10'
+                    : 'border-theme-subtle hover:border-theme-default'
+                )}
+              >
+                <div className="text-sm font-ui text-theme-primary">{option.label}</div>
+                <div className="text-xs font-ui text-theme-muted">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm font-ui text-theme-secondary">
+            <input type="checkbox" checked={captions} onChange={e => setCaptions(e.target.checked)} />
+            Caption each shot with its linked script text
+          </label>
+          <label className="flex items-center gap-2 text-sm font-ui text-theme-secondary">
+            <input type="checkbox" checked={slates} onChange={e => setSlates(e.target.checked)} />
+            Show a slate with the scene heading at each new scene
+          </label>
+
+          {result && (
+            <div className="text-xs font-ui text-theme-muted space-y-1">
+              {result.format !== format && (
+                <p className="text-amber-400">ffmpeg was not found, so a frame sequence was written instead.</p>
+              )}
+              <p>
+                Wrote {result.frameCount} frames, {formatDuration(result.durationMs)} long, to the build folder.
+              </p>
+              <button
+                onClick={() => window.api.animatic.reveal(result.path)}
+                className="flex items-center gap-1 text-theme-secondary hover:text-theme-primary transition-colors"
+              >
+                <FolderOpenRegular className="w-3.5 h-3.5" />
+                Show in Folder
+              </button>
+            </div>
+          )}
+          {error && <p className="text-xs font-ui text-red-400/80">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-theme-subtle">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="px-3 py-1.5 rounded-lg text-sm font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            {result ? 'Done' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className={clsx(
+              'px-3 py-1.5 rounded-lg text-sm font-ui font-medium flex items-center gap-1.5 transition-colors',
+              isExporting
+                ? 'bg-theme-hover text-theme-muted cursor-not-allowed'
+                : 'bg-amber-400 text-black hover:bg-amber-300'
+            )}
+          >
+            <VideoClipRegular className="w-4 h-4" />
+            {isExporting ? 'Rendering…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
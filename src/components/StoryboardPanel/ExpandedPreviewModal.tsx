@@ -1,10 +1,11 @@
 /**
  * ExpandedPreviewModal
  * 
- * Full-screen modal for viewing storyboard playback with transport controls.
+ * Full-screen modal for viewing storyboard playback with transport controls,
+ * and for editing the camera details and notes of the current shot.
  */
 
-import { useCallback, useEffect, useMemo } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
 import type { StoryboardShot } from '../../types/project'
 import { getBlockText } from '../../utils/blockAnchoring'
@@ -22,6 +23,14 @@ import type { PlaybackSpeed } from '../../stores/projectStore'
 
 const SPEED_OPTIONS: PlaybackSpeed[] = [0.75, 1, 1.25, 1.5]
 
+type ShotDetailField = 'camera' | 'lens' | 'movement' | 'notes'
+
+const DETAIL_FIELDS: { field: Exclude<ShotDetailField, 'notes'>; label: string; placeholder: string }[] = [
+  { field: 'camera', label: 'Camera', placeholder: 'A cam, Wide' },
+  { field: 'lens', label: 'Lens', placeholder: '35mm' },
+  { field: 'movement', label: 'Movement', placeholder: 'Static, Dolly in' }
+]
+
 interface ExpandedPreviewModalProps {
   isOpen: boolean
   onClose: () => void
@@ -48,6 +57,54 @@ function isDialogueBlock(doc: JSONContent, blockId: string): boolean {
   return isDialogue
 }
 
+// Camera details and notes for a shot, saved as each field loses focus
+function ShotDetails({ shot }: { shot: StoryboardShot }) {
+  const { updateShot } = useProjectStore()
+  const [values, setValues] = useState<Record<ShotDetailField, string>>({
+    camera: shot.camera || '',
+    lens: shot.lens || '',
+    movement: shot.movement || '',
+    notes: shot.notes || ''
+  })
+
+  const handleBlur = useCallback((field: ShotDetailField) => {
+    const value = values[field].trim()
+    if (value === (shot[field] || '')) return
+    updateShot(shot.id, { [field]: value || undefined })
+  }, [values, shot, updateShot])
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-md bg-white/5 border border-white/10 text-sm font-ui text-white placeholder:text-white/25 focus:outline-none focus:border-amber-400/60'
+
+  return (
+    <div className="mt-4 p-4 bg-ink-900/80 rounded-lg backdrop-blur-sm flex-shrink-0 flex gap-3">
+      {DETAIL_FIELDS.map(({ field, label, placeholder }) => (
+        <label key={field} className="w-32 flex-shrink-0">
+          <span className="block mb-1 text-xs font-ui text-white/40">{label}</span>
+          <input
+            type="text"
+            value={values[field]}
+            placeholder={placeholder}
+            onChange={e => setValues(v => ({ ...v, [field]: e.target.value }))}
+            onBlur={() => handleBlur(field)}
+            className={inputClass}
+          />
+        </label>
+      ))}
+      <label className="flex-1 min-w-0">
+        <span className="block mb-1 text-xs font-ui text-white/40">Notes</span>
+        <textarea
+          value={values.notes}
+          placeholder="Notes for the storyboard sheets"
+          rows={1}
+          onChange={e => setValues(v => ({ ...v, notes: e.target.value }))}
+          onBlur={() => handleBlur('notes')}
+          className={clsx(inputClass, 'resize-none')}
+        />
+      </label>
+    </div>
+  )
+}
+
 export function ExpandedPreviewModal({ isOpen, onClose }: ExpandedPreviewModalProps) {
   const {
     currentProject,
@@ -104,6 +161,13 @@ export function ExpandedPreviewModal({ isOpen, onClose }: ExpandedPreviewModalPr
     if (!isOpen) return
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Typing in the shot details; Escape leaves the field, saving it
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+        if (e.key === 'Escape') target.blur()
+        return
+      }
+
       // Escape to close
       if (e.key === 'Escape') {
         e.preventDefault()
@@ -234,6 +298,9 @@ export function ExpandedPreviewModal({ isOpen, onClose }: ExpandedPreviewModalPr
           )}
         </div>
 
+        {/* Shot Details */}
+        {currentShot && <ShotDetails key={currentShot.id} shot={currentShot} />}
+
         {/* Transport Controls */}
         <div className="mt-4 p-5 bg-ink-900/80 rounded-lg backdrop-blur-sm flex-shrink-0">
           {/* Timeline Scrubber */}
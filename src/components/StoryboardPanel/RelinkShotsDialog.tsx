@@ -0,0 +1,221 @@
+/**
+ * RelinkShotsDialog
+ *
+ * Relinking assistant for shots whose script text could not be found again
+ * after edits. Lists each unlinked shot with the text it was linked to and
+ * the closest blocks across the script, to relink one at a time or all at
+ * once to their best matches.
+ */
+
+import { useState, useMemo, useCallback } from 'react'
+import type { JSONContent } from '@tiptap/core'
+import { clsx } from 'clsx'
+import { useProjectStore } from '../../stores/projectStore'
+import type { StoryboardShot } from '../../types/project'
+import {
+  getSceneHeadingsByBlock,
+  rankAnchorCandidates,
+  RELINK_SCORE,
+  type AnchorCandidate
+} from '../../utils/blockAnchoring'
+import {
+  DismissRegular,
+  LinkRegular,
+  LinkDismissRegular,
+  CheckmarkCircleRegular
+} from '@fluentui/react-icons'
+
+interface RelinkShotsDialogProps {
+  onClose: () => void
+}
+
+interface UnlinkedShot {
+  shot: StoryboardShot
+  number: number
+  candidates: AnchorCandidate[]
+}
+
+export function RelinkShotsDialog({ onClose }: RelinkShotsDialogProps) {
+  const { currentProject, assets, documents, relinkShots, unlinkShot } = useProjectStore()
+  const [isRelinking, setIsRelinking] = useState(false)
+
+  const contents = useMemo(() => {
+    const result: Record<string, JSONContent> = {}
+    for (const [id, doc] of Object.entries(documents)) {
+      if (doc.content) result[id] = doc.content
+    }
+    return result
+  }, [documents])
+
+  const headings = useMemo(
+    () => (currentProject ? getSceneHeadingsByBlock(currentProject, contents) : new Map<string, string>()),
+    [currentProject, contents]
+  )
+
+  const unlinked = useMemo(() => {
+    const shots = [...(currentProject?.storyboard?.shots || [])].sort((a, b) => a.order - b.order)
+    const result: UnlinkedShot[] = []
+    shots.forEach((shot, i) => {
+      if (!shot.linkedBlock || !shot.isUnlinked) return
+      result.push({
+        shot,
+        number: i + 1,
+        candidates: rankAnchorCandidates(contents, shot.linkedBlock.textSnapshot, shot.linkedBlock)
+      })
+    })
+    return result
+  }, [currentProject?.storyboard?.shots, contents])
+
+  const confident = unlinked.filter(u => u.candidates[0]?.score >= RELINK_SCORE)
+
+  const documentTitle = useCallback(
+    (documentId: string) => currentProject?.documents.find(d => d.id === documentId)?.title || 'Untitled',
+    [currentProject?.documents]
+  )
+
+  const relink = useCallback(async (links: { shotId: string; documentId: string; blockId: string }[]) => {
+    setIsRelinking(true)
+    try {
+      await relinkShots(links)
+    } finally {
+      setIsRelinking(false)
+    }
+  }, [relinkShots])
+
+  const handleRelinkAll = useCallback(() => relink(confident.map(({ shot, candidates: [best] }) => ({
+    shotId: shot.id,
+    documentId: best.documentId,
+    blockId: best.blockId
+  }))), [relink, confident])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={isRelinking ? undefined : onClose}
+      onKeyDown={e => e.key === 'Escape' && !isRelinking && onClose()}
+    >
+      <div
+        className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[600px] max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-theme-subtle">
+          <h3 className="text-sm font-ui font-semibold text-theme-primary">Relink Shots</h3>
+          <button
+            onClick={onClose}
+            disabled={isRelinking}
+            className="p-1 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            <DismissRegular className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Unlinked shots */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
+          {unlinked.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <CheckmarkCircleRegular className="w-8 h-8 text-green-400/80 mb-2" />
+              <p className="text-sm font-ui text-theme-secondary">Every linked shot has found its script text.</p>
+            </div>
+          ) : unlinked.map(({ shot, number, candidates }) => {
+            const asset = assets.find(a => a.id === shot.assetId)
+            return (
+              <div key={shot.id} className="border border-theme-subtle rounded-lg overflow-hidden">
+                <div className="flex gap-3 p-3 bg-theme-hover">
+                  <div className="w-20 aspect-video rounded bg-black/40 overflow-hidden flex-shrink-0">
+                    {asset && currentProject && (
+                      <img
+                        src={window.api.utils.getAssetUrl(currentProject.path, asset.path)}
+                        alt=""
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-ui text-theme-muted mb-0.5">Shot {number} was linked to</div>
+                    <p className="text-sm font-mono text-theme-secondary line-clamp-2">
+                      {shot.linkedBlock?.textSnapshot || <span className="italic">Empty block</span>}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => unlinkShot(shot.id)}
+                    disabled={isRelinking}
+                    className="self-start p-1 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-active transition-colors"
+                    title="Remove Link"
+                  >
+                    <LinkDismissRegular className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {candidates.length === 0 ? (
+                  <p className="px-3 py-2 text-xs font-ui text-theme-muted italic">
+                    No similar text in the script. Link it by hand from the storyboard.
+                  </p>
+                ) : (
+                  <ul>
+                    {candidates.map(candidate => (
+                      <li
+                        key={`${candidate.documentId}:${candidate.blockId}`}
+                        className="flex items-center gap-3 px-3 py-2 border-t border-theme-subtle"
+                      >
+                        <span
+                          className={clsx(
+                            'w-10 text-xs font-ui text-right flex-shrink-0',
+                            candidate.score >= RELINK_SCORE ? 'text-green-400' : 'text-theme-muted'
+                          )}
+                        >
+                          {Math.round(candidate.score * 100)}%
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-[10px] font-ui text-theme-muted truncate">
+                            {[documentTitle(candidate.documentId), headings.get(candidate.blockId)].filter(Boolean).join(' · ')}
+                          </div>
+                          <p className="text-xs font-mono text-theme-primary truncate">{candidate.text}</p>
+                        </div>
+                        <button
+                          onClick={() => relink([{ shotId: shot.id, documentId: candidate.documentId, blockId: candidate.blockId }])}
+                          disabled={isRelinking}
+                          className="flex items-center gap-1 px-2 py-1 rounded text-xs font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors flex-shrink-0"
+                        >
+                          <LinkRegular className="w-3.5 h-3.5" />
+                          Relink
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-theme-subtle">
+          <button
+            onClick={onClose}
+            disabled={isRelinking}
+            className="px-3 py-1.5 rounded-lg text-sm font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            {unlinked.length === 0 ? 'Done' : 'Close'}
+          </button>
+          {unlinked.length > 0 && (
+            <button
+              onClick={handleRelinkAll}
+              disabled={isRelinking || confident.length === 0}
+              className={clsx(
+                'px-3 py-1.5 rounded-lg text-sm font-ui font-medium flex items-center gap-1.5 transition-colors',
+                isRelinking || confident.length === 0
+                  ? 'bg-theme-hover text-theme-muted cursor-not-allowed'
+                  : 'bg-amber-400 text-black hover:bg-amber-300'
+              )}
+              title={`Relink shots whose best match is at least ${Math.round(RELINK_SCORE * 100)}% similar`}
+            >
+              <LinkRegular className="w-4 h-4" />
+              Relink {confident.length} to Best Match
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
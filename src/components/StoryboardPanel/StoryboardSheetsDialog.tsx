@@ -0,0 +1,136 @@
+/**
+ * StoryboardSheetsDialog
+ *
+ * Modal dialog for printing the storyboard to PDF sheets of shot panels in
+ * the build folder.
+ */
+
+import { useState, useCallback } from 'react'
+import { useProjectStore } from '../../stores/projectStore'
+import { clsx } from 'clsx'
+import type { StoryboardSheetLayout, StoryboardSheetResult } from '../../types/project'
+import {
+  DismissRegular,
+  PrintRegular,
+  FolderOpenRegular
+} from '@fluentui/react-icons'
+
+interface StoryboardSheetsDialogProps {
+  onClose: () => void
+}
+
+const LAYOUTS: { id: StoryboardSheetLayout; label: string; description: string }[] = [
+  { id: '2x3', label: '2 × 3', description: 'Six large panels per page, room for notes' },
+  { id: '3x4', label: '3 × 4', description: 'Twelve compact panels per page' }
+]
+
+export function StoryboardSheetsDialog({ onClose }: StoryboardSheetsDialogProps) {
+  const { exportStoryboardSheets } = useProjectStore()
+  const [layout, setLayout] = useState<StoryboardSheetLayout>('2x3')
+  const [isExporting, setIsExporting] = useState(false)
+  const [result, setResult] = useState<StoryboardSheetResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true)
+    setResult(null)
+    setError(null)
+    try {
+      setResult(await exportStoryboardSheets({ layout }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsExporting(false)
+    }
+  }, [exportStoryboardSheets, layout])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={isExporting ? undefined : onClose}
+      onKeyDown={e => e.key === 'Escape' && !isExporting && onClose()}
+    >
+      <div
+        className="bg-theme-elevated border border-theme-default rounded-xl shadow-2xl w-[400px] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-theme-subtle">
+          <h3 className="text-sm font-ui font-semibold text-theme-primary">Print Storyboard Sheets</h3>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="p-1 rounded text-theme-muted hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            <DismissRegular className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="p-4 space-y-4">
+          <div className="space-y-1.5">
+            {LAYOUTS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setLayout(option.id)}
+                className={clsx(
+                  'w-full text-left px-3 py-2 rounded-lg border transition-colors',
+                  layout === option.id
+                    ? 'border-amber-400 bg-amber-400/10'
+                    : 'border-theme-subtle hover:border-theme-default'
+                )}
+              >
+                <div className="text-sm font-ui text-theme-primary">{option.label}</div>
+                <div className="text-xs font-ui text-theme-muted">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs font-ui text-theme-muted">
+            Each panel shows the shot number, scene heading, duration, camera details, linked script text and notes.
+          </p>
+
+          {result && (
+            <div className="text-xs font-ui text-theme-muted space-y-1">
+              <p>
+                Wrote {result.pageCount} {result.pageCount === 1 ? 'page' : 'pages'} to the build folder.
+              </p>
+              <button
+                onClick={() => window.api.animatic.reveal(result.path)}
+                className="flex items-center gap-1 text-theme-secondary hover:text-theme-primary transition-colors"
+              >
+                <FolderOpenRegular className="w-3.5 h-3.5" />
+                Show in Folder
+              </button>
+            </div>
+          )}
+          {error && <p className="text-xs font-ui text-red-400/80">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-theme-subtle">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="px-3 py-1.5 rounded-lg text-sm font-ui text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+          >
+            {result ? 'Done' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className={clsx(
+              'px-3 py-1.5 rounded-lg text-sm font-ui font-medium flex items-center gap-1.5 transition-colors',
+              isExporting
+                ? 'bg-theme-hover text-theme-muted cursor-not-allowed'
+                : 'bg-amber-400 text-black hover:bg-amber-300'
+            )}
+          >
+            <PrintRegular className="w-4 h-4" />
+            {isExporting ? 'Printing…' : 'Export PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
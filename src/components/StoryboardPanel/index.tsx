@@ -5,8 +5,10 @@
  * Displays a list of shots, playback controls, and allows linking shots to script blocks.
  */
 
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
+import { useCommands } from '../../hooks/useCommands'
+import type { Command } from '../../utils/commands'
 import { clsx } from 'clsx'
 import { ShotThumbnail } from './ShotThumbnail'
 import { PlaybackPreview } from './PlaybackPreview'
@@ -18,24 +20,94 @@ import {
   LinkRegular,
   ArrowSortRegular,
   ImageRegular,
-  ArrowExpandRegular
+  ArrowExpandRegular,
+  VideoClipRegular,
+  PrintRegular,
+  TableRegular,
+  LinkDismissRegular,
+  DismissRegular
 } from '@fluentui/react-icons'
 import { ExpandedPreviewModal } from './ExpandedPreviewModal'
+import { AnimaticExportDialog } from './AnimaticExportDialog'
+import { StoryboardSheetsDialog } from './StoryboardSheetsDialog'
+import { RelinkShotsDialog } from './RelinkShotsDialog'
+
+const store = () => useProjectStore.getState()
+const isStoryboardActive = () => store().storyboardUI.mode && store().currentProject?.templateId === 'screenplay'
+
+// Playback commands, available while the storyboard is showing
+const STORYBOARD_COMMANDS: Command[] = [
+  {
+    id: 'storyboard.playPause',
+    title: 'Play/Pause',
+    category: 'Storyboard',
+    keys: 'Space',
+    when: isStoryboardActive,
+    run: () => store().togglePlayback()
+  },
+  {
+    id: 'storyboard.nextShot',
+    title: 'Next Shot',
+    category: 'Storyboard',
+    keys: 'ArrowRight',
+    when: isStoryboardActive,
+    run: () => store().nextShot()
+  },
+  {
+    id: 'storyboard.prevShot',
+    title: 'Previous Shot',
+    category: 'Storyboard',
+    keys: 'ArrowLeft',
+    when: isStoryboardActive,
+    run: () => store().prevShot()
+  },
+  {
+    id: 'storyboard.cancelLink',
+    title: 'Cancel Linking',
+    category: 'Storyboard',
+    keys: 'Escape',
+    // An open dialog such as the palette takes Escape for itself
+    when: () => store().storyboardUI.linkMode.active && !store().ui.activeModal,
+    run: () => store().cancelLinkMode()
+  },
+  {
+    id: 'storyboard.relinkShots',
+    title: 'Relink Unlinked Shots',
+    category: 'Storyboard',
+    when: () => isStoryboardActive() && !!store().currentProject?.storyboard?.shots.some(s => s.isUnlinked),
+    run: () => store().setActiveModal('relink-shots')
+  }
+]
 
 export function StoryboardPanel() {
   const { 
     currentProject,
+    activeDocumentId,
     assets,
+    ui,
     storyboardUI,
     storyboardPlayback,
     addShot,
     reorderShots,
     cancelLinkMode,
-    updateAssetCategory
+    updateAssetCategory,
+    setActiveModal,
+    repairStoryboardAnchors,
+    dismissRepairReport
   } = useProjectStore()
 
+  useCommands(STORYBOARD_COMMANDS)
+
+  // Re-anchor shots when the storyboard opens and on switching pages, which
+  // picks up edits made to the page just left
+  useEffect(() => {
+    repairStoryboardAnchors()
+  }, [currentProject?.path, activeDocumentId, repairStoryboardAnchors])
+
   const [isAssetPickerOpen, setIsAssetPickerOpen] = useState(false)
   const [isExpandedPreviewOpen, setIsExpandedPreviewOpen] = useState(false)
+  const [isAnimaticExportOpen, setIsAnimaticExportOpen] = useState(false)
+  const [isSheetsExportOpen, setIsSheetsExportOpen] = useState(false)
   const [draggedShotId, setDraggedShotId] = useState<string | null>(null)
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null)
   const [isDropTargetActive, setIsDropTargetActive] = useState(false)
@@ -46,6 +118,9 @@ export function StoryboardPanel() {
     return [...shotsList].sort((a, b) => a.order - b.order)
   }, [currentProject?.storyboard?.shots])
 
+  const unlinkedCount = shots.filter(s => s.linkedBlock && s.isUnlinked).length
+  const repairReport = storyboardUI.repairReport
+
   // Get image assets for picker
   const imageAssets = useMemo(() => {
     return assets.filter(a => a.type === 'image')
@@ -184,9 +259,72 @@ export function StoryboardPanel() {
               <LinkRegular className="w-4 h-4" />
             </button>
           )}
+          {unlinkedCount > 0 && (
+            <button
+              onClick={() => setActiveModal('relink-shots')}
+              className="btn-icon-modern p-1.5 text-amber-500"
+              title={`Relink ${unlinkedCount} Unlinked ${unlinkedCount === 1 ? 'Shot' : 'Shots'}`}
+            >
+              <LinkDismissRegular className="w-4 h-4" />
+            </button>
+          )}
+          {shots.length > 0 && (
+            <button
+              onClick={() => setIsAnimaticExportOpen(true)}
+              className="btn-icon-modern p-1.5"
+              title="Export Animatic"
+            >
+              <VideoClipRegular className="w-4 h-4" />
+            </button>
+          )}
+          {shots.length > 0 && (
+            <button
+              onClick={() => setIsSheetsExportOpen(true)}
+              className="btn-icon-modern p-1.5"
+              title="Print Storyboard Sheets"
+            >
+              <PrintRegular className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setActiveModal('shot-list')}
+            className="btn-icon-modern p-1.5"
+            title="Open Shot List"
+          >
+            <TableRegular className="w-4 h-4" />
+          </button>
         </div>
       </div>
 
+      {/* Anchor repair report */}
+      {repairReport && (repairReport.relinkedCount > 0 || unlinkedCount > 0) && (
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-theme-subtle bg-amber-400/10 text-xs font-ui text-theme-secondary">
+          <span className="flex-1">
+            {[
+              repairReport.relinkedCount > 0 &&
+                `Followed ${repairReport.relinkedCount} ${repairReport.relinkedCount === 1 ? 'shot' : 'shots'} to moved script text.`,
+              unlinkedCount > 0 &&
+                `${unlinkedCount} ${unlinkedCount === 1 ? 'shot has' : 'shots have'} lost ${unlinkedCount === 1 ? 'its' : 'their'} text.`
+            ].filter(Boolean).join(' ')}
+          </span>
+          {unlinkedCount > 0 && (
+            <button
+              onClick={() => setActiveModal('relink-shots')}
+              className="font-medium text-amber-600 dark:text-amber-400 hover:underline"
+            >
+              Review
+            </button>
+          )}
+          <button
+            onClick={dismissRepairReport}
+            className="p-0.5 rounded text-theme-muted hover:text-theme-primary transition-colors"
+            title="Dismiss"
+          >
+            <DismissRegular className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
       {/* Playback Preview - always visible */}
       <div className="storyboard-preview border-b border-theme-subtle relative group">
         <PlaybackPreview shot={currentShot} />
@@ -311,6 +449,21 @@ export function StoryboardPanel() {
         />
       )}
 
+      {/* Animatic Export Dialog */}
+      {isAnimaticExportOpen && (
+        <AnimaticExportDialog onClose={() => setIsAnimaticExportOpen(false)} />
+      )}
+
+      {/* Storyboard Sheets Dialog */}
+      {isSheetsExportOpen && (
+        <StoryboardSheetsDialog onClose={() => setIsSheetsExportOpen(false)} />
+      )}
+
+      {/* Relinking Assistant */}
+      {ui.activeModal === 'relink-shots' && (
+        <RelinkShotsDialog onClose={() => setActiveModal(null)} />
+      )}
+
       {/* Expanded Preview Modal */}
       <ExpandedPreviewModal
         isOpen={isExpandedPreviewOpen}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
 import { templates } from '../../workspaces'
-import type { Template, LivingDocument, DocumentLifecycleState, AgendaItem } from '../../types/project'
+import type { Template, LivingDocument, DocumentLifecycleState, AgendaItem, AIFeature, AIProviderSettings } from '../../types/project'
 import { TemplateCard } from './TemplateCard'
 import { RecentProjectCard } from './RecentProjectCard'
 import { AgendaItemCard } from './AgendaItemCard'
@@ -24,7 +24,9 @@ import {
   KeyRegular,
   CheckmarkCircleRegular,
   ChevronUpRegular,
-  ArrowImportRegular
+  ArrowImportRegular,
+  DocumentArrowLeftRegular,
+  BotRegular
 } from '@fluentui/react-icons'
 
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -35,6 +37,16 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   academic: HatGraduationRegular
 }
 
+// Labels for the per-feature model fields in settings
+const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  writing: 'Writing',
+  thoughtPartner: 'Thought Partner',
+  patcher: 'Edit Patcher',
+  critique: 'Critique',
+  documentGeneration: 'Document Generation',
+  suggestions: 'Suggestions'
+}
+
 // Filter options for living documents
 type FilterOption = 'all' | 'active' | 'paused' | 'review' | 'completed'
 
@@ -82,6 +94,7 @@ export function TemplatePicker() {
   const [hasApiKey, setHasApiKey] = useState(false)
   const [apiKeySaving, setApiKeySaving] = useState(false)
   const [apiKeyError, setApiKeyError] = useState<string | null>(null)
+  const [aiSettings, setAiSettings] = useState<AIProviderSettings | null>(null)
 
   // Load living documents on mount
   useEffect(() => {
@@ -109,6 +122,23 @@ export function TemplatePicker() {
     checkApiKey()
   }, [])
 
+  // Load AI provider settings on mount
+  useEffect(() => {
+    window.api.aiProvider.getSettings()
+      .then(setAiSettings)
+      .catch(() => setAiSettings(null))
+  }, [])
+
+  // Persist AI provider settings, then reload to pick up defaults for blank fields
+  const saveAiSettings = async (settings: Partial<AIProviderSettings>) => {
+    try {
+      await window.api.aiProvider.setSettings(settings)
+      setAiSettings(await window.api.aiProvider.getSettings())
+    } catch (err) {
+      console.error('Failed to save AI provider settings:', err)
+    }
+  }
+
   // Save API key handler
   const handleSaveApiKey = async () => {
     if (!apiKey.trim()) return
@@ -218,6 +248,21 @@ export function TemplatePicker() {
     await importProject(sourcePath, destinationPath)
   }
 
+  const handleImportScript = async () => {
+    // Step 1: Select a Fountain or Final Draft file
+    const sourcePath = await window.api.dialog.selectFile([
+      { name: 'Screenplays', extensions: ['fountain', 'spmd', 'fdx'] }
+    ])
+    if (!sourcePath) return
+
+    // Step 2: Select destination folder
+    const destinationPath = await window.api.dialog.selectFolder()
+    if (!destinationPath) return
+
+    // Step 3: Convert into a new screenplay project and open it
+    await importProject(sourcePath, destinationPath)
+  }
+
   const handleOpenLivingDocument = async (path: string) => {
     await openProject(path)
   }
@@ -393,6 +438,14 @@ export function TemplatePicker() {
                     <ArrowImportRegular className="w-3.5 h-3.5" />
                     {isLoading ? 'Importing...' : 'Import Project'}
                   </button>
+                  <button
+                    onClick={handleImportScript}
+                    className="btn-secondary-modern inline-flex items-center gap-2 text-xs px-3 py-1.5"
+                    disabled={isLoading}
+                  >
+                    <DocumentArrowLeftRegular className="w-3.5 h-3.5" />
+                    Import Script
+                  </button>
                 </div>
               </div>
 
@@ -640,6 +693,80 @@ export function TemplatePicker() {
                 </div>
               </div>
             </div>
+
+            {/* AI Provider */}
+            {aiSettings && (
+              <div className="p-4 bg-theme-active border border-theme-subtle rounded-xl">
+                <div className="flex items-start gap-3">
+                  <BotRegular className="w-5 h-5 text-amber-400 mt-0.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    <h3 className="text-sm font-ui font-medium text-theme-primary mb-1">
+                      AI Provider
+                    </h3>
+                    <p className="text-xs text-theme-secondary mb-3">
+                      Use the OpenAI API, any OpenAI-compatible endpoint such as a self-hosted server,
+                      or an offline mock that returns fixed responses without network access.
+                    </p>
+
+                    <div className="grid grid-cols-[8rem_1fr] items-center gap-2 text-xs font-ui">
+                      <label className="text-theme-secondary">Provider</label>
+                      <select
+                        value={aiSettings.provider}
+                        onChange={e => saveAiSettings({ provider: e.target.value as AIProviderSettings['provider'] })}
+                        className="px-3 py-2 rounded-lg bg-black/30 border border-white/10 text-sm text-white/90 focus:outline-none focus:border-amber-400/50"
+                      >
+                        <option value="openai">OpenAI-compatible</option>
+                        <option value="mock">Offline mock</option>
+                      </select>
+
+                      <label className="text-theme-secondary">Base URL</label>
+                      <input
+                        type="text"
+                        value={aiSettings.baseUrl}
+                        disabled={aiSettings.provider === 'mock'}
+                        onChange={e => setAiSettings({ ...aiSettings, baseUrl: e.target.value })}
+                        onBlur={() => saveAiSettings({ baseUrl: aiSettings.baseUrl })}
+                        className="px-3 py-2 rounded-lg bg-black/30 border border-white/10 text-sm text-white/90 font-mono focus:outline-none focus:border-amber-400/50 disabled:opacity-50"
+                      />
+
+                      <label className="text-theme-secondary">Timeout (seconds)</label>
+                      <input
+                        type="number"
+                        min={5}
+                        value={Math.round(aiSettings.timeoutMs / 1000)}
+                        onChange={e => setAiSettings({ ...aiSettings, timeoutMs: Math.max(5, Number(e.target.value) || 0) * 1000 })}
+                        onBlur={() => saveAiSettings({ timeoutMs: aiSettings.timeoutMs })}
+                        className="w-24 px-3 py-2 rounded-lg bg-black/30 border border-white/10 text-sm text-white/90 focus:outline-none focus:border-amber-400/50"
+                      />
+
+                      <label className="text-theme-secondary">Retries</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={5}
+                        value={aiSettings.maxRetries}
+                        onChange={e => setAiSettings({ ...aiSettings, maxRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) })}
+                        onBlur={() => saveAiSettings({ maxRetries: aiSettings.maxRetries })}
+                        className="w-24 px-3 py-2 rounded-lg bg-black/30 border border-white/10 text-sm text-white/90 focus:outline-none focus:border-amber-400/50"
+                      />
+
+                      {(Object.keys(AI_FEATURE_LABELS) as AIFeature[]).map(feature => (
+                        <div key={feature} className="contents">
+                          <label className="text-theme-secondary">{AI_FEATURE_LABELS[feature]}</label>
+                          <input
+                            type="text"
+                            value={aiSettings.models[feature]}
+                            onChange={e => setAiSettings({ ...aiSettings, models: { ...aiSettings.models, [feature]: e.target.value } })}
+                            onBlur={() => saveAiSettings({ models: { ...aiSettings.models } })}
+                            className="px-3 py-2 rounded-lg bg-black/30 border border-white/10 text-sm text-white/90 font-mono focus:outline-none focus:border-amber-400/50"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
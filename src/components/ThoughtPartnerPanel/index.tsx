@@ -1,5 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
+import { useCommands } from '../../hooks/useCommands'
+import type { Command } from '../../utils/commands'
 import { clsx } from 'clsx'
 import {
   HatGraduationSparkleRegular,
@@ -30,6 +32,30 @@ import { PlanCard } from './PlanCard'
 import { ReflectionCard } from './ReflectionCard'
 import { IdeaCardsGroup } from './IdeaCard'
 
+const store = () => useProjectStore.getState()
+
+// Commands the Thought Partner panel adds while it is open
+const THOUGHT_PARTNER_COMMANDS: Command[] = [
+  {
+    id: 'thoughtPartner.newConversation',
+    title: 'New Conversation',
+    category: 'Thought Partner',
+    run: () => store().createThoughtPartnerConversation()
+  },
+  {
+    id: 'thoughtPartner.conversations',
+    title: 'Show Conversations',
+    category: 'Thought Partner',
+    run: () => store().toggleThoughtPartnerConversationList()
+  },
+  {
+    id: 'thoughtPartner.agentMode',
+    title: 'Toggle Agent Mode',
+    category: 'Thought Partner',
+    run: () => store().toggleThoughtPartnerAgentMode()
+  }
+]
+
 export function ThoughtPartnerPanel() {
   const {
     thoughtPartner,
@@ -70,6 +96,8 @@ export function ThoughtPartnerPanel() {
     setCursorContextRadius,
   } = useProjectStore()
 
+  useCommands(THOUGHT_PARTNER_COMMANDS)
+
   const [inputText, setInputText] = useState('')
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
   const [excludeConscious, setExcludeConscious] = useState(false)
@@ -502,7 +502,7 @@ function SinScoreboard({ issues }: SinScoreboardProps) {
 interface CritiqueIssueCardProps {
   issue: CritiqueIssue
   onDismiss: () => void
-  onNavigate?: (documentId: string, blockId: string) => void
+  onNavigate?: (documentId: string, blockId: string, excerpt: string) => void
   onResolve?: (resolution: 'fixed' | 'intentional' | 'deferred') => void
 }
 
@@ -665,14 +665,14 @@ function CritiqueIssueCard({ issue, onDismiss, onNavigate, onResolve }: Critique
                 )}
               </div>
               
-              {/* Source button - navigate to first evidence with valid blockId */}
+              {/* Source button - navigate to first evidence in a document; its excerpt finds the block if it has moved */}
               {(() => {
                 const navigableEvidence = issue.evidence.find(ev => ev.documentId)
                 return navigableEvidence && onNavigate ? (
                   <button
                     onClick={(e) => {
                       e.stopPropagation()
-                      onNavigate(navigableEvidence.documentId, navigableEvidence.blockId || '')
+                      onNavigate(navigableEvidence.documentId, navigableEvidence.blockId || '', navigableEvidence.excerpt)
                     }}
                     className="mt-2 flex items-center gap-1.5 px-3 py-1.5 text-xs font-ui font-medium text-theme-accent bg-[var(--accent-gold-muted)] hover:bg-[var(--accent-gold-border)] rounded-md transition-colors w-full justify-center"
                   >
@@ -1078,9 +1078,9 @@ export function WritingPartnerPanel() {
   // Total active (unresolved) issues
   const activeCount = critiqueIssues.length - resolvedCount
 
-  const handleNavigate = async (documentId: string, blockId: string) => {
-    if (documentId && blockId) {
-      await navigateToCitation(documentId, blockId)
+  const handleNavigate = async (documentId: string, blockId: string, excerpt: string) => {
+    if (documentId && (blockId || excerpt)) {
+      await navigateToCitation(documentId, blockId, excerpt)
     }
   }
 
@@ -0,0 +1,17 @@
+/**
+ * useCommands Hook
+ *
+ * Contributes commands to the command registry while the calling component
+ * is mounted. Pass a stable array (usually defined at module level, reading
+ * the store with useProjectStore.getState()) so it is registered once.
+ */
+
+import { useEffect } from 'react'
+import { useProjectStore } from '../stores/projectStore'
+import type { Command } from '../utils/commands'
+
+export function useCommands(commands: Command[]) {
+  const registerCommands = useProjectStore(state => state.registerCommands)
+
+  useEffect(() => registerCommands(commands), [registerCommands, commands])
+}
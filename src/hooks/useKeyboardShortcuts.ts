@@ -1,138 +1,201 @@
 import { useEffect } from 'react'
 import { useProjectStore } from '../stores/projectStore'
+import { useCommands } from './useCommands'
+import { chordFromEvent, commandForChord, isTypingChord, type Command } from '../utils/commands'
+
+const store = () => useProjectStore.getState()
+
+// Commands available throughout the app; panels and workspaces add their own
+const APP_COMMANDS: Command[] = [
+  {
+    id: 'palette.open',
+    title: 'Show All Commands',
+    category: 'View',
+    keys: 'Mod+K',
+    when: () => !!store().currentProject,
+    run: () => store().setActiveModal('command-palette')
+  },
+  {
+    id: 'search.quickOpen',
+    title: 'Quick Open',
+    category: 'Search',
+    keys: 'Mod+P',
+    when: () => !!store().currentProject,
+    run: () => store().setActiveModal('quick-open')
+  },
+  {
+    id: 'search.findReplace',
+    title: 'Find & Replace in Project',
+    category: 'Search',
+    keys: 'Mod+Shift+F',
+    when: () => !!store().currentProject,
+    run: () => store().setFindReplacePanelOpen(true)
+  },
+  {
+    id: 'document.save',
+    title: 'Save',
+    category: 'Document',
+    keys: 'Mod+S',
+    when: () => !!store().activeDocumentId,
+    run: () => store().saveDocument(store().activeDocumentId!)
+  },
+  {
+    id: 'document.new',
+    title: 'New Document',
+    category: 'Document',
+    keys: 'Mod+N',
+    when: () => !!store().currentProject,
+    run: () => {
+      const defaultTitle = store().currentProject?.templateId === 'notes-journal' ? 'New Journal' : 'New Document'
+      return store().createDocument(defaultTitle)
+    }
+  },
+  {
+    id: 'document.saveVersion',
+    title: 'Save Version',
+    category: 'Document',
+    keys: 'Mod+Alt+S',
+    when: () => !!store().activeDocumentId,
+    run: () => store().saveVersion(store().activeDocumentId!)
+  },
+  {
+    id: 'document.versionHistory',
+    title: 'Toggle Version History',
+    category: 'Document',
+    when: () => !!store().activeDocumentId,
+    run: () => store().setVersionHistoryMode(!store().versionHistoryMode.active)
+  },
+  {
+    id: 'build.run',
+    title: 'Run Build',
+    category: 'Build',
+    keys: 'Mod+Shift+B',
+    when: () => !!store().currentProject,
+    run: () => store().runBuild()
+  },
+  {
+    id: 'build.runCurrentPage',
+    title: 'Check Current Page',
+    category: 'Build',
+    when: () => !!store().activeDocumentId,
+    run: () => store().runBuildCurrentPage()
+  },
+  {
+    id: 'view.readerMode',
+    title: 'Toggle Reader Mode',
+    category: 'View',
+    keys: 'Mod+Alt+R',
+    when: () => !!store().activeDocumentId,
+    run: () => store().toggleReaderMode()
+  },
+  {
+    id: 'view.leftSidebar',
+    title: 'Toggle Left Sidebar',
+    category: 'View',
+    when: () => !!store().currentProject,
+    run: () => store().toggleLeftSidebar()
+  },
+  {
+    id: 'view.rightSidebar',
+    title: 'Toggle Right Sidebar',
+    category: 'View',
+    when: () => !!store().currentProject,
+    run: () => store().toggleRightSidebar()
+  },
+  {
+    id: 'view.problems',
+    title: 'Toggle Problems Panel',
+    category: 'View',
+    keys: 'Mod+Shift+M',
+    when: () => !!store().currentProject,
+    run: () => store().toggleBottomPanel()
+  },
+  {
+    id: 'view.thoughtPartner',
+    title: 'Toggle Thought Partner',
+    category: 'View',
+    when: () => !!store().currentProject,
+    run: () => store().toggleThoughtPartnerPanel()
+  },
+  {
+    id: 'view.theme',
+    title: 'Toggle Light/Dark Theme',
+    category: 'View',
+    run: () => store().toggleTheme()
+  },
+  {
+    id: 'view.zoomIn',
+    title: 'Zoom In',
+    category: 'View',
+    keys: 'Mod+=',
+    altKeys: ['Mod+Shift+Plus', 'Mod+Plus'],
+    run: () => store().zoomIn()
+  },
+  {
+    id: 'view.zoomOut',
+    title: 'Zoom Out',
+    category: 'View',
+    keys: 'Mod+-',
+    run: () => store().zoomOut()
+  },
+  {
+    id: 'view.resetZoom',
+    title: 'Reset Zoom',
+    category: 'View',
+    keys: 'Mod+0',
+    run: () => store().resetZoom()
+  },
+  {
+    id: 'project.settings',
+    title: 'Open Project Settings',
+    category: 'Project',
+    keys: 'Mod+,',
+    when: () => !!store().currentProject,
+    run: () => store().setSettingsPanelOpen(true)
+  },
+  {
+    id: 'project.syncGit',
+    title: 'Sync Git History',
+    category: 'Project',
+    when: () => !!store().gitStatus?.remote,
+    run: () => store().syncGitHistory()
+  },
+  {
+    id: 'project.close',
+    title: 'Close Project',
+    category: 'Project',
+    when: () => !!store().currentProject,
+    run: () => store().closeProject()
+  }
+]
 
 /**
- * Global keyboard shortcuts for the application
+ * Global keyboard shortcuts for the application: runs the registered
+ * command bound to each key chord (see utils/commands)
  */
 export function useKeyboardShortcuts() {
-  const {
-    activeDocumentId,
-    saveDocument,
-    createDocument,
-    runBuild,
-    zoomIn,
-    zoomOut,
-    resetZoom,
-    // Storyboard shortcuts
-    storyboardUI,
-    togglePlayback,
-    nextShot,
-    prevShot,
-    cancelLinkMode,
-    currentProject,
-    // Writing Partner
-    toggleWritingPartnerPanel
-  } = useProjectStore()
-
-  // Check if storyboard mode is active (for enabling playback shortcuts)
-  const isStoryboardActive = storyboardUI.mode && currentProject?.templateId === 'screenplay'
+  useCommands(APP_COMMANDS)
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      const isMod = e.metaKey || e.ctrlKey
+      const chord = chordFromEvent(e)
+      if (!chord) return
+
       const target = e.target as HTMLElement
       const isInputElement = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable
+      if (isInputElement && isTypingChord(chord)) return
 
-      // Storyboard shortcuts (only when storyboard is active and not in input)
-      if (isStoryboardActive) {
-        // Space - Play/Pause (only if not in an editable element)
-        if (e.key === ' ' && !isInputElement) {
-          e.preventDefault()
-          togglePlayback()
-          return
-        }
-
-        // Arrow Right - Next Shot (only if not in an editable element)
-        if (e.key === 'ArrowRight' && !isInputElement && !isMod) {
-          e.preventDefault()
-          nextShot()
-          return
-        }
-
-        // Arrow Left - Previous Shot (only if not in an editable element)
-        if (e.key === 'ArrowLeft' && !isInputElement && !isMod) {
-          e.preventDefault()
-          prevShot()
-          return
-        }
-
-        // Escape - Cancel link mode or exit storyboard playback
-        if (e.key === 'Escape') {
-          if (storyboardUI.linkMode.active) {
-            e.preventDefault()
-            cancelLinkMode()
-            return
-          }
-        }
-      }
-
-      // Cmd/Ctrl + S - Save
-      if (isMod && e.key === 's') {
-        e.preventDefault()
-        if (activeDocumentId) {
-          saveDocument(activeDocumentId)
-        }
-      }
-
-      // Cmd/Ctrl + N - New Document/Journal
-      if (isMod && e.key === 'n') {
-        e.preventDefault()
-        const defaultTitle = currentProject?.templateId === 'notes-journal' ? 'New Journal' : 'New Document'
-        createDocument(defaultTitle)
-      }
-
-      // Cmd/Ctrl + Shift + B - Run Build
-      if (isMod && e.shiftKey && e.key === 'B') {
-        e.preventDefault()
-        runBuild()
-      }
-
-      // Cmd/Ctrl + Plus/= - Zoom In
-      if (isMod && (e.key === '+' || e.key === '=')) {
-        e.preventDefault()
-        zoomIn()
-      }
-
-      // Cmd/Ctrl + Minus - Zoom Out
-      if (isMod && e.key === '-') {
-        e.preventDefault()
-        zoomOut()
-      }
-
-      // Cmd/Ctrl + 0 - Reset Zoom
-      if (isMod && e.key === '0') {
-        e.preventDefault()
-        resetZoom()
-      }
+      const { commands, keymap } = store()
+      const command = commandForChord(Object.values(commands), keymap, chord)
+      if (!command) return
 
-      // Cmd/Ctrl + Shift + P - Toggle Writing Partner Panel (screenplay only)
-      if (isMod && e.shiftKey && e.key === 'P') {
-        if (currentProject?.templateId === 'screenplay') {
-          e.preventDefault()
-          toggleWritingPartnerPanel()
-        }
-      }
+      e.preventDefault()
+      Promise.resolve(command.run()).catch(error => {
+        console.error(`[Commands] "${command.id}" failed:`, error)
+      })
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [
-    activeDocumentId,
-    saveDocument,
-    createDocument,
-    runBuild,
-    zoomIn,
-    zoomOut,
-    resetZoom,
-    // Storyboard dependencies
-    isStoryboardActive,
-    storyboardUI.linkMode.active,
-    togglePlayback,
-    nextShot,
-    prevShot,
-    cancelLinkMode,
-    // Writing Partner
-    currentProject?.templateId,
-    toggleWritingPartnerPanel
-  ])
+  }, [])
 }
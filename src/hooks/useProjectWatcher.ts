@@ -0,0 +1,24 @@
+import { useEffect } from 'react'
+import { useProjectStore } from '../stores/projectStore'
+
+/**
+ * Hook that watches the open project for changes made outside the app
+ * (a sync tool, a git checkout, a second window) and hands them to the store
+ */
+export function useProjectWatcher() {
+  const projectPath = useProjectStore(state => state.currentProject?.path)
+  const handleExternalChange = useProjectStore(state => state.handleExternalChange)
+
+  useEffect(() => window.api.watcher.onChange(handleExternalChange), [handleExternalChange])
+
+  useEffect(() => {
+    if (!projectPath) return
+
+    window.api.watcher.start(projectPath).catch(error => {
+      console.error('[ProjectWatcher] Failed to watch project:', error)
+    })
+    return () => {
+      window.api.watcher.stop()
+    }
+  }, [projectPath])
+}
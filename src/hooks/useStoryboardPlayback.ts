@@ -8,7 +8,7 @@
 
 import { useEffect, useRef, useCallback, useMemo } from 'react'
 import { useProjectStore } from '../stores/projectStore'
-import { getShotDuration } from '../utils/blockAnchoring'
+import { createPacingModel, getShotDuration } from '../utils/pacing'
 
 // Minimum time between playback ticks (ms)
 const TICK_INTERVAL = 50
@@ -49,8 +49,9 @@ export function useStoryboardPlayback() {
         documentContents[id] = state.content
       }
     }
-    return getShotDuration(currentShot, documentContents)
-  }, [currentShot, documents])
+    const pacing = currentProject ? createPacingModel(currentProject, documentContents) : undefined
+    return getShotDuration(currentShot, documentContents, pacing)
+  }, [currentShot, currentProject, documents])
 
   // Update editor highlighting based on current shot
   // This effect sets the highlighted block in the store whenever the shot changes
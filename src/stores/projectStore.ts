@@ -6,6 +6,7 @@ import type {
   Template,
   Diagnostic,
   BuildResult,
+  BuildProgress,
   Character,
   Prop,
   DocumentVersion,
@@ -28,12 +29,36 @@ import type {
   ActBreakDocOutput,
   CritiqueIssue,
   IssueResolution,
-  StoredCritiqueResolution
+  StoredCritiqueResolution,
+  ProjectSuppressions,
+  SuppressionScope,
+  SearchResult,
+  Keymap,
+  RecoverableDocument,
+  ExternalChange,
+  ExternalConflict,
+  AnimaticOptions,
+  AnimaticResult,
+  StoryboardSheetOptions,
+  StoryboardSheetResult,
+  ShotList,
+  ShotListEntry,
+  ShotListSort,
+  ShotListCsvResult,
+  DocumentDrafts,
+  GitStatus,
+  GitSyncResult
 } from '../types/project'
 import type { SceneState, CharacterEligibility, PipelineResult } from '../../shared/sceneStateTypes'
 import type { JSONContent } from '@tiptap/core'
-import { getWorkspaceConfig } from '../workspaces'
+import { getWorkspaceConfig, getTemplateById } from '../workspaces'
 import { contentToPlainText, contentToPlainTextWithPositions, plainTextOffsetToDocPos } from '../utils/selectionUtils'
+import { applySuppressions, createSuppression, diagnosticFingerprint } from '../utils/diagnosticSuppression'
+import { buildSearchPattern, expandReplacement, findInDocument, replaceInDocument, type FindMatch, type FindOptions } from '../utils/findReplace'
+import type { Command } from '../utils/commands'
+import { hasMergeConflicts, mergeDrafts } from '../utils/blockMerge'
+import { captureBlockAnchor, findScriptBlocks, getBlockText, repairAnchors, resolveBlockReference } from '../utils/blockAnchoring'
+import { getIllustratingShot, getScriptPositions, parseShotLine } from '../utils/shotList'
 import type { WorkspaceLayoutState } from '../../shared/workspaceStateTypes'
 
 // Helper to escape special regex characters
@@ -1566,7 +1591,7 @@ interface UIState {
   leftSidebarWidth: number
   rightSidebarWidth: number
   storyboardPanelWidth: number
-  activeModal: 'template-picker' | 'settings' | 'export' | null
+  activeModal: 'template-picker' | 'settings' | 'export' | 'quick-open' | 'command-palette' | 'shot-list' | 'relink-shots' | null
   isBuilding: boolean
   viewZoom: number // Zoom percentage (50-200)
   theme: 'dark' | 'light'
@@ -1574,6 +1599,7 @@ interface UIState {
   writingPartnerPanelOpen: boolean // Writing Partner panel
   isRunningCritique: boolean // Running dramatic critique analysis
   settingsPanelOpen: boolean // Project settings panel
+  findReplacePanelOpen: boolean // Project-wide find & replace (in the left sidebar)
   drawingMode: boolean // Freehand drawing overlay active
   infiniteCanvas: boolean // Infinite canvas mode - free scroll in all directions
   thoughtPartnerPanelOpen: boolean // Thought Partner chat panel
@@ -1626,6 +1652,15 @@ interface ScrollTargetRange {
   timestamp: number // Used to trigger effect even for same range
 }
 
+// A project-wide replace, kept so it can be undone
+interface ReplaceOperation {
+  label: string
+  count: number
+  before: Record<string, JSONContent>
+  after: Record<string, JSONContent> // To tell whether a document was edited since
+  renamedCharacter?: { id: string; previousName: string }
+}
+
 // Version history mode state
 interface VersionHistoryMode {
   active: boolean
@@ -1648,12 +1683,20 @@ interface StoryboardLinkMode {
   targetShotId: string | null // Shot being linked
 }
 
+// Outcome of the last automatic anchor repair; shots it could not
+// relink are the ones marked isUnlinked
+interface AnchorRepairReport {
+  relinkedCount: number       // Shots moved to where their text went
+  unlinkedCount: number
+}
+
 // Storyboard UI state
 interface StoryboardUIState {
   mode: boolean               // Is storyboard split view active
   linkMode: StoryboardLinkMode
   highlightedBlockId: string | null
   highlightedDocumentId: string | null
+  repairReport: AnchorRepairReport | null
 }
 
 // Image generation modal state
@@ -1680,7 +1723,11 @@ interface ProjectState {
 
   // Build state
   lastBuildResult: BuildResult | null
+  buildProgress: BuildProgress | null
   diagnostics: Diagnostic[]
+  // Suppressions for the open project (loaded on first build) and the diagnostics they hide
+  suppressions: { projectPath: string; data: ProjectSuppressions } | null
+  suppressedDiagnostics: Diagnostic[]
 
   // UI state
   ui: UIState
@@ -1703,9 +1750,29 @@ interface ProjectState {
   // Mention scan state
   mentionScanState: MentionScanState | null
   
+  // Find & replace undo stack (most recent last)
+  replaceHistory: ReplaceOperation[]
+
+  // Commands contributed by mounted components, and the user's key bindings
+  commands: Record<string, Command>
+  keymap: Keymap
+
+  // Journaled edits a previous session never saved, offered back on open
+  recoverableDocuments: RecoverableDocument[]
+
+  // Documents changed on disk while they had unsaved edits
+  externalConflicts: ExternalConflict[]
+
   // Version history state
   documentVersions: Record<string, DocumentVersion[]>
   versionHistoryMode: VersionHistoryMode
+
+  // Alternate drafts, by document id
+  documentDrafts: Record<string, DocumentDrafts>
+
+  // Git-backed history of the open project; the error is from the last git action
+  gitStatus: GitStatus | null
+  gitError: string | null
   
   // Storyboard state (for screenplay projects)
   storyboardPlayback: StoryboardPlaybackState
@@ -1865,6 +1932,27 @@ interface ProjectState {
   toggleSettingsPanel: () => void
   setSettingsPanelOpen: (open: boolean) => void
 
+  // Find & replace actions
+  setFindReplacePanelOpen: (open: boolean) => void
+  findInProject: (options: FindOptions) => Promise<FindMatch[]>
+  replaceInProject: (options: FindOptions, replacement: string, matchIds: string[], renameCharacterId?: string) => Promise<number>
+  undoReplace: () => Promise<void>
+
+  // Journal recovery actions
+  restoreJournaledDocument: (docId: string) => Promise<void>
+  discardJournaledDocument: (docId: string) => Promise<void>
+
+  // External change actions
+  handleExternalChange: (change: ExternalChange) => void
+  keepLocalVersion: (docId: string) => Promise<void>
+  loadExternalVersion: (docId: string) => Promise<void>
+
+  // Command & keymap actions
+  registerCommands: (commands: Command[]) => () => void
+  loadKeymap: () => Promise<void>
+  setKeybinding: (commandId: string, chord: string | null) => Promise<void>
+  resetKeybinding: (commandId: string) => Promise<void>
+
   // Thought Partner actions
   toggleThoughtPartnerPanel: () => void
   setThoughtPartnerPanelWidth: (width: number) => void
@@ -1930,17 +2018,29 @@ interface ProjectState {
   initializeTheme: () => Promise<void>
   
   // Citation navigation actions
-  navigateToCitation: (documentId: string, blockId: string) => Promise<void>
+  // The cited text, when given, finds the block again if it has since gone
+  navigateToCitation: (documentId: string, blockId: string, text?: string) => Promise<void>
   clearScrollTarget: () => void
   
   // Range navigation actions
   navigateToRange: (documentId: string, range: { from: number; to: number }) => Promise<void>
   clearScrollTargetRange: () => void
+
+  // Project search actions
+  openSearchResult: (result: SearchResult) => Promise<void>
   
   // Fix preview actions
   requestFix: (diagnostic: Diagnostic) => void
   clearFixRequest: () => void
   removeDiagnostic: (diagnosticId: string) => void
+  addToDictionary: (word: string, scope: 'project' | 'user') => Promise<void>
+
+  // Suppression actions
+  loadSuppressions: () => Promise<ProjectSuppressions | null>
+  suppressDiagnostic: (diagnostic: Diagnostic, scope: SuppressionScope) => Promise<void>
+  removeSuppression: (suppressionId: string) => Promise<void>
+  setBaseline: () => Promise<void>
+  clearBaseline: () => Promise<void>
   
   // Batch fix actions
   startBatchFix: (diagnostics: Diagnostic[]) => void
@@ -1987,9 +2087,24 @@ interface ProjectState {
   saveVersion: (docId: string, label?: string) => Promise<void>
   loadVersions: (docId: string) => Promise<void>
   deleteVersion: (docId: string, versionId: string) => Promise<void>
+  labelVersion: (docId: string, versionId: string, label: string | undefined, milestone: boolean) => Promise<void>
   restoreVersion: (docId: string, versionId: string) => Promise<void>
   setVersionHistoryMode: (active: boolean, selectedVersionId?: string | null) => void
   getVersions: (docId: string) => DocumentVersion[]
+
+  // Draft actions
+  loadDrafts: (docId: string) => Promise<void>
+  createDraft: (docId: string, name: string) => Promise<void>
+  switchDraft: (docId: string, branchId: string) => Promise<void>
+  mergeDraft: (docId: string, branchId: string) => Promise<number | null>
+  renameDraft: (docId: string, draftId: string, name: string) => Promise<void>
+  deleteDraft: (docId: string, branchId: string) => Promise<void>
+
+  // Git history actions
+  loadGitStatus: () => Promise<void>
+  initGitHistory: () => Promise<void>
+  setGitRemote: (remotePath: string) => Promise<void>
+  syncGitHistory: () => Promise<GitSyncResult | null>
   
   // Storyboard actions (for screenplay projects)
   toggleStoryboardMode: () => void
@@ -2006,6 +2121,12 @@ interface ProjectState {
   cancelLinkMode: () => void
   linkShotToBlock: (shotId: string, anchor: BlockAnchor) => Promise<void>
   unlinkShot: (shotId: string) => Promise<void>
+
+  // Anchor repair actions
+  // Relink shots whose text moved and flag those whose text is gone
+  repairStoryboardAnchors: () => Promise<void>
+  relinkShots: (links: { shotId: string; documentId: string; blockId: string }[]) => Promise<void>
+  dismissRepairReport: () => void
   
   // Playback actions
   playStoryboard: () => void
@@ -2023,10 +2144,29 @@ interface ProjectState {
   
   // Storyboard persistence
   saveStoryboard: () => Promise<void>
+
+  // Render the storyboard to an animatic in the build folder; throws on failure
+  exportAnimatic: (options: AnimaticOptions) => Promise<AnimaticResult>
+
+  // Print the storyboard as PDF sheets of shot panels; throws on failure
+  exportStoryboardSheets: (options: StoryboardSheetOptions) => Promise<StoryboardSheetResult>
   
   // Get shot by ID
   getShot: (shotId: string) => StoryboardShot | undefined
   getShots: () => StoryboardShot[]
+
+  // Shot list actions (for screenplay projects)
+  // Add an entry for each shot element in the script, or each storyboard
+  // shot, not yet in the list; returns how many were added
+  importShotListEntries: (source: 'script' | 'storyboard') => Promise<number>
+  addShotListEntry: () => Promise<void>
+  updateShotListEntry: (entryId: string, updates: Partial<ShotListEntry>) => Promise<void>
+  linkShotListEntry: (entryId: string, documentId: string, blockId: string) => Promise<void>
+  removeShotListEntry: (entryId: string) => Promise<void>
+  saveShotList: () => Promise<void>
+
+  // Write the shot list to a CSV in the build folder, sorted as given; throws on failure
+  exportShotListCsv: (sort: ShotListSort) => Promise<ShotListCsvResult>
   
   // Agenda item actions (for NotesJournal todo tracking)
   loadAgendaItems: () => Promise<void>
@@ -2058,6 +2198,170 @@ interface ProjectState {
 let _workspaceLayoutSaveTimer: ReturnType<typeof setTimeout> | null = null
 let _docViewSaveTimer: ReturnType<typeof setTimeout> | null = null
 
+// Run the build IPC, streaming pass diagnostics into the Problems panel as they arrive
+async function runBuildWithProgress(
+  set: (partial: (state: ProjectState) => Partial<ProjectState>) => void,
+  project: Project,
+  documentContents: Record<string, JSONContent>,
+  suppressions: ProjectSuppressions | null
+): Promise<BuildResult> {
+  const unsubscribe = window.api.build.onProgress(progress => {
+    const { visible, suppressed } = applySuppressions(progress.diagnostics, suppressions)
+    set(state => ({
+      buildProgress: progress,
+      diagnostics: [...state.diagnostics, ...visible],
+      suppressedDiagnostics: [...state.suppressedDiagnostics, ...suppressed]
+    }))
+  })
+
+  try {
+    return await window.api.build.run(project, documentContents)
+  } finally {
+    unsubscribe()
+    set(() => ({ buildProgress: null }))
+  }
+}
+
+// Persist the project's suppressions and re-filter the diagnostics on screen
+async function saveSuppressions(
+  set: (partial: Partial<ProjectState>) => void,
+  get: () => ProjectState,
+  data: ProjectSuppressions
+): Promise<void> {
+  const { currentProject, diagnostics, suppressedDiagnostics, lastBuildResult } = get()
+  if (!currentProject) return
+
+  try {
+    await window.api.suppressions.save(currentProject.path, data)
+    const { visible, suppressed } = applySuppressions([...diagnostics, ...suppressedDiagnostics], data)
+    set({
+      suppressions: { projectPath: currentProject.path, data },
+      diagnostics: visible,
+      suppressedDiagnostics: suppressed,
+      lastBuildResult: lastBuildResult && { ...lastBuildResult, success: !visible.some(d => d.severity === 'error') }
+    })
+  } catch (error) {
+    console.error('Failed to save suppressions:', error)
+  }
+}
+
+// Content of every document in the project, loading any that are not open yet
+async function loadDocumentContents(
+  project: Project,
+  documents: Record<string, DocumentState>
+): Promise<Record<string, JSONContent>> {
+  const contents: Record<string, JSONContent> = {}
+  for (const doc of project.documents) {
+    if (doc.type !== 'document') continue
+    if (documents[doc.id]?.content) {
+      contents[doc.id] = documents[doc.id].content!
+      continue
+    }
+    try {
+      contents[doc.id] = await window.api.document.load(project.path, doc.id)
+    } catch (error) {
+      console.warn(`Failed to load document ${doc.id}:`, error)
+    }
+  }
+  return contents
+}
+
+// Write documents changed outside the editor to disk and mark them saved
+async function saveDocumentContents(
+  set: (partial: (state: ProjectState) => Partial<ProjectState>) => void,
+  get: () => ProjectState,
+  docIds: string[]
+): Promise<void> {
+  const projectPath = get().currentProject?.path
+  if (!projectPath) return
+
+  const saved: string[] = []
+  for (const docId of docIds) {
+    const content = get().documents[docId]?.content
+    if (!content || get().externalConflicts.some(c => c.documentId === docId)) continue
+    try {
+      await window.api.document.save(projectPath, docId, content)
+      saved.push(docId)
+    } catch (error) {
+      console.error(`Failed to save document ${docId}:`, error)
+    }
+  }
+
+  set(state => ({
+    documents: Object.fromEntries(Object.entries(state.documents).map(([id, doc]) => [
+      id,
+      saved.includes(id) ? { ...doc, isDirty: false, lastSaved: new Date().toISOString() } : doc
+    ]))
+  }))
+}
+
+// Write content changed outside the editor: open documents are updated in
+// place and saved, the rest go straight to disk without being opened
+async function writeDocumentContents(
+  set: (partial: (state: ProjectState) => Partial<ProjectState>) => void,
+  get: () => ProjectState,
+  contents: Record<string, JSONContent>
+): Promise<void> {
+  const projectPath = get().currentProject?.path
+  if (!projectPath) return
+
+  const openIds = Object.keys(contents).filter(id => get().documents[id]?.content)
+  set(state => ({
+    documents: {
+      ...state.documents,
+      ...Object.fromEntries(openIds.map(id => [id, { ...state.documents[id], content: contents[id], isDirty: true }]))
+    }
+  }))
+  await saveDocumentContents(set, get, openIds)
+
+  for (const [docId, content] of Object.entries(contents)) {
+    if (openIds.includes(docId)) continue
+    try {
+      await window.api.document.save(projectPath, docId, content)
+    } catch (error) {
+      console.error(`Failed to save document ${docId}:`, error)
+    }
+  }
+}
+
+// Edits are journaled this long after the last keystroke, well before autosave
+const JOURNAL_DELAY_MS = 500
+
+const journalTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+// Journal a document's unsaved content once edits pause
+function scheduleJournal(get: () => ProjectState, docId: string) {
+  const projectPath = get().currentProject?.path
+  if (!projectPath) return
+
+  clearTimeout(journalTimers.get(docId))
+  journalTimers.set(docId, setTimeout(() => {
+    journalTimers.delete(docId)
+    const docState = get().documents[docId]
+    if (!docState?.isDirty || !docState.content) return
+    window.api.journal.write(projectPath, docId, docState.content).catch(error => {
+      console.error('[ProjectStore] Failed to journal document:', error)
+    })
+  }, JOURNAL_DELAY_MS))
+}
+
+// Final build state with suppressed diagnostics hidden; the build only counts
+// as failed if an error is still visible
+function suppressedBuildState(
+  result: BuildResult,
+  diagnostics: Diagnostic[],
+  suppressions: ProjectSuppressions | null
+): Pick<ProjectState, 'lastBuildResult' | 'diagnostics' | 'suppressedDiagnostics'> {
+  const { visible, suppressed } = applySuppressions(diagnostics, suppressions)
+  return {
+    lastBuildResult: suppressed.length > 0
+      ? { ...result, success: !visible.some(d => d.severity === 'error') }
+      : result,
+    diagnostics: visible,
+    suppressedDiagnostics: suppressed
+  }
+}
+
 export const useProjectStore = create<ProjectState>((set, get) => ({
   // Initial state
   currentProject: null,
@@ -2065,7 +2369,10 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   documents: {},
   assets: [],
   lastBuildResult: null,
+  buildProgress: null,
   diagnostics: [],
+  suppressions: null,
+  suppressedDiagnostics: [],
   agendaItems: [],
   expandedFolders: new Set<string>(),
   ui: {
@@ -2084,6 +2391,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     writingPartnerPanelOpen: false,
     isRunningCritique: false,
     settingsPanelOpen: false,
+    findReplacePanelOpen: false,
     drawingMode: false,
     infiniteCanvas: false,
     thoughtPartnerPanelOpen: false,
@@ -2097,8 +2405,16 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   pendingFixRequest: null,
   batchFixState: null,
   mentionScanState: null,
+  replaceHistory: [],
+  commands: {},
+  keymap: {},
+  recoverableDocuments: [],
+  externalConflicts: [],
   documentVersions: {},
   versionHistoryMode: { active: false, selectedVersionId: null },
+  documentDrafts: {},
+  gitStatus: null,
+  gitError: null,
   
   // Image generation modal initial state
   imageGenerationModal: {
@@ -2118,7 +2434,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     mode: false,
     linkMode: { active: false, targetShotId: null },
     highlightedBlockId: null,
-    highlightedDocumentId: null
+    highlightedDocumentId: null,
+    repairReport: null
   },
 
   // Script reference tracking initial state
@@ -2376,6 +2693,16 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
           get().setActiveDocument(firstDoc.id)
         }
       }
+
+      // Offer back edits journaled by a session that ended before saving them
+      try {
+        const recoverableDocuments = await window.api.journal.recover(project.path)
+        set({ recoverableDocuments })
+      } catch (error) {
+        console.error('[ProjectStore] Failed to check the document journal:', error)
+      }
+
+      get().loadGitStatus()
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to open project',
@@ -2389,7 +2716,13 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try {
       set({ isLoading: true, error: null })
 
-      const project = await window.api.project.import(sourcePath, destinationBasePath)
+      // Fountain / Final Draft files import as a new screenplay project
+      const isScript = /\.(fountain|spmd|fdx)$/i.test(sourcePath)
+      const project = await window.api.project.import(
+        sourcePath,
+        destinationBasePath,
+        isScript ? getTemplateById('screenplay') : undefined
+      )
 
       set({
         currentProject: project,
@@ -2399,9 +2732,15 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         isLoading: false
       })
 
-      // For workspaces with derived titles, preload content for all child pages
+      // Imported scripts: load every page so character cues populate the
+      // character bank and pick up character colors
       const workspaceConfig = getWorkspaceConfig(project.templateId)
-      if (workspaceConfig.features.deriveTitlesFromContent) {
+      if (isScript) {
+        const pages = project.documents.filter(d => d.type === 'document' && d.parentId)
+        for (const doc of pages) {
+          await get().loadDocumentContent(doc.id)
+        }
+      } else if (workspaceConfig.features.deriveTitlesFromContent) {
         const childPages = project.documents.filter(d => d.type === 'document' && d.parentId)
         await Promise.all(childPages.map(async (doc) => {
           try {
@@ -2446,6 +2785,14 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       assets: [],
       lastBuildResult: null,
       diagnostics: [],
+      suppressions: null,
+      suppressedDiagnostics: [],
+      replaceHistory: [],
+      recoverableDocuments: [],
+      externalConflicts: [],
+      documentDrafts: {},
+      gitStatus: null,
+      gitError: null,
       thoughtPartner: {
         conversationIndex: [],
         activeConversationId: null,
@@ -2568,6 +2915,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         }
       }
     }))
+    scheduleJournal(get, docId)
   },
 
   updateDocumentTitleFont: (docId, fontFamily) => {
@@ -2590,11 +2938,23 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     const docState = documents[docId]
     if (!docState?.content || !docState.isDirty) return
 
+    // Saving would overwrite the version on disk before the writer chooses
+    if (get().externalConflicts.some(c => c.documentId === docId)) return
+
+    // The save covers any journal write still waiting
+    clearTimeout(journalTimers.get(docId))
+    journalTimers.delete(docId)
+
     try {
-      await window.api.document.save(currentProject.path, docId, docState.content)
+      const snapshot = await window.api.document.save(currentProject.path, docId, docState.content)
       
       // Also save the project to persist asset references
       await window.api.project.save(currentProject)
+
+      // The save took an automatic snapshot and may have thinned older ones
+      if (snapshot && get().documentVersions[docId]) {
+        get().loadVersions(docId)
+      }
       
       set(state => ({
         documents: {
@@ -3591,6 +3951,274 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     get().saveWorkspaceLayout()
   },
 
+  // Find & replace actions
+  setFindReplacePanelOpen: (open) => {
+    set(state => ({
+      ui: { ...state.ui, findReplacePanelOpen: open, leftSidebarOpen: open || state.ui.leftSidebarOpen }
+    }))
+  },
+
+  // Search every document, including ones that have not been opened yet
+  findInProject: async (options) => {
+    const { currentProject, documents } = get()
+    if (!currentProject) return []
+
+    const pattern = buildSearchPattern(options)
+    if (!pattern) return []
+
+    const contents = await loadDocumentContents(currentProject, documents)
+    return currentProject.documents
+      .filter(doc => contents[doc.id])
+      .flatMap(doc => findInDocument(doc.id, contents[doc.id], pattern, options.elementTypes))
+  },
+
+  // Replace the chosen matches across documents as one undoable operation
+  replaceInProject: async (options, replacement, matchIds, renameCharacterId) => {
+    const { currentProject, documents, updateCharacter } = get()
+    if (!currentProject) return 0
+
+    const pattern = buildSearchPattern(options)
+    if (!pattern) return 0
+
+    const character = renameCharacterId
+      ? currentProject.characters?.find(c => c.id === renameCharacterId)
+      : undefined
+    const selected = new Set(matchIds)
+    const contents = await loadDocumentContents(currentProject, documents)
+    const before: Record<string, JSONContent> = {}
+    const updated: Record<string, JSONContent> = {}
+    let count = 0
+
+    // Matches are found again so edits made since the search are respected
+    for (const [docId, content] of Object.entries(contents)) {
+      const matches = findInDocument(docId, content, pattern, options.elementTypes).filter(m => selected.has(m.id))
+      if (matches.length === 0) continue
+
+      const newContent = replaceInDocument(
+        content,
+        matches.map(match => ({ match, text: expandReplacement(match, replacement, options.regex) })),
+        match => !!character && match.mention?.type === 'character' && match.mention.id === character.id
+      )
+      before[docId] = content
+      updated[docId] = newContent
+      count += matches.length
+    }
+
+    if (count === 0) return 0
+
+    await writeDocumentContents(set, get, updated)
+
+    // Renaming the bank entry keeps cues and mention labels pointing at it
+    if (character && replacement.trim()) {
+      await updateCharacter(character.id, { name: replacement.trim() })
+    }
+
+    // The rename relabels mentions in open documents
+    const after = Object.fromEntries(Object.keys(before).map(id => [id, get().documents[id]?.content || updated[id]]))
+    set(state => ({
+      replaceHistory: [...state.replaceHistory, {
+        label: `Replace "${options.query}" with "${replacement}"`,
+        count,
+        before,
+        after,
+        renamedCharacter: character && replacement.trim() ? { id: character.id, previousName: character.name } : undefined
+      }]
+    }))
+
+    console.log(`[ProjectStore] Replaced ${count} match(es) in ${Object.keys(before).length} document(s)`)
+    return count
+  },
+
+  // Undo the most recent replace, leaving documents edited since untouched
+  undoReplace: async () => {
+    const { currentProject, replaceHistory, updateCharacter } = get()
+    const operation = replaceHistory[replaceHistory.length - 1]
+    if (!currentProject || !operation) return
+
+    set({ replaceHistory: replaceHistory.slice(0, -1) })
+
+    const restored: Record<string, JSONContent> = {}
+    const skipped: string[] = []
+    for (const [docId, content] of Object.entries(operation.before)) {
+      let current = get().documents[docId]?.content
+      if (!current) {
+        try {
+          current = await window.api.document.load(currentProject.path, docId)
+        } catch (error) {
+          console.warn(`Failed to load document ${docId}:`, error)
+        }
+      }
+      if (current && JSON.stringify(current) !== JSON.stringify(operation.after[docId])) {
+        skipped.push(docId)
+        continue
+      }
+      restored[docId] = content
+    }
+
+    if (operation.renamedCharacter) {
+      await updateCharacter(operation.renamedCharacter.id, { name: operation.renamedCharacter.previousName })
+    }
+
+    await writeDocumentContents(set, get, restored)
+
+    if (skipped.length > 0) {
+      console.warn(`[ProjectStore] Undo replace skipped ${skipped.length} document(s) edited since`)
+    }
+  },
+
+  // Put journaled content back into a document and save it
+  restoreJournaledDocument: async (docId) => {
+    const entry = get().recoverableDocuments.find(d => d.documentId === docId)
+    if (!entry) return
+
+    set(state => ({
+      recoverableDocuments: state.recoverableDocuments.filter(d => d.documentId !== docId),
+      documents: {
+        ...state.documents,
+        [docId]: {
+          ...state.documents[docId],
+          content: entry.content,
+          isDirty: true,
+          lastSaved: state.documents[docId]?.lastSaved ?? null
+        }
+      }
+    }))
+    await get().saveDocument(docId)
+    console.log(`[ProjectStore] Restored journaled changes to document ${docId}`)
+  },
+
+  discardJournaledDocument: async (docId) => {
+    const { currentProject } = get()
+    set(state => ({
+      recoverableDocuments: state.recoverableDocuments.filter(d => d.documentId !== docId)
+    }))
+    if (currentProject) {
+      await window.api.journal.discard(currentProject.path, docId)
+    }
+  },
+
+  // A file of the open project changed on disk: reload it, or hold it as a
+  // conflict when the document has unsaved edits
+  handleExternalChange: (change) => {
+    const { currentProject, documents, activeDocumentId } = get()
+    if (!currentProject) return
+
+    if (change.kind === 'project') {
+      if (change.project.path !== currentProject.path) return
+      const ids = new Set(change.project.documents.map(d => d.id))
+      set({
+        currentProject: change.project,
+        assets: change.project.assets,
+        documents: Object.fromEntries(Object.entries(documents).filter(([id]) => ids.has(id))),
+        activeDocumentId: activeDocumentId && ids.has(activeDocumentId) ? activeDocumentId : null
+      })
+      console.log('[ProjectStore] Reloaded project.json after an external change')
+      return
+    }
+
+    const { documentId, content } = change
+    const docState = documents[documentId]
+    // Documents not loaded yet read the new file when they are opened
+    if (!docState?.content || JSON.stringify(docState.content) === JSON.stringify(content)) return
+
+    if (docState.isDirty) {
+      const title = currentProject.documents.find(d => d.id === documentId)?.title || 'Untitled'
+      set(state => ({
+        externalConflicts: [
+          ...state.externalConflicts.filter(c => c.documentId !== documentId),
+          { documentId, title, content }
+        ]
+      }))
+      return
+    }
+
+    set(state => ({
+      documents: {
+        ...state.documents,
+        [documentId]: { ...state.documents[documentId], content, isDirty: false, lastSaved: new Date().toISOString() }
+      }
+    }))
+    if (currentProject.templateId === 'screenplay') {
+      get().extractSceneHeadings(documentId, content)
+    }
+    console.log(`[ProjectStore] Reloaded document ${documentId} after an external change`)
+  },
+
+  // Resolve a conflict by saving the unsaved edits over the file on disk
+  keepLocalVersion: async (docId) => {
+    set(state => ({
+      externalConflicts: state.externalConflicts.filter(c => c.documentId !== docId)
+    }))
+    await get().saveDocument(docId)
+  },
+
+  // Resolve a conflict by dropping the unsaved edits for the file on disk
+  loadExternalVersion: async (docId) => {
+    const conflict = get().externalConflicts.find(c => c.documentId === docId)
+    if (!conflict) return
+
+    clearTimeout(journalTimers.get(docId))
+    journalTimers.delete(docId)
+    set(state => ({
+      externalConflicts: state.externalConflicts.filter(c => c.documentId !== docId),
+      documents: {
+        ...state.documents,
+        [docId]: { ...state.documents[docId], content: conflict.content, isDirty: false, lastSaved: new Date().toISOString() }
+      }
+    }))
+    if (get().currentProject?.templateId === 'screenplay') {
+      get().extractSceneHeadings(docId, conflict.content)
+    }
+
+    const projectPath = get().currentProject?.path
+    if (projectPath) {
+      await window.api.journal.discard(projectPath, docId).catch(error => {
+        console.error('[ProjectStore] Failed to discard the journal entry:', error)
+      })
+    }
+  },
+
+  // Add commands to the registry; the returned function removes them again
+  registerCommands: (commands) => {
+    set(state => ({
+      commands: { ...state.commands, ...Object.fromEntries(commands.map(command => [command.id, command])) }
+    }))
+    return () => {
+      set(state => {
+        const remaining = { ...state.commands }
+        for (const command of commands) {
+          // Leave a command that has since been registered again by someone else
+          if (remaining[command.id] === command) delete remaining[command.id]
+        }
+        return { commands: remaining }
+      })
+    }
+  },
+
+  loadKeymap: async () => {
+    try {
+      const keymap = await window.api.keymap?.get()
+      set({ keymap: keymap || {} })
+    } catch (error) {
+      console.error('[ProjectStore] Failed to load keymap:', error)
+    }
+  },
+
+  // Bind a command to a chord, or unbind it with null
+  setKeybinding: async (commandId, chord) => {
+    const keymap = { ...get().keymap, [commandId]: chord }
+    set({ keymap })
+    await window.api.keymap?.set(keymap)
+  },
+
+  // Go back to a command's default binding
+  resetKeybinding: async (commandId) => {
+    const keymap = { ...get().keymap }
+    delete keymap[commandId]
+    set({ keymap })
+    await window.api.keymap?.set(keymap)
+  },
+
   // Theme actions
   setTheme: (theme) => {
     // Update state
@@ -3625,8 +4253,19 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   // Navigate to a citation source (document and block)
-  navigateToCitation: async (documentId, blockId) => {
-    const { activeDocumentId, setActiveDocument } = get()
+  navigateToCitation: async (documentId, blockId, text) => {
+    const { currentProject, documents, activeDocumentId, setActiveDocument } = get()
+
+    // The block may have been deleted or rewritten since it was cited
+    const cited = documents[documentId]?.content
+    if (text && currentProject && !(cited && blockId && getBlockText(cited, blockId) !== null)) {
+      const contents = await loadDocumentContents(currentProject, documents)
+      const resolved = resolveBlockReference(contents, documentId, blockId, text)
+      if (resolved) {
+        documentId = resolved.documentId
+        blockId = resolved.blockId
+      }
+    }
     
     // Switch to the target document first (if needed)
     if (activeDocumentId !== documentId) {
@@ -3671,6 +4310,35 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set({ scrollTargetRange: null })
   },
 
+  // Open a quick-open result: the block in its document, the version in
+  // version history, or the conversation in the Thought Partner panel
+  openSearchResult: async (result) => {
+    const { setActiveDocument, navigateToCitation, loadVersions, setVersionHistoryMode } = get()
+
+    if (result.kind === 'conversation' && result.conversationId) {
+      if (!get().ui.thoughtPartnerPanelOpen) {
+        get().toggleThoughtPartnerPanel()
+      }
+      await get().switchThoughtPartnerConversation(result.conversationId)
+      return
+    }
+
+    if (!result.documentId) return
+
+    if (result.kind === 'version' && result.versionId) {
+      await setActiveDocument(result.documentId)
+      await loadVersions(result.documentId)
+      setVersionHistoryMode(true, result.versionId)
+      return
+    }
+
+    if (result.blockId) {
+      await navigateToCitation(result.documentId, result.blockId)
+    } else {
+      await setActiveDocument(result.documentId)
+    }
+  },
+
   // Request a fix to be applied (triggers editor to insert fix preview)
   requestFix: (diagnostic) => {
     // First switch to the document containing the diagnostic
@@ -3702,6 +4370,90 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }))
   },
 
+  // Accept a word in the spelling check and clear its open typo diagnostics
+  addToDictionary: async (word, scope) => {
+    const { currentProject, updateProjectSettings } = get()
+    if (!currentProject) return
+
+    try {
+      if (scope === 'project') {
+        const words = currentProject.settings.customDictionary || []
+        if (!words.includes(word)) {
+          await updateProjectSettings({ customDictionary: [...words, word].sort((a, b) => a.localeCompare(b)) })
+        }
+      } else {
+        await window.api.spelling.addUserWord(word)
+      }
+
+      const flagged = (d: Diagnostic) => d.context
+        ? d.context.text.slice(d.context.offset, d.context.offset + d.context.length)
+        : null
+      set(state => ({
+        diagnostics: state.diagnostics.filter(d =>
+          d.passId !== 'spelling-grammar' || flagged(d)?.toLowerCase() !== word.toLowerCase())
+      }))
+    } catch (error) {
+      console.error('Failed to add word to dictionary:', error)
+    }
+  },
+
+  // Load the open project's suppressions, reusing them until another project opens
+  loadSuppressions: async () => {
+    const { currentProject, suppressions } = get()
+    if (!currentProject) return null
+    if (suppressions?.projectPath === currentProject.path) return suppressions.data
+
+    try {
+      const data = await window.api.suppressions.load(currentProject.path)
+      set({ suppressions: { projectPath: currentProject.path, data } })
+      return data
+    } catch (error) {
+      console.error('Failed to load suppressions:', error)
+      return null
+    }
+  },
+
+  // Hide a diagnostic (or its rule) for good and re-filter the current results
+  suppressDiagnostic: async (diagnostic, scope) => {
+    const current = await get().loadSuppressions()
+    if (!current) return
+
+    await saveSuppressions(set, get, {
+      ...current,
+      suppressions: [...current.suppressions, createSuppression(diagnostic, scope)]
+    })
+  },
+
+  removeSuppression: async (suppressionId) => {
+    const current = await get().loadSuppressions()
+    if (!current) return
+
+    await saveSuppressions(set, get, {
+      ...current,
+      suppressions: current.suppressions.filter(s => s.id !== suppressionId)
+    })
+  },
+
+  // Treat every issue found so far as known, so only new ones surface
+  setBaseline: async () => {
+    const current = await get().loadSuppressions()
+    if (!current) return
+
+    const { diagnostics, suppressedDiagnostics } = get()
+    const fingerprints = new Set([...diagnostics, ...suppressedDiagnostics].map(diagnosticFingerprint))
+    await saveSuppressions(set, get, {
+      ...current,
+      baseline: { createdAt: new Date().toISOString(), fingerprints: [...fingerprints] }
+    })
+  },
+
+  clearBaseline: async () => {
+    const current = await get().loadSuppressions()
+    if (!current?.baseline) return
+
+    await saveSuppressions(set, get, { suppressions: current.suppressions })
+  },
+
   // Start batch fix mode - shows all fix previews at once
   startBatchFix: (diagnostics) => {
     // Filter to only fixable diagnostics for the active document
@@ -3885,6 +4637,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set(state => ({
       ui: { ...state.ui, isBuilding: true, bottomPanelOpen: true },
       diagnostics: [],
+      suppressedDiagnostics: [],
       lastBuildResult: null
     }))
 
@@ -3912,7 +4665,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       }
 
       // Call the build IPC
-      const result = await window.api.build.run(currentProject, documentContents)
+      const suppressions = await get().loadSuppressions()
+      const result = await runBuildWithProgress(set, currentProject, documentContents, suppressions)
 
       // Initialize diagnostics with build results
       let allDiagnostics = [...result.diagnostics]
@@ -4425,15 +5179,16 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         }
       }
 
+      const buildState = suppressedBuildState(result, allDiagnostics, suppressions)
       set(state => ({
         ui: { ...state.ui, isBuilding: false },
-        lastBuildResult: result,
-        diagnostics: allDiagnostics
+        ...buildState
       }))
 
       console.log('[ProjectStore] Build complete:', {
-        success: result.success,
-        diagnosticCount: allDiagnostics.length,
+        success: buildState.lastBuildResult?.success,
+        diagnosticCount: buildState.diagnostics.length,
+        suppressedCount: buildState.suppressedDiagnostics.length,
         timing: result.totalTiming
       })
     } catch (error) {
@@ -4479,6 +5234,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set(state => ({
       ui: { ...state.ui, isBuilding: true, bottomPanelOpen: true },
       diagnostics: [],
+      suppressedDiagnostics: [],
       lastBuildResult: null
     }))
 
@@ -4501,11 +5257,13 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       // Create a modified project with only the current document for the build
       const singleDocProject = {
         ...currentProject,
-        documents: [activeDoc]
+        documents: [activeDoc],
+        buildProfiles: [] // Page checks don't render export artifacts
       }
 
       // Call the build IPC with only the current document
-      const result = await window.api.build.run(singleDocProject, documentContents)
+      const suppressions = await get().loadSuppressions()
+      const result = await runBuildWithProgress(set, singleDocProject, documentContents, suppressions)
 
       // Initialize diagnostics with build results
       let allDiagnostics = [...result.diagnostics]
@@ -4556,8 +5314,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       // Update state with results
       set(state => ({
         ui: { ...state.ui, isBuilding: false },
-        diagnostics: allDiagnostics,
-        lastBuildResult: result
+        ...suppressedBuildState(result, allDiagnostics, suppressions)
       }))
 
     } catch (error) {
@@ -4578,7 +5335,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   // Clear diagnostics
   clearDiagnostics: () => {
-    set({ diagnostics: [], lastBuildResult: null })
+    set({ diagnostics: [], suppressedDiagnostics: [], lastBuildResult: null })
   },
 
   // Regenerate asset documents (character/prop docs) with AI
@@ -6320,6 +7077,27 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  // Rename a version or mark it as a milestone
+  labelVersion: async (docId, versionId, label, milestone) => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      await window.api.version.label(currentProject.path, docId, versionId, label, milestone)
+
+      set(state => ({
+        documentVersions: {
+          ...state.documentVersions,
+          [docId]: (state.documentVersions[docId] || []).map(v =>
+            v.id === versionId ? { ...v, label: label || undefined, milestone: milestone || undefined } : v
+          )
+        }
+      }))
+    } catch (error) {
+      console.error('[ProjectStore] Failed to label version:', error)
+    }
+  },
+
   // Restore document content from a version
   restoreVersion: async (docId, versionId) => {
     const { documentVersions, updateDocumentContent, saveDocument } = get()
@@ -6359,6 +7137,183 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     return get().documentVersions[docId] || []
   },
 
+  // =============================================
+  // Draft Actions (alternate drafts of a document)
+  // =============================================
+
+  loadDrafts: async (docId) => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      const drafts = await window.api.drafts.load(currentProject.path, docId)
+      set(state => ({ documentDrafts: { ...state.documentDrafts, [docId]: drafts } }))
+    } catch (error) {
+      console.error('[ProjectStore] Failed to load drafts:', error)
+    }
+  },
+
+  // Start a new draft from the current content
+  createDraft: async (docId, name) => {
+    const { currentProject, documents, loadVersions } = get()
+    const content = documents[docId]?.content
+    if (!currentProject || !content) return
+
+    try {
+      const drafts = await window.api.drafts.create(currentProject.path, docId, name, content)
+      set(state => ({ documentDrafts: { ...state.documentDrafts, [docId]: drafts } }))
+      // Creating a draft saves the version it starts from
+      await loadVersions(docId)
+      console.log(`[ProjectStore] Created draft "${name}" for document ${docId}`)
+    } catch (error) {
+      console.error('[ProjectStore] Failed to create draft:', error)
+    }
+  },
+
+  // Check out another draft; the current content is kept as a draft in its place
+  switchDraft: async (docId, branchId) => {
+    const { currentProject, documents, documentDrafts, updateDocumentContent, saveDocument } = get()
+    const content = documents[docId]?.content
+    const branch = documentDrafts[docId]?.branches.find(b => b.id === branchId)
+    if (!currentProject || !content || !branch) return
+
+    try {
+      const drafts = await window.api.drafts.switch(currentProject.path, docId, branchId, content)
+      set(state => ({ documentDrafts: { ...state.documentDrafts, [docId]: drafts } }))
+      updateDocumentContent(docId, branch.content)
+      await saveDocument(docId)
+      console.log(`[ProjectStore] Switched document ${docId} to draft "${branch.name}"`)
+    } catch (error) {
+      console.error('[ProjectStore] Failed to switch draft:', error)
+    }
+  },
+
+  // Three-way merge of another draft into the current content. Blocks both
+  // drafts changed become conflicts to resolve in the editor; returns how
+  // many, or null if the merge didn't run.
+  mergeDraft: async (docId, branchId) => {
+    const { currentProject, documents, documentDrafts, updateDocumentContent, saveDocument, saveVersion, loadVersions } = get()
+    const content = documents[docId]?.content
+    const branch = documentDrafts[docId]?.branches.find(b => b.id === branchId)
+    if (!currentProject || !content || !branch) return null
+
+    if (hasMergeConflicts(content)) {
+      console.warn('[ProjectStore] Cannot merge while conflicts from an earlier merge remain')
+      return null
+    }
+
+    try {
+      if (!get().documentVersions[docId]) await loadVersions(docId)
+      const base = get().documentVersions[docId]?.find(v => v.id === branch.baseVersionId)
+      if (!base) {
+        // Without the base every block the drafts disagree on is a conflict
+        console.warn(`[ProjectStore] Merge base of draft "${branch.name}" is missing`)
+      }
+
+      await saveVersion(docId, `Before merging "${branch.name}"`)
+      const result = mergeDrafts(base?.content ?? { type: 'doc', content: [] }, content, branch.content, branch.name)
+      updateDocumentContent(docId, result.content)
+      await saveDocument(docId)
+
+      const drafts = await window.api.drafts.markMerged(currentProject.path, docId, branchId)
+      set(state => ({ documentDrafts: { ...state.documentDrafts, [docId]: drafts } }))
+      await loadVersions(docId)
+
+      console.log(`[ProjectStore] Merged draft "${branch.name}" into document ${docId} (${result.conflicts} conflicts)`)
+      return result.conflicts
+    } catch (error) {
+      console.error('[ProjectStore] Failed to merge draft:', error)
+      return null
+    }
+  },
+
+  renameDraft: async (docId, draftId, name) => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      const drafts = await window.api.drafts.rename(currentProject.path, docId, draftId, name)
+      set(state => ({ documentDrafts: { ...state.documentDrafts, [docId]: drafts } }))
+    } catch (error) {
+      console.error('[ProjectStore] Failed to rename draft:', error)
+    }
+  },
+
+  deleteDraft: async (docId, branchId) => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      const drafts = await window.api.drafts.delete(currentProject.path, docId, branchId)
+      set(state => ({ documentDrafts: { ...state.documentDrafts, [docId]: drafts } }))
+    } catch (error) {
+      console.error('[ProjectStore] Failed to delete draft:', error)
+    }
+  },
+
+  // =============================================
+  // Git History Actions
+  // =============================================
+
+  loadGitStatus: async () => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      set({ gitStatus: await window.api.git.status(currentProject.path) })
+    } catch (error) {
+      console.error('[ProjectStore] Failed to get git status:', error)
+    }
+  },
+
+  initGitHistory: async () => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      set({ gitStatus: await window.api.git.init(currentProject.path), gitError: null })
+    } catch (error) {
+      console.error('[ProjectStore] Failed to initialize git history:', error)
+      set({ gitError: error instanceof Error ? error.message : String(error) })
+    }
+  },
+
+  setGitRemote: async (remotePath) => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      set({ gitStatus: await window.api.git.setRemote(currentProject.path, remotePath), gitError: null })
+    } catch (error) {
+      console.error('[ProjectStore] Failed to set git remote:', error)
+      set({ gitError: error instanceof Error ? error.message : String(error) })
+    }
+  },
+
+  // Pending edits are saved first so they are part of the sync. Commits
+  // pulled from the remote change files on disk, so the project is reopened.
+  syncGitHistory: async () => {
+    const { currentProject, documents, saveDocument, openProject, loadGitStatus } = get()
+    if (!currentProject) return null
+
+    try {
+      for (const docId of Object.keys(documents)) {
+        await saveDocument(docId)
+      }
+      const result = await window.api.git.sync(currentProject.path)
+      set({ gitError: null })
+      if (result.pulled > 0) {
+        await openProject(currentProject.path)
+      }
+      await loadGitStatus()
+      return result
+    } catch (error) {
+      console.error('[ProjectStore] Failed to sync git history:', error)
+      set({ gitError: error instanceof Error ? error.message : String(error) })
+      return null
+    }
+  },
+
   // =============================================
   // Storyboard Actions (for screenplay projects)
   // =============================================
@@ -6539,6 +7494,91 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     console.log(`[ProjectStore] Unlinked shot ${shotId}`)
   },
 
+  // Re-anchor every linked shot against the current script, saving if any moved
+  repairStoryboardAnchors: async () => {
+    const { currentProject, documents, saveStoryboard } = get()
+    if (!currentProject?.storyboard?.shots.some(s => s.linkedBlock)) return
+
+    const contents = await loadDocumentContents(currentProject, documents)
+    const shots = get().currentProject?.storyboard?.shots
+    if (!shots) return
+
+    // Shots on a page that failed to load keep their links; its text is unknown, not gone
+    const unreadable = new Set(currentProject.documents
+      .filter(doc => doc.type === 'document' && !contents[doc.id])
+      .map(doc => doc.id))
+    const repaired = repairAnchors(shots, contents).map((shot, i) =>
+      unreadable.has(shots[i].linkedBlock?.documentId || '') ? shots[i] : shot
+    )
+    let relinkedCount = 0
+    let changed = false
+    repaired.forEach((shot, i) => {
+      const before = shots[i].linkedBlock
+      const after = shot.linkedBlock
+      if (!before || !after) return
+      const moved = before.blockId !== after.blockId || before.documentId !== after.documentId
+      if (!shot.isUnlinked && (moved || shots[i].isUnlinked)) relinkedCount++
+      if (moved || !!shot.isUnlinked !== !!shots[i].isUnlinked || before.textSnapshot !== after.textSnapshot) {
+        changed = true
+      }
+    })
+    const unlinkedCount = repaired.filter(s => s.linkedBlock && s.isUnlinked).length
+
+    set(state => ({
+      currentProject: changed && state.currentProject?.storyboard
+        ? { ...state.currentProject, storyboard: { ...state.currentProject.storyboard, shots: repaired } }
+        : state.currentProject,
+      storyboardUI: {
+        ...state.storyboardUI,
+        repairReport: relinkedCount > 0 || unlinkedCount > 0 ? { relinkedCount, unlinkedCount } : null
+      }
+    }))
+
+    if (changed) {
+      await saveStoryboard()
+      console.log(`[ProjectStore] Repaired anchors: ${relinkedCount} relinked, ${unlinkedCount} unlinked`)
+    }
+  },
+
+  // Link several shots to blocks at once, saving once
+  relinkShots: async (links) => {
+    const { currentProject, documents, saveStoryboard } = get()
+    if (!currentProject?.storyboard || links.length === 0) return
+
+    const contents = await loadDocumentContents(currentProject, documents)
+    const anchors = new Map<string, BlockAnchor>()
+    for (const link of links) {
+      const doc = contents[link.documentId]
+      const anchor = doc ? captureBlockAnchor(doc, link.blockId, link.documentId) : null
+      if (anchor) anchors.set(link.shotId, anchor)
+    }
+    if (anchors.size === 0) return
+
+    set(state => ({
+      currentProject: state.currentProject?.storyboard
+        ? {
+            ...state.currentProject,
+            storyboard: {
+              ...state.currentProject.storyboard,
+              shots: state.currentProject.storyboard.shots.map(shot => {
+                const anchor = anchors.get(shot.id)
+                return anchor ? { ...shot, linkedBlock: anchor, isUnlinked: false } : shot
+              })
+            }
+          }
+        : state.currentProject
+    }))
+
+    await saveStoryboard()
+    console.log(`[ProjectStore] Relinked ${anchors.size} shots`)
+  },
+
+  dismissRepairReport: () => {
+    set(state => ({
+      storyboardUI: { ...state.storyboardUI, repairReport: null }
+    }))
+  },
+
   // Playback controls
   playStoryboard: () => {
     const { currentProject } = get()
@@ -6676,6 +7716,26 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  exportAnimatic: async (options) => {
+    const { currentProject, documents } = get()
+    if (!currentProject) throw new Error('No project is open')
+
+    const documentContents = await loadDocumentContents(currentProject, documents)
+    const result = await window.api.animatic.export(currentProject, documentContents, options)
+    console.log(`[ProjectStore] Exported animatic to ${result.path}`)
+    return result
+  },
+
+  exportStoryboardSheets: async (options) => {
+    const { currentProject, documents } = get()
+    if (!currentProject) throw new Error('No project is open')
+
+    const documentContents = await loadDocumentContents(currentProject, documents)
+    const result = await window.api.storyboard.exportSheets(currentProject, documentContents, options)
+    console.log(`[ProjectStore] Exported storyboard sheets to ${result.path}`)
+    return result
+  },
+
   // Getters
   getShot: (shotId) => {
     const { currentProject } = get()
@@ -6686,6 +7746,173 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     const { currentProject } = get()
     return currentProject?.storyboard?.shots || []
   },
+
+  // Shot list actions (for screenplay projects)
+
+  importShotListEntries: async (source) => {
+    const { currentProject, documents, saveShotList } = get()
+    if (!currentProject) return 0
+
+    const documentContents = await loadDocumentContents(currentProject, documents)
+    const existing = currentProject.shotList?.entries || []
+    const added: ShotListEntry[] = []
+
+    if (source === 'script') {
+      const linkedBlocks = new Set(existing.map(e => e.linkedBlock?.blockId))
+      for (const scriptShot of findScriptBlocks(currentProject, documentContents, ['shot'])) {
+        if (linkedBlocks.has(scriptShot.blockId)) continue
+        const anchor = captureBlockAnchor(documentContents[scriptShot.documentId], scriptShot.blockId, scriptShot.documentId)
+        added.push({
+          id: crypto.randomUUID(),
+          order: existing.length + added.length,
+          ...parseShotLine(scriptShot.text),
+          description: scriptShot.text || undefined,
+          linkedBlock: anchor
+        })
+      }
+    } else {
+      const illustrated = new Set(existing.map(e => e.storyboardShotId))
+      const storyboardShots = [...(currentProject.storyboard?.shots || [])].sort((a, b) => a.order - b.order)
+      for (const shot of storyboardShots) {
+        if (illustrated.has(shot.id)) continue
+        added.push({
+          id: crypto.randomUUID(),
+          order: existing.length + added.length,
+          description: shot.notes,
+          linkedBlock: shot.linkedBlock,
+          isUnlinked: shot.isUnlinked,
+          storyboardShotId: shot.id
+        })
+      }
+    }
+    if (added.length === 0) return 0
+
+    // Keep the list in script order, unlinked entries after the rest
+    const positions = getScriptPositions(currentProject, documentContents)
+    const position = (entry: ShotListEntry) =>
+      entry.linkedBlock && !entry.isUnlinked ? positions.get(entry.linkedBlock.blockId) ?? Infinity : Infinity
+    const entries = [...existing, ...added]
+      .sort((a, b) => position(a) - position(b) || a.order - b.order)
+      .map((entry, order) => ({ ...entry, order }))
+
+    const shotList: ShotList = { ...currentProject.shotList, entries }
+    set(state => ({
+      currentProject: state.currentProject
+        ? { ...state.currentProject, shotList }
+        : null
+    }))
+
+    await saveShotList()
+    console.log(`[ProjectStore] Imported ${added.length} shot list entries from the ${source}`)
+    return added.length
+  },
+
+  addShotListEntry: async () => {
+    const { currentProject, saveShotList } = get()
+    if (!currentProject) return
+
+    const entries = currentProject.shotList?.entries || []
+    const entry: ShotListEntry = {
+      id: crypto.randomUUID(),
+      order: entries.length,
+      linkedBlock: null
+    }
+
+    set(state => ({
+      currentProject: state.currentProject
+        ? { ...state.currentProject, shotList: { ...state.currentProject.shotList, entries: [...entries, entry] } }
+        : null
+    }))
+
+    await saveShotList()
+  },
+
+  updateShotListEntry: async (entryId, updates) => {
+    const { currentProject, saveShotList, updateShot } = get()
+    if (!currentProject?.shotList) return
+
+    // An illustrated entry's lens and movement are edited on its storyboard shot
+    const entry = currentProject.shotList.entries.find(e => e.id === entryId)
+    const shot = entry && getIllustratingShot(entry, currentProject.storyboard?.shots || [])
+    if (shot && ('lens' in updates || 'movement' in updates)) {
+      const shotUpdates: Partial<StoryboardShot> = {}
+      if ('lens' in updates) shotUpdates.lens = updates.lens
+      if ('movement' in updates) shotUpdates.movement = updates.movement
+      await updateShot(shot.id, shotUpdates)
+
+      updates = { ...updates }
+      delete updates.lens
+      delete updates.movement
+      if (Object.keys(updates).length === 0) return
+    }
+
+    const entries = currentProject.shotList.entries.map(entry =>
+      entry.id === entryId ? { ...entry, ...updates } : entry
+    )
+
+    set(state => ({
+      currentProject: state.currentProject
+        ? { ...state.currentProject, shotList: { ...state.currentProject.shotList, entries } }
+        : null
+    }))
+
+    await saveShotList()
+  },
+
+  linkShotListEntry: async (entryId, documentId, blockId) => {
+    const { currentProject, documents, updateShotListEntry } = get()
+    if (!currentProject) return
+
+    const content = documents[documentId]?.content
+      || await window.api.document.load(currentProject.path, documentId).catch(() => null)
+    const anchor = content ? captureBlockAnchor(content, blockId, documentId) : null
+    if (!anchor) {
+      console.error(`[ProjectStore] Could not link shot list entry to block ${blockId}`)
+      return
+    }
+
+    await updateShotListEntry(entryId, { linkedBlock: anchor, isUnlinked: false })
+  },
+
+  removeShotListEntry: async (entryId) => {
+    const { currentProject, saveShotList } = get()
+    if (!currentProject?.shotList) return
+
+    const entries = currentProject.shotList.entries
+      .filter(entry => entry.id !== entryId)
+      .sort((a, b) => a.order - b.order)
+      .map((entry, order) => ({ ...entry, order }))
+
+    set(state => ({
+      currentProject: state.currentProject
+        ? { ...state.currentProject, shotList: { ...state.currentProject.shotList, entries } }
+        : null
+    }))
+
+    await saveShotList()
+  },
+
+  saveShotList: async () => {
+    const { currentProject } = get()
+    if (!currentProject) return
+
+    try {
+      await window.api.project.save(currentProject)
+      console.log('[ProjectStore] Saved shot list')
+    } catch (error) {
+      console.error('[ProjectStore] Failed to save shot list:', error)
+    }
+  },
+
+  exportShotListCsv: async (sort) => {
+    const { currentProject, documents } = get()
+    if (!currentProject) throw new Error('No project is open')
+
+    const documentContents = await loadDocumentContents(currentProject, documents)
+    const result = await window.api.shotList.exportCsv(currentProject, documentContents, sort)
+    console.log(`[ProjectStore] Exported shot list to ${result.path}`)
+    return result
+  },
   
   // Agenda item actions (for NotesJournal todo tracking)
   
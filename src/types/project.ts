@@ -46,6 +46,7 @@ export interface Project {
   characters: Character[] // For screenplay character bank
   props: Prop[] // For screenplay prop bank
   storyboard?: Storyboard // For screenplay storyboard playback
+  shotList?: ShotList // For the screenplay shot list
   stickers?: Sticker[] // For NotesJournal overlay stickers
   drawings?: DocumentDrawing[] // For NotesJournal freehand drawing
   settings: ProjectSettings
@@ -335,12 +336,85 @@ export interface StoryboardShot {
   durationMs?: number       // Manual override duration in milliseconds
   linkedBlock: BlockAnchor | null
   isUnlinked?: boolean      // True if re-anchoring failed after edits
+  camera?: string           // Camera setup, e.g. "A cam" or "Wide"
+  lens?: string             // e.g. "35mm"
+  movement?: string         // e.g. "Dolly in", "Static"
+  notes?: string            // Free-text notes printed on storyboard sheets
 }
 
 export interface Storyboard {
   shots: StoryboardShot[]
 }
 
+// Shot list: the structured camera plan for a screenplay, one entry per
+// shot, for the first AD to schedule from
+export type ShotSize = 'ews' | 'ws' | 'fs' | 'mws' | 'ms' | 'mcu' | 'cu' | 'ecu' | 'insert'
+export type ShotAngle = 'eye-level' | 'high' | 'low' | 'overhead' | 'dutch' | 'pov' | 'ots'
+
+export interface ShotListEntry {
+  id: string
+  order: number               // Position in script order
+  setupNumber?: number        // Camera setup the shot is grouped under
+  size?: ShotSize
+  angle?: ShotAngle
+  // Lens and movement of entries without a storyboard shot; an illustrated
+  // entry uses its shot's, so the two never disagree
+  movement?: string           // e.g. "Dolly in", "Static"
+  lens?: string               // e.g. "35mm"
+  description?: string
+  setupMinutes?: number       // Estimated time to set up, for scheduling
+  linkedBlock: BlockAnchor | null
+  isUnlinked?: boolean        // True if re-anchoring failed after edits
+  storyboardShotId?: string   // Storyboard shot whose image illustrates this one
+}
+
+export interface ShotList {
+  entries: ShotListEntry[]
+}
+
+export type ShotListSortKey = 'number' | 'scene' | 'setup' | 'size' | 'angle' | 'movement' | 'lens' | 'setupMinutes'
+
+export interface ShotListSort {
+  key: ShotListSortKey
+  direction: 'asc' | 'desc'
+}
+
+export interface ShotListCsvResult {
+  path: string
+  size: number
+  rowCount: number
+}
+
+// Animatic export: storyboard playback rendered to a video or frame sequence
+export type AnimaticFormat = 'mp4' | 'webm' | 'frames'
+
+export interface AnimaticOptions {
+  format: AnimaticFormat
+  captions: boolean // Burn in the text of each shot's linked block
+  slates: boolean   // Show the scene heading when the shots move to a new scene
+}
+
+export interface AnimaticResult {
+  format: AnimaticFormat // 'frames' when a video was asked for but ffmpeg wasn't found
+  path: string           // The video file, or the folder of frames
+  size: number
+  frameCount: number
+  durationMs: number
+}
+
+// Storyboard sheets: printable pages of shot panels, columns x rows per page
+export type StoryboardSheetLayout = '2x3' | '3x4'
+
+export interface StoryboardSheetOptions {
+  layout: StoryboardSheetLayout
+}
+
+export interface StoryboardSheetResult {
+  path: string
+  size: number
+  pageCount: number
+}
+
 // Sticker types (for NotesJournal overlay stickers)
 export interface Sticker {
   id: string
@@ -379,6 +453,82 @@ export interface DocumentVersion {
   label?: string // Optional user-provided label
   content: JSONContent
   wordCount: number
+  auto?: boolean // Taken by an automatic snapshot; only these are thinned by retention
+  milestone?: boolean // Kept regardless of retention and marked in the history
+}
+
+// Alternate drafts of a document. The document file holds the checked-out
+// draft; the others live in `.cadmus/drafts/<docId>.json` with their content.
+// Each draft records the version it was created from, the base for merging.
+export interface DraftInfo {
+  id: string
+  name: string
+  baseVersionId: string | null
+}
+
+export interface DocumentBranch extends DraftInfo {
+  content: JSONContent
+  updatedAt: string // ISO date
+}
+
+export interface DocumentDrafts {
+  documentId: string
+  current: DraftInfo
+  branches: DocumentBranch[]
+}
+
+// Git-backed project history (optional; the project folder is the repository)
+export interface GitStatus {
+  available: boolean       // A git executable was found
+  initialized: boolean
+  branch: string | null
+  remote: string | null    // Path of the `origin` remote
+  uncommitted: number      // Changed files not yet committed
+}
+
+export interface GitCommit {
+  hash: string
+  author: string
+  date: string // ISO date
+  message: string
+}
+
+// The commit that last changed a top-level block; null if the change isn't committed yet
+export interface BlockBlame {
+  blockId: string
+  commit: GitCommit | null
+}
+
+export interface GitSyncResult {
+  pulled: number // Commits brought in from the remote
+  pushed: number // Commits sent to it
+}
+
+// Automatic snapshots of edited documents, thinned as they age. Thinning keeps
+// every snapshot younger than keepAllHours, then the newest per hour, day and
+// week until each window ends; older automatic snapshots are removed.
+export interface VersionRetention {
+  keepAllHours: number
+  hourlyDays: number
+  dailyDays: number
+  weeklyDays: number
+}
+
+export interface VersionHistorySettings {
+  autoSnapshots: boolean
+  intervalMinutes: number // Snapshot a changed document once this long has passed since the last version
+  wordDelta: number       // ...or sooner, once this many words were added or removed
+  retention: VersionRetention
+}
+
+// How long each kind of screenplay block plays, for storyboard timing
+export interface PacingSettings {
+  dialogueCharsPerSecond: number // Speaking rate
+  actionWordsPerMinute: number   // Reading rate, before busy action is weighted up
+  parentheticalMs: number        // Beat held for a parenthetical
+  transitionMs: number
+  sceneHeadingMs: number
+  fitToTargetRuntime: boolean    // Scale estimates so the script plays in targetRuntimeMinutes
 }
 
 // Settings types
@@ -394,6 +544,57 @@ export interface ProjectSettings {
   targetRuntimeMinutes?: number
   // Custom AI prompt instruction overrides per command (keyed by AIWritingCommand id)
   customAIPrompts?: Partial<Record<string, string>>
+  // Words the spelling check accepts in this project (the user dictionary applies to all projects)
+  customDictionary?: string[]
+  // Automatic snapshots and retention (defaults in utils/versionRetention)
+  versionHistory?: VersionHistorySettings
+  // Storyboard timing rates (screenplay only; defaults in utils/pacing)
+  pacing?: PacingSettings
+}
+
+// Rule packs: declarative house-style checks stored in .cadmus/rule-packs/<id>.json.
+// Each pack registers as the pass `rule-pack:<id>` and is toggled via enabledPasses.
+export interface RuleBase {
+  id: string
+  message?: string          // Shown in the Problems panel; defaults per rule type
+  severity?: DiagnosticSeverity  // Defaults to 'warning'
+  caseSensitive?: boolean   // Defaults to false
+}
+
+// Words or phrases that must not appear
+export interface BannedWordsRule extends RuleBase {
+  type: 'banned-words'
+  words: string[]
+  replacement?: string      // Offered as a fix when set
+}
+
+// A preferred term and the variants it replaces
+export interface TerminologyRule extends RuleBase {
+  type: 'terminology'
+  term: string
+  variants: string[]
+}
+
+// Any regular expression; replacement may use $1-style group references
+export interface RegexRule extends RuleBase {
+  type: 'regex'
+  pattern: string
+  flags?: string            // Extra flags besides g/i (e.g. 'm', 'u')
+  replacement?: string
+}
+
+export type RulePackRule = BannedWordsRule | TerminologyRule | RegexRule
+
+export interface RulePack {
+  id: string                // File name without .json
+  name: string
+  description?: string
+  rules: RulePackRule[]
+}
+
+export interface RulePackLoadResult {
+  packs: RulePack[]
+  errors: { id: string; message: string }[]
 }
 
 export interface HeadingTypography {
@@ -430,9 +631,10 @@ export interface BuildProfile {
   name: string
   includedDocumentIds: string[]
   exportFormats: ExportFormat[]
+  sceneNumbers?: boolean // Screenplay PDF: print scene numbers in both margins (default true)
 }
 
-export type ExportFormat = 'html' | 'pdf' | 'docx'
+export type ExportFormat = 'html' | 'pdf' | 'docx' | 'fountain' | 'fdx'
 
 // Diagnostic types
 export type DiagnosticSeverity = 'error' | 'warning' | 'info'
@@ -444,9 +646,11 @@ export interface Diagnostic {
   title: string
   message: string
   documentId: string
+  blockId?: string  // Block containing the issue, for navigation via scrollTargetBlock
   range?: TextRange
   suggestions?: DiagnosticSuggestion[]
   source?: string
+  sourcePassage?: DiagnosticSourcePassage  // Reference material the issue was checked against
   context?: {
     text: string      // Surrounding text snippet
     offset: number    // Offset of the issue within the snippet
@@ -454,12 +658,92 @@ export interface Diagnostic {
   }
 }
 
+// A passage of a project's reference material: from a PDF or link asset,
+// or a block of a project document such as the Bibliography
+export interface DiagnosticSourcePassage {
+  text: string
+  assetId?: string
+  documentId?: string
+  blockId?: string
+  page?: number
+}
+
 export interface DiagnosticSuggestion {
   label: string
   replacement?: string
   action?: string
 }
 
+// Where a suppression applies: one issue (by fingerprint), a rule in one
+// document, or a rule across the project. A rule is a pass plus a title.
+export type SuppressionScope = 'issue' | 'document' | 'project'
+
+export interface DiagnosticSuppression {
+  id: string
+  scope: SuppressionScope
+  passId: string
+  title: string
+  documentId?: string   // 'issue' and 'document' scopes
+  fingerprint?: string  // 'issue' scope
+  text?: string         // The flagged text, for listing the suppression
+  createdAt: string     // ISO date
+}
+
+// Stored in .cadmus/suppressions.json
+export interface ProjectSuppressions {
+  suppressions: DiagnosticSuppression[]
+  // Fingerprints of the issues present when the baseline was taken; matching
+  // issues stay hidden so only new ones surface
+  baseline?: {
+    createdAt: string
+    fingerprints: string[]
+  }
+}
+
+// Project search (quick open)
+export type SearchResultKind = 'document' | 'version' | 'conversation'
+
+export interface SearchResult {
+  kind: SearchResultKind
+  documentId?: string     // 'document' and 'version' results
+  blockId?: string        // Block the match is in, for scrollTargetBlock
+  versionId?: string      // 'version' results
+  conversationId?: string // 'conversation' results
+  messageId?: string      // Message the match is in
+  title: string
+  subtitle?: string       // Version label or date
+  text: string            // Snippet around the match; empty for title matches
+  score: number
+}
+
+// Unsaved editor state journaled to .cadmus/journal/<documentId>.json
+export interface JournalEntry {
+  documentId: string
+  content: JSONContent
+  journaledAt: string // ISO date
+}
+
+// A journal entry left by a session that ended before saving it
+export interface RecoverableDocument extends JournalEntry {
+  title: string
+}
+
+// A change to the open project's files made outside the app
+export type ExternalChange =
+  | { kind: 'project'; project: Project }
+  | { kind: 'document'; documentId: string; content: JSONContent }
+
+// An external change to a document that has unsaved edits
+export interface ExternalConflict {
+  documentId: string
+  title: string
+  content: JSONContent // The version on disk
+}
+
+// User key bindings by command id, stored in app preferences. A null
+// binding removes the command's default.
+export type Keymap = Record<string, string | null>
+
 // Pass types
 export type PassKind = 'local' | 'ai'
 
@@ -499,6 +783,15 @@ export interface BuildResult {
   artifacts?: BuildArtifact[]
 }
 
+// Streamed while a build runs; diagnostics are those found since the last update
+export interface BuildProgress {
+  passId: string
+  completed: number   // Pass runs finished (a document pass runs once per document)
+  total: number
+  cached: number      // Runs served from the cache because nothing changed
+  diagnostics: Diagnostic[]
+}
+
 export interface BuildArtifact {
   format: ExportFormat
   path: string
@@ -555,6 +848,18 @@ export interface ImageGenSettings {
   useReferenceImages: boolean
 }
 
+// AI provider types (settings shared by every AI feature)
+export type AIFeature = 'writing' | 'thoughtPartner' | 'patcher' | 'critique' | 'documentGeneration' | 'suggestions'
+export type AIProviderKind = 'openai' | 'mock'
+
+export interface AIProviderSettings {
+  provider: AIProviderKind   // 'mock' answers offline with deterministic output
+  baseUrl: string            // OpenAI-compatible API root, e.g. https://api.openai.com/v1
+  models: Record<AIFeature, string>
+  timeoutMs: number
+  maxRetries: number
+}
+
 export interface ImageGenOptions {
   style: ImageStyle
   size: ImageSize
@@ -761,7 +1066,7 @@ declare global {
       project: {
         create: (template: Template, name: string, basePath: string) => Promise<Project>
         open: (projectPath: string) => Promise<Project>
-        import: (sourcePath: string, destinationBasePath: string) => Promise<Project>
+        import: (sourcePath: string, destinationBasePath: string, template?: Template) => Promise<Project>
         export: (projectPath: string, destinationBasePath: string) => Promise<string>
         save: (project: Project) => Promise<void>
         getLastOpened: () => Promise<string | null>
@@ -776,7 +1081,7 @@ declare global {
       }
       document: {
         create: (projectPath: string, doc: Omit<ProjectDocument, 'createdAt' | 'updatedAt'>, templateId?: string, screenplayDocType?: 'title-page' | 'page' | 'break') => Promise<ProjectDocument>
-        save: (projectPath: string, docId: string, content: JSONContent) => Promise<void>
+        save: (projectPath: string, docId: string, content: JSONContent) => Promise<DocumentVersion | null>
         load: (projectPath: string, docId: string) => Promise<JSONContent>
         delete: (projectPath: string, docId: string) => Promise<void>
       }
@@ -785,6 +1090,7 @@ declare global {
         uploadFromBuffer: (projectPath: string, buffer: ArrayBuffer, fileName: string, mimeType: string) => Promise<Asset>
         delete: (projectPath: string, assetId: string) => Promise<void>
         getPath: (projectPath: string, assetId: string) => Promise<string>
+        open: (projectPath: string, assetId: string) => Promise<void>
       }
       dialog: {
         selectFolder: () => Promise<string | null>
@@ -792,11 +1098,47 @@ declare global {
       }
       build: {
         run: (project: Project, documentContents: Record<string, JSONContent>) => Promise<BuildResult>
+        onProgress: (callback: (progress: BuildProgress) => void) => () => void
+      }
+      rulePacks: {
+        list: (projectPath: string) => Promise<RulePackLoadResult>
+        openFolder: (projectPath: string) => Promise<void>
+      }
+      spelling: {
+        getUserDictionary: () => Promise<string[]>
+        addUserWord: (word: string) => Promise<string[]>
+        removeUserWord: (word: string) => Promise<string[]>
+      }
+      suppressions: {
+        load: (projectPath: string) => Promise<ProjectSuppressions>
+        save: (projectPath: string, suppressions: ProjectSuppressions) => Promise<void>
+      }
+      search: {
+        query: (projectPath: string, query: string, limit?: number) => Promise<SearchResult[]>
       }
       version: {
         save: (projectPath: string, docId: string, content: JSONContent, label?: string) => Promise<DocumentVersion>
         load: (projectPath: string, docId: string) => Promise<DocumentVersion[]>
         delete: (projectPath: string, docId: string, versionId: string) => Promise<void>
+        label: (projectPath: string, docId: string, versionId: string, label: string | undefined, milestone: boolean) => Promise<void>
+      }
+      git: {
+        status: (projectPath: string) => Promise<GitStatus>
+        init: (projectPath: string) => Promise<GitStatus>
+        commit: (projectPath: string, message: string) => Promise<GitCommit | null>
+        log: (projectPath: string, docId: string) => Promise<GitCommit[]>
+        show: (projectPath: string, docId: string, hash: string) => Promise<JSONContent | null>
+        blame: (projectPath: string, docId: string) => Promise<BlockBlame[]>
+        setRemote: (projectPath: string, remotePath: string) => Promise<GitStatus>
+        sync: (projectPath: string) => Promise<GitSyncResult>
+      }
+      drafts: {
+        load: (projectPath: string, docId: string) => Promise<DocumentDrafts>
+        create: (projectPath: string, docId: string, name: string, content: JSONContent) => Promise<DocumentDrafts>
+        switch: (projectPath: string, docId: string, branchId: string, content: JSONContent) => Promise<DocumentDrafts>
+        markMerged: (projectPath: string, docId: string, branchId: string) => Promise<DocumentDrafts>
+        rename: (projectPath: string, docId: string, draftId: string, name: string) => Promise<DocumentDrafts>
+        delete: (projectPath: string, docId: string, branchId: string) => Promise<DocumentDrafts>
       }
       utils: {
         getPathForFile: (file: File) => string
@@ -817,10 +1159,39 @@ declare global {
         hasApiKey: () => Promise<boolean>
         buildPrompt: (selectedText: string, contextSection: string, promptTemplate?: string) => Promise<string>
       }
+      aiProvider: {
+        getSettings: () => Promise<AIProviderSettings>
+        setSettings: (settings: Partial<AIProviderSettings>) => Promise<void>
+        isConfigured: () => Promise<boolean>
+      }
       theme: {
         get: () => Promise<'dark' | 'light'>
         set: (theme: 'dark' | 'light') => Promise<void>
       }
+      journal: {
+        write: (projectPath: string, documentId: string, content: JSONContent) => Promise<void>
+        recover: (projectPath: string) => Promise<RecoverableDocument[]>
+        discard: (projectPath: string, documentId: string) => Promise<void>
+      }
+      animatic: {
+        export: (project: Project, documentContents: Record<string, JSONContent>, options: AnimaticOptions) => Promise<AnimaticResult>
+        reveal: (path: string) => Promise<void>
+      }
+      storyboard: {
+        exportSheets: (project: Project, documentContents: Record<string, JSONContent>, options: StoryboardSheetOptions) => Promise<StoryboardSheetResult>
+      }
+      shotList: {
+        exportCsv: (project: Project, documentContents: Record<string, JSONContent>, sort: ShotListSort) => Promise<ShotListCsvResult>
+      }
+      watcher: {
+        start: (projectPath: string) => Promise<void>
+        stop: () => Promise<void>
+        onChange: (callback: (change: ExternalChange) => void) => () => void
+      }
+      keymap: {
+        get: () => Promise<Keymap>
+        set: (keymap: Keymap) => Promise<void>
+      }
       panelWidths: {
         get: () => Promise<Record<string, number>>
         set: (widths: Record<string, number>) => Promise<void>
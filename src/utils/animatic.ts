@@ -0,0 +1,53 @@
+/**
+ * Animatic Utilities
+ *
+ * Plans the frames of an animatic from the storyboard: each shot in order
+ * for its playback duration, captioned with the text of its linked block,
+ * and a slate with the scene heading wherever the shots move to a new
+ * scene. Rendering and encoding happen in the main process.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import type { AnimaticOptions, Project } from '../types/project'
+import { getBlockText, getSceneHeadingsByBlock } from './blockAnchoring'
+import { createPacingModel, getShotDuration } from './pacing'
+
+// How long each scene slate is held
+export const SLATE_DURATION_MS = 2000
+
+export type AnimaticFrame =
+  | { kind: 'slate'; text: string; durationMs: number }
+  | { kind: 'shot'; shotId: string; assetId: string; caption: string | null; durationMs: number }
+
+export function planAnimatic(
+  project: Project,
+  documents: Record<string, JSONContent>,
+  options: Pick<AnimaticOptions, 'captions' | 'slates'>
+): AnimaticFrame[] {
+  const shots = [...(project.storyboard?.shots || [])].sort((a, b) => a.order - b.order)
+  const headings = options.slates ? getSceneHeadingsByBlock(project, documents) : new Map<string, string>()
+  const pacing = createPacingModel(project, documents)
+
+  const frames: AnimaticFrame[] = []
+  let lastScene: string | null = null
+  for (const shot of shots) {
+    const anchor = shot.linkedBlock && !shot.isUnlinked ? shot.linkedBlock : null
+    const doc = anchor ? documents[anchor.documentId] : undefined
+
+    const scene = anchor ? headings.get(anchor.blockId) || null : null
+    if (scene && scene !== lastScene) {
+      frames.push({ kind: 'slate', text: scene, durationMs: SLATE_DURATION_MS })
+    }
+    if (scene) lastScene = scene
+
+    const caption = options.captions && anchor && doc ? getBlockText(doc, anchor.blockId)?.trim() || null : null
+    frames.push({
+      kind: 'shot',
+      shotId: shot.id,
+      assetId: shot.assetId,
+      caption,
+      durationMs: getShotDuration(shot, documents, pacing)
+    })
+  }
+  return frames
+}
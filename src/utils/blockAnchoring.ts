@@ -2,15 +2,25 @@
  * Block Anchoring Utilities
  * 
  * Provides functionality to anchor storyboard shots to script text blocks
- * and re-anchor them after edits using context hashing.
+ * and re-anchor them after edits using context hashing. The same fuzzy
+ * matching ranks relink candidates for shots that lose their block and
+ * resolves critique evidence and citations whose block has gone.
  */
 
 import type { JSONContent } from '@tiptap/core'
-import type { BlockAnchor, StoryboardShot, Storyboard } from '../types/project'
+import type { BlockAnchor, Project, ProjectDocument, StoryboardShot, Storyboard } from '../types/project'
 
 // Context length for prefix/suffix hashing (characters)
 const CONTEXT_LENGTH = 50
 
+// Fuzzy scores at or above these count as the same text
+const AUTO_RELINK_SCORE = 0.9  // Repaired without asking
+export const RELINK_SCORE = 0.6 // Offered as a confident match
+const MIN_CANDIDATE_SCORE = 0.4
+
+// Quoted excerpts shorter than this are too generic to match inside a block
+const MIN_EXCERPT_LENGTH = 12
+
 /**
  * Generate a simple hash from a string for anchor context matching.
  * Uses a fast, deterministic hash that's good for short strings.
@@ -192,58 +202,46 @@ interface BlockInfo {
 
 function collectAllBlocks(doc: JSONContent): BlockInfo[] {
   const blocks: BlockInfo[] = []
-  const allText: string[] = []
+  const spans: Array<{ start: number; end: number }> = []
+  let fullText = ''
   
-  function traverse(node: JSONContent, depth = 0): void {
+  function traverse(node: JSONContent): void {
+    // Text nodes make up the context on either side of a block
+    if (node.type === 'text' && node.text) {
+      fullText += node.text
+    }
+    
     // If this node has a blockId, it's a block we can anchor to
-    if (node.attrs?.blockId) {
-      const blockText = extractTextFromNode(node)
-      const prefixText = allText.join('')
-      
+    const start = fullText.length
+    const index = node.attrs?.blockId ? blocks.length : -1
+    if (index !== -1) {
       blocks.push({
-        blockId: node.attrs.blockId as string,
-        text: blockText,
-        prefixText,
-        suffixText: '' // Will be filled in later
+        blockId: node.attrs!.blockId as string,
+        text: extractTextFromNode(node),
+        prefixText: '',
+        suffixText: ''
       })
-      
-      // Add this block's text to the running total
-      allText.push(blockText)
-    } else if (node.type === 'text' && node.text) {
-      // Text nodes without blockId contribute to context but aren't anchorable
-      allText.push(node.text)
+      spans.push({ start, end: start })
     }
     
     // Traverse children
     if (node.content) {
       for (const child of node.content) {
-        traverse(child, depth + 1)
+        traverse(child)
       }
     }
+    
+    if (index !== -1) spans[index].end = fullText.length
   }
   
   traverse(doc)
   
-  // Fill in suffix text for each block
-  const fullText = allText.join('')
-  let currentPos = 0
-  
-  for (const block of blocks) {
-    currentPos += block.prefixText.length
-    const afterBlockPos = currentPos + block.text.length
-    block.suffixText = fullText.slice(afterBlockPos)
-    currentPos = afterBlockPos
-  }
-  
-  // Actually, let's recalculate properly
-  // Each block's suffix is everything after it
-  for (let i = 0; i < blocks.length; i++) {
-    const suffixParts: string[] = []
-    for (let j = i + 1; j < blocks.length; j++) {
-      suffixParts.push(blocks[j].text)
-    }
-    blocks[i].suffixText = suffixParts.join('')
-  }
+  // Context matches what captureBlockAnchor records: all text before the
+  // block starts and after it ends
+  blocks.forEach((block, i) => {
+    block.prefixText = fullText.slice(0, spans[i].start)
+    block.suffixText = fullText.slice(spans[i].end)
+  })
   
   return blocks
 }
@@ -287,13 +285,22 @@ export function relocateBlock(
     const prefixHash = generateAnchorHash(prefixContext)
     const suffixHash = generateAnchorHash(suffixContext)
     
+    const prefixMatch = prefixHash === anchor.prefixHash
+    const suffixMatch = suffixHash === anchor.suffixHash
+    
+    // With context on one side only and different text, this is a
+    // neighbour of the lost block rather than the block rewritten
+    if (prefixMatch !== suffixMatch && fuzzyTextSimilarity(block.text, anchor.textSnapshot) < RELINK_SCORE) {
+      continue
+    }
+    
     let score = 0
     
     // Exact prefix match
-    if (prefixHash === anchor.prefixHash) score += 2
+    if (prefixMatch) score += 2
     
     // Exact suffix match
-    if (suffixHash === anchor.suffixHash) score += 2
+    if (suffixMatch) score += 2
     
     // Partial text match (using simple similarity)
     const textSimilarity = calculateTextSimilarity(block.text, anchor.textSnapshot)
@@ -337,6 +344,122 @@ function calculateTextSimilarity(text1: string, text2: string): number {
   return intersection / union
 }
 
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Dice coefficient on character bigrams (0-1), forgiving of typos and
+ * small rewordings that break whole-word matches
+ */
+function bigramSimilarity(text1: string, text2: string): number {
+  if (text1.length < 2 || text2.length < 2) return text1 === text2 ? 1 : 0
+
+  const counts = new Map<string, number>()
+  for (let i = 0; i < text1.length - 1; i++) {
+    const pair = text1.slice(i, i + 2)
+    counts.set(pair, (counts.get(pair) || 0) + 1)
+  }
+
+  let shared = 0
+  for (let i = 0; i < text2.length - 1; i++) {
+    const pair = text2.slice(i, i + 2)
+    const count = counts.get(pair) || 0
+    if (count > 0) {
+      counts.set(pair, count - 1)
+      shared++
+    }
+  }
+  return (2 * shared) / (text1.length + text2.length - 2)
+}
+
+/**
+ * Fuzzy text similarity (0-1): the better of word overlap and character
+ * bigram overlap, ignoring case and punctuation. An excerpt quoted whole
+ * from a longer block counts as a near match.
+ */
+export function fuzzyTextSimilarity(text1: string, text2: string): number {
+  const a = normalizeForMatch(text1)
+  const b = normalizeForMatch(text2)
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  const contained = shorter.length >= MIN_EXCERPT_LENGTH && longer.includes(shorter)
+    ? 0.8 + 0.15 * (shorter.length / longer.length)
+    : 0
+  return Math.max(contained, calculateTextSimilarity(a, b), bigramSimilarity(a, b))
+}
+
+/**
+ * A block that may be what an anchor or a quoted excerpt pointed at
+ */
+export interface AnchorCandidate {
+  documentId: string
+  blockId: string
+  text: string
+  score: number // 0-1
+}
+
+/**
+ * Rank the blocks across all documents by how well they match some text.
+ * With an anchor, blocks in its document and with its surrounding context
+ * rank a little higher, so a repeated line resolves to the right copy.
+ */
+export function rankAnchorCandidates(
+  documents: Record<string, JSONContent>,
+  text: string,
+  anchor?: BlockAnchor | null,
+  limit = 3
+): AnchorCandidate[] {
+  if (!normalizeForMatch(text)) return []
+
+  const candidates: AnchorCandidate[] = []
+  for (const [documentId, doc] of Object.entries(documents)) {
+    for (const block of collectAllBlocks(doc)) {
+      if (!block.text.trim()) continue
+
+      let score = fuzzyTextSimilarity(block.text, text)
+      if (score < MIN_CANDIDATE_SCORE) continue
+
+      if (anchor && documentId === anchor.documentId) {
+        score += 0.02
+        if (generateAnchorHash(block.prefixText.slice(-CONTEXT_LENGTH)) === anchor.prefixHash) score += 0.04
+        if (generateAnchorHash(block.suffixText.slice(0, CONTEXT_LENGTH)) === anchor.suffixHash) score += 0.04
+      }
+      candidates.push({ documentId, blockId: block.blockId, text: block.text, score })
+    }
+  }
+
+  // Nested blocks repeat their children's text; keep the tighter match on ties
+  candidates.sort((a, b) => b.score - a.score || a.text.length - b.text.length)
+  return candidates.slice(0, limit).map(c => ({ ...c, score: Math.min(1, c.score) }))
+}
+
+/**
+ * Resolve a reference to a block, such as critique evidence or a citation:
+ * the block itself while it exists, otherwise the block that best matches
+ * the quoted text. Returns null when nothing matches confidently.
+ */
+export function resolveBlockReference(
+  documents: Record<string, JSONContent>,
+  documentId: string,
+  blockId: string | undefined,
+  text?: string
+): { documentId: string; blockId: string } | null {
+  const doc = documents[documentId]
+  if (blockId && doc && getBlockText(doc, blockId) !== null) {
+    return { documentId, blockId }
+  }
+  if (!text) return null
+
+  // Prefer the document the reference named when the text appears in several
+  const candidates = rankAnchorCandidates(documents, text, null, 10)
+    .filter(c => c.score >= RELINK_SCORE)
+  const best = candidates.find(c => c.documentId === documentId && c.score === candidates[0].score) || candidates[0]
+  return best ? { documentId: best.documentId, blockId: best.blockId } : null
+}
+
 /**
  * Validate all anchors in a storyboard against the current document content.
  * Returns shot IDs that have become unlinked.
@@ -378,13 +501,9 @@ export function repairAnchors(
     if (!shot.linkedBlock) return shot
     
     const doc = documents[shot.linkedBlock.documentId]
-    if (!doc) {
-      return { ...shot, isUnlinked: true }
-    }
+    const relocatedBlockId = doc ? relocateBlock(doc, shot.linkedBlock) : null
     
-    const relocatedBlockId = relocateBlock(doc, shot.linkedBlock)
-    
-    if (relocatedBlockId) {
+    if (doc && relocatedBlockId) {
       // Successfully relocated - update the anchor
       const newAnchor = captureBlockAnchor(doc, relocatedBlockId, shot.linkedBlock.documentId)
       if (newAnchor) {
@@ -396,52 +515,88 @@ export function repairAnchors(
       }
     }
     
+    // The text may have moved to another document (or its document was deleted)
+    const [best] = rankAnchorCandidates(documents, shot.linkedBlock.textSnapshot, shot.linkedBlock, 1)
+    if (best && best.score >= AUTO_RELINK_SCORE) {
+      const newAnchor = captureBlockAnchor(documents[best.documentId], best.blockId, best.documentId)
+      if (newAnchor) {
+        return { ...shot, linkedBlock: newAnchor, isUnlinked: false }
+      }
+    }
+    
     // Relocation failed
     return { ...shot, isUnlinked: true }
   })
 }
 
 /**
- * Estimate duration in milliseconds based on text length.
- * Uses ~150 words per minute for narration pace.
+ * The scene heading each block falls under, walking the documents in
+ * project order so scenes can continue across pages
  */
-export function estimateDurationMs(text: string): number {
-  if (!text || text.trim().length === 0) {
-    return 3500 // Default 3.5 seconds for empty/no text
+export function getSceneHeadingsByBlock(project: Project, documents: Record<string, JSONContent>): Map<string, string> {
+  const headings = new Map<string, string>()
+  let current: string | null = null
+
+  for (const doc of getOrderedDocuments(project)) {
+    for (const block of documents[doc.id]?.content || []) {
+      if (block.type === 'screenplayElement' && block.attrs?.elementType === 'scene-heading') {
+        current = extractTextFromNode(block).trim().toUpperCase() || current
+      }
+      const blockId = block.attrs?.blockId as string | undefined
+      if (blockId && current) headings.set(blockId, current)
+    }
   }
-  
-  const words = text.trim().split(/\s+/).length
-  const wordsPerMinute = 150
-  const ms = (words / wordsPerMinute) * 60 * 1000
-  
-  // Clamp between 3 and 15 seconds
-  return Math.max(3000, Math.min(ms, 15000))
+  return headings
 }
 
 /**
- * Get the effective duration for a shot.
- * Priority: manual override > estimate from linked text > default
+ * The project's documents in reading order: depth first through the tree,
+ * since each document's order is among its siblings
  */
-export function getShotDuration(
-  shot: StoryboardShot,
-  documents: Record<string, JSONContent>
-): number {
-  // Manual override takes priority
-  if (shot.durationMs !== undefined) {
-    return shot.durationMs
+export function getOrderedDocuments(project: Project): ProjectDocument[] {
+  const ids = new Set(project.documents.map(d => d.id))
+  const children = new Map<string | undefined, ProjectDocument[]>()
+  for (const doc of project.documents) {
+    const parentId = doc.parentId && ids.has(doc.parentId) ? doc.parentId : undefined
+    children.set(parentId, [...(children.get(parentId) || []), doc])
   }
-  
-  // If linked to a block, estimate from text
-  if (shot.linkedBlock && !shot.isUnlinked) {
-    const doc = documents[shot.linkedBlock.documentId]
-    if (doc) {
-      const text = getBlockText(doc, shot.linkedBlock.blockId)
-      if (text) {
-        return estimateDurationMs(text)
+
+  const ordered: ProjectDocument[] = []
+  const visit = (parentId: string | undefined) => {
+    const siblings = [...(children.get(parentId) || [])].sort((a, b) => a.order - b.order)
+    for (const doc of siblings) {
+      if (doc.type === 'document') ordered.push(doc)
+      visit(doc.id)
+    }
+  }
+  visit(undefined)
+  return ordered
+}
+
+export interface ScriptBlock {
+  documentId: string
+  blockId: string
+  elementType: string
+  text: string
+}
+
+/**
+ * The screenplay's blocks of the given element types, in script order
+ */
+export function findScriptBlocks(
+  project: Project,
+  documents: Record<string, JSONContent>,
+  elementTypes: string[]
+): ScriptBlock[] {
+  const blocks: ScriptBlock[] = []
+  for (const doc of getOrderedDocuments(project)) {
+    for (const block of documents[doc.id]?.content || []) {
+      const blockId = block.attrs?.blockId as string | undefined
+      const elementType = block.attrs?.elementType as string | undefined
+      if (blockId && elementType && block.type === 'screenplayElement' && elementTypes.includes(elementType)) {
+        blocks.push({ documentId: doc.id, blockId, elementType, text: extractTextFromNode(block).trim() })
       }
     }
   }
-  
-  // Default duration
-  return 3500
+  return blocks
 }
@@ -0,0 +1,99 @@
+/**
+ * Block Merge Utilities
+ *
+ * Three-way merge of two drafts of a document against the version they
+ * both started from. Top-level blocks are aligned by their UniqueID
+ * `blockId` (blocks without one, such as images, by their content), so a
+ * block keeps its identity however far it moved. A block changed on one
+ * side only takes that side; a block changed differently on both becomes a
+ * `mergeConflict` node for the writer to resolve in the editor.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+
+export const MERGE_CONFLICT_NODE = 'mergeConflict'
+
+export interface MergeConflictAttributes {
+  current: JSONContent[]   // The checked-out draft's block, or none if it deleted it
+  incoming: JSONContent[]  // The merged draft's block, or none if it deleted it
+  draftName: string
+}
+
+export interface MergeResult {
+  content: JSONContent
+  conflicts: number
+}
+
+function keyBlocks(blocks: JSONContent[]): Map<string, JSONContent> {
+  const keyed = new Map<string, JSONContent>()
+  const occurrences = new Map<string, number>()
+  for (const block of blocks) {
+    let key = block.attrs?.blockId as string | undefined
+    if (!key) {
+      const serialized = JSON.stringify(block)
+      const n = (occurrences.get(serialized) || 0) + 1
+      occurrences.set(serialized, n)
+      key = `content:${n}:${serialized}`
+    }
+    keyed.set(key, block)
+  }
+  return keyed
+}
+
+function sameBlock(a: JSONContent | undefined, b: JSONContent | undefined): boolean {
+  return a === b || (!!a && !!b && JSON.stringify(a) === JSON.stringify(b))
+}
+
+/**
+ * Merge `incoming` (another draft) into `current` (the checked-out draft),
+ * given the `base` version both drafts descend from.
+ */
+export function mergeDrafts(base: JSONContent, current: JSONContent, incoming: JSONContent, draftName: string): MergeResult {
+  const baseBlocks = keyBlocks(base.content || [])
+  const currentBlocks = keyBlocks(current.content || [])
+  const incomingBlocks = keyBlocks(incoming.content || [])
+
+  // Current's order, with blocks only the incoming draft has placed after
+  // the block that precedes them there
+  const order = [...currentBlocks.keys()]
+  let previous: string | null = null
+  for (const key of incomingBlocks.keys()) {
+    if (!currentBlocks.has(key)) {
+      order.splice(previous === null ? 0 : order.indexOf(previous) + 1, 0, key)
+    }
+    previous = key
+  }
+
+  const merged: JSONContent[] = []
+  let conflicts = 0
+  for (const key of order) {
+    const baseBlock = baseBlocks.get(key)
+    const currentBlock = currentBlocks.get(key)
+    const incomingBlock = incomingBlocks.get(key)
+
+    let resolved: JSONContent | undefined
+    if (sameBlock(currentBlock, incomingBlock) || sameBlock(baseBlock, incomingBlock)) {
+      resolved = currentBlock
+    } else if (sameBlock(baseBlock, currentBlock)) {
+      resolved = incomingBlock
+    } else {
+      conflicts++
+      const attrs: MergeConflictAttributes = {
+        current: currentBlock ? [currentBlock] : [],
+        incoming: incomingBlock ? [incomingBlock] : [],
+        draftName
+      }
+      resolved = { type: MERGE_CONFLICT_NODE, attrs: attrs as unknown as Record<string, unknown> }
+    }
+    if (resolved) merged.push(resolved)
+  }
+
+  return { content: { ...current, content: merged }, conflicts }
+}
+
+/**
+ * Whether a document still holds unresolved merge conflicts
+ */
+export function hasMergeConflicts(content: JSONContent): boolean {
+  return (content.content || []).some(block => block.type === MERGE_CONFLICT_NODE)
+}
@@ -0,0 +1,146 @@
+/**
+ * Commands & Keymap
+ *
+ * Commands are contributed by the app shell, panels and workspaces while
+ * they are mounted (see useCommands) and run from the command palette or a
+ * key binding. Bindings are chords like 'Mod+Shift+B', where Mod is Cmd on
+ * macOS and Ctrl elsewhere; the user's keymap overrides a command's default.
+ */
+
+import type { Keymap } from '../types/project'
+
+export interface Command {
+  id: string // e.g. 'storyboard.toggle'
+  title: string
+  category: string // Shown before the title in the palette
+  keys?: string // Default binding
+  altKeys?: string[] // Further default chords, e.g. a shifted variant; dropped once rebound
+  when?: () => boolean // Unavailable while this returns false
+  run: () => void | Promise<void>
+}
+
+// Editor bindings a command may not take over
+export const RESERVED_BINDINGS: Record<string, string> = {
+  'Mod+A': 'Select All',
+  'Mod+B': 'Bold',
+  'Mod+C': 'Copy',
+  'Mod+I': 'Italic',
+  'Mod+U': 'Underline',
+  'Mod+V': 'Paste',
+  'Mod+X': 'Cut',
+  'Mod+Z': 'Undo',
+  'Mod+Shift+Z': 'Redo'
+}
+
+const MODIFIER_KEYS = new Set(['Meta', 'Control', 'Alt', 'Shift', 'CapsLock'])
+
+const KEY_SYMBOLS: Record<string, string> = {
+  Mod: '⌘',
+  Alt: '⌥',
+  Shift: '⇧',
+  Enter: '↵',
+  Escape: 'Esc',
+  Backspace: '⌫',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Plus: '+'
+}
+
+/**
+ * The chord for a key event, or null for a lone modifier. Letters and
+ * digits come from the physical key so Alt and keyboard layouts don't
+ * change them.
+ */
+export function chordFromEvent(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null
+
+  let key: string
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3)
+  else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5)
+  else if (e.key === ' ') key = 'Space'
+  else if (e.key === '+') key = 'Plus'
+  else key = e.key.length === 1 ? e.key.toUpperCase() : e.key
+
+  const parts: string[] = []
+  if (e.metaKey || e.ctrlKey) parts.push('Mod')
+  if (e.altKey) parts.push('Alt')
+  if (e.shiftKey) parts.push('Shift')
+  parts.push(key)
+  return parts.join('+')
+}
+
+/**
+ * A chord for display, e.g. 'Mod+Shift+B' → '⌘⇧B'.
+ */
+export function formatChord(chord: string): string {
+  return chord.split('+').map(part => KEY_SYMBOLS[part] ?? part).join('')
+}
+
+// Chords without a modifier would fire while typing, and Escape belongs to
+// the field, so they only apply outside text fields
+export function isTypingChord(chord: string): boolean {
+  return !/^(Mod|Alt)\+/.test(chord)
+}
+
+/**
+ * The binding in effect for a command: the user's keymap entry if there is
+ * one, else its default.
+ */
+export function bindingFor(command: Command, keymap: Keymap): string | null {
+  return command.id in keymap ? keymap[command.id] : command.keys ?? null
+}
+
+/**
+ * Every chord a command answers to: the user's keymap entry if there is
+ * one, else its default and alternates.
+ */
+export function bindingsFor(command: Command, keymap: Keymap): string[] {
+  if (command.id in keymap) return keymap[command.id] ? [keymap[command.id]!] : []
+  return [command.keys, ...(command.altKeys || [])].filter((chord): chord is string => !!chord)
+}
+
+/**
+ * The first available command bound to a chord.
+ */
+export function commandForChord(commands: Command[], keymap: Keymap, chord: string): Command | undefined {
+  return commands.find(command => bindingsFor(command, keymap).includes(chord) && (command.when?.() ?? true))
+}
+
+/**
+ * What else a chord is already bound to: other commands, and the editor
+ * action it is reserved for.
+ */
+export function bindingConflicts(commands: Command[], keymap: Keymap, commandId: string, chord: string): { reserved?: string; commands: Command[] } {
+  return {
+    reserved: RESERVED_BINDINGS[chord],
+    commands: commands.filter(command => command.id !== commandId && bindingsFor(command, keymap).includes(chord))
+  }
+}
+
+/**
+ * Score a subsequence match of the query in the text, higher is better, or
+ * null when the query's characters don't all appear in order. Consecutive
+ * characters and word starts score extra.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '')
+  if (!q) return 0
+  const t = text.toLowerCase()
+
+  let score = 0
+  let previous = -2
+  let index = 0
+  for (const char of q) {
+    const found = t.indexOf(char, index)
+    if (found < 0) return null
+    score += 1
+    if (found === previous + 1) score += 3
+    if (found === 0 || /[\s:.\-_/]/.test(t[found - 1])) score += 2
+    previous = found
+    index = found + 1
+  }
+  // Prefer shorter texts among equal matches
+  return score - t.length * 0.01
+}
@@ -0,0 +1,90 @@
+/**
+ * Diagnostic Suppression Utilities
+ *
+ * Fingerprints diagnostics so a suppression or baseline entry still
+ * matches after the text around an issue is edited, and filters build
+ * results against a project's suppressions.
+ */
+
+import type { Diagnostic, DiagnosticSuppression, ProjectSuppressions, SuppressionScope } from '../types/project'
+import { generateAnchorHash } from './blockAnchoring'
+
+/**
+ * The text a diagnostic flags, falling back to its message for issues
+ * that are not tied to a span of text.
+ */
+export function flaggedText(diagnostic: Diagnostic): string {
+  if (diagnostic.context) {
+    const { text, offset, length } = diagnostic.context
+    return text.slice(offset, offset + length).trim()
+  }
+  return diagnostic.message
+}
+
+/**
+ * A fingerprint that survives edits: the rule, the document and block, and
+ * the flagged text. Positions are left out because they shift whenever
+ * anything earlier in the document changes.
+ */
+export function diagnosticFingerprint(diagnostic: Diagnostic): string {
+  return generateAnchorHash([
+    diagnostic.passId,
+    diagnostic.title,
+    diagnostic.documentId,
+    diagnostic.blockId || '',
+    flaggedText(diagnostic).replace(/\s+/g, ' ')
+  ].join('\u0000'))
+}
+
+export function createSuppression(diagnostic: Diagnostic, scope: SuppressionScope): DiagnosticSuppression {
+  return {
+    id: crypto.randomUUID(),
+    scope,
+    passId: diagnostic.passId,
+    title: diagnostic.title,
+    documentId: scope === 'project' ? undefined : diagnostic.documentId,
+    fingerprint: scope === 'issue' ? diagnosticFingerprint(diagnostic) : undefined,
+    text: scope === 'issue' ? flaggedText(diagnostic) : undefined,
+    createdAt: new Date().toISOString()
+  }
+}
+
+function matchesSuppression(diagnostic: Diagnostic, suppression: DiagnosticSuppression, fingerprint: string): boolean {
+  if (diagnostic.passId !== suppression.passId || diagnostic.title !== suppression.title) return false
+  switch (suppression.scope) {
+    case 'issue':
+      return suppression.fingerprint === fingerprint
+    case 'document':
+      return diagnostic.documentId === suppression.documentId
+    case 'project':
+      return true
+  }
+}
+
+/**
+ * Split diagnostics into those to show and those hidden by a suppression
+ * or the baseline.
+ */
+export function applySuppressions(
+  diagnostics: Diagnostic[],
+  suppressions: ProjectSuppressions | null
+): { visible: Diagnostic[]; suppressed: Diagnostic[] } {
+  if (!suppressions || (suppressions.suppressions.length === 0 && !suppressions.baseline)) {
+    return { visible: diagnostics, suppressed: [] }
+  }
+
+  const baseline = new Set(suppressions.baseline?.fingerprints || [])
+  const visible: Diagnostic[] = []
+  const suppressed: Diagnostic[] = []
+
+  for (const diagnostic of diagnostics) {
+    const fingerprint = diagnosticFingerprint(diagnostic)
+    if (baseline.has(fingerprint) || suppressions.suppressions.some(s => matchesSuppression(diagnostic, s, fingerprint))) {
+      suppressed.push(diagnostic)
+    } else {
+      visible.push(diagnostic)
+    }
+  }
+
+  return { visible, suppressed }
+}
@@ -0,0 +1,275 @@
+/**
+ * Project Find & Replace
+ *
+ * Searches TipTap JSON block by block and rewrites the matched text in
+ * place, keeping marks and mention nodes intact. A mention is matched as a
+ * whole by its label; matches that cut through one are skipped.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import { nodeSize } from './nodeSize'
+
+export interface FindOptions {
+  query: string
+  regex: boolean
+  caseSensitive: boolean
+  wholeWord: boolean
+  // Block types to search ('dialogue', 'scene-heading', 'paragraph', ...); empty searches everything
+  elementTypes: string[]
+}
+
+export interface FindMatch {
+  id: string
+  documentId: string
+  blockId?: string
+  elementType: string
+  blockText: string
+  start: number // Offsets into blockText
+  end: number
+  text: string
+  range: { from: number; to: number }
+  captures: (string | undefined)[]
+  namedCaptures?: Record<string, string | undefined>
+  mention?: { id: string; type: string }
+}
+
+// An inline node of a block and where it sits in the block's text
+interface Segment {
+  node: JSONContent
+  start: number
+  end: number
+  pos: number
+}
+
+interface SearchBlock {
+  node: JSONContent
+  path: number[]
+  elementType: string
+  text: string
+  segments: Segment[]
+}
+
+// Stands in for inline atoms so no match can run across them
+const ATOM_PLACEHOLDER = '\uFFFC'
+
+const WORD_CHAR = '[\\p{L}\\p{N}_]'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * The pattern for a search, or null for an empty query. Throws a
+ * SyntaxError for an invalid regular expression.
+ */
+export function buildSearchPattern(options: FindOptions): RegExp | null {
+  if (!options.query) return null
+  let source = options.regex ? options.query : escapeRegExp(options.query)
+  if (options.wholeWord) {
+    source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`
+  }
+  return new RegExp(source, options.caseSensitive ? 'gu' : 'giu')
+}
+
+function isInline(node: JSONContent): boolean {
+  return node.type === 'text' || node.type === 'mention' || node.type === 'hardBreak'
+}
+
+function elementTypeOf(node: JSONContent): string {
+  if (node.type === 'screenplayElement') return (node.attrs?.elementType as string) || 'action'
+  return node.type || 'paragraph'
+}
+
+// Every block holding text, with the document position of each inline node
+function searchBlocks(content: JSONContent): SearchBlock[] {
+  const blocks: SearchBlock[] = []
+
+  const visit = (node: JSONContent, path: number[], pos: number) => {
+    const children = node.content || []
+    if (children.some(isInline)) {
+      let text = ''
+      let childPos = pos + 1
+      const segments = children.map(child => {
+        const value = child.type === 'text'
+          ? child.text || ''
+          : child.type === 'mention' ? String(child.attrs?.label ?? child.attrs?.id ?? '') : ATOM_PLACEHOLDER
+        const segment = { node: child, start: text.length, end: text.length + value.length, pos: childPos }
+        text += value
+        childPos += nodeSize(child)
+        return segment
+      })
+      blocks.push({ node, path, elementType: elementTypeOf(node), text, segments })
+      return
+    }
+
+    let childPos = node.type === 'doc' ? 0 : pos + 1
+    children.forEach((child, index) => {
+      visit(child, [...path, index], childPos)
+      childPos += nodeSize(child)
+    })
+  }
+
+  visit(content, [], 0)
+  return blocks
+}
+
+// Document position of a text offset; ends map from the character before them
+function docPos(segments: Segment[], offset: number, isEnd: boolean): number {
+  const segment = segments.find(s => isEnd ? offset > s.start && offset <= s.end : offset >= s.start && offset < s.end)
+    || segments[segments.length - 1]
+  if (segment.node.type !== 'text') return isEnd ? segment.pos + 1 : segment.pos
+  return segment.pos + (offset - segment.start)
+}
+
+/**
+ * All matches in a document, in order.
+ */
+export function findInDocument(
+  documentId: string,
+  content: JSONContent,
+  pattern: RegExp,
+  elementTypes: string[] = []
+): FindMatch[] {
+  const matches: FindMatch[] = []
+
+  for (const block of searchBlocks(content)) {
+    if (elementTypes.length > 0 && !elementTypes.includes(block.elementType)) continue
+
+    for (const match of block.text.matchAll(pattern)) {
+      const start = match.index!
+      const end = start + match[0].length
+      if (start === end || match[0].includes(ATOM_PLACEHOLDER)) continue
+
+      // Mentions are replaced whole or not at all
+      const touched = block.segments.filter(s => s.node.type === 'mention' && s.start < end && s.end > start)
+      if (touched.length > 1) continue
+      const mention = touched[0]
+      if (mention && (mention.start !== start || mention.end !== end)) continue
+
+      matches.push({
+        id: `${documentId}:${block.path.join('.')}:${start}:${end}`,
+        documentId,
+        blockId: (block.node.attrs?.blockId as string) || undefined,
+        elementType: block.elementType,
+        blockText: block.text,
+        start,
+        end,
+        text: match[0],
+        range: { from: docPos(block.segments, start, false), to: docPos(block.segments, end, true) },
+        captures: match.slice(1),
+        namedCaptures: match.groups,
+        mention: mention ? { id: String(mention.node.attrs?.id), type: String(mention.node.attrs?.type || 'character') } : undefined
+      })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * The replacement for a match, expanding $&, $1 and $<name> for regex searches.
+ */
+export function expandReplacement(match: FindMatch, replacement: string, regex: boolean): string {
+  if (!regex) return replacement
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$'
+    if (ref === '&') return match.text
+    if (name !== undefined) return match.namedCaptures?.[name] ?? ''
+    const index = parseInt(ref, 10)
+    return index >= 1 && index <= match.captures.length ? match.captures[index - 1] ?? '' : token
+  })
+}
+
+// Merge neighbouring text nodes with the same marks and drop empty ones
+function normalizeInline(nodes: JSONContent[]): JSONContent[] {
+  const result: JSONContent[] = []
+  for (const node of nodes) {
+    if (node.type === 'text' && !node.text) continue
+    const previous = result[result.length - 1]
+    if (previous?.type === 'text' && node.type === 'text' && JSON.stringify(previous.marks) === JSON.stringify(node.marks)) {
+      result[result.length - 1] = { ...previous, text: previous.text! + node.text! }
+    } else {
+      result.push(node)
+    }
+  }
+  return result
+}
+
+function replaceInBlock(
+  block: SearchBlock,
+  replacements: { match: FindMatch; text: string }[],
+  keepMention: (match: FindMatch) => boolean
+): JSONContent {
+  const content: JSONContent[] = []
+
+  for (const segment of block.segments) {
+    const overlapping = replacements.filter(r => r.match.start < segment.end && r.match.end > segment.start)
+    if (overlapping.length === 0) {
+      content.push(segment.node)
+      continue
+    }
+
+    if (segment.node.type === 'mention') {
+      // Its label must match the bank, so anything but a rename unlinks it
+      const { match, text } = overlapping[0]
+      if (keepMention(match)) {
+        content.push({ ...segment.node, attrs: { ...segment.node.attrs, label: text } })
+      } else {
+        content.push({ type: 'text', text })
+      }
+      continue
+    }
+
+    const text = segment.node.text || ''
+    let cursor = segment.start
+    for (const { match, text: replacement } of overlapping) {
+      if (match.start > cursor) {
+        content.push({ ...segment.node, text: text.slice(cursor - segment.start, match.start - segment.start) })
+      }
+      // Replacement text takes the marks of where the match starts
+      if (match.start >= segment.start) {
+        content.push({ ...segment.node, text: replacement })
+      }
+      cursor = Math.min(match.end, segment.end)
+    }
+    if (cursor < segment.end) {
+      content.push({ ...segment.node, text: text.slice(cursor - segment.start) })
+    }
+  }
+
+  return { ...block.node, content: normalizeInline(content) }
+}
+
+function replaceAtPath(node: JSONContent, path: number[], replacement: JSONContent): JSONContent {
+  if (path.length === 0) return replacement
+  const [index, ...rest] = path
+  const content = [...(node.content || [])]
+  content[index] = replaceAtPath(content[index], rest, replacement)
+  return { ...node, content }
+}
+
+/**
+ * Replace the given matches (found by findInDocument on this same content).
+ * `keepMention` decides whether a matched mention is relabelled or turned
+ * into plain text.
+ */
+export function replaceInDocument(
+  content: JSONContent,
+  replacements: { match: FindMatch; text: string }[],
+  keepMention: (match: FindMatch) => boolean = () => false
+): JSONContent {
+  const byId = new Map(replacements.map(r => [r.match.id, r]))
+  let result = content
+
+  for (const block of searchBlocks(content)) {
+    const prefix = `${replacements[0]?.match.documentId}:${block.path.join('.')}:`
+    const inBlock = [...byId.values()]
+      .filter(r => r.match.id.startsWith(prefix) && r.match.blockText === block.text)
+      .sort((a, b) => a.match.start - b.match.start)
+    if (inBlock.length === 0) continue
+
+    result = replaceAtPath(result, block.path, replaceInBlock(block, inBlock, keepMention))
+  }
+
+  return result
+}
@@ -0,0 +1,50 @@
+/**
+ * Node Size Utilities
+ *
+ * Document positions taken up by TipTap JSON nodes, as ProseMirror counts
+ * them: a character of text each, one for an atom, and two for any other
+ * node's tags plus its content. The build passes and project find and
+ * replace both size nodes here, so their ranges agree with the editor.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import { MERGE_CONFLICT_NODE } from './blockMerge'
+
+// Nodes that occupy a single position, inline or block
+export const ATOM_NODE_TYPES = new Set(['mention', 'hardBreak', 'horizontalRule', 'image', MERGE_CONFLICT_NODE])
+
+export function isAtomNode(node: JSONContent): boolean {
+  return ATOM_NODE_TYPES.has(node.type || '')
+}
+
+// Size of a node in document positions
+export function nodeSize(node: JSONContent): number {
+  if (node.type === 'text') return node.text?.length || 0
+  if (isAtomNode(node)) return 1
+  return 2 + (node.content || []).reduce((size, child) => size + nodeSize(child), 0)
+}
+
+/**
+ * The text between two document positions; atoms contribute nothing
+ */
+export function textBetween(content: JSONContent, from: number, to: number): string {
+  let text = ''
+
+  const visit = (node: JSONContent, pos: number) => {
+    if (node.type === 'text') {
+      text += (node.text || '').slice(Math.max(0, from - pos), to - pos)
+      return
+    }
+    if (isAtomNode(node)) return
+
+    let childPos = node.type === 'doc' ? 0 : pos + 1
+    for (const child of node.content || []) {
+      const size = nodeSize(child)
+      if (childPos < to && childPos + size > from) visit(child, childPos)
+      childPos += size
+    }
+  }
+
+  visit(content, 0)
+  return text
+}
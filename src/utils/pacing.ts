@@ -0,0 +1,220 @@
+/**
+ * Pacing Utilities
+ *
+ * Estimates how long each screenplay block plays on screen: dialogue at a
+ * speaking rate per character, action at a reading rate weighted by how
+ * much happens in it, and fixed beats for parentheticals, transitions and
+ * scene headings. Estimates can be scaled so the whole script fits the
+ * target runtime, and the rates can be learned from a timed table read.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import type { PacingSettings, Project, StoryboardShot } from '../types/project'
+import { extractTextFromNode, getBlockText, getOrderedDocuments } from './blockAnchoring'
+
+export const DEFAULT_PACING: PacingSettings = {
+  dialogueCharsPerSecond: 14,
+  actionWordsPerMinute: 160,
+  parentheticalMs: 1000,
+  transitionMs: 1500,
+  sceneHeadingMs: 2000,
+  fitToTargetRuntime: false
+}
+
+// Storyboard shots play at least this long, and estimates never exceed the max
+const MIN_SHOT_MS = 1500
+const MAX_SHOT_MS = 20000
+const DEFAULT_SHOT_MS = 3500
+
+// How far fitting to the target runtime may stretch or squeeze estimates
+const MIN_RUNTIME_SCALE = 0.5
+const MAX_RUNTIME_SCALE = 2
+
+// Table read samples outside this range are missed or doubled taps
+const MIN_SAMPLE_MS = 250
+const MAX_SAMPLE_MS = 60000
+const MIN_SAMPLES_PER_RATE = 3
+
+export function resolvePacingSettings(settings?: Partial<PacingSettings>): PacingSettings {
+  return { ...DEFAULT_PACING, ...settings }
+}
+
+/**
+ * The rates in effect plus the factor that fits the script to the target
+ * runtime (1 when not fitting)
+ */
+export interface PacingModel {
+  settings: PacingSettings
+  scale: number
+}
+
+export const DEFAULT_PACING_MODEL: PacingModel = { settings: DEFAULT_PACING, scale: 1 }
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Extra screen time for busy action: each clause past the first adds a
+ * tenth, up to half again as long
+ */
+export function actionComplexity(text: string): number {
+  const clauses = text.split(/[.!?;:,—–]+|\s-{1,2}\s/).filter(part => part.trim()).length
+  return 1 + Math.min(0.5, 0.1 * Math.max(0, clauses - 1))
+}
+
+/**
+ * Unscaled duration of one block of the given element type
+ */
+export function estimateBlockMs(elementType: string, text: string, settings: PacingSettings): number {
+  const trimmed = text.trim()
+  switch (elementType) {
+    case 'character':
+      return 0 // Not spoken; its speech is timed by the dialogue
+    case 'parenthetical':
+      return settings.parentheticalMs
+    case 'transition':
+      return settings.transitionMs
+    case 'scene-heading':
+      return settings.sceneHeadingMs
+    case 'dialogue':
+      return trimmed ? (trimmed.length / settings.dialogueCharsPerSecond) * 1000 : 0
+    default: {
+      // Action, shots and plain paragraphs are read
+      const words = countWords(trimmed)
+      return words ? (words / settings.actionWordsPerMinute) * 60000 * actionComplexity(trimmed) : 0
+    }
+  }
+}
+
+/**
+ * Unscaled duration of the whole script, summed block by block
+ */
+export function estimateScriptMs(
+  project: Project,
+  documents: Record<string, JSONContent>,
+  settings: PacingSettings
+): number {
+  let total = 0
+  for (const doc of getOrderedDocuments(project)) {
+    for (const block of documents[doc.id]?.content || []) {
+      if (block.type !== 'screenplayElement') continue
+      total += estimateBlockMs(block.attrs?.elementType || 'action', extractTextFromNode(block), settings)
+    }
+  }
+  return total
+}
+
+export function createPacingModel(project: Project, documents: Record<string, JSONContent>): PacingModel {
+  const settings = resolvePacingSettings(project.settings?.pacing)
+  const targetMinutes = project.settings?.targetRuntimeMinutes
+  if (!settings.fitToTargetRuntime || !targetMinutes) return { settings, scale: 1 }
+
+  const estimatedMs = estimateScriptMs(project, documents, settings)
+  if (estimatedMs === 0) return { settings, scale: 1 }
+  const scale = (targetMinutes * 60000) / estimatedMs
+  return { settings, scale: Math.min(MAX_RUNTIME_SCALE, Math.max(MIN_RUNTIME_SCALE, scale)) }
+}
+
+/**
+ * Estimated duration of a block in a document. A character cue covers the
+ * speech under it, so a shot linked to the cue lasts as long as the lines.
+ */
+export function estimateLinkedBlockMs(doc: JSONContent, blockId: string, model: PacingModel): number | null {
+  const blocks = doc.content || []
+  const index = blocks.findIndex(block => block.attrs?.blockId === blockId)
+  if (index === -1) {
+    // Nested somewhere other than the top level; time it as read text
+    const text = getBlockText(doc, blockId)
+    return text === null ? null : estimateBlockMs('action', text, model.settings) * model.scale
+  }
+
+  const elementType = blocks[index].attrs?.elementType || 'action'
+  let ms = estimateBlockMs(elementType, extractTextFromNode(blocks[index]), model.settings)
+  if (elementType === 'character') {
+    for (const block of blocks.slice(index + 1)) {
+      const type = block.attrs?.elementType
+      if (type !== 'dialogue' && type !== 'parenthetical') break
+      ms += estimateBlockMs(type, extractTextFromNode(block), model.settings)
+    }
+  }
+  return ms * model.scale
+}
+
+/**
+ * Get the effective duration for a shot.
+ * Priority: manual override > estimate from linked block > default
+ */
+export function getShotDuration(
+  shot: StoryboardShot,
+  documents: Record<string, JSONContent>,
+  model: PacingModel = DEFAULT_PACING_MODEL
+): number {
+  if (shot.durationMs !== undefined) {
+    return shot.durationMs
+  }
+
+  if (shot.linkedBlock && !shot.isUnlinked) {
+    const doc = documents[shot.linkedBlock.documentId]
+    const ms = doc ? estimateLinkedBlockMs(doc, shot.linkedBlock.blockId, model) : null
+    if (ms) {
+      return Math.round(Math.max(MIN_SHOT_MS, Math.min(ms, MAX_SHOT_MS)))
+    }
+  }
+
+  return DEFAULT_SHOT_MS
+}
+
+/**
+ * One block read aloud in calibration: the time from the tap that started
+ * it to the tap that ended it
+ */
+export interface PacingSample {
+  elementType: string
+  text: string
+  durationMs: number
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Rates learned from a table read. Rates with too few samples keep their
+ * current values.
+ */
+export function calibratePacing(samples: PacingSample[], current: PacingSettings): PacingSettings {
+  const usable = samples.filter(s => s.durationMs >= MIN_SAMPLE_MS && s.durationMs <= MAX_SAMPLE_MS)
+  const ofType = (type: string) => usable.filter(s => s.elementType === type)
+  const learned = { ...current }
+
+  const dialogue = ofType('dialogue').filter(s => s.text.trim())
+  if (dialogue.length >= MIN_SAMPLES_PER_RATE) {
+    const chars = dialogue.reduce((total, s) => total + s.text.trim().length, 0)
+    const seconds = dialogue.reduce((total, s) => total + s.durationMs, 0) / 1000
+    learned.dialogueCharsPerSecond = Math.round((chars / seconds) * 10) / 10
+  }
+
+  // Estimates divide weighted words by the rate, so the rate is fitted the same way
+  const action = ofType('action').filter(s => countWords(s.text))
+  if (action.length >= MIN_SAMPLES_PER_RATE) {
+    const weightedWords = action.reduce((total, s) => total + countWords(s.text) * actionComplexity(s.text), 0)
+    const minutes = action.reduce((total, s) => total + s.durationMs, 0) / 60000
+    learned.actionWordsPerMinute = Math.round(weightedWords / minutes)
+  }
+
+  const beats: [string, 'parentheticalMs' | 'transitionMs' | 'sceneHeadingMs'][] = [
+    ['parenthetical', 'parentheticalMs'],
+    ['transition', 'transitionMs'],
+    ['scene-heading', 'sceneHeadingMs']
+  ]
+  for (const [type, key] of beats) {
+    const timed = ofType(type)
+    if (timed.length >= MIN_SAMPLES_PER_RATE) {
+      learned[key] = Math.round(median(timed.map(s => s.durationMs)) / 50) * 50
+    }
+  }
+  return learned
+}
@@ -0,0 +1,207 @@
+/**
+ * Shot List Utilities
+ *
+ * Builds the rows of the shot list table from the project: each entry with
+ * its number, the scene and script text it's linked to and the storyboard
+ * shot that illustrates it, whose lens and movement it shows. Rows sort by any column and serialize to CSV,
+ * so the table and the exported file always agree.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import type {
+  Project,
+  ShotAngle,
+  ShotListEntry,
+  ShotListSort,
+  ShotSize,
+  StoryboardShot
+} from '../types/project'
+import { getBlockText, getOrderedDocuments, getSceneHeadingsByBlock } from './blockAnchoring'
+
+// Widest to tightest, the order sizes sort in
+export const SHOT_SIZES: { id: ShotSize; label: string; abbr: string }[] = [
+  { id: 'ews', label: 'Extreme Wide', abbr: 'EWS' },
+  { id: 'ws', label: 'Wide', abbr: 'WS' },
+  { id: 'fs', label: 'Full', abbr: 'FS' },
+  { id: 'mws', label: 'Medium Wide', abbr: 'MWS' },
+  { id: 'ms', label: 'Medium', abbr: 'MS' },
+  { id: 'mcu', label: 'Medium Close-Up', abbr: 'MCU' },
+  { id: 'cu', label: 'Close-Up', abbr: 'CU' },
+  { id: 'ecu', label: 'Extreme Close-Up', abbr: 'ECU' },
+  { id: 'insert', label: 'Insert', abbr: 'INS' }
+]
+
+export const SHOT_ANGLES: { id: ShotAngle; label: string }[] = [
+  { id: 'eye-level', label: 'Eye Level' },
+  { id: 'high', label: 'High' },
+  { id: 'low', label: 'Low' },
+  { id: 'overhead', label: 'Overhead' },
+  { id: 'dutch', label: 'Dutch' },
+  { id: 'pov', label: 'POV' },
+  { id: 'ots', label: 'Over the Shoulder' }
+]
+
+// Phrases in a screenplay shot line, checked in order so the longer phrase
+// wins ("EXTREME CLOSE UP" before "CLOSE UP")
+const SIZE_PHRASES: [RegExp, ShotSize][] = [
+  [/EXTREME CLOSE[ -]?UP|\bECU\b/, 'ecu'],
+  [/MEDIUM CLOSE[ -]?UP|\bMCU\b/, 'mcu'],
+  [/CLOSE[ -]?UP|CLOSE ON|\bCU\b/, 'cu'],
+  [/MEDIUM WIDE|\bMWS\b/, 'mws'],
+  [/MEDIUM SHOT|\bMS\b|TWO SHOT/, 'ms'],
+  [/EXTREME WIDE|ESTABLISHING|AERIAL|\bEWS\b/, 'ews'],
+  [/FULL SHOT|LONG SHOT|\bFS\b/, 'fs'],
+  [/WIDE|\bWS\b/, 'ws'],
+  [/INSERT/, 'insert']
+]
+
+const ANGLE_PHRASES: [RegExp, ShotAngle][] = [
+  [/\bPOV\b/, 'pov'],
+  [/OVER THE SHOULDER|\bOTS\b/, 'ots'],
+  [/OVERHEAD|BIRD'?S[ -]EYE|AERIAL/, 'overhead'],
+  [/LOW ANGLE/, 'low'],
+  [/HIGH ANGLE/, 'high'],
+  [/DUTCH/, 'dutch']
+]
+
+const MOVEMENT_PHRASES: [RegExp, string][] = [
+  [/TRACKING/, 'Tracking'],
+  [/DOLLY/, 'Dolly'],
+  [/\bPAN\b/, 'Pan'],
+  [/\bTILT\b/, 'Tilt'],
+  [/CRANE/, 'Crane'],
+  [/STEADICAM/, 'Steadicam'],
+  [/HANDHELD/, 'Handheld'],
+  [/\bZOOM\b/, 'Zoom']
+]
+
+/**
+ * Size, angle and movement named in a screenplay shot line such as
+ * "LOW ANGLE TRACKING SHOT"
+ */
+export function parseShotLine(text: string): Pick<ShotListEntry, 'size' | 'angle' | 'movement'> {
+  const line = text.toUpperCase()
+  return {
+    size: SIZE_PHRASES.find(([pattern]) => pattern.test(line))?.[1],
+    angle: ANGLE_PHRASES.find(([pattern]) => pattern.test(line))?.[1],
+    movement: MOVEMENT_PHRASES.find(([pattern]) => pattern.test(line))?.[1]
+  }
+}
+
+/**
+ * Position of every block in script order, for sorting by the script
+ */
+export function getScriptPositions(project: Project, documents: Record<string, JSONContent>): Map<string, number> {
+  const positions = new Map<string, number>()
+  for (const doc of getOrderedDocuments(project)) {
+    for (const block of documents[doc.id]?.content || []) {
+      const blockId = block.attrs?.blockId as string | undefined
+      if (blockId) positions.set(blockId, positions.size)
+    }
+  }
+  return positions
+}
+
+export interface ShotListRow {
+  entry: ShotListEntry
+  number: number
+  scene: string | null
+  scriptText: string | null
+  storyboardNumber: number | null // Position of the illustrating storyboard shot
+  movement?: string
+  lens?: string
+}
+
+/**
+ * The storyboard shot illustrating an entry, if it still exists
+ */
+export function getIllustratingShot(entry: ShotListEntry, shots: StoryboardShot[]): StoryboardShot | undefined {
+  return entry.storyboardShotId ? shots.find(s => s.id === entry.storyboardShotId) : undefined
+}
+
+export function buildShotListRows(project: Project, documents: Record<string, JSONContent>): ShotListRow[] {
+  const entries = [...(project.shotList?.entries || [])].sort((a, b) => a.order - b.order)
+  const headings = getSceneHeadingsByBlock(project, documents)
+  const storyboardShots = [...(project.storyboard?.shots || [])].sort((a, b) => a.order - b.order)
+
+  return entries.map((entry, i) => {
+    const anchor = entry.linkedBlock && !entry.isUnlinked ? entry.linkedBlock : null
+    const doc = anchor ? documents[anchor.documentId] : undefined
+    const shot = getIllustratingShot(entry, storyboardShots)
+    const camera = shot || entry
+
+    return {
+      entry,
+      number: i + 1,
+      scene: anchor ? headings.get(anchor.blockId) || null : null,
+      // Fall back to the snapshot when the block can't be found
+      scriptText: (anchor && doc ? getBlockText(doc, anchor.blockId)?.trim() : null) || entry.linkedBlock?.textSnapshot || null,
+      storyboardNumber: shot ? storyboardShots.indexOf(shot) + 1 : null,
+      movement: camera.movement,
+      lens: camera.lens
+    }
+  })
+}
+
+// Comparable value of a row for a column; undefined sorts last either way
+function sortValue(row: ShotListRow, key: ShotListSort['key']): string | number | undefined {
+  const { entry } = row
+  switch (key) {
+    case 'number': return row.number
+    case 'scene': return row.scene ?? undefined
+    case 'setup': return entry.setupNumber
+    case 'size': return entry.size ? SHOT_SIZES.findIndex(s => s.id === entry.size) : undefined
+    case 'angle': return entry.angle ? SHOT_ANGLES.findIndex(a => a.id === entry.angle) : undefined
+    case 'movement': return row.movement?.toLowerCase() || undefined
+    case 'lens': return row.lens ? parseFloat(row.lens) || row.lens.toLowerCase() : undefined
+    case 'setupMinutes': return entry.setupMinutes
+  }
+}
+
+/**
+ * Rows sorted by a column, ties kept in shot order
+ */
+export function sortShotListRows(rows: ShotListRow[], sort: ShotListSort): ShotListRow[] {
+  const sign = sort.direction === 'asc' ? 1 : -1
+  return [...rows].sort((a, b) => {
+    const va = sortValue(a, sort.key)
+    const vb = sortValue(b, sort.key)
+    if (va === undefined || vb === undefined) {
+      if (va !== vb) return va === undefined ? 1 : -1
+    } else if (va !== vb) {
+      if (typeof va === 'number' && typeof vb === 'number') return (va - vb) * sign
+      return String(va).localeCompare(String(vb), undefined, { numeric: true }) * sign
+    }
+    return a.number - b.number
+  })
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const CSV_COLUMNS = [
+  'Shot', 'Scene', 'Setup', 'Size', 'Angle', 'Movement', 'Lens',
+  'Setup Time (min)', 'Description', 'Script', 'Storyboard'
+]
+
+/**
+ * The rows as CSV, one line per shot with a header row
+ */
+export function shotListToCsv(rows: ShotListRow[]): string {
+  const lines = rows.map(({ entry, number, scene, scriptText, storyboardNumber, movement, lens }) => [
+    number,
+    scene,
+    entry.setupNumber,
+    SHOT_SIZES.find(s => s.id === entry.size)?.abbr,
+    SHOT_ANGLES.find(a => a.id === entry.angle)?.label,
+    movement,
+    lens,
+    entry.setupMinutes,
+    entry.description,
+    scriptText,
+    storyboardNumber
+  ].map(csvField).join(','))
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n'
+}
@@ -0,0 +1,123 @@
+/**
+ * Version Retention Utilities
+ *
+ * Decides when an edited document is due an automatic snapshot and which
+ * automatic snapshots to drop as they age. Manual versions and milestones
+ * are never thinned.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import type { DocumentVersion, VersionHistorySettings, VersionRetention } from '../types/project'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const DEFAULT_VERSION_HISTORY: VersionHistorySettings = {
+  autoSnapshots: true,
+  intervalMinutes: 15,
+  wordDelta: 200,
+  retention: {
+    keepAllHours: 2,
+    hourlyDays: 2,
+    dailyDays: 30,
+    weeklyDays: 365
+  }
+}
+
+export function resolveVersionHistorySettings(settings?: Partial<VersionHistorySettings>): VersionHistorySettings {
+  return {
+    ...DEFAULT_VERSION_HISTORY,
+    ...settings,
+    retention: { ...DEFAULT_VERSION_HISTORY.retention, ...settings?.retention }
+  }
+}
+
+/**
+ * How often each word occurs in a document, lowercased.
+ */
+export function wordFrequencies(content: JSONContent): Map<string, number> {
+  const counts = new Map<string, number>()
+  const traverse = (node: JSONContent) => {
+    if (node.type === 'text' && node.text) {
+      for (const word of node.text.toLowerCase().split(/\s+/)) {
+        if (word) counts.set(word, (counts.get(word) || 0) + 1)
+      }
+    }
+    node.content?.forEach(traverse)
+  }
+  traverse(content)
+  return counts
+}
+
+/**
+ * Words added plus words removed between two documents' frequencies.
+ * Moving text around without changing it counts as no change.
+ */
+export function wordDelta(before: Map<string, number>, after: Map<string, number>): number {
+  let delta = 0
+  for (const [word, count] of after) {
+    delta += Math.abs(count - (before.get(word) || 0))
+  }
+  for (const [word, count] of before) {
+    if (!after.has(word)) delta += count
+  }
+  return delta
+}
+
+/**
+ * Whether a document that differs from its latest version by `delta` words
+ * is due an automatic snapshot.
+ */
+export function isSnapshotDue(
+  settings: VersionHistorySettings,
+  latestTimestamp: string | null,
+  delta: number,
+  now = Date.now()
+): boolean {
+  if (!settings.autoSnapshots || delta === 0) return false
+  if (!latestTimestamp) return true
+  return delta >= settings.wordDelta
+    || now - Date.parse(latestTimestamp) >= settings.intervalMinutes * 60 * 1000
+}
+
+/**
+ * Ids of the automatic snapshots the retention policy drops. Within each
+ * hourly, daily and weekly bucket the newest snapshot is kept.
+ */
+export function versionsToThin(
+  versions: Pick<DocumentVersion, 'id' | 'timestamp' | 'auto' | 'milestone'>[],
+  retention: VersionRetention,
+  now = Date.now()
+): string[] {
+  const snapshots = versions
+    .filter(version => version.auto && !version.milestone)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+  const keptBuckets = new Set<string>()
+  const thinned: string[] = []
+  for (const snapshot of snapshots) {
+    const time = Date.parse(snapshot.timestamp)
+    const age = now - time
+
+    let bucket: string
+    if (age < retention.keepAllHours * HOUR_MS) {
+      continue
+    } else if (age < retention.hourlyDays * DAY_MS) {
+      bucket = `hour:${Math.floor(time / HOUR_MS)}`
+    } else if (age < retention.dailyDays * DAY_MS) {
+      bucket = `day:${Math.floor(time / DAY_MS)}`
+    } else if (age < retention.weeklyDays * DAY_MS) {
+      bucket = `week:${Math.floor(time / (7 * DAY_MS))}`
+    } else {
+      thinned.push(snapshot.id)
+      continue
+    }
+
+    if (keptBuckets.has(bucket)) {
+      thinned.push(snapshot.id)
+    } else {
+      keptBuckets.add(bucket)
+    }
+  }
+  return thinned
+}
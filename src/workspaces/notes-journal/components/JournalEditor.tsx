@@ -16,6 +16,8 @@ import { CheckmarkRegular, DismissRegular, BotSparkleFilled } from '@fluentui/re
 import type { JSONContent } from '@tiptap/core'
 
 import { useProjectStore, getDocumentHierarchyType, getPageNumber, getParentDocument } from '../../../stores/projectStore'
+import { useCommands } from '../../../hooks/useCommands'
+import type { Command } from '../../../utils/commands'
 import { StateDropdown } from '../../../components/StateDropdown'
 import type { DocumentLifecycleState, LivingDocument } from '../../../types/project'
 
@@ -29,6 +31,7 @@ import {
   AssetImage,
   Citation,
   FixPreview,
+  MergeConflict,
   SlashCommand,
   SelectionSlashCommand,
   AIPreview
@@ -46,6 +49,26 @@ import { DrawingOverlay } from './DrawingOverlay'
 // MIME type for citation metadata in clipboard
 const CITATION_MIME_TYPE = 'application/x-cadmus-citation'
 
+const store = () => useProjectStore.getState()
+
+// Commands the journal workspace adds while its editor is open
+const JOURNAL_COMMANDS: Command[] = [
+  {
+    id: 'journal.drawingMode',
+    title: 'Toggle Drawing Mode',
+    category: 'Journal',
+    when: () => !!store().activeDocumentId,
+    run: () => store().toggleDrawingMode()
+  },
+  {
+    id: 'journal.infiniteCanvas',
+    title: 'Toggle Infinite Canvas',
+    category: 'Journal',
+    when: () => !!store().activeDocumentId,
+    run: () => store().toggleInfiniteCanvas()
+  }
+]
+
 interface CitationClipboardData {
   sourceDocumentId: string
   sourceDocumentTitle: string
@@ -152,6 +175,8 @@ export function JournalEditor() {
     clearThoughtPartnerSelectionContext,
   } = useProjectStore()
 
+  useCommands(JOURNAL_COMMANDS)
+
   const { hasOverrides, style: overrideStyle, maxWidth: overrideMaxWidth } = useProjectEditorStyles()
 
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
@@ -175,9 +200,9 @@ export function JournalEditor() {
   } | null>(null)
   
   // Refs for click handlers
-  const citationClickRef = useRef<(docId: string, blockId: string) => void>()
-  citationClickRef.current = (sourceDocumentId: string, sourceBlockId: string) => {
-    navigateToCitation(sourceDocumentId, sourceBlockId)
+  const citationClickRef = useRef<(docId: string, blockId: string, citedText: string) => void>()
+  citationClickRef.current = (sourceDocumentId: string, sourceBlockId: string, citedText: string) => {
+    navigateToCitation(sourceDocumentId, sourceBlockId, citedText)
   }
 
   const fixAcceptRef = useRef<(diagnosticId: string) => void>()
@@ -298,10 +323,11 @@ export function JournalEditor() {
       types: ['paragraph', 'heading', 'blockquote', 'codeBlock', 'listItem', 'bulletList', 'orderedList', 'taskItem'],
     }),
     Citation.configure({
-      onCitationClick: (docId: string, blockId: string) => {
-        citationClickRef.current?.(docId, blockId)
+      onCitationClick: (docId: string, blockId: string, citedText: string) => {
+        citationClickRef.current?.(docId, blockId, citedText)
       },
     }),
+    MergeConflict,
     FixPreview.configure({
       onAccept: (diagnosticId: string) => {
         fixAcceptRef.current?.(diagnosticId)
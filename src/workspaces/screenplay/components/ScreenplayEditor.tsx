@@ -20,6 +20,8 @@ import { useProjectStore, getDocumentHierarchyType, getPageNumber, getParentDocu
 import { StoryboardPanel } from '../../../components/StoryboardPanel'
 import { WritingPartnerPanel } from '../../../components/WritingPartnerPanel'
 import { useStoryboardPlayback } from '../../../hooks/useStoryboardPlayback'
+import { useCommands } from '../../../hooks/useCommands'
+import type { Command } from '../../../utils/commands'
 import { captureBlockAnchor } from '../../../utils/blockAnchoring'
 import { StateDropdown } from '../../../components/StateDropdown'
 import type { Character, Prop, DocumentLifecycleState, LivingDocument } from '../../../types/project'
@@ -34,6 +36,7 @@ import {
   AssetImage,
   Citation,
   FixPreview,
+  MergeConflict,
   SlashCommand,
   SelectionSlashCommand,
   AIPreview,
@@ -76,6 +79,42 @@ interface AssetDropData {
 // Screenplay element types that should be displayed in uppercase
 const UPPERCASE_ELEMENT_TYPES = ['scene-heading', 'character', 'transition']
 
+const store = () => useProjectStore.getState()
+const isScreenplay = () => store().currentProject?.templateId === 'screenplay'
+
+// Commands the screenplay workspace adds while its editor is open
+const SCREENPLAY_COMMANDS: Command[] = [
+  {
+    id: 'storyboard.toggle',
+    title: 'Toggle Storyboard',
+    category: 'Screenplay',
+    when: isScreenplay,
+    run: () => store().toggleStoryboardMode()
+  },
+  {
+    id: 'shotList.open',
+    title: 'Open Shot List',
+    category: 'Screenplay',
+    when: isScreenplay,
+    run: () => store().setActiveModal('shot-list')
+  },
+  {
+    id: 'writingPartner.toggle',
+    title: 'Toggle Writing Partner',
+    category: 'Screenplay',
+    keys: 'Mod+Shift+P',
+    when: isScreenplay,
+    run: () => store().toggleWritingPartnerPanel()
+  },
+  {
+    id: 'writingPartner.runCritique',
+    title: 'Run Dramatic Critique',
+    category: 'Screenplay',
+    when: isScreenplay,
+    run: () => store().runCritique()
+  }
+]
+
 // Helper to extract the first block's text from screenplay content
 export function getFirstBlockText(content: JSONContent | null): string | null {
   if (!content?.content) return null
@@ -170,6 +209,7 @@ export function ScreenplayEditor() {
   const { hasOverrides, style: overrideStyle, maxWidth: overrideMaxWidth } = useProjectEditorStyles()
 
   useStoryboardPlayback()
+  useCommands(SCREENPLAY_COMMANDS)
   
   const [isResizingStoryboard, setIsResizingStoryboard] = useState(false)
   const storyboardResizeStartX = useRef<number>(0)
@@ -228,9 +268,9 @@ export function ScreenplayEditor() {
   } | null>(null)
   
   // Refs for click handlers
-  const citationClickRef = useRef<(docId: string, blockId: string) => void>()
-  citationClickRef.current = (sourceDocumentId: string, sourceBlockId: string) => {
-    navigateToCitation(sourceDocumentId, sourceBlockId)
+  const citationClickRef = useRef<(docId: string, blockId: string, citedText: string) => void>()
+  citationClickRef.current = (sourceDocumentId: string, sourceBlockId: string, citedText: string) => {
+    navigateToCitation(sourceDocumentId, sourceBlockId, citedText)
   }
 
   const characterClickRef = useRef<(characterId: string) => void>()
@@ -368,10 +408,11 @@ export function ScreenplayEditor() {
       },
     }),
     Citation.configure({
-      onCitationClick: (docId: string, blockId: string) => {
-        citationClickRef.current?.(docId, blockId)
+      onCitationClick: (docId: string, blockId: string, citedText: string) => {
+        citationClickRef.current?.(docId, blockId, citedText)
       },
     }),
+    MergeConflict,
     FixPreview.configure({
       onAccept: (diagnosticId: string) => {
         fixAcceptRef.current?.(diagnosticId)
@@ -29,6 +29,7 @@ import {
   AssetImage,
   Citation,
   FixPreview,
+  MergeConflict,
   SlashCommand,
   SelectionSlashCommand,
   AIPreview
@@ -178,9 +179,9 @@ export function BaseEditor({ toolbar, placeholder = 'Start writing...', addition
   } | null>(null)
   
   // Refs for click handlers
-  const citationClickRef = useRef<(docId: string, blockId: string) => void>()
-  citationClickRef.current = (sourceDocumentId: string, sourceBlockId: string) => {
-    navigateToCitation(sourceDocumentId, sourceBlockId)
+  const citationClickRef = useRef<(docId: string, blockId: string, citedText: string) => void>()
+  citationClickRef.current = (sourceDocumentId: string, sourceBlockId: string, citedText: string) => {
+    navigateToCitation(sourceDocumentId, sourceBlockId, citedText)
   }
 
   const fixAcceptRef = useRef<(diagnosticId: string) => void>()
@@ -298,10 +299,11 @@ export function BaseEditor({ toolbar, placeholder = 'Start writing...', addition
       types: ['paragraph', 'heading', 'blockquote', 'codeBlock', 'listItem', 'bulletList', 'orderedList'],
     }),
     Citation.configure({
-      onCitationClick: (docId: string, blockId: string) => {
-        citationClickRef.current?.(docId, blockId)
+      onCitationClick: (docId: string, blockId: string, citedText: string) => {
+        citationClickRef.current?.(docId, blockId, citedText)
       },
     }),
+    MergeConflict,
     FixPreview.configure({
       onAccept: (diagnosticId: string) => {
         fixAcceptRef.current?.(diagnosticId)
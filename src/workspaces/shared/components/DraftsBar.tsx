@@ -0,0 +1,219 @@
+/**
+ * DraftsBar
+ *
+ * Alternate drafts of the active document, shown above its version history.
+ * Another draft can be checked out, which stores the current one in its
+ * place, or merged into the current draft block by block; blocks both
+ * drafts changed are left as conflicts to resolve in the editor.
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  AddRegular,
+  ArrowSwapRegular,
+  BranchRegular,
+  DeleteRegular,
+  MergeRegular,
+  RenameRegular
+} from '@fluentui/react-icons'
+import { useProjectStore } from '../../../stores/projectStore'
+import { hasMergeConflicts } from '../../../utils/blockMerge'
+
+type NameEdit = { kind: 'create' } | { kind: 'rename'; draftId: string }
+
+export function DraftsBar() {
+  const {
+    activeDocumentId,
+    documents,
+    documentDrafts,
+    loadDrafts,
+    createDraft,
+    switchDraft,
+    mergeDraft,
+    renameDraft,
+    deleteDraft
+  } = useProjectStore()
+  const [selectedBranchId, setSelectedBranchId] = useState<string | null>(null)
+  const [nameEdit, setNameEdit] = useState<NameEdit | null>(null)
+  const [name, setName] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    if (activeDocumentId) loadDrafts(activeDocumentId)
+    setMessage(null)
+  }, [activeDocumentId, loadDrafts])
+
+  const drafts = activeDocumentId ? documentDrafts[activeDocumentId] : undefined
+  if (!activeDocumentId || !drafts) return null
+
+  const selectedBranch = drafts.branches.find(b => b.id === selectedBranchId) || drafts.branches[0] || null
+  const content = documents[activeDocumentId]?.content
+  const hasConflicts = !!content && hasMergeConflicts(content)
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    try {
+      await action()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const startNameEdit = (edit: NameEdit, initial: string) => {
+    setNameEdit(edit)
+    setName(initial)
+  }
+
+  const handleSaveName = () => run(async () => {
+    const trimmed = name.trim()
+    if (!nameEdit || !trimmed) return
+    if (nameEdit.kind === 'create') {
+      await createDraft(activeDocumentId, trimmed)
+      setMessage(`Created draft "${trimmed}" from the current text`)
+    } else {
+      await renameDraft(activeDocumentId, nameEdit.draftId, trimmed)
+    }
+    setNameEdit(null)
+  })
+
+  const handleSwitch = () => run(async () => {
+    if (!selectedBranch) return
+    await switchDraft(activeDocumentId, selectedBranch.id)
+    setSelectedBranchId(null)
+    setMessage(`Switched to "${selectedBranch.name}"; "${drafts.current.name}" is kept as a draft`)
+  })
+
+  const handleMerge = () => run(async () => {
+    if (!selectedBranch) return
+    const confirmed = window.confirm(
+      `Merge "${selectedBranch.name}" into "${drafts.current.name}"? A version is saved first so the merge can be undone.`
+    )
+    if (!confirmed) return
+
+    const conflicts = await mergeDraft(activeDocumentId, selectedBranch.id)
+    if (conflicts === null) {
+      setMessage('The merge could not be completed')
+    } else if (conflicts === 0) {
+      setMessage(`Merged "${selectedBranch.name}" with no conflicts`)
+    } else {
+      setMessage(`Merged "${selectedBranch.name}": ${conflicts} conflict${conflicts === 1 ? '' : 's'} to resolve in the editor`)
+    }
+  })
+
+  const handleDelete = () => run(async () => {
+    if (!selectedBranch) return
+    const confirmed = window.confirm(`Delete the draft "${selectedBranch.name}"? This action cannot be undone.`)
+    if (!confirmed) return
+
+    await deleteDraft(activeDocumentId, selectedBranch.id)
+    setSelectedBranchId(null)
+  })
+
+  return (
+    <div className="px-4 py-2 border-b border-ink-700/50 bg-ink-800/30 text-xs text-theme-muted">
+      <div className="flex items-center gap-2">
+        <BranchRegular className="w-4 h-4 text-theme-accent flex-shrink-0" />
+        {nameEdit ? (
+          <>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveName()
+                if (e.key === 'Escape') setNameEdit(null)
+              }}
+              placeholder={nameEdit.kind === 'create' ? 'New draft name' : 'Draft name'}
+              className="input-modern flex-1 max-w-[240px] text-xs py-1 px-2"
+              autoFocus
+            />
+            <button
+              onClick={() => setNameEdit(null)}
+              className="px-2 py-1 rounded-md text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveName}
+              disabled={isWorking || !name.trim()}
+              className="px-2 py-1 rounded-md font-medium bg-gold-500 text-black hover:bg-gold-400 transition-colors disabled:opacity-50"
+            >
+              {nameEdit.kind === 'create' ? 'Create Draft' : 'Rename'}
+            </button>
+          </>
+        ) : (
+          <>
+            <span>
+              Editing <span className="text-theme-primary">{drafts.current.name}</span>
+            </span>
+            <button
+              onClick={() => startNameEdit({ kind: 'rename', draftId: drafts.current.id }, drafts.current.name)}
+              className="p-1 rounded-md hover:text-theme-primary hover:bg-theme-hover transition-colors"
+              title="Rename this draft"
+            >
+              <RenameRegular className="w-3.5 h-3.5" />
+            </button>
+
+            {selectedBranch && (
+              <>
+                <span className="ml-2">Other drafts</span>
+                <select
+                  value={selectedBranch.id}
+                  onChange={(e) => setSelectedBranchId(e.target.value)}
+                  className="bg-[var(--bg-tertiary)] border border-theme-default rounded-md px-2 py-1 text-xs text-theme-primary focus:outline-none focus:ring-2 focus:ring-gold-400/50"
+                >
+                  {drafts.branches.map(branch => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleSwitch}
+                  disabled={isWorking}
+                  className="p-1 rounded-md hover:text-theme-primary hover:bg-theme-hover transition-colors"
+                  title="Switch to this draft"
+                >
+                  <ArrowSwapRegular className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleMerge}
+                  disabled={isWorking || hasConflicts}
+                  className="p-1 rounded-md hover:text-theme-primary hover:bg-theme-hover transition-colors disabled:opacity-50"
+                  title={hasConflicts ? 'Resolve the conflicts in the editor first' : 'Merge into this draft'}
+                >
+                  <MergeRegular className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => startNameEdit({ kind: 'rename', draftId: selectedBranch.id }, selectedBranch.name)}
+                  className="p-1 rounded-md hover:text-theme-primary hover:bg-theme-hover transition-colors"
+                  title="Rename draft"
+                >
+                  <RenameRegular className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={isWorking}
+                  className="p-1 rounded-md text-red-400 hover:bg-red-400/10 transition-colors"
+                  title="Delete draft"
+                >
+                  <DeleteRegular className="w-4 h-4" />
+                </button>
+              </>
+            )}
+
+            <button
+              onClick={() => startNameEdit({ kind: 'create' }, '')}
+              disabled={isWorking || !content}
+              className="flex items-center gap-1 ml-auto px-2 py-1 rounded-md hover:text-theme-primary hover:bg-theme-hover transition-colors"
+              title="Start a new draft from the current text"
+            >
+              <AddRegular className="w-3.5 h-3.5" />
+              New Draft
+            </button>
+          </>
+        )}
+      </div>
+      {message && <p className="mt-1">{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+import { useMemo } from 'react'
+import { clsx } from 'clsx'
+import type { JSONContent } from '@tiptap/core'
+
+// Extract paragraphs from JSONContent as array of { type, text }
+interface Paragraph {
+  type: 'heading' | 'paragraph'
+  level?: number
+  text: string
+}
+
+function extractParagraphs(content: JSONContent): Paragraph[] {
+  const paragraphs: Paragraph[] = []
+  
+  const extractNodeText = (node: JSONContent): string => {
+    let text = ''
+    if (node.type === 'text' && node.text) {
+      text += node.text
+    }
+    if (node.content) {
+      node.content.forEach(child => {
+        text += extractNodeText(child)
+      })
+    }
+    return text
+  }
+  
+  const traverse = (node: JSONContent) => {
+    if (node.type === 'heading') {
+      paragraphs.push({
+        type: 'heading',
+        level: node.attrs?.level || 1,
+        text: extractNodeText(node)
+      })
+    } else if (node.type === 'paragraph' || node.type === 'screenplayElement') {
+      const text = extractNodeText(node)
+      if (text) {
+        paragraphs.push({
+          type: 'paragraph',
+          text
+        })
+      }
+    } else if (node.content) {
+      node.content.forEach(traverse)
+    }
+  }
+  
+  traverse(content)
+  return paragraphs
+}
+
+// Simple word-level diff
+interface DiffSegment {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+function computeWordDiff(oldText: string, newText: string): DiffSegment[] {
+  const oldWords = oldText.split(/(\s+)/)
+  const newWords = newText.split(/(\s+)/)
+  
+  const segments: DiffSegment[] = []
+  
+  const m = oldWords.length
+  const n = newWords.length
+  
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
+  
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (oldWords[i - 1] === newWords[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1] + 1
+      } else {
+        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
+      }
+    }
+  }
+  
+  let i = m, j = n
+  const result: DiffSegment[] = []
+  
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && oldWords[i - 1] === newWords[j - 1]) {
+      result.unshift({ type: 'same', text: oldWords[i - 1] })
+      i--
+      j--
+    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
+      result.unshift({ type: 'added', text: newWords[j - 1] })
+      j--
+    } else {
+      result.unshift({ type: 'removed', text: oldWords[i - 1] })
+      i--
+    }
+  }
+  
+  for (const seg of result) {
+    if (segments.length > 0 && segments[segments.length - 1].type === seg.type) {
+      segments[segments.length - 1].text += seg.text
+    } else {
+      segments.push({ ...seg })
+    }
+  }
+  
+  return segments
+}
+
+interface ParagraphDiff {
+  type: 'heading' | 'paragraph'
+  level?: number
+  segments: DiffSegment[]
+  status: 'same' | 'modified' | 'added' | 'removed'
+}
+
+function computeParagraphDiff(oldParagraphs: Paragraph[], newParagraphs: Paragraph[]): ParagraphDiff[] {
+  const result: ParagraphDiff[] = []
+  
+  let oldIdx = 0
+  let newIdx = 0
+  
+  while (oldIdx < oldParagraphs.length || newIdx < newParagraphs.length) {
+    const oldPara = oldParagraphs[oldIdx]
+    const newPara = newParagraphs[newIdx]
+    
+    if (!oldPara && newPara) {
+      result.push({
+        type: newPara.type,
+        level: newPara.level,
+        segments: [{ type: 'added', text: newPara.text }],
+        status: 'added'
+      })
+      newIdx++
+    } else if (oldPara && !newPara) {
+      result.push({
+        type: oldPara.type,
+        level: oldPara.level,
+        segments: [{ type: 'removed', text: oldPara.text }],
+        status: 'removed'
+      })
+      oldIdx++
+    } else if (oldPara && newPara) {
+      const similarity = computeSimilarity(oldPara.text, newPara.text)
+      
+      if (similarity > 0.5) {
+        const segments = computeWordDiff(oldPara.text, newPara.text)
+        const hasChanges = segments.some(s => s.type !== 'same')
+        result.push({
+          type: newPara.type,
+          level: newPara.level,
+          segments,
+          status: hasChanges ? 'modified' : 'same'
+        })
+        oldIdx++
+        newIdx++
+      } else {
+        const nextOldMatch = newParagraphs.slice(newIdx + 1).findIndex(p => computeSimilarity(oldPara.text, p.text) > 0.5)
+        const nextNewMatch = oldParagraphs.slice(oldIdx + 1).findIndex(p => computeSimilarity(newPara.text, p.text) > 0.5)
+        
+        if (nextNewMatch !== -1 && (nextOldMatch === -1 || nextNewMatch <= nextOldMatch)) {
+          result.push({
+            type: oldPara.type,
+            level: oldPara.level,
+            segments: [{ type: 'removed', text: oldPara.text }],
+            status: 'removed'
+          })
+          oldIdx++
+        } else {
+          result.push({
+            type: newPara.type,
+            level: newPara.level,
+            segments: [{ type: 'added', text: newPara.text }],
+            status: 'added'
+          })
+          newIdx++
+        }
+      }
+    }
+  }
+  
+  return result
+}
+
+function computeSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().split(/\s+/).filter(Boolean))
+  const wordsB = new Set(b.toLowerCase().split(/\s+/).filter(Boolean))
+  
+  if (wordsA.size === 0 && wordsB.size === 0) return 1
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+  
+  let intersection = 0
+  for (const word of wordsA) {
+    if (wordsB.has(word)) intersection++
+  }
+  
+  return intersection / (wordsA.size + wordsB.size - intersection)
+}
+
+function renderSegment(segment: DiffSegment, index: number) {
+  if (segment.type === 'same') {
+    return <span key={index}>{segment.text}</span>
+  }
+  if (segment.type === 'removed') {
+    return (
+      <span 
+        key={index} 
+        className="bg-red-500/30 text-red-300 line-through decoration-red-400"
+      >
+        {segment.text}
+      </span>
+    )
+  }
+  if (segment.type === 'added') {
+    return (
+      <span 
+        key={index} 
+        className="bg-green-500/30 text-green-300"
+      >
+        {segment.text}
+      </span>
+    )
+  }
+  return null
+}
+
+interface ParagraphDiffProps {
+  oldContent: JSONContent | null | undefined
+  newContent: JSONContent | null | undefined
+  useMonospaceFont?: boolean
+}
+
+/**
+ * Paragraph-by-paragraph word diff between two versions of a document
+ */
+export function ParagraphDiff({ oldContent, newContent, useMonospaceFont = false }: ParagraphDiffProps) {
+  const paragraphDiffs = useMemo(() => {
+    if (!oldContent || !newContent) return []
+    
+    const oldParagraphs = extractParagraphs(oldContent)
+    const newParagraphs = extractParagraphs(newContent)
+    
+    return computeParagraphDiff(oldParagraphs, newParagraphs)
+  }, [oldContent, newContent])
+  
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="py-8 px-6">
+        <div 
+          className="max-w-3xl mx-auto space-y-4"
+          style={{ fontFamily: useMonospaceFont ? "'Courier New', Courier, monospace" : undefined }}
+        >
+          {paragraphDiffs.map((para, paraIndex) => {
+            if (para.type === 'heading') {
+              const HeadingTag = `h${para.level || 1}` as keyof JSX.IntrinsicElements
+              return (
+                <HeadingTag 
+                  key={paraIndex}
+                  className={clsx(
+                    "font-bold text-theme-primary",
+                    para.level === 1 && "text-2xl",
+                    para.level === 2 && "text-xl",
+                    para.level === 3 && "text-lg"
+                  )}
+                >
+                  {para.segments.map((seg, segIndex) => renderSegment(seg, segIndex))}
+                </HeadingTag>
+              )
+            }
+            
+            return (
+              <p key={paraIndex} className="text-white/90 leading-relaxed">
+                {para.segments.map((seg, segIndex) => renderSegment(seg, segIndex))}
+              </p>
+            )
+          })}
+          {paragraphDiffs.length === 0 && (
+            <p className="text-theme-muted italic">No differences found</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,234 +1,22 @@
-import { useCallback, useMemo } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { clsx } from 'clsx'
 import { 
   DismissRegular, 
   ArrowResetRegular, 
   DeleteRegular,
   ChevronDownRegular,
-  HistoryRegular
+  HistoryRegular,
+  FlagRegular,
+  FlagFilled,
+  BranchForkRegular
 } from '@fluentui/react-icons'
-import { useProjectStore } from '../../../stores/projectStore'
-import type { DocumentVersion } from '../../../types/project'
 import type { JSONContent } from '@tiptap/core'
+import { useProjectStore } from '../../../stores/projectStore'
+import { DraftsBar } from './DraftsBar'
+import { ParagraphDiff } from './ParagraphDiff'
+import type { BlockBlame, DocumentVersion, GitCommit } from '../../../types/project'
 
-// Extract paragraphs from JSONContent as array of { type, text }
-interface Paragraph {
-  type: 'heading' | 'paragraph'
-  level?: number
-  text: string
-}
-
-function extractParagraphs(content: JSONContent): Paragraph[] {
-  const paragraphs: Paragraph[] = []
-  
-  const extractNodeText = (node: JSONContent): string => {
-    let text = ''
-    if (node.type === 'text' && node.text) {
-      text += node.text
-    }
-    if (node.content) {
-      node.content.forEach(child => {
-        text += extractNodeText(child)
-      })
-    }
-    return text
-  }
-  
-  const traverse = (node: JSONContent) => {
-    if (node.type === 'heading') {
-      paragraphs.push({
-        type: 'heading',
-        level: node.attrs?.level || 1,
-        text: extractNodeText(node)
-      })
-    } else if (node.type === 'paragraph' || node.type === 'screenplayElement') {
-      const text = extractNodeText(node)
-      if (text) {
-        paragraphs.push({
-          type: 'paragraph',
-          text
-        })
-      }
-    } else if (node.content) {
-      node.content.forEach(traverse)
-    }
-  }
-  
-  traverse(content)
-  return paragraphs
-}
-
-// Simple word-level diff
-interface DiffSegment {
-  type: 'same' | 'added' | 'removed'
-  text: string
-}
-
-function computeWordDiff(oldText: string, newText: string): DiffSegment[] {
-  const oldWords = oldText.split(/(\s+)/)
-  const newWords = newText.split(/(\s+)/)
-  
-  const segments: DiffSegment[] = []
-  
-  const m = oldWords.length
-  const n = newWords.length
-  
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
-  
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (oldWords[i - 1] === newWords[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
-      }
-    }
-  }
-  
-  let i = m, j = n
-  const result: DiffSegment[] = []
-  
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && oldWords[i - 1] === newWords[j - 1]) {
-      result.unshift({ type: 'same', text: oldWords[i - 1] })
-      i--
-      j--
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      result.unshift({ type: 'added', text: newWords[j - 1] })
-      j--
-    } else {
-      result.unshift({ type: 'removed', text: oldWords[i - 1] })
-      i--
-    }
-  }
-  
-  for (const seg of result) {
-    if (segments.length > 0 && segments[segments.length - 1].type === seg.type) {
-      segments[segments.length - 1].text += seg.text
-    } else {
-      segments.push({ ...seg })
-    }
-  }
-  
-  return segments
-}
-
-interface ParagraphDiff {
-  type: 'heading' | 'paragraph'
-  level?: number
-  segments: DiffSegment[]
-  status: 'same' | 'modified' | 'added' | 'removed'
-}
-
-function computeParagraphDiff(oldParagraphs: Paragraph[], newParagraphs: Paragraph[]): ParagraphDiff[] {
-  const result: ParagraphDiff[] = []
-  
-  let oldIdx = 0
-  let newIdx = 0
-  
-  while (oldIdx < oldParagraphs.length || newIdx < newParagraphs.length) {
-    const oldPara = oldParagraphs[oldIdx]
-    const newPara = newParagraphs[newIdx]
-    
-    if (!oldPara && newPara) {
-      result.push({
-        type: newPara.type,
-        level: newPara.level,
-        segments: [{ type: 'added', text: newPara.text }],
-        status: 'added'
-      })
-      newIdx++
-    } else if (oldPara && !newPara) {
-      result.push({
-        type: oldPara.type,
-        level: oldPara.level,
-        segments: [{ type: 'removed', text: oldPara.text }],
-        status: 'removed'
-      })
-      oldIdx++
-    } else if (oldPara && newPara) {
-      const similarity = computeSimilarity(oldPara.text, newPara.text)
-      
-      if (similarity > 0.5) {
-        const segments = computeWordDiff(oldPara.text, newPara.text)
-        const hasChanges = segments.some(s => s.type !== 'same')
-        result.push({
-          type: newPara.type,
-          level: newPara.level,
-          segments,
-          status: hasChanges ? 'modified' : 'same'
-        })
-        oldIdx++
-        newIdx++
-      } else {
-        const nextOldMatch = newParagraphs.slice(newIdx + 1).findIndex(p => computeSimilarity(oldPara.text, p.text) > 0.5)
-        const nextNewMatch = oldParagraphs.slice(oldIdx + 1).findIndex(p => computeSimilarity(newPara.text, p.text) > 0.5)
-        
-        if (nextNewMatch !== -1 && (nextOldMatch === -1 || nextNewMatch <= nextOldMatch)) {
-          result.push({
-            type: oldPara.type,
-            level: oldPara.level,
-            segments: [{ type: 'removed', text: oldPara.text }],
-            status: 'removed'
-          })
-          oldIdx++
-        } else {
-          result.push({
-            type: newPara.type,
-            level: newPara.level,
-            segments: [{ type: 'added', text: newPara.text }],
-            status: 'added'
-          })
-          newIdx++
-        }
-      }
-    }
-  }
-  
-  return result
-}
-
-function computeSimilarity(a: string, b: string): number {
-  const wordsA = new Set(a.toLowerCase().split(/\s+/).filter(Boolean))
-  const wordsB = new Set(b.toLowerCase().split(/\s+/).filter(Boolean))
-  
-  if (wordsA.size === 0 && wordsB.size === 0) return 1
-  if (wordsA.size === 0 || wordsB.size === 0) return 0
-  
-  let intersection = 0
-  for (const word of wordsA) {
-    if (wordsB.has(word)) intersection++
-  }
-  
-  return intersection / (wordsA.size + wordsB.size - intersection)
-}
-
-function renderSegment(segment: DiffSegment, index: number) {
-  if (segment.type === 'same') {
-    return <span key={index}>{segment.text}</span>
-  }
-  if (segment.type === 'removed') {
-    return (
-      <span 
-        key={index} 
-        className="bg-red-500/30 text-red-300 line-through decoration-red-400"
-      >
-        {segment.text}
-      </span>
-    )
-  }
-  if (segment.type === 'added') {
-    return (
-      <span 
-        key={index} 
-        className="bg-green-500/30 text-green-300"
-      >
-        {segment.text}
-      </span>
-    )
-  }
-  return null
-}
+type HistorySource = 'versions' | 'git'
 
 interface VersionHistoryPanelProps {
   versions: DocumentVersion[]
@@ -242,29 +30,45 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
     setVersionHistoryMode, 
     restoreVersion, 
     deleteVersion,
+    labelVersion,
     activeDocumentId,
-    documents
+    documents,
+    gitStatus
   } = useProjectStore()
   
+  // Label being typed for a new milestone (null when not editing)
+  const [milestoneLabel, setMilestoneLabel] = useState<string | null>(null)
+  const [source, setSource] = useState<HistorySource>('versions')
+  const hasGit = !!gitStatus?.initialized
+  
   const selectedVersion = useMemo(() => {
     return versions.find(v => v.id === selectedVersionId) || versions[0] || null
   }, [versions, selectedVersionId])
   
   const currentContent = activeDocumentId ? documents[activeDocumentId]?.content : null
   
-  const paragraphDiffs = useMemo(() => {
-    if (!selectedVersion?.content || !currentContent) return []
-    
-    const oldParagraphs = extractParagraphs(selectedVersion.content)
-    const newParagraphs = extractParagraphs(currentContent)
-    
-    return computeParagraphDiff(oldParagraphs, newParagraphs)
-  }, [selectedVersion?.content, currentContent])
-  
   const handleVersionSelect = useCallback((versionId: string) => {
+    setMilestoneLabel(null)
     setVersionHistoryMode(true, versionId)
   }, [setVersionHistoryMode])
   
+  const handleToggleMilestone = useCallback(async () => {
+    if (!activeDocumentId || !selectedVersion) return
+    
+    if (selectedVersion.milestone) {
+      await labelVersion(activeDocumentId, selectedVersion.id, selectedVersion.label, false)
+    } else {
+      setMilestoneLabel(selectedVersion.label || '')
+    }
+  }, [activeDocumentId, selectedVersion, labelVersion])
+  
+  const handleSaveMilestone = useCallback(async () => {
+    if (!activeDocumentId || !selectedVersion || milestoneLabel === null) return
+    
+    await labelVersion(activeDocumentId, selectedVersion.id, milestoneLabel.trim() || undefined, true)
+    setMilestoneLabel(null)
+  }, [activeDocumentId, selectedVersion, milestoneLabel, labelVersion])
+  
   const handleRestore = useCallback(async () => {
     if (!activeDocumentId || !selectedVersion) return
     
@@ -289,11 +93,32 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
     }
   }, [activeDocumentId, selectedVersion, deleteVersion])
   
+  if (hasGit && source === 'git') {
+    return (
+      <div className="flex-1 flex flex-col bg-[var(--bg-elevated)] border-l border-theme-default min-w-0">
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-theme-default bg-ink-800/50">
+          <BranchForkRegular className="w-5 h-5 text-theme-accent" />
+          <h3 className="text-sm font-medium text-theme-primary">Git History</h3>
+          <HistorySourceToggle source={source} onChange={setSource} />
+          <button
+            onClick={onClose}
+            className="p-1.5 ml-auto text-theme-muted hover:text-theme-primary transition-colors"
+            title="Close version history"
+          >
+            <DismissRegular className="w-5 h-5" />
+          </button>
+        </div>
+        <GitHistory currentContent={currentContent} useMonospaceFont={useMonospaceFont} />
+      </div>
+    )
+  }
+  
   if (!selectedVersion) {
     return (
       <div className="flex-1 flex flex-col bg-[var(--bg-elevated)] border-l border-theme-default">
         <div className="flex items-center justify-between px-4 py-3 border-b border-theme-default">
           <h3 className="text-sm font-medium text-theme-primary">Version History</h3>
+          {hasGit && <HistorySourceToggle source={source} onChange={setSource} />}
           <button
             onClick={onClose}
             className="p-1 text-theme-muted hover:text-theme-primary transition-colors"
@@ -302,6 +127,7 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
             <DismissRegular className="w-5 h-5" />
           </button>
         </div>
+        <DraftsBar />
         <div className="flex-1 flex items-center justify-center">
           <p className="text-theme-muted text-sm">No versions saved yet</p>
         </div>
@@ -314,6 +140,7 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
       <div className="flex items-center gap-3 px-4 py-3 border-b border-theme-default bg-ink-800/50">
         <HistoryRegular className="w-5 h-5 text-theme-accent" />
         <h3 className="text-sm font-medium text-theme-primary">Version History</h3>
+        {hasGit && <HistorySourceToggle source={source} onChange={setSource} />}
         
         <div className="relative flex-1 max-w-[280px]">
           <select
@@ -323,8 +150,10 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
           >
             {versions.map((version) => (
               <option key={version.id} value={version.id}>
+                {version.milestone && '★ '}
                 {formatDate(version.timestamp)}
                 {version.label && ` - ${version.label}`}
+                {version.auto && ' (auto)'}
               </option>
             ))}
           </select>
@@ -332,6 +161,17 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
         </div>
         
         <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={handleToggleMilestone}
+            className={clsx(
+              "p-1.5 rounded-md transition-colors hover:bg-theme-hover",
+              selectedVersion.milestone ? "text-theme-accent" : "text-theme-muted hover:text-theme-primary"
+            )}
+            title={selectedVersion.milestone ? "Unmark milestone" : "Mark as milestone"}
+          >
+            {selectedVersion.milestone ? <FlagFilled className="w-4 h-4" /> : <FlagRegular className="w-4 h-4" />}
+          </button>
+          
           <button
             onClick={handleRestore}
             className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-green-400 bg-green-400/10 rounded-md hover:bg-green-400/20 transition-colors"
@@ -359,6 +199,8 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
         </div>
       </div>
       
+      <DraftsBar />
+      
       <div className="px-4 py-2 border-b border-ink-700/50 bg-ink-800/30">
         <div className="flex items-center gap-4 text-xs text-theme-muted">
           <span>{formatDate(selectedVersion.timestamp)}</span>
@@ -370,46 +212,205 @@ export function VersionHistoryPanel({ versions, selectedVersionId, onClose, useM
               <span className="text-theme-accent">{selectedVersion.label}</span>
             </>
           )}
+          {(selectedVersion.milestone || selectedVersion.auto) && (
+            <>
+              <span>•</span>
+              <span>{selectedVersion.milestone ? 'Milestone' : 'Automatic snapshot'}</span>
+            </>
+          )}
         </div>
+        {milestoneLabel !== null && (
+          <div className="flex items-center gap-2 mt-2">
+            <input
+              type="text"
+              value={milestoneLabel}
+              onChange={(e) => setMilestoneLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveMilestone()
+                if (e.key === 'Escape') setMilestoneLabel(null)
+              }}
+              placeholder="Milestone label, e.g. Sent to producer"
+              className="input-modern flex-1 max-w-[320px] text-xs py-1 px-2"
+              autoFocus
+            />
+            <button
+              onClick={() => setMilestoneLabel(null)}
+              className="px-2 py-1 rounded-md text-xs text-theme-secondary hover:text-theme-primary hover:bg-theme-hover transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveMilestone}
+              className="px-2 py-1 rounded-md text-xs font-medium bg-gold-500 text-black hover:bg-gold-400 transition-colors"
+            >
+              Mark Milestone
+            </button>
+          </div>
+        )}
       </div>
       
-      <div className="flex-1 overflow-auto">
-        <div className="py-8 px-6">
-          <div 
-            className="max-w-3xl mx-auto space-y-4"
-            style={{ fontFamily: useMonospaceFont ? "'Courier New', Courier, monospace" : undefined }}
-          >
-            {paragraphDiffs.map((para, paraIndex) => {
-              if (para.type === 'heading') {
-                const HeadingTag = `h${para.level || 1}` as keyof JSX.IntrinsicElements
-                return (
-                  <HeadingTag 
-                    key={paraIndex}
-                    className={clsx(
-                      "font-bold text-theme-primary",
-                      para.level === 1 && "text-2xl",
-                      para.level === 2 && "text-xl",
-                      para.level === 3 && "text-lg"
-                    )}
-                  >
-                    {para.segments.map((seg, segIndex) => renderSegment(seg, segIndex))}
-                  </HeadingTag>
-                )
-              }
-              
-              return (
-                <p key={paraIndex} className="text-white/90 leading-relaxed">
-                  {para.segments.map((seg, segIndex) => renderSegment(seg, segIndex))}
-                </p>
-              )
-            })}
-            {paragraphDiffs.length === 0 && (
-              <p className="text-theme-muted italic">No differences found</p>
-            )}
+      <ParagraphDiff
+        oldContent={selectedVersion.content}
+        newContent={currentContent}
+        useMonospaceFont={useMonospaceFont}
+      />
+    </div>
+  )
+}
+
+function HistorySourceToggle({ source, onChange }: { source: HistorySource; onChange: (source: HistorySource) => void }) {
+  return (
+    <div className="flex items-center rounded-md border border-theme-default overflow-hidden text-xs">
+      {(['versions', 'git'] as const).map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={clsx(
+            "px-2 py-1 transition-colors",
+            source === option ? "bg-theme-active text-theme-primary" : "text-theme-muted hover:text-theme-primary hover:bg-theme-hover"
+          )}
+        >
+          {option === 'versions' ? 'Versions' : 'Git'}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function blockPreview(block: JSONContent): string {
+  const text = (node: JSONContent): string => node.text || (node.content || []).map(text).join('')
+  return text(block).trim()
+}
+
+/**
+ * Commits of the active document from the project's git repository, diffed
+ * against the current text, and which commit last changed each paragraph
+ */
+function GitHistory({ currentContent, useMonospaceFont }: { currentContent: JSONContent | null; useMonospaceFont: boolean }) {
+  const { currentProject, activeDocumentId } = useProjectStore()
+  const [commits, setCommits] = useState<GitCommit[]>([])
+  const [selectedHash, setSelectedHash] = useState<string | null>(null)
+  const [commitContent, setCommitContent] = useState<JSONContent | null>(null)
+  const [blame, setBlame] = useState<BlockBlame[] | null>(null)
+  const [showBlame, setShowBlame] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  
+  const projectPath = currentProject?.path
+  
+  useEffect(() => {
+    setCommits([])
+    setSelectedHash(null)
+    setBlame(null)
+    setError(null)
+    if (!projectPath || !activeDocumentId) return
+    
+    window.api.git.log(projectPath, activeDocumentId)
+      .then(log => {
+        setCommits(log)
+        setSelectedHash(log[0]?.hash || null)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+  }, [projectPath, activeDocumentId])
+  
+  useEffect(() => {
+    setCommitContent(null)
+    if (!projectPath || !activeDocumentId || !selectedHash) return
+    
+    window.api.git.show(projectPath, activeDocumentId, selectedHash)
+      .then(setCommitContent)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+  }, [projectPath, activeDocumentId, selectedHash])
+  
+  useEffect(() => {
+    if (!showBlame || !projectPath || !activeDocumentId) return
+    
+    window.api.git.blame(projectPath, activeDocumentId)
+      .then(setBlame)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+  }, [showBlame, projectPath, activeDocumentId])
+  
+  // Blame covers the saved file, so paragraphs are looked up by block id
+  const blameRows = useMemo(() => {
+    if (!blame || !currentContent) return []
+    const blocks = new Map<string, JSONContent>()
+    for (const block of currentContent.content || []) {
+      const blockId = block.attrs?.blockId as string | undefined
+      if (blockId) blocks.set(blockId, block)
+    }
+    return blame
+      .map(entry => ({ ...entry, preview: blocks.has(entry.blockId) ? blockPreview(blocks.get(entry.blockId)!) : null }))
+      .filter(entry => entry.preview)
+  }, [blame, currentContent])
+  
+  const selectedCommit = commits.find(c => c.hash === selectedHash) || null
+  
+  return (
+    <>
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-ink-700/50 bg-ink-800/30 text-xs text-theme-muted">
+        {commits.length > 0 && !showBlame && (
+          <div className="relative flex-1 max-w-[360px]">
+            <select
+              value={selectedHash || ''}
+              onChange={(e) => setSelectedHash(e.target.value)}
+              className="w-full appearance-none bg-[var(--bg-tertiary)] border border-theme-default rounded-md px-3 py-1.5 pr-8 text-xs text-theme-primary focus:outline-none focus:ring-2 focus:ring-gold-400/50"
+            >
+              {commits.map(commit => (
+                <option key={commit.hash} value={commit.hash}>
+                  {formatDate(commit.date)} - {commit.message}
+                </option>
+              ))}
+            </select>
+            <ChevronDownRegular className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-theme-muted pointer-events-none" />
           </div>
-        </div>
+        )}
+        {selectedCommit && !showBlame && (
+          <span className="truncate">{selectedCommit.author} • {selectedCommit.hash.slice(0, 7)}</span>
+        )}
+        <button
+          onClick={() => setShowBlame(!showBlame)}
+          className={clsx(
+            "ml-auto px-2 py-1 rounded-md transition-colors",
+            showBlame ? "bg-theme-active text-theme-primary" : "hover:text-theme-primary hover:bg-theme-hover"
+          )}
+          title="Show the commit that last changed each paragraph"
+        >
+          Blame
+        </button>
       </div>
-    </div>
+      
+      {error && <p className="px-4 py-2 text-xs text-red-400/80">{error}</p>}
+      
+      {showBlame ? (
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          {blameRows.length === 0 && <p className="text-theme-muted text-sm">No committed paragraphs yet</p>}
+          {blameRows.map(row => (
+            <div key={row.blockId} className="flex gap-4 text-sm">
+              <div className="w-48 shrink-0 text-xs text-theme-muted" title={row.commit?.hash}>
+                {row.commit ? (
+                  <>
+                    <div className="text-theme-secondary truncate">{row.commit.message}</div>
+                    <div className="truncate">{row.commit.author} • {formatDate(row.commit.date)}</div>
+                  </>
+                ) : (
+                  <div className="italic">Not committed</div>
+                )}
+              </div>
+              <p className={clsx("flex-1 min-w-0 text-theme-primary line-clamp-3", useMonospaceFont && "font-mono")}>{row.preview}</p>
+            </div>
+          ))}
+        </div>
+      ) : commits.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-theme-muted text-sm">This document has no commits yet</p>
+        </div>
+      ) : (
+        <ParagraphDiff
+          oldContent={commitContent}
+          newContent={currentContent}
+          useMonospaceFont={useMonospaceFont}
+        />
+      )}
+    </>
   )
 }
 
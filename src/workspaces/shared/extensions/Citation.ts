@@ -7,9 +7,10 @@ export interface CitationOptions {
    */
   HTMLAttributes: Record<string, any>
   /**
-   * Callback when a citation is clicked
+   * Callback when a citation is clicked, with the cited text so a source
+   * block that has since changed can be found again
    */
-  onCitationClick?: (sourceDocumentId: string, sourceBlockId: string) => void
+  onCitationClick?: (sourceDocumentId: string, sourceBlockId: string, citedText: string) => void
 }
 
 export interface CitationAttributes {
@@ -153,7 +154,7 @@ export const Citation = Mark.create<CitationOptions>({
               if (docId) {
                 event.preventDefault()
                 event.stopPropagation()
-                onCitationClick(docId, blockId || '')
+                onCitationClick(docId, blockId || '', target.textContent || '')
                 return true
               }
 
@@ -0,0 +1,139 @@
+import { Node, mergeAttributes, type JSONContent } from '@tiptap/core'
+import { ReactNodeViewRenderer, NodeViewWrapper, type NodeViewProps } from '@tiptap/react'
+import { MERGE_CONFLICT_NODE, type MergeConflictAttributes } from '../../../utils/blockMerge'
+
+export type MergeConflictResolution = 'current' | 'incoming' | 'both'
+
+export interface MergeConflictOptions {
+  HTMLAttributes: Record<string, unknown>
+}
+
+function resolvedBlocks(attrs: MergeConflictAttributes, resolution: MergeConflictResolution): JSONContent[] {
+  switch (resolution) {
+    case 'current':
+      return attrs.current
+    case 'incoming':
+      return attrs.incoming
+    case 'both':
+      return [...attrs.current, ...attrs.incoming]
+  }
+}
+
+function blockText(blocks: JSONContent[]): string {
+  const text = (node: JSONContent): string => node.text || (node.content || []).map(text).join('')
+  return blocks.map(text).join('\n')
+}
+
+// React component for the merge conflict node view
+function MergeConflictComponent({ node, editor, getPos }: NodeViewProps) {
+  const attrs = node.attrs as MergeConflictAttributes
+  const { current, incoming, draftName } = attrs
+
+  const resolve = (resolution: MergeConflictResolution) => (e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    const pos = getPos()
+    if (pos === undefined) return
+
+    // Replace the conflict with the chosen blocks in one transaction
+    editor.chain().focus().command(({ tr, state }) => {
+      const blocks = resolvedBlocks(attrs, resolution).map(block => state.schema.nodeFromJSON(block))
+      tr.replaceWith(pos, pos + node.nodeSize, blocks)
+      return true
+    }).run()
+  }
+
+  const side = (label: string, blocks: JSONContent[], className: string) => (
+    <div className={`flex-1 min-w-0 rounded px-2 py-1.5 ${className}`}>
+      <div className="text-[10px] font-ui uppercase tracking-wider opacity-70 mb-1">{label}</div>
+      <div className="text-sm whitespace-pre-wrap">
+        {blocks.length > 0 ? blockText(blocks) : <span className="italic opacity-70">Deleted</span>}
+      </div>
+    </div>
+  )
+
+  return (
+    <NodeViewWrapper className="merge-conflict-wrapper my-2" contentEditable={false}>
+      <div className="rounded-lg border border-gold-400/40 bg-ink-800/50 p-2">
+        <div className="flex gap-2">
+          {side('Current draft', current, 'bg-blue-500/10 text-blue-200')}
+          {side(`Draft "${draftName}"`, incoming, 'bg-green-500/10 text-green-200')}
+        </div>
+        <div className="flex items-center justify-end gap-1 mt-2 font-ui">
+          <button
+            onClick={resolve('current')}
+            className="px-2 py-1 rounded text-xs bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 transition-colors"
+          >
+            Keep Current
+          </button>
+          <button
+            onClick={resolve('incoming')}
+            className="px-2 py-1 rounded text-xs bg-green-500/20 text-green-300 hover:bg-green-500/30 transition-colors"
+          >
+            Keep "{draftName}"
+          </button>
+          <button
+            onClick={resolve('both')}
+            className="px-2 py-1 rounded text-xs bg-theme-hover text-theme-secondary hover:text-theme-primary transition-colors"
+          >
+            Keep Both
+          </button>
+        </div>
+      </div>
+    </NodeViewWrapper>
+  )
+}
+
+export const MergeConflict = Node.create<MergeConflictOptions>({
+  name: MERGE_CONFLICT_NODE,
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  draggable: false,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    }
+  },
+
+  addAttributes() {
+    const jsonAttribute = (name: keyof MergeConflictAttributes, fallback: unknown) => ({
+      default: fallback,
+      parseHTML: (element: HTMLElement) => {
+        const value = element.getAttribute(`data-${name}`)
+        return value === null ? fallback : JSON.parse(value)
+      },
+      renderHTML: (attributes: Record<string, unknown>) => ({
+        [`data-${name}`]: JSON.stringify(attributes[name]),
+      }),
+    })
+
+    return {
+      current: jsonAttribute('current', []),
+      incoming: jsonAttribute('incoming', []),
+      draftName: jsonAttribute('draftName', ''),
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-merge-conflict]',
+      },
+    ]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes({ 'data-merge-conflict': '' }, this.options.HTMLAttributes, HTMLAttributes)]
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MergeConflictComponent)
+  },
+})
@@ -20,6 +20,9 @@ export type { CitationOptions, CitationAttributes } from './Citation'
 export { FixPreview } from './FixPreview'
 export type { FixPreviewOptions, FixPreviewAttributes } from './FixPreview'
 
+export { MergeConflict } from './MergeConflict'
+export type { MergeConflictOptions, MergeConflictResolution } from './MergeConflict'
+
 export { MentionPreview } from './MentionPreview'
 export type { MentionPreviewOptions, MentionPreviewAttributes } from './MentionPreview'
 